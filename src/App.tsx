@@ -1,23 +1,40 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { AuthProvider, useAuth } from '@/contexts/AuthContext';
+import { LanguageProvider } from '@/contexts/LanguageContext';
 import Layout from '@/components/Layout';
 import Login from '@/components/Login';
 import SignUp from '@/components/SignUp';
 import Dashboard from '@/components/Dashboard';
 import ScheduleCalendar from '@/components/ScheduleCalendar';
 import RequestManager from '@/components/RequestManager';
+import AvailabilityManager from '@/components/AvailabilityManager';
 import PersonnelManager from '@/components/PersonnelManager';
 import ConflictManager from '@/components/ConflictManager';
 import Reports from '@/components/Reports';
 import Settings from '@/components/Settings';
+import AuditLog from '@/components/AuditLog';
 import Profile from '@/components/Profile';
 import { Toaster } from '@/components/ui/toaster';
+import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { backupService } from '@/lib/backup';
+import { constraintEngine } from '@/lib/constraints';
 
 const AppContent: React.FC = () => {
-  const { isAuthenticated } = useAuth();
+  const { isAuthenticated, user } = useAuth();
   const [currentPage, setCurrentPage] = useState('dashboard');
   const [showSignUp, setShowSignUp] = useState(false);
 
+  // Rule settings are shared through the backend, so they are loaded once someone signs in
+  useEffect(() => {
+    if (user) constraintEngine.load();
+  }, [user]);
+
+  // Scheduled backups run in the browser of whoever manages the system settings
+  useEffect(() => {
+    if (!user || !hasPermission(user, PERMISSIONS.MANAGE_USERS)) return;
+    return backupService.startAutoBackups(user.id);
+  }, [user]);
+
   if (!isAuthenticated) {
     if (showSignUp) {
       return <SignUp onBackToLogin={() => setShowSignUp(false)} />;
@@ -31,14 +48,18 @@ const AppContent: React.FC = () => {
         return <Dashboard onPageChange={setCurrentPage} />;
       case 'schedule':
         return <ScheduleCalendar />;
-      case 'availability':
+      case 'requests':
         return <RequestManager />;
+      case 'availability':
+        return <AvailabilityManager />;
       case 'personnel':
         return <PersonnelManager />;
       case 'conflicts':
         return <ConflictManager />;
       case 'reports':
         return <Reports />;
+      case 'audit':
+        return <AuditLog />;
       case 'settings':
         return <Settings />;
       case 'profile':
@@ -58,10 +79,12 @@ const AppContent: React.FC = () => {
 function App() {
   return (
     <AuthProvider>
-      <div className="min-h-screen bg-gray-50">
-        <AppContent />
-        <Toaster />
-      </div>
+      <LanguageProvider>
+        <div className="min-h-screen bg-gray-50">
+          <AppContent />
+          <Toaster />
+        </div>
+      </LanguageProvider>
     </AuthProvider>
   );
 }
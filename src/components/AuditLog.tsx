@@ -0,0 +1,355 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from '@/components/ui/select';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { AlertTriangle, Eye, History, RefreshCw, Shield } from 'lucide-react';
+import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/hooks/use-language';
+import { dataProvider } from '@/lib/data-provider';
+import { auditService, AuditFilters } from '@/lib/audit';
+import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { AuditAction, AuditEntityType, AuditEntry } from '@/types';
+import { TranslationKey } from '@/lib/i18n';
+import { toast } from '@/hooks/use-toast';
+
+const PAGE_SIZE = 100;
+
+const ACTION_COLORS: Record<AuditAction, string> = {
+  CREATE: 'bg-green-100 text-green-800',
+  UPDATE: 'bg-blue-100 text-blue-800',
+  DELETE: 'bg-red-100 text-red-800',
+  APPROVE: 'bg-emerald-100 text-emerald-800',
+  REJECT: 'bg-orange-100 text-orange-800',
+  RESOLVE: 'bg-purple-100 text-purple-800',
+  OVERRIDE: 'bg-yellow-100 text-yellow-800',
+  RESTORE: 'bg-gray-200 text-gray-800',
+};
+
+const ENTITY_TYPES: AuditEntityType[] = [
+  'SCHEDULE',
+  'USER',
+  'DUTY_TYPE',
+  'DUTY_TEMPLATE',
+  'AVAILABILITY',
+  'LEAVE_REQUEST',
+  'DUTY_CHANGE_REQUEST',
+  'SHIFT_SWAP',
+  'CONFLICT',
+  'CONSTRAINT',
+  'SETTINGS',
+  'BACKUP',
+];
+
+const EMPTY_FILTERS: AuditFilters = {
+  search: '',
+  action: 'all',
+  entityType: 'all',
+  actorId: 'all',
+  from: '',
+  to: '',
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+const AuditLog: React.FC = () => {
+  const { user } = useAuth();
+  const { t } = useLanguage();
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [filters, setFilters] = useState<AuditFilters>(EMPTY_FILTERS);
+  const [visibleCount, setVisibleCount] = useState(PAGE_SIZE);
+  const [selectedEntry, setSelectedEntry] = useState<AuditEntry | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  const canViewAuditLog = hasPermission(user!, PERMISSIONS.VIEW_AUDIT_LOG);
+
+  useEffect(() => {
+    if (canViewAuditLog) loadEntries();
+  }, [canViewAuditLog]);
+
+  const loadEntries = async () => {
+    setLoading(true);
+    try {
+      setEntries(await dataProvider.fetchAuditLog());
+    } catch (error) {
+      console.error('Error loading audit log:', error);
+      toast({
+        title: t('audit.error'),
+        description: t('audit.loadFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const updateFilter = <K extends keyof AuditFilters>(key: K, value: AuditFilters[K]) => {
+    setFilters(prev => ({ ...prev, [key]: value }));
+    setVisibleCount(PAGE_SIZE);
+  };
+
+  const actors = useMemo(() => {
+    const byId = new Map(entries.map(e => [e.actorId, e.actorName]));
+    return Array.from(byId, ([id, name]) => ({ id, name })).sort((a, b) => a.name.localeCompare(b.name));
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => auditService.filterEntries(entries, filters), [entries, filters]);
+
+  const actionLabel = (action: AuditAction) => t(`audit.actions.${action}` as TranslationKey);
+  const entityLabel = (entityType: AuditEntityType) => t(`audit.entities.${entityType}` as TranslationKey);
+
+  if (!canViewAuditLog) {
+    return (
+      <div className="text-center py-12">
+        <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{t('audit.accessRestricted')}</h2>
+        <p className="text-gray-600">{t('audit.noPermission')}</p>
+      </div>
+    );
+  }
+
+  const renderDetails = (entry: AuditEntry) => {
+    const changes = auditService.getChanges(entry);
+
+    return (
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-2 text-sm">
+          <div><span className="text-gray-500">{t('audit.time')}:</span> {new Date(entry.timestamp).toLocaleString()}</div>
+          <div><span className="text-gray-500">{t('audit.by')}:</span> {entry.actorName}</div>
+          <div><span className="text-gray-500">{t('audit.entity')}:</span> {entityLabel(entry.entityType)}</div>
+          <div className="truncate"><span className="text-gray-500">{t('audit.id')}:</span> {entry.entityId}</div>
+        </div>
+
+        {changes.length === 0 ? (
+          <p className="text-sm text-gray-500">{t('audit.noFieldChanges')}</p>
+        ) : (
+          <div className="max-h-96 overflow-y-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('audit.field')}</TableHead>
+                  <TableHead>{t('audit.before')}</TableHead>
+                  <TableHead>{t('audit.after')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {changes.map(change => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-medium align-top">{change.field}</TableCell>
+                    <TableCell className="align-top text-red-700 break-all max-w-[16rem]">{formatValue(change.before)}</TableCell>
+                    <TableCell className="align-top text-green-700 break-all max-w-[16rem]">{formatValue(change.after)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          </div>
+        )}
+      </div>
+    );
+  };
+
+  return (
+    <div className="space-y-6">
+      {/* Header */}
+      <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900">{t('nav.audit')}</h1>
+          <p className="text-gray-600">{t('audit.subtitle')}</p>
+        </div>
+        <Button variant="outline" onClick={loadEntries} disabled={loading}>
+          <RefreshCw className={`h-4 w-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          {t('audit.refresh')}
+        </Button>
+      </div>
+
+      {!auditService.isEnabled() && (
+        <Alert>
+          <AlertTriangle className="h-4 w-4" />
+          <AlertDescription>
+            {t('audit.disabled')}
+          </AlertDescription>
+        </Alert>
+      )}
+
+      {/* Filters */}
+      <Card>
+        <CardContent className="pt-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
+            <div className="space-y-2 lg:col-span-2">
+              <Label htmlFor="audit-search">{t('audit.search')}</Label>
+              <Input
+                id="audit-search"
+                placeholder={t('audit.searchPlaceholder')}
+                value={filters.search}
+                onChange={(e) => updateFilter('search', e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>{t('audit.action')}</Label>
+              <Select value={filters.action} onValueChange={(value: AuditFilters['action']) => updateFilter('action', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('audit.allActions')}</SelectItem>
+                  {(Object.keys(ACTION_COLORS) as AuditAction[]).map(action => (
+                    <SelectItem key={action} value={action}>{actionLabel(action)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label>{t('audit.recordType')}</Label>
+              <Select value={filters.entityType} onValueChange={(value: AuditFilters['entityType']) => updateFilter('entityType', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('audit.allRecords')}</SelectItem>
+                  {ENTITY_TYPES.map(entityType => (
+                    <SelectItem key={entityType} value={entityType}>{entityLabel(entityType)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2 lg:col-span-2">
+              <Label>{t('audit.performedBy')}</Label>
+              <Select value={filters.actorId} onValueChange={(value) => updateFilter('actorId', value)}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">{t('audit.everyone')}</SelectItem>
+                  {actors.map(actor => (
+                    <SelectItem key={actor.id} value={actor.id}>{actor.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-from">{t('audit.from')}</Label>
+              <Input id="audit-from" type="date" value={filters.from} onChange={(e) => updateFilter('from', e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="audit-to">{t('audit.to')}</Label>
+              <Input id="audit-to" type="date" value={filters.to} onChange={(e) => updateFilter('to', e.target.value)} />
+            </div>
+            <div className="flex items-end">
+              <Button variant="ghost" onClick={() => { setFilters(EMPTY_FILTERS); setVisibleCount(PAGE_SIZE); }}>
+                {t('audit.clearFilters')}
+              </Button>
+            </div>
+          </div>
+        </CardContent>
+      </Card>
+
+      {/* Entries */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <History className="h-5 w-5" />
+            <span>{t('audit.activity')}</span>
+          </CardTitle>
+          <CardDescription>
+            {t('audit.entryCount', { shown: filteredEntries.length, total: entries.length })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent>
+          {loading ? (
+            <div className="animate-pulse space-y-2">
+              {[...Array(5)].map((_, i) => (
+                <div key={i} className="h-8 bg-gray-200 rounded"></div>
+              ))}
+            </div>
+          ) : filteredEntries.length === 0 ? (
+            <p className="text-center text-gray-500 py-8">{t('audit.noMatches')}</p>
+          ) : (
+            <>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>{t('audit.time')}</TableHead>
+                    <TableHead>{t('audit.performedBy')}</TableHead>
+                    <TableHead>{t('audit.action')}</TableHead>
+                    <TableHead>{t('audit.record')}</TableHead>
+                    <TableHead>{t('audit.summary')}</TableHead>
+                    <TableHead />
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredEntries.slice(0, visibleCount).map(entry => (
+                    <TableRow key={entry.id}>
+                      <TableCell className="whitespace-nowrap text-sm">{new Date(entry.timestamp).toLocaleString()}</TableCell>
+                      <TableCell className="text-sm">{entry.actorName}</TableCell>
+                      <TableCell>
+                        <Badge className={ACTION_COLORS[entry.action]}>{actionLabel(entry.action)}</Badge>
+                      </TableCell>
+                      <TableCell className="text-sm">
+                        <div>{entityLabel(entry.entityType)}</div>
+                        <div className="text-xs text-gray-500 truncate max-w-[12rem]">{entry.entityId}</div>
+                      </TableCell>
+                      <TableCell className="text-sm">{entry.summary}</TableCell>
+                      <TableCell>
+                        <Button variant="ghost" size="sm" title={t('audit.details')} onClick={() => setSelectedEntry(entry)}>
+                          <Eye className="h-4 w-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+              {filteredEntries.length > visibleCount && (
+                <div className="flex justify-center pt-4">
+                  <Button variant="outline" onClick={() => setVisibleCount(count => count + PAGE_SIZE)}>
+                    {t('audit.showMore')}
+                  </Button>
+                </div>
+              )}
+            </>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEntry} onOpenChange={(open) => !open && setSelectedEntry(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{selectedEntry?.summary}</DialogTitle>
+            <DialogDescription>
+              {selectedEntry && t('audit.actionOn', { action: actionLabel(selectedEntry.action), record: entityLabel(selectedEntry.entityType) })}
+            </DialogDescription>
+          </DialogHeader>
+          {selectedEntry && renderDetails(selectedEntry)}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+};
+
+export default AuditLog;
@@ -0,0 +1,312 @@
+import React, { useState } from 'react';
+import moment from 'moment';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { AlertTriangle, CheckCircle, RefreshCw, Trash2, Wand2 } from 'lucide-react';
+import { dataProvider } from '@/lib/data-provider';
+import { autoScheduler, RosterDraft, RosterOptions, RosterData } from '@/lib/scheduler';
+import { fairnessService } from '@/lib/fairness';
+import { Schedule, User, DutyType } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+
+interface AutoScheduleDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  users: User[];
+  dutyTypes: DutyType[];
+  assignedBy: string;
+  onRosterCommitted: (schedules: Omit<Schedule, 'id'>[]) => Promise<void>;
+}
+
+export function AutoScheduleDialog({
+  isOpen,
+  onClose,
+  users,
+  dutyTypes,
+  assignedBy,
+  onRosterCommitted,
+}: AutoScheduleDialogProps) {
+  const { t, dutyTypeName } = useLanguage();
+  const [startDate, setStartDate] = useState(moment().add(1, 'day').format('YYYY-MM-DD'));
+  const [endDate, setEndDate] = useState(moment().add(7, 'days').format('YYYY-MM-DD'));
+  const [shiftStartHour, setShiftStartHour] = useState(6);
+  const [selectedDutyTypes, setSelectedDutyTypes] = useState<string[]>([]);
+  const [draft, setDraft] = useState<RosterDraft | null>(null);
+  const [rosterData, setRosterData] = useState<RosterData | null>(null);
+  const [isGenerating, setIsGenerating] = useState(false);
+  const [isCommitting, setIsCommitting] = useState(false);
+
+  const getOptions = (): RosterOptions => ({
+    startDate: moment(startDate).startOf('day').toDate(),
+    endDate: moment(endDate).endOf('day').toDate(),
+    dutyTypeIds: selectedDutyTypes.length > 0 ? selectedDutyTypes : undefined,
+    shiftStartHour,
+    assignedBy,
+  });
+
+  const handleGenerate = async () => {
+    setIsGenerating(true);
+    try {
+      const options = getOptions();
+      // Duties the roster is weighed against: rest around the period and the fairness window ending with it
+      const from = moment.min(
+        moment(options.startDate).subtract(1, 'day'),
+        moment(fairnessService.getRollingWindow(undefined, options.endDate).from)
+      );
+      const [availability, schedules] = await Promise.all([
+        dataProvider.fetchAvailability(),
+        dataProvider.querySchedules({
+          from: from.toISOString(),
+          to: moment(options.endDate).add(1, 'day').toISOString(),
+        }),
+      ]);
+      const data: RosterData = { users, dutyTypes, schedules, availability };
+      setRosterData(data);
+      setDraft(autoScheduler.generateRoster(options, data));
+    } catch (error) {
+      console.error('Error generating roster:', error);
+    } finally {
+      setIsGenerating(false);
+    }
+  };
+
+  const handleReassign = (index: number, userId: string) => {
+    if (!draft || !rosterData) return;
+    const assignments = draft.assignments.map((a, i) =>
+      i === index ? { ...a, schedule: { ...a.schedule, userId } } : a
+    );
+    setDraft(autoScheduler.recalculateDraft({ ...draft, assignments }, getOptions(), rosterData));
+  };
+
+  const handleRemove = (index: number) => {
+    if (!draft || !rosterData) return;
+    const assignments = draft.assignments.filter((_, i) => i !== index);
+    setDraft(autoScheduler.recalculateDraft({ ...draft, assignments }, getOptions(), rosterData));
+  };
+
+  const handleCommit = async () => {
+    if (!draft || draft.assignments.length === 0) return;
+
+    setIsCommitting(true);
+    try {
+      await onRosterCommitted(draft.assignments.map(a => a.schedule));
+      handleClose();
+    } catch (error) {
+      console.error('Error committing roster:', error);
+    } finally {
+      setIsCommitting(false);
+    }
+  };
+
+  const handleClose = () => {
+    setDraft(null);
+    setRosterData(null);
+    onClose();
+  };
+
+  const getUserName = (userId: string) => {
+    const u = users.find(user => user.id === userId);
+    return u ? `${u.rank} ${u.firstName} ${u.lastName}` : userId;
+  };
+
+  // Options for a row: the person already there plus anyone else eligible for the slot
+  const getReassignOptions = (index: number): User[] => {
+    if (!draft || !rosterData) return [];
+    const assignment = draft.assignments[index];
+    const slot = draft.slots.find(s => s.key === assignment.slotKey);
+    if (!slot) return [];
+
+    const others = draft.assignments.filter((_, i) => i !== index);
+    const candidates = autoScheduler.findCandidates(slot, rosterData, others, draft.hoursByUser);
+    const current = users.find(u => u.id === assignment.schedule.userId);
+    return current && !candidates.some(c => c.id === current.id) ? [current, ...candidates] : candidates;
+  };
+
+  const toggleDutyType = (dutyTypeId: string, checked: boolean) => {
+    setSelectedDutyTypes(prev =>
+      checked ? [...prev, dutyTypeId] : prev.filter(id => id !== dutyTypeId)
+    );
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Wand2 className="h-5 w-5" />
+            {t('autoSchedule.title')}
+          </DialogTitle>
+          <DialogDescription>{t('autoSchedule.description')}</DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rosterStart">{t('autoSchedule.from')}</Label>
+              <Input
+                id="rosterStart"
+                type="date"
+                value={startDate}
+                onChange={(e) => setStartDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rosterEnd">{t('autoSchedule.to')}</Label>
+              <Input
+                id="rosterEnd"
+                type="date"
+                value={endDate}
+                onChange={(e) => setEndDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="shiftStartHour">{t('autoSchedule.shiftStartHour')}</Label>
+              <Input
+                id="shiftStartHour"
+                type="number"
+                min={0}
+                max={23}
+                value={shiftStartHour}
+                onChange={(e) => setShiftStartHour(Math.min(23, Math.max(0, parseInt(e.target.value) || 0)))}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label>{t('autoSchedule.dutyTypes')}</Label>
+            <div className="grid grid-cols-2 md:grid-cols-3 gap-2">
+              {dutyTypes.map(dt => (
+                <div key={dt.id} className="flex items-center space-x-2">
+                  <Checkbox
+                    id={`roster-${dt.id}`}
+                    checked={selectedDutyTypes.includes(dt.id)}
+                    onCheckedChange={(checked) => toggleDutyType(dt.id, !!checked)}
+                  />
+                  <label htmlFor={`roster-${dt.id}`} className="text-sm flex items-center space-x-2">
+                    <span className="w-3 h-3 rounded inline-block" style={{ backgroundColor: dt.color }} />
+                    <span>{dutyTypeName(dt)}</span>
+                  </label>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <Button onClick={handleGenerate} disabled={isGenerating || !startDate || !endDate}>
+            {isGenerating ? (
+              <RefreshCw className="h-4 w-4 mr-2 animate-spin" />
+            ) : (
+              <Wand2 className="h-4 w-4 mr-2" />
+            )}
+            {draft ? t('autoSchedule.regenerate') : t('autoSchedule.generate')}
+          </Button>
+
+          {draft && (
+            <div className="space-y-4">
+              {draft.unfilled.length > 0 ? (
+                <Alert variant="destructive">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    {t('autoSchedule.unfilled', { count: draft.unfilled.length })}
+                    <ul className="mt-2 text-xs list-disc list-inside">
+                      {draft.unfilled.slice(0, 5).map(u => (
+                        <li key={u.slot.key}>
+                          {dutyTypeName(dutyTypes.find(dt => dt.id === u.slot.dutyTypeId))} {moment(u.slot.startTime).format('MMM DD HH:mm')} –{' '}
+                          {t('autoSchedule.missing', { count: u.missing })}
+                        </li>
+                      ))}
+                      {draft.unfilled.length > 5 && <li>{t('autoSchedule.andMore', { count: draft.unfilled.length - 5 })}</li>}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              ) : (
+                <Alert>
+                  <CheckCircle className="h-4 w-4" />
+                  <AlertDescription>{t('autoSchedule.allFilled')}</AlertDescription>
+                </Alert>
+              )}
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">
+                  {t('autoSchedule.proposed', { count: draft.assignments.length })}
+                </p>
+                <div className="border rounded divide-y max-h-80 overflow-y-auto">
+                  {draft.assignments.map((assignment, index) => {
+                    const dutyType = dutyTypes.find(dt => dt.id === assignment.schedule.dutyTypeId);
+                    return (
+                      <div key={`${assignment.slotKey}-${index}`} className="flex items-center gap-3 p-2 text-sm">
+                        <span className="w-3 h-3 rounded flex-shrink-0" style={{ backgroundColor: dutyType?.color }} />
+                        <div className="w-40 flex-shrink-0">
+                          <p className="font-medium">{dutyTypeName(dutyType)}</p>
+                          <p className="text-xs text-gray-500">
+                            {moment(assignment.schedule.startTime).format('MMM DD HH:mm')} – {moment(assignment.schedule.endTime).format('HH:mm')}
+                          </p>
+                        </div>
+                        <Select
+                          value={assignment.schedule.userId}
+                          onValueChange={(value) => handleReassign(index, value)}
+                        >
+                          <SelectTrigger className="h-8 flex-1">
+                            <SelectValue />
+                          </SelectTrigger>
+                          <SelectContent>
+                            {getReassignOptions(index).map(u => (
+                              <SelectItem key={u.id} value={u.id}>
+                                {u.rank} {u.firstName} {u.lastName}
+                              </SelectItem>
+                            ))}
+                          </SelectContent>
+                        </Select>
+                        <Button variant="ghost" size="sm" onClick={() => handleRemove(index)}>
+                          <Trash2 className="h-4 w-4" />
+                        </Button>
+                      </div>
+                    );
+                  })}
+                </div>
+              </div>
+
+              <div>
+                <p className="text-sm font-medium text-gray-700 mb-2">{t('autoSchedule.hoursPerPerson')}</p>
+                <div className="flex flex-wrap gap-2">
+                  {Object.entries(draft.hoursByUser)
+                    .sort(([, a], [, b]) => b - a)
+                    .map(([userId, hours]) => (
+                      <Badge key={userId} variant="outline" className="text-xs">
+                        {getUserName(userId)}: {t('autoSchedule.hoursShort', { count: Math.round(hours) })}
+                      </Badge>
+                    ))}
+                </div>
+              </div>
+            </div>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={handleClose}>
+            {t('common.cancel')}
+          </Button>
+          <Button
+            onClick={handleCommit}
+            disabled={!draft || draft.assignments.length === 0 || isCommitting}
+          >
+            {isCommitting && <RefreshCw className="h-4 w-4 mr-2 animate-spin" />}
+            {t('autoSchedule.commit', { count: draft ? draft.assignments.length : 0 })}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
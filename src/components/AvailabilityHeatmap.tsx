@@ -0,0 +1,113 @@
+import React, { useMemo, useState } from 'react';
+import moment from 'moment';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { startOfWeek, summarizeDailyAvailability, DailyAvailabilitySummary } from '@/lib/availability';
+import { Availability, User } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+
+const DAYS_SHOWN = 14;
+
+// Share of the unit fully available that day, from red (nobody) to green (everyone)
+const getHeatColor = (summary: DailyAvailabilitySummary): string => {
+  if (summary.total === 0) return 'bg-gray-100 text-gray-400';
+  const ratio = summary.available / summary.total;
+  if (ratio >= 0.9) return 'bg-green-500 text-white';
+  if (ratio >= 0.75) return 'bg-green-300 text-green-900';
+  if (ratio >= 0.5) return 'bg-yellow-300 text-yellow-900';
+  if (ratio >= 0.25) return 'bg-orange-400 text-white';
+  return 'bg-red-500 text-white';
+};
+
+interface AvailabilityHeatmapProps {
+  users: User[];
+  availability: Availability[];
+}
+
+export function AvailabilityHeatmap({ users, availability }: AvailabilityHeatmapProps) {
+  const { t } = useLanguage();
+  const [rangeStart, setRangeStart] = useState(() => startOfWeek(new Date()));
+
+  const days = useMemo(
+    () => Array.from({ length: DAYS_SHOWN }, (_, i) => moment(rangeStart).add(i, 'days').toDate()),
+    [rangeStart]
+  );
+
+  const rows = useMemo(() => {
+    const activeUsers = users.filter(u => u.isActive !== false);
+    const units = Array.from(new Set(activeUsers.map(u => u.unit))).sort();
+    return [
+      { label: t('availability.heatmap.allUnits'), members: activeUsers },
+      ...units.map(unit => ({ label: unit, members: activeUsers.filter(u => u.unit === unit) })),
+    ].map(row => ({
+      ...row,
+      summaries: days.map(day => summarizeDailyAvailability(row.members, availability, day)),
+    }));
+  }, [users, availability, days, t]);
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-3 lg:space-y-0">
+          <div>
+            <CardTitle>{t('availability.heatmap.title')}</CardTitle>
+            <CardDescription>{t('availability.heatmap.description')}</CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => setRangeStart(prev => moment(prev).subtract(1, 'week').toDate())}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <Button variant="outline" size="sm" onClick={() => setRangeStart(prev => moment(prev).add(1, 'week').toDate())}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="border-separate border-spacing-1">
+            <thead>
+              <tr>
+                <th />
+                {days.map(day => (
+                  <th key={day.toISOString()} className="text-xs font-normal text-gray-500 px-1">
+                    <div>{moment(day).format('ddd')}</div>
+                    <div>{moment(day).format('D/M')}</div>
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {rows.map(row => (
+                <tr key={row.label}>
+                  <td className="text-sm font-medium text-gray-700 pr-3 whitespace-nowrap">{row.label}</td>
+                  {row.summaries.map((summary, i) => (
+                    <td
+                      key={i}
+                      className={`h-10 w-12 rounded text-center text-xs font-medium ${getHeatColor(summary)}`}
+                      title={t('availability.heatmap.cellTitle', {
+                        available: summary.available,
+                        limited: summary.limited,
+                        unavailable: summary.unavailable,
+                      })}
+                    >
+                      {summary.available}/{summary.total}
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+        <div className="flex items-center space-x-4 mt-4 text-xs text-gray-600">
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-green-500 mr-1" />90%+</span>
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-green-300 mr-1" />75%+</span>
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-yellow-300 mr-1" />50%+</span>
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-orange-400 mr-1" />25%+</span>
+          <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-red-500 mr-1" />{t('availability.heatmap.below')}</span>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
@@ -1,10 +1,17 @@
 import React, { useState, useEffect } from 'react';
+import moment from 'moment';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Input } from '@/components/ui/input';
 import { Textarea } from '@/components/ui/textarea';
-import { Calendar } from '@/components/ui/calendar';
+import { Checkbox } from '@/components/ui/checkbox';
+import {
+  Tabs,
+  TabsContent,
+  TabsList,
+  TabsTrigger,
+} from '@/components/ui/tabs';
 import {
   Dialog,
   DialogContent,
@@ -30,15 +37,23 @@ import {
   XCircle,
   AlertCircle,
   Calendar as CalendarIcon,
+  Repeat,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
-import { Availability, User } from '@/types';
+import { dataProvider } from '@/lib/data-provider';
+import { Availability, AvailabilityPattern, User } from '@/types';
 import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { useLanguage } from '@/hooks/use-language';
+import { toast } from '@/hooks/use-toast';
+import { WeeklyAvailabilityGrid } from '@/components/WeeklyAvailabilityGrid';
+import { AvailabilityHeatmap } from '@/components/AvailabilityHeatmap';
 
 const AvailabilityManager: React.FC = () => {
   const { user } = useAuth();
+  const { t } = useLanguage();
   const [availability, setAvailability] = useState<Availability[]>([]);
+  const [patterns, setPatterns] = useState<AvailabilityPattern[]>([]);
+  const [activeTab, setActiveTab] = useState('grid');
   const [users, setUsers] = useState<User[]>([]);
   const [selectedUser, setSelectedUser] = useState<string>(user?.id || '');
   const [showCreateDialog, setShowCreateDialog] = useState(false);
@@ -55,6 +70,14 @@ const AvailabilityManager: React.FC = () => {
     notes: '',
   });
 
+  const [patternFormData, setPatternFormData] = useState({
+    daysOfWeek: [] as number[],
+    startHour: 0,
+    endHour: 24,
+    status: 'UNAVAILABLE' as Availability['status'],
+    notes: '',
+  });
+
   const canManageOthers = hasPermission(user!, PERMISSIONS.MANAGE_USERS);
 
   useEffect(() => {
@@ -69,13 +92,15 @@ const AvailabilityManager: React.FC = () => {
 
   const loadData = async () => {
     try {
-      const [availabilityData, usersData] = await Promise.all([
-        apiService.fetchAvailability(),
-        apiService.fetchUsers(),
+      const [availabilityData, usersData, patternsData] = await Promise.all([
+        dataProvider.fetchAvailability(),
+        dataProvider.fetchUsers(),
+        dataProvider.fetchAvailabilityPatterns(),
       ]);
 
       setAvailability(availabilityData);
       setUsers(usersData);
+      setPatterns(patternsData);
     } catch (error) {
       console.error('Error loading availability data:', error);
     } finally {
@@ -83,10 +108,20 @@ const AvailabilityManager: React.FC = () => {
     }
   };
 
+  const refreshAvailability = async () => {
+    setAvailability(await dataProvider.fetchAvailability());
+  };
+
+  // Occurrences of recurring patterns are managed on the patterns tab, not listed as records
   const filteredAvailability = availability.filter(avail => 
-    !selectedUser || selectedUser === 'all' || avail.userId === selectedUser
+    !avail.patternId &&
+    (!selectedUser || selectedUser === 'all' || avail.userId === selectedUser)
   );
 
+  const gridUserId = selectedUser && selectedUser !== 'all' ? selectedUser : user!.id;
+  const canEditGrid = gridUserId === user!.id || canManageOthers;
+  const visiblePatterns = patterns.filter(pattern => pattern.userId === gridUserId);
+
   const selectedUserData = users.find(u => u.id === selectedUser);
 
   const getStatusIcon = (status: string) => {
@@ -124,17 +159,15 @@ const AvailabilityManager: React.FC = () => {
     const endDateTime = `${formData.endDate}T${formData.endTime || '23:59'}:00Z`;
 
     try {
-      const newAvailability: Availability = {
-        id: `avail-${Date.now()}`,
+      const newAvailability = await dataProvider.saveAvailability({
         userId: formData.userId,
         startTime: startDateTime,
         endTime: endDateTime,
         status: formData.status,
         notes: formData.notes,
         updatedAt: new Date().toISOString(),
-      };
+      });
 
-      // In a real app, this would make an API call
       setAvailability(prev => [...prev, newAvailability]);
       setShowCreateDialog(false);
       resetForm();
@@ -150,14 +183,13 @@ const AvailabilityManager: React.FC = () => {
     const endDateTime = `${formData.endDate}T${formData.endTime || '23:59'}:00Z`;
 
     try {
-      const updatedAvailability: Availability = {
-        ...editingAvailability,
+      const updatedAvailability = await dataProvider.updateAvailability(editingAvailability.id, {
         startTime: startDateTime,
         endTime: endDateTime,
         status: formData.status,
         notes: formData.notes,
         updatedAt: new Date().toISOString(),
-      };
+      });
 
       setAvailability(prev => 
         prev.map(avail => 
@@ -173,12 +205,71 @@ const AvailabilityManager: React.FC = () => {
 
   const handleDeleteAvailability = async (id: string) => {
     try {
+      await dataProvider.deleteAvailability(id);
       setAvailability(prev => prev.filter(avail => avail.id !== id));
     } catch (error) {
       console.error('Error deleting availability:', error);
     }
   };
 
+  const handleCreatePattern = async () => {
+    if (patternFormData.daysOfWeek.length === 0) {
+      return;
+    }
+
+    try {
+      const newPattern = await dataProvider.saveAvailabilityPattern({
+        userId: gridUserId,
+        daysOfWeek: [...patternFormData.daysOfWeek].sort(),
+        startHour: patternFormData.startHour,
+        endHour: patternFormData.endHour,
+        status: patternFormData.status,
+        notes: patternFormData.notes || undefined,
+        createdAt: new Date().toISOString(),
+      });
+
+      setPatterns(prev => [...prev, newPattern]);
+      setPatternFormData({ daysOfWeek: [], startHour: 0, endHour: 24, status: 'UNAVAILABLE', notes: '' });
+      await refreshAvailability();
+    } catch (error) {
+      console.error('Error creating availability pattern:', error);
+      toast({
+        title: t('availability.error'),
+        description: t('availability.patternSaveFailed'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleDeletePattern = async (patternId: string) => {
+    try {
+      await dataProvider.deleteAvailabilityPattern(patternId);
+      setPatterns(prev => prev.filter(pattern => pattern.id !== patternId));
+      await refreshAvailability();
+    } catch (error) {
+      console.error('Error deleting availability pattern:', error);
+    }
+  };
+
+  const togglePatternDay = (day: number) => {
+    setPatternFormData(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter(d => d !== day)
+        : [...prev.daysOfWeek, day],
+    }));
+  };
+
+  const describePattern = (pattern: AvailabilityPattern) => {
+    const weekdays = moment.weekdaysShort();
+    const days = pattern.daysOfWeek.map(d => weekdays[d]).join(', ');
+    const isAllDay = pattern.startHour === 0 && pattern.endHour === 24;
+    const hours = isAllDay
+      ? t('availability.patternAllDay')
+      : `${String(pattern.startHour).padStart(2, '0')}:00 - ${String(pattern.endHour % 24).padStart(2, '0')}:00`;
+    return t('availability.patternDescription', { days, hours });
+  };
+
   const resetForm = () => {
     setFormData({
       userId: canManageOthers ? '' : user?.id || '',
@@ -224,18 +315,18 @@ const AvailabilityManager: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Availability Management</h1>
-          <p className="text-gray-600">Manage personnel availability and time off</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('availability.title')}</h1>
+          <p className="text-gray-600">{t('availability.subtitle')}</p>
         </div>
 
         <div className="flex items-center space-x-3">
           {canManageOthers && (
             <Select value={selectedUser} onValueChange={setSelectedUser}>
               <SelectTrigger className="w-48">
-                <SelectValue placeholder="Select personnel" />
+                <SelectValue placeholder={t('availability.selectPersonnel')} />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="all">All Personnel</SelectItem>
+                <SelectItem value="all">{t('availability.allPersonnel')}</SelectItem>
                 {users.map(u => (
                   <SelectItem key={u.id} value={u.id}>
                     {u.rank} {u.firstName} {u.lastName}
@@ -252,29 +343,27 @@ const AvailabilityManager: React.FC = () => {
                 setEditingAvailability(null);
               }}>
                 <Plus className="h-4 w-4 mr-2" />
-                Add Availability
+                {t('availability.add')}
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
                 <DialogTitle>
-                  {editingAvailability ? 'Edit Availability' : 'Add Availability'}
+                  {editingAvailability ? t('availability.edit') : t('availability.add')}
                 </DialogTitle>
-                <DialogDescription>
-                  Set availability status for a specific time period
-                </DialogDescription>
+                <DialogDescription>{t('availability.dialogDescription')}</DialogDescription>
               </DialogHeader>
               
               <div className="space-y-4">
                 {canManageOthers && (
                   <div>
-                    <label className="text-sm font-medium text-gray-700">Personnel</label>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.personnel')}</label>
                     <Select 
                       value={formData.userId} 
                       onValueChange={(value) => setFormData(prev => ({ ...prev, userId: value }))}
                     >
                       <SelectTrigger>
-                        <SelectValue placeholder="Select personnel" />
+                        <SelectValue placeholder={t('availability.selectPersonnel')} />
                       </SelectTrigger>
                       <SelectContent>
                         {users.map(u => (
@@ -289,7 +378,7 @@ const AvailabilityManager: React.FC = () => {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="text-sm font-medium text-gray-700">Start Date</label>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.startDate')}</label>
                     <Input
                       type="date"
                       value={formData.startDate}
@@ -297,7 +386,7 @@ const AvailabilityManager: React.FC = () => {
                     />
                   </div>
                   <div>
-                    <label className="text-sm font-medium text-gray-700">End Date</label>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.endDate')}</label>
                     <Input
                       type="date"
                       value={formData.endDate}
@@ -308,7 +397,7 @@ const AvailabilityManager: React.FC = () => {
 
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="text-sm font-medium text-gray-700">Start Time (Optional)</label>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.startTimeOptional')}</label>
                     <Input
                       type="time"
                       value={formData.startTime}
@@ -316,7 +405,7 @@ const AvailabilityManager: React.FC = () => {
                     />
                   </div>
                   <div>
-                    <label className="text-sm font-medium text-gray-700">End Time (Optional)</label>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.endTimeOptional')}</label>
                     <Input
                       type="time"
                       value={formData.endTime}
@@ -326,7 +415,7 @@ const AvailabilityManager: React.FC = () => {
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Status</label>
+                  <label className="text-sm font-medium text-gray-700">{t('availability.status')}</label>
                   <Select 
                     value={formData.status} 
                     onValueChange={(value: any) => setFormData(prev => ({ ...prev, status: value }))}
@@ -335,17 +424,17 @@ const AvailabilityManager: React.FC = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="AVAILABLE">Available</SelectItem>
-                      <SelectItem value="UNAVAILABLE">Unavailable</SelectItem>
-                      <SelectItem value="LIMITED">Limited Availability</SelectItem>
+                      <SelectItem value="AVAILABLE">{t('availability.statusOptions.AVAILABLE')}</SelectItem>
+                      <SelectItem value="UNAVAILABLE">{t('availability.statusOptions.UNAVAILABLE')}</SelectItem>
+                      <SelectItem value="LIMITED">{t('availability.statusOptions.LIMITED')}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Notes</label>
+                  <label className="text-sm font-medium text-gray-700">{t('availability.notes')}</label>
                   <Textarea
-                    placeholder="Additional notes or reasons..."
+                    placeholder={t('availability.notesPlaceholder')}
                     value={formData.notes}
                     onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
                   />
@@ -360,12 +449,12 @@ const AvailabilityManager: React.FC = () => {
                     setEditingAvailability(null);
                   }}
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </Button>
                 <Button 
                   onClick={editingAvailability ? handleUpdateAvailability : handleCreateAvailability}
                 >
-                  {editingAvailability ? 'Update' : 'Create'}
+                  {editingAvailability ? t('availability.update') : t('availability.create')}
                 </Button>
               </DialogFooter>
             </DialogContent>
@@ -390,94 +479,252 @@ const AvailabilityManager: React.FC = () => {
         </Card>
       )}
 
-      {/* Availability List */}
-      <div className="space-y-4">
-        {filteredAvailability.length > 0 ? (
-          filteredAvailability
-            .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
-            .map((avail) => {
-              const availUser = users.find(u => u.id === avail.userId);
-              const isOwn = avail.userId === user?.id;
-              const canEdit = isOwn || canManageOthers;
-
-              return (
-                <Card key={avail.id} className="hover:shadow-md transition-shadow">
-                  <CardContent className="p-4">
-                    <div className="flex items-center justify-between">
-                      <div className="flex items-center space-x-3">
-                        {getStatusIcon(avail.status)}
-                        <div>
-                          <div className="flex items-center space-x-2">
-                            <p className="font-medium">
-                              {new Date(avail.startTime).toLocaleDateString()} - {new Date(avail.endTime).toLocaleDateString()}
-                            </p>
-                            <Badge className={getStatusColor(avail.status)} variant="secondary">
-                              {avail.status}
-                            </Badge>
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="grid">{t('availability.tabs.grid')}</TabsTrigger>
+          <TabsTrigger value="records">{t('availability.tabs.records')}</TabsTrigger>
+          <TabsTrigger value="patterns">{t('availability.tabs.patterns')}</TabsTrigger>
+          {canManageOthers && <TabsTrigger value="heatmap">{t('availability.tabs.heatmap')}</TabsTrigger>}
+        </TabsList>
+
+        <TabsContent value="grid">
+          <WeeklyAvailabilityGrid
+            userId={gridUserId}
+            availability={availability}
+            canEdit={canEditGrid}
+            onSaved={refreshAvailability}
+          />
+        </TabsContent>
+
+        <TabsContent value="patterns" className="space-y-4">
+          {canEditGrid && (
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <Repeat className="h-5 w-5" />
+                  <span>{t('availability.newPattern')}</span>
+                </CardTitle>
+                <CardDescription>{t('availability.newPatternDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">{t('availability.days')}</label>
+                  <div className="flex flex-wrap gap-4 mt-2">
+                    {moment.weekdaysShort().map((label, day) => (
+                      <label key={day} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={patternFormData.daysOfWeek.includes(day)}
+                          onCheckedChange={() => togglePatternDay(day)}
+                        />
+                        <span>{label}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+
+                <div className="grid grid-cols-3 gap-4">
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.from')}</label>
+                    <Select
+                      value={String(patternFormData.startHour)}
+                      onValueChange={(value) => setPatternFormData(prev => ({ ...prev, startHour: Number(value) }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 24 }, (_, hour) => (
+                          <SelectItem key={hour} value={String(hour)}>{String(hour).padStart(2, '0')}:00</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.until')}</label>
+                    <Select
+                      value={String(patternFormData.endHour)}
+                      onValueChange={(value) => setPatternFormData(prev => ({ ...prev, endHour: Number(value) }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {Array.from({ length: 24 }, (_, i) => i + 1).map(hour => (
+                          <SelectItem key={hour} value={String(hour)}>
+                            {hour === 24 ? t('availability.endOfDay') : `${String(hour).padStart(2, '0')}:00`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  <div>
+                    <label className="text-sm font-medium text-gray-700">{t('availability.status')}</label>
+                    <Select
+                      value={patternFormData.status}
+                      onValueChange={(value: Availability['status']) => setPatternFormData(prev => ({ ...prev, status: value }))}
+                    >
+                      <SelectTrigger>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="AVAILABLE">{t('availability.statusOptions.AVAILABLE')}</SelectItem>
+                        <SelectItem value="UNAVAILABLE">{t('availability.statusOptions.UNAVAILABLE')}</SelectItem>
+                        <SelectItem value="LIMITED">{t('availability.statusOptions.LIMITED')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700">{t('availability.notes')}</label>
+                  <Input
+                    placeholder={t('availability.patternNotesPlaceholder')}
+                    value={patternFormData.notes}
+                    onChange={(e) => setPatternFormData(prev => ({ ...prev, notes: e.target.value }))}
+                  />
+                </div>
+
+                <Button onClick={handleCreatePattern} disabled={patternFormData.daysOfWeek.length === 0}>
+                  <Plus className="h-4 w-4 mr-2" />
+                  {t('availability.addPattern')}
+                </Button>
+              </CardContent>
+            </Card>
+          )}
+
+          {visiblePatterns.length > 0 ? (
+            visiblePatterns.map(pattern => (
+              <Card key={pattern.id}>
+                <CardContent className="p-4 flex items-center justify-between">
+                  <div className="flex items-center space-x-3">
+                    {getStatusIcon(pattern.status)}
+                    <div>
+                      <div className="flex items-center space-x-2">
+                        <p className="font-medium">{describePattern(pattern)}</p>
+                        <Badge className={getStatusColor(pattern.status)} variant="secondary">
+                          {t(`availability.statuses.${pattern.status}`)}
+                        </Badge>
+                      </div>
+                      {pattern.notes && <p className="text-sm text-gray-600">{pattern.notes}</p>}
+                    </div>
+                  </div>
+                  {canEditGrid && (
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => handleDeletePattern(pattern.id)}
+                      className="text-red-600 hover:text-red-700"
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  )}
+                </CardContent>
+              </Card>
+            ))
+          ) : (
+            <p className="text-gray-500 text-center py-4">{t('availability.noPatterns')}</p>
+          )}
+        </TabsContent>
+
+        {canManageOthers && (
+          <TabsContent value="heatmap">
+            <AvailabilityHeatmap users={users} availability={availability} />
+          </TabsContent>
+        )}
+
+        <TabsContent value="records">
+          {/* Availability List */}
+          <div className="space-y-4">
+            {filteredAvailability.length > 0 ? (
+              filteredAvailability
+                .sort((a, b) => new Date(b.updatedAt).getTime() - new Date(a.updatedAt).getTime())
+                .map((avail) => {
+                  const availUser = users.find(u => u.id === avail.userId);
+                  const isOwn = avail.userId === user?.id;
+                  const canEdit = isOwn || canManageOthers;
+
+                  return (
+                    <Card key={avail.id} className="hover:shadow-md transition-shadow">
+                      <CardContent className="p-4">
+                        <div className="flex items-center justify-between">
+                          <div className="flex items-center space-x-3">
+                            {getStatusIcon(avail.status)}
+                            <div>
+                              <div className="flex items-center space-x-2">
+                                <p className="font-medium">
+                                  {new Date(avail.startTime).toLocaleDateString()} - {new Date(avail.endTime).toLocaleDateString()}
+                                </p>
+                                <Badge className={getStatusColor(avail.status)} variant="secondary">
+                                  {t(`availability.statuses.${avail.status}`)}
+                                </Badge>
+                              </div>
+                              <p className="text-sm text-gray-600">
+                                {new Date(avail.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - {new Date(avail.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
+                              </p>
+                              {canManageOthers && availUser && (
+                                <p className="text-xs text-gray-500">
+                                  {availUser.rank} {availUser.firstName} {availUser.lastName}
+                                </p>
+                              )}
+                              {avail.notes && (
+                                <p className="text-sm text-gray-600 mt-1 bg-gray-50 p-2 rounded">
+                                  {avail.notes}
+                                </p>
+                              )}
+                            </div>
                           </div>
-                          <p className="text-sm text-gray-600">
-                            {new Date(avail.startTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })} - {new Date(avail.endTime).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' })}
-                          </p>
-                          {canManageOthers && availUser && (
-                            <p className="text-xs text-gray-500">
-                              {availUser.rank} {availUser.firstName} {availUser.lastName}
-                            </p>
-                          )}
-                          {avail.notes && (
-                            <p className="text-sm text-gray-600 mt-1 bg-gray-50 p-2 rounded">
-                              {avail.notes}
-                            </p>
+
+                          {canEdit && (
+                            <div className="flex items-center space-x-2">
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => {
+                                  openEditDialog(avail);
+                                  setShowCreateDialog(true);
+                                }}
+                              >
+                                <Edit className="h-4 w-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteAvailability(avail.id)}
+                                className="text-red-600 hover:text-red-700"
+                              >
+                                <Trash2 className="h-4 w-4" />
+                              </Button>
+                            </div>
                           )}
                         </div>
-                      </div>
 
-                      {canEdit && (
-                        <div className="flex items-center space-x-2">
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => {
-                              openEditDialog(avail);
-                              setShowCreateDialog(true);
-                            }}
-                          >
-                            <Edit className="h-4 w-4" />
-                          </Button>
-                          <Button
-                            variant="ghost"
-                            size="sm"
-                            onClick={() => handleDeleteAvailability(avail.id)}
-                            className="text-red-600 hover:text-red-700"
-                          >
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
+                        <div className="text-xs text-gray-500 mt-3 pt-2 border-t">
+                          {t('availability.lastUpdated', {
+                            time: `${new Date(avail.updatedAt).toLocaleDateString()} ${new Date(avail.updatedAt).toLocaleTimeString()}`,
+                          })}
                         </div>
-                      )}
-                    </div>
-
-                    <div className="text-xs text-gray-500 mt-3 pt-2 border-t">
-                      Last updated: {new Date(avail.updatedAt).toLocaleDateString()} {new Date(avail.updatedAt).toLocaleTimeString()}
-                    </div>
-                  </CardContent>
-                </Card>
-              );
-            })
-        ) : (
-          <Card>
-            <CardContent className="p-8 text-center">
-              <CalendarIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No Availability Records</h3>
-              <p className="text-gray-500 mb-4">
-                {selectedUser ? 'No availability records found for this person.' : 'No availability records found.'}
-              </p>
-              <Button onClick={() => setShowCreateDialog(true)}>
-                <Plus className="h-4 w-4 mr-2" />
-                Add Availability
-              </Button>
-            </CardContent>
-          </Card>
-        )}
-      </div>
+                      </CardContent>
+                    </Card>
+                  );
+                })
+            ) : (
+              <Card>
+                <CardContent className="p-8 text-center">
+                  <CalendarIcon className="h-12 w-12 text-gray-300 mx-auto mb-4" />
+                  <h3 className="text-lg font-medium text-gray-900 mb-2">{t('availability.noRecords')}</h3>
+                  <p className="text-gray-500 mb-4">
+                    {selectedUser ? t('availability.noRecordsForPerson') : t('availability.noRecordsFound')}
+                  </p>
+                  <Button onClick={() => setShowCreateDialog(true)}>
+                    <Plus className="h-4 w-4 mr-2" />
+                    {t('availability.add')}
+                  </Button>
+                </CardContent>
+              </Card>
+            )}
+          </div>
+        </TabsContent>
+      </Tabs>
     </div>
   );
 };
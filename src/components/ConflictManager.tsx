@@ -21,19 +21,39 @@ import {
   Eye,
   FileText,
   RefreshCw,
+  UserMinus,
+  UserPlus,
+  Timer,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
-import { Conflict, Schedule, User, DutyType } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
+import { dataProvider } from '@/lib/data-provider';
+import { Conflict, ConflictResolution, Schedule, User, DutyType, Availability } from '@/types';
 import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { conflictResolver, ResolutionProposal } from '@/lib/conflict-resolver';
+import { getScheduleVersion, StaleScheduleError } from '@/lib/schedule-versions';
 import { toast } from '@/hooks/use-toast';
 
+// Schedule fields an automatic resolution can change
+const CHANGE_FIELD_LABELS: Partial<Record<keyof Schedule, TranslationKey>> = {
+  userId: 'calendar.merge.fields.userId',
+  status: 'calendar.merge.fields.status',
+  startTime: 'calendar.merge.fields.startTime',
+  endTime: 'calendar.merge.fields.endTime',
+};
+
 const ConflictManager: React.FC = () => {
   const { user } = useAuth();
+  const { t, dutyTypeName } = useLanguage();
   const [conflicts, setConflicts] = useState<Conflict[]>([]);
+  const [resolutionHistory, setResolutionHistory] = useState<ConflictResolution[]>([]);
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [dutyTypes, setDutyTypes] = useState<DutyType[]>([]);
+  const [availability, setAvailability] = useState<Availability[]>([]);
+  const [proposal, setProposal] = useState<ResolutionProposal | null>(null);
+  const [applyingProposal, setApplyingProposal] = useState(false);
   const [selectedConflict, setSelectedConflict] = useState<Conflict | null>(null);
   const [resolution, setResolution] = useState('');
   const [loading, setLoading] = useState(true);
@@ -47,20 +67,29 @@ const ConflictManager: React.FC = () => {
   }, []);
 
   const loadData = async () => {
+    // Conflicts that matter are on duties still to come; a week back keeps rest periods around them visible
+    const from = new Date(Date.now() - 7 * 24 * 60 * 60 * 1000);
+
     try {
-      const [schedulesData, usersData, dutyTypesData] = await Promise.all([
-        apiService.fetchSchedules(),
-        apiService.fetchUsers(),
-        apiService.fetchDutyTypes(),
+      const [schedulesData, usersData, dutyTypesData, availabilityData] = await Promise.all([
+        dataProvider.querySchedules({ from: from.toISOString() }),
+        dataProvider.fetchUsers(),
+        dataProvider.fetchDutyTypes(),
+        dataProvider.fetchAvailability(),
       ]);
 
       setSchedules(schedulesData);
       setUsers(usersData);
       setDutyTypes(dutyTypesData);
+      setAvailability(availabilityData);
 
       // Detect conflicts
-      const detectedConflicts = await apiService.detectConflicts(schedulesData);
+      const [detectedConflicts, resolutions] = await Promise.all([
+        dataProvider.detectConflicts(schedulesData),
+        dataProvider.fetchConflictResolutions(),
+      ]);
       setConflicts(detectedConflicts);
+      setResolutionHistory(resolutions);
     } catch (error) {
       console.error('Error loading conflict data:', error);
     } finally {
@@ -71,7 +100,7 @@ const ConflictManager: React.FC = () => {
   const refreshConflicts = async () => {
     setRefreshing(true);
     try {
-      const detectedConflicts = await apiService.detectConflicts(schedules);
+      const detectedConflicts = await dataProvider.detectConflicts(schedules);
       setConflicts(detectedConflicts);
     } catch (error) {
       console.error('Error refreshing conflicts:', error);
@@ -82,84 +111,141 @@ const ConflictManager: React.FC = () => {
 
   const resolveConflict = async (conflictId: string, resolutionText: string) => {
     try {
+      const conflict = conflicts.find(c => c.id === conflictId);
+      if (!conflict) return;
+
+      const record = await dataProvider.resolveConflict(conflict, user!.id, resolutionText, schedules);
+      setResolutionHistory(prev => [record, ...prev]);
       setConflicts(prev => 
-        prev.map(conflict => 
-          conflict.id === conflictId 
+        prev.map(c => 
+          c.id === conflictId 
             ? {
-                ...conflict,
-                resolvedAt: new Date().toISOString(),
-                resolvedBy: user!.id,
-                resolution: resolutionText,
+                ...c,
+                resolvedAt: record.resolvedAt,
+                resolvedBy: record.resolvedBy,
+                resolution: record.resolution,
+                reopenedAt: undefined,
               }
-            : conflict
+            : c
         )
       );
       
       toast({
-        title: "Conflict Resolved",
-        description: "The scheduling conflict has been marked as resolved.",
+        title: t('conflicts.resolvedToast'),
+        description: t('conflicts.resolvedToastDescription'),
       });
       
       setSelectedConflict(null);
       setResolution('');
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to resolve conflict. Please try again.",
+        title: t('conflicts.error'),
+        description: t('conflicts.resolveFailed'),
         variant: "destructive",
       });
       console.error('Error resolving conflict:', error);
     }
   };
 
-  const autoResolveConflict = async (conflict: Conflict) => {
+  const autoResolveConflict = (conflict: Conflict) => {
+    const proposed = conflictResolver.proposeResolution(conflict, {
+      schedules,
+      users,
+      dutyTypes,
+      availability,
+    });
+
+    if (!proposed) {
+      toast({
+        title: t('conflicts.noAutomaticFix'),
+        description: t('conflicts.noAutomaticFixDescription'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    setProposal(proposed);
+  };
+
+  const applyProposal = async () => {
+    if (!proposal) return;
+
+    setApplyingProposal(true);
     try {
-      // Auto-resolution logic based on conflict type
-      let resolution = '';
-      
-      switch (conflict.type) {
-        case 'OVERLAP':
-          resolution = 'Automatically rescheduled overlapping assignments to maintain personnel coverage';
-          break;
-        case 'REST_VIOLATION':
-          resolution = 'Adjusted schedule to ensure minimum rest period compliance';
-          break;
-        case 'SKILL_MISMATCH':
-          resolution = 'Reassigned personnel with appropriate skills for the duty';
-          break;
-        case 'AVAILABILITY':
-          resolution = 'Updated assignments based on current availability status';
-          break;
-        default:
-          resolution = 'Applied system auto-resolution algorithm';
+      const updatedSchedules: Schedule[] = [];
+      for (const change of proposal.changes) {
+        // The proposal was worked out from the loaded schedules, so it must not overwrite a newer edit
+        const proposedFrom = schedules.find(s => s.id === change.scheduleId);
+        updatedSchedules.push(await dataProvider.updateSchedule(
+          change.scheduleId,
+          change.updates,
+          proposedFrom && getScheduleVersion(proposedFrom)
+        ));
       }
 
-      setConflicts(prev => 
-        prev.map(c => 
-          c.id === conflict.id 
-            ? {
-                ...c,
-                resolvedAt: new Date().toISOString(),
-                resolvedBy: 'SYSTEM',
-                resolution: `Auto-resolved: ${resolution}`,
-              }
-            : c
-        )
-      );
+      const addedSchedules = proposal.additions.length > 0
+        ? await dataProvider.saveSchedules(proposal.additions.map(({ schedule }) => ({
+            ...schedule,
+            assignedBy: user!.id,
+            assignedAt: new Date().toISOString(),
+          })))
+        : [];
+
+      const nextSchedules = [...schedules.map(s => updatedSchedules.find(u => u.id === s.id) || s), ...addedSchedules];
+      setSchedules(nextSchedules);
+
+      const resolvedConflict = conflicts.find(c => c.id === proposal.conflictId);
+      if (resolvedConflict) {
+        const record = await dataProvider.resolveConflict(
+          resolvedConflict,
+          user!.id,
+          `Auto-resolved: ${proposal.summary}`,
+          nextSchedules
+        );
+        setResolutionHistory(prev => [record, ...prev]);
+      }
+
+      const detectedConflicts = await dataProvider.detectConflicts(nextSchedules);
+      setConflicts(detectedConflicts);
 
       toast({
-        title: "Auto-Resolution Complete",
-        description: "The conflict has been automatically resolved.",
+        title: t('conflicts.autoApplied'),
+        description: t('conflicts.autoAppliedDescription', { count: proposal.changes.length + proposal.additions.length }),
       });
+      setProposal(null);
     } catch (error) {
       toast({
-        title: "Auto-Resolution Failed",
-        description: "Could not automatically resolve the conflict.",
+        title: t('conflicts.autoFailed'),
+        description: error instanceof StaleScheduleError
+          ? t('conflicts.autoFailedStale', { message: error.message })
+          : t('conflicts.autoFailedDescription'),
         variant: "destructive",
       });
+      console.error('Error applying resolution:', error);
+    } finally {
+      setApplyingProposal(false);
+    }
+  };
+
+  const formatChangeValue = (field: string, value: any) => {
+    if (field === 'userId') {
+      const changeUser = users.find(u => u.id === value);
+      return changeUser ? `${changeUser.rank} ${changeUser.firstName} ${changeUser.lastName}` : value;
     }
+    if (field === 'startTime' || field === 'endTime') {
+      return new Date(value).toLocaleString();
+    }
+    return String(value);
+  };
+
+  const formatChangeField = (field: string) => {
+    const label = CHANGE_FIELD_LABELS[field as keyof Schedule];
+    return label ? t(label) : field;
   };
 
+  const typeLabel = (type: Conflict['type']) => t(`conflicts.types.${type}` as TranslationKey);
+  const severityLabel = (severity: Conflict['severity']) => t(`conflicts.severities.${severity}` as TranslationKey);
+
   const getConflictIcon = (type: string) => {
     switch (type) {
       case 'OVERLAP':
@@ -170,6 +256,12 @@ const ConflictManager: React.FC = () => {
         return <AlertTriangle className="h-5 w-5 text-yellow-600" />;
       case 'AVAILABILITY':
         return <XCircle className="h-5 w-5 text-purple-600" />;
+      case 'UNDERSTAFFED':
+        return <UserMinus className="h-5 w-5 text-red-600" />;
+      case 'OVERSTAFFED':
+        return <UserPlus className="h-5 w-5 text-blue-600" />;
+      case 'CONSECUTIVE_HOURS':
+        return <Timer className="h-5 w-5 text-orange-600" />;
       default:
         return <AlertTriangle className="h-5 w-5 text-gray-600" />;
     }
@@ -203,7 +295,13 @@ const ConflictManager: React.FC = () => {
   };
 
   const activeConflicts = conflicts.filter(c => !c.resolvedAt);
-  const resolvedConflicts = conflicts.filter(c => c.resolvedAt);
+  const resolvedConflicts: Conflict[] = resolutionHistory.map(record => ({
+    ...record.conflict,
+    id: record.id,
+    resolvedAt: record.resolvedAt,
+    resolvedBy: record.resolvedBy,
+    resolution: record.resolution,
+  }));
 
   if (loading) {
     return (
@@ -225,8 +323,8 @@ const ConflictManager: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Conflict Management</h1>
-          <p className="text-gray-600">Detect and resolve scheduling conflicts</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('conflicts.title')}</h1>
+          <p className="text-gray-600">{t('conflicts.subtitle')}</p>
         </div>
 
         <div className="flex items-center space-x-3">
@@ -236,7 +334,7 @@ const ConflictManager: React.FC = () => {
             disabled={refreshing}
           >
             <RefreshCw className={`h-4 w-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
-            Refresh
+            {t('conflicts.refresh')}
           </Button>
         </div>
       </div>
@@ -247,7 +345,7 @@ const ConflictManager: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Active Conflicts</p>
+                <p className="text-sm font-medium text-gray-600">{t('conflicts.active')}</p>
                 <p className="text-3xl font-bold text-red-600 mt-1">
                   {activeConflicts.length}
                 </p>
@@ -263,7 +361,7 @@ const ConflictManager: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">High Priority</p>
+                <p className="text-sm font-medium text-gray-600">{t('conflicts.highPriority')}</p>
                 <p className="text-3xl font-bold text-orange-600 mt-1">
                   {activeConflicts.filter(c => c.severity === 'HIGH').length}
                 </p>
@@ -279,7 +377,7 @@ const ConflictManager: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Resolved Today</p>
+                <p className="text-sm font-medium text-gray-600">{t('conflicts.resolvedToday')}</p>
                 <p className="text-3xl font-bold text-green-600 mt-1">
                   {resolvedConflicts.filter(c => 
                     c.resolvedAt && new Date(c.resolvedAt).toDateString() === new Date().toDateString()
@@ -299,10 +397,10 @@ const ConflictManager: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <AlertTriangle className="h-5 w-5 text-red-600" />
-            <span>Active Conflicts</span>
+            <span>{t('conflicts.active')}</span>
           </CardTitle>
           <CardDescription>
-            Conflicts requiring immediate attention
+            {t('conflicts.activeDescription')}
           </CardDescription>
         </CardHeader>
         <CardContent>
@@ -322,21 +420,29 @@ const ConflictManager: React.FC = () => {
                         <AlertTitle className="flex items-center space-x-2">
                           <span>{conflict.description}</span>
                           <Badge variant="outline" className="text-xs">
-                            {conflict.severity}
+                            {severityLabel(conflict.severity)}
                           </Badge>
                           <Badge variant="outline" className="text-xs">
-                            {conflict.type.replace('_', ' ')}
+                            {typeLabel(conflict.type)}
                           </Badge>
+                          {conflict.reopenedAt && (
+                            <Badge variant="secondary" className="text-xs">
+                              {t('conflicts.reopened')}
+                            </Badge>
+                          )}
                         </AlertTitle>
                         <AlertDescription className="mt-2">
                           <div className="space-y-2">
                             <p className="text-sm">
-                              Detected: {new Date(conflict.detectedAt).toLocaleString()}
+                              {t('conflicts.detectedAt', { time: new Date(conflict.detectedAt).toLocaleString() })}
+                              {conflict.reopenedAt && (
+                                <> • {t('conflicts.reopenedAt', { time: new Date(conflict.reopenedAt).toLocaleString() })}</>
+                              )}
                             </p>
                             
                             {/* Affected Schedules */}
                             <div className="space-y-1">
-                              <p className="text-sm font-medium">Affected Schedules:</p>
+                              <p className="text-sm font-medium">{t('conflicts.affectedSchedules')}:</p>
                               {conflict.affectedSchedules.map(scheduleId => {
                                 const details = getScheduleDetails(scheduleId);
                                 if (!details) return null;
@@ -348,7 +454,7 @@ const ConflictManager: React.FC = () => {
                                         {details.user?.firstName} {details.user?.lastName}
                                       </span>
                                       {' - '}
-                                      <span>{details.dutyType?.name}</span>
+                                      <span>{dutyTypeName(details.dutyType)}</span>
                                     </p>
                                     <p className="text-xs text-gray-600">
                                       {new Date(details.schedule.startTime).toLocaleString()} - {new Date(details.schedule.endTime).toLocaleString()}
@@ -365,14 +471,14 @@ const ConflictManager: React.FC = () => {
                                   onClick={() => setSelectedConflict(conflict)}
                                 >
                                   <Eye className="h-4 w-4 mr-1" />
-                                  Resolve
+                                  {t('conflicts.resolve')}
                                 </Button>
                                 <Button
                                   size="sm"
                                   variant="outline"
                                   onClick={() => autoResolveConflict(conflict)}
                                 >
-                                  Auto-Resolve
+                                  {t('conflicts.autoResolve')}
                                 </Button>
                               </div>
                             )}
@@ -386,8 +492,8 @@ const ConflictManager: React.FC = () => {
           ) : (
             <div className="text-center py-8">
               <CheckCircle className="h-12 w-12 text-green-500 mx-auto mb-4" />
-              <h3 className="text-lg font-medium text-gray-900 mb-2">No Active Conflicts</h3>
-              <p className="text-gray-500">All schedules are currently conflict-free.</p>
+              <h3 className="text-lg font-medium text-gray-900 mb-2">{t('conflicts.noneActive')}</h3>
+              <p className="text-gray-500">{t('conflicts.noneActiveDescription')}</p>
             </div>
           )}
         </CardContent>
@@ -399,10 +505,10 @@ const ConflictManager: React.FC = () => {
           <CardHeader>
             <CardTitle className="flex items-center space-x-2">
               <CheckCircle className="h-5 w-5 text-green-600" />
-              <span>Recently Resolved</span>
+              <span>{t('conflicts.recentlyResolved')}</span>
             </CardTitle>
             <CardDescription>
-              Conflicts that have been resolved
+              {t('conflicts.recentlyResolvedDescription')}
             </CardDescription>
           </CardHeader>
           <CardContent>
@@ -418,17 +524,17 @@ const ConflictManager: React.FC = () => {
                         <div>
                           <p className="font-medium text-sm">{conflict.description}</p>
                           <p className="text-xs text-gray-600">
-                            Resolved: {new Date(conflict.resolvedAt!).toLocaleString()}
+                            {t('conflicts.resolvedAt', { time: new Date(conflict.resolvedAt!).toLocaleString() })}
                           </p>
                         </div>
                       </div>
                       <Badge variant="outline" className="text-xs bg-white">
-                        {conflict.type.replace('_', ' ')}
+                        {typeLabel(conflict.type)}
                       </Badge>
                     </div>
                     {conflict.resolution && (
                       <div className="mt-2 p-2 bg-white rounded border text-xs">
-                        <span className="font-medium">Resolution: </span>
+                        <span className="font-medium">{t('conflicts.resolution')} </span>
                         {conflict.resolution}
                       </div>
                     )}
@@ -439,6 +545,64 @@ const ConflictManager: React.FC = () => {
         </Card>
       )}
 
+      {/* Auto-Resolution Proposal Modal */}
+      {proposal && (
+        <Dialog open={!!proposal} onOpenChange={() => setProposal(null)}>
+          <DialogContent className="max-w-2xl">
+            <DialogHeader>
+              <DialogTitle>{t('conflicts.proposalTitle')}</DialogTitle>
+              <DialogDescription>
+                {t('conflicts.proposalDescription')}
+              </DialogDescription>
+            </DialogHeader>
+
+            <div className="space-y-3">
+              {proposal.changes.map(change => {
+                const dutyType = dutyTypes.find(dt => dt.id === change.before.dutyTypeId);
+                return (
+                  <div key={change.scheduleId} className="p-3 bg-gray-50 rounded border">
+                    <p className="font-medium text-sm">{change.description}</p>
+                    <p className="text-xs text-gray-600 mb-2">
+                      {dutyTypeName(dutyType)} • {new Date(change.before.startTime).toLocaleString()}
+                    </p>
+                    <div className="space-y-1">
+                      {Object.entries(change.updates).map(([field, value]) => (
+                        <div key={field} className="grid grid-cols-3 gap-2 text-xs">
+                          <span className="font-medium text-gray-700">{formatChangeField(field)}</span>
+                          <span className="text-red-700 line-through">
+                            {formatChangeValue(field, change.before[field as keyof Schedule])}
+                          </span>
+                          <span className="text-green-700">{formatChangeValue(field, value)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                );
+              })}
+              {proposal.additions.map(({ schedule, description }) => (
+                <div key={schedule.userId} className="p-3 bg-gray-50 rounded border">
+                  <p className="font-medium text-sm">{description}</p>
+                  <p className="text-xs text-gray-600">
+                    {dutyTypeName(dutyTypes.find(dt => dt.id === schedule.dutyTypeId))} • {new Date(schedule.startTime).toLocaleString()}
+                  </p>
+                  <p className="text-xs text-green-700">{t('conflicts.newAssignment')}</p>
+                </div>
+              ))}
+            </div>
+
+            <DialogFooter>
+              <Button variant="outline" onClick={() => setProposal(null)}>
+                {t('common.cancel')}
+              </Button>
+              <Button onClick={applyProposal} disabled={applyingProposal}>
+                <CheckCircle className="h-4 w-4 mr-2" />
+                {t('conflicts.applyChanges')}
+              </Button>
+            </DialogFooter>
+          </DialogContent>
+        </Dialog>
+      )}
+
       {/* Conflict Resolution Modal */}
       {selectedConflict && (
         <Dialog open={!!selectedConflict} onOpenChange={() => setSelectedConflict(null)}>
@@ -446,7 +610,7 @@ const ConflictManager: React.FC = () => {
             <DialogHeader>
               <DialogTitle className="flex items-center space-x-2">
                 {getConflictIcon(selectedConflict.type)}
-                <span>Resolve Conflict</span>
+                <span>{t('conflicts.resolveTitle')}</span>
               </DialogTitle>
               <DialogDescription>
                 {selectedConflict.description}
@@ -456,27 +620,27 @@ const ConflictManager: React.FC = () => {
             <div className="space-y-4">
               <div className="grid grid-cols-2 gap-4 text-sm">
                 <div>
-                  <p className="font-medium text-gray-700">Type</p>
-                  <p>{selectedConflict.type.replace('_', ' ')}</p>
+                  <p className="font-medium text-gray-700">{t('conflicts.type')}</p>
+                  <p>{typeLabel(selectedConflict.type)}</p>
                 </div>
                 <div>
-                  <p className="font-medium text-gray-700">Severity</p>
+                  <p className="font-medium text-gray-700">{t('conflicts.severity')}</p>
                   <Badge className={getConflictColor(selectedConflict.severity)} variant="secondary">
-                    {selectedConflict.severity}
+                    {severityLabel(selectedConflict.severity)}
                   </Badge>
                 </div>
                 <div>
-                  <p className="font-medium text-gray-700">Detected</p>
+                  <p className="font-medium text-gray-700">{t('conflicts.detected')}</p>
                   <p>{new Date(selectedConflict.detectedAt).toLocaleString()}</p>
                 </div>
                 <div>
-                  <p className="font-medium text-gray-700">Affected Schedules</p>
+                  <p className="font-medium text-gray-700">{t('conflicts.affectedSchedules')}</p>
                   <p>{selectedConflict.affectedSchedules.length}</p>
                 </div>
               </div>
 
               <div>
-                <p className="font-medium text-gray-700 mb-2">Affected Schedules Details</p>
+                <p className="font-medium text-gray-700 mb-2">{t('conflicts.affectedSchedulesDetails')}</p>
                 <div className="space-y-2">
                   {selectedConflict.affectedSchedules.map(scheduleId => {
                     const details = getScheduleDetails(scheduleId);
@@ -489,7 +653,7 @@ const ConflictManager: React.FC = () => {
                             <p className="font-medium">
                               {details.user?.firstName} {details.user?.lastName}
                             </p>
-                            <p className="text-sm text-gray-600">{details.dutyType?.name}</p>
+                            <p className="text-sm text-gray-600">{dutyTypeName(details.dutyType)}</p>
                           </div>
                           <div className="text-right text-sm">
                             <p>{new Date(details.schedule.startTime).toLocaleDateString()}</p>
@@ -506,10 +670,10 @@ const ConflictManager: React.FC = () => {
 
               <div>
                 <label className="text-sm font-medium text-gray-700 mb-2 block">
-                  Resolution Notes
+                  {t('conflicts.resolutionNotes')}
                 </label>
                 <Textarea
-                  placeholder="Describe how this conflict was resolved..."
+                  placeholder={t('conflicts.resolutionPlaceholder')}
                   value={resolution}
                   onChange={(e) => setResolution(e.target.value)}
                   rows={3}
@@ -519,14 +683,14 @@ const ConflictManager: React.FC = () => {
 
             <DialogFooter>
               <Button variant="outline" onClick={() => setSelectedConflict(null)}>
-                Cancel
+                {t('common.cancel')}
               </Button>
               <Button 
                 onClick={() => resolveConflict(selectedConflict.id, resolution)}
                 disabled={!resolution.trim()}
               >
                 <CheckCircle className="h-4 w-4 mr-2" />
-                Mark as Resolved
+                {t('conflicts.markResolved')}
               </Button>
             </DialogFooter>
           </DialogContent>
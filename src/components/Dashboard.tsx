@@ -12,11 +12,14 @@ import {
   TrendingUp,
   Shield,
   MapPin,
+  UserMinus,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
+import { useLanguage } from '@/hooks/use-language';
+import { dataProvider } from '@/lib/data-provider';
 import { DashboardStats, Schedule, User, DutyType } from '@/types';
 import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { analyzeCoverage, CoverageSlot, getCoverageWindow } from '@/lib/coverage';
 
 interface DashboardProps {
   onPageChange: (page: string) => void;
@@ -24,21 +27,27 @@ interface DashboardProps {
 
 const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
   const { user } = useAuth();
+  const { t, language, dutyTypeName } = useLanguage();
   const [stats, setStats] = useState<DashboardStats | null>(null);
   const [upcomingSchedules, setUpcomingSchedules] = useState<Schedule[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [dutyTypes, setDutyTypes] = useState<DutyType[]>([]);
   const [recentActivity, setRecentActivity] = useState<any[]>([]);
+  const [coverageIssues, setCoverageIssues] = useState<CoverageSlot[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
     const loadDashboardData = async () => {
+      const now = new Date();
+      const canViewAll = hasPermission(user!, PERMISSIONS.VIEW_ALL_SCHEDULES);
+
       try {
         const [dashboardStats, schedules, usersData, dutyTypesData] = await Promise.all([
-          apiService.getDashboardStats(),
-          apiService.fetchSchedules(),
-          apiService.fetchUsers(),
-          apiService.fetchDutyTypes(),
+          dataProvider.getDashboardStats(),
+          // Everything here is about duties still to come, and only the user's own unless they see everyone's
+          dataProvider.querySchedules({ from: now.toISOString(), userId: canViewAll ? undefined : user?.id }),
+          dataProvider.fetchUsers(),
+          dataProvider.fetchDutyTypes(),
         ]);
 
         setStats(dashboardStats);
@@ -46,18 +55,19 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
         setDutyTypes(dutyTypesData);
 
         // Get upcoming schedules for current user or all users based on permissions
-        const now = new Date();
         const upcoming = schedules
-          .filter(s => {
-            const startTime = new Date(s.startTime);
-            const isUpcoming = startTime > now;
-            const isRelevant = hasPermission(user!, PERMISSIONS.VIEW_ALL_SCHEDULES) || s.userId === user?.id;
-            return isUpcoming && isRelevant;
-          })
+          .filter(s => new Date(s.startTime) > now)
           .slice(0, 5);
 
         setUpcomingSchedules(upcoming);
 
+        // Staffing problems on duties that haven't finished yet, which need everyone's schedules
+        if (canViewAll) {
+          const openCoverageIssues = analyzeCoverage(schedules, dutyTypesData, getCoverageWindow(now))
+            .filter(slot => slot.status !== 'OK' && new Date(slot.endTime) > now);
+          setCoverageIssues(openCoverageIssues);
+        }
+
         // Simulate recent activity
         const activities = [
           { id: 1, type: 'schedule_created', description: 'New guard duty assigned', time: '2 hours ago', user: 'Duty Officer' },
@@ -95,33 +105,33 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
 
   const statCards = [
     {
-      title: 'Total Personnel',
+      title: t('dashboard.totalPersonnel'),
       value: stats?.totalPersonnel || 0,
-      description: 'Active reservists',
+      description: t('dashboard.totalPersonnelDescription'),
       icon: Users,
       color: 'text-blue-600',
       bgColor: 'bg-blue-50',
     },
     {
-      title: 'Available Now',
+      title: t('dashboard.availableNow'),
       value: stats?.availablePersonnel || 0,
-      description: 'Ready for assignment',
+      description: t('dashboard.availableNowDescription'),
       icon: CheckCircle,
       color: 'text-green-600',
       bgColor: 'bg-green-50',
     },
     {
-      title: 'Active Duties',
+      title: t('dashboard.activeDuties'),
       value: stats?.activeSchedules || 0,
-      description: 'Currently on duty',
+      description: t('dashboard.activeDutiesDescription'),
       icon: Shield,
       color: 'text-orange-600',
       bgColor: 'bg-orange-50',
     },
     {
-      title: 'Pending Requests',
+      title: t('dashboard.pendingRequests'),
       value: stats?.pendingRequests || 0,
-      description: 'Awaiting approval',
+      description: t('dashboard.pendingRequestsDescription'),
       icon: Clock,
       color: 'text-purple-600',
       bgColor: 'bg-purple-50',
@@ -135,10 +145,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
         <div className="flex items-center justify-between">
           <div>
             <h1 className="text-2xl font-bold">
-              Welcome back, {user?.rank} {user?.firstName}
+              {t('dashboard.welcome', { name: `${user?.rank} ${user?.firstName}` })}
             </h1>
             <p className="text-blue-100 mt-1">
-              {user?.unit} • {new Date().toLocaleDateString('en-US', { 
+              {user?.unit} • {new Date().toLocaleDateString(language === 'he' ? 'he-IL' : 'en-US', { 
                 weekday: 'long', 
                 year: 'numeric', 
                 month: 'long', 
@@ -186,8 +196,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <div>
-              <CardTitle>Upcoming Duties</CardTitle>
-              <CardDescription>Next scheduled assignments</CardDescription>
+              <CardTitle>{t('dashboard.upcomingDuties')}</CardTitle>
+              <CardDescription>{t('dashboard.upcomingDutiesDescription')}</CardDescription>
             </div>
             <Calendar className="h-5 w-5 text-gray-400" />
           </CardHeader>
@@ -207,10 +217,10 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
                         ></div>
                         <div>
                           <p className="font-medium text-sm">
-                            {dutyType?.name || 'Unknown Duty'}
+                            {dutyTypeName(dutyType) || t('common.unknownDuty')}
                           </p>
                           <p className="text-xs text-gray-600">
-                            {scheduleUser ? `${scheduleUser.rank} ${scheduleUser.firstName} ${scheduleUser.lastName}` : 'Unknown Personnel'}
+                            {scheduleUser ? `${scheduleUser.rank} ${scheduleUser.firstName} ${scheduleUser.lastName}` : t('common.unknownPersonnel')}
                           </p>
                           <p className="text-xs text-gray-500">
                             {new Date(schedule.startTime).toLocaleDateString()} • {new Date(schedule.startTime).toLocaleTimeString([], { 
@@ -230,7 +240,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
             ) : (
               <div className="text-center py-8 text-gray-500">
                 <Calendar className="h-12 w-12 mx-auto mb-4 text-gray-300" />
-                <p>No upcoming duties scheduled</p>
+                <p>{t('dashboard.noUpcomingDuties')}</p>
               </div>
             )}
             {hasPermission(user!, PERMISSIONS.VIEW_ALL_SCHEDULES) && (
@@ -239,7 +249,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
                 className="w-full mt-4" 
                 onClick={() => onPageChange('schedule')}
               >
-                View Full Schedule
+                {t('dashboard.viewFullSchedule')}
               </Button>
             )}
           </CardContent>
@@ -249,8 +259,8 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
         <Card>
           <CardHeader className="flex flex-row items-center justify-between">
             <div>
-              <CardTitle>Recent Activity</CardTitle>
-              <CardDescription>Latest system updates</CardDescription>
+              <CardTitle>{t('dashboard.recentActivity')}</CardTitle>
+              <CardDescription>{t('dashboard.recentActivityDescription')}</CardDescription>
             </div>
             <TrendingUp className="h-5 w-5 text-gray-400" />
           </CardHeader>
@@ -273,11 +283,68 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
           </CardContent>
         </Card>
 
+        {/* Duty Coverage */}
+        {hasPermission(user!, PERMISSIONS.VIEW_ALL_SCHEDULES) && (
+          <Card>
+            <CardHeader className="flex flex-row items-center justify-between">
+              <div>
+                <CardTitle>{t('dashboard.dutyCoverage')}</CardTitle>
+                <CardDescription>{t('dashboard.dutyCoverageDescription')}</CardDescription>
+              </div>
+              <UserMinus className="h-5 w-5 text-gray-400" />
+            </CardHeader>
+            <CardContent>
+              {coverageIssues.length > 0 ? (
+                <div className="space-y-3">
+                  {coverageIssues.slice(0, 5).map(slot => {
+                    const dutyType = dutyTypes.find(dt => dt.id === slot.dutyTypeId);
+                    const isUnderstaffed = slot.status === 'UNDERSTAFFED';
+
+                    return (
+                      <div key={`${slot.dutyTypeId}-${slot.startTime}`} className="flex items-center justify-between p-3 bg-gray-50 rounded-lg">
+                        <div>
+                          <p className="font-medium text-sm">{dutyTypeName(dutyType) || t('common.unknownDuty')}</p>
+                          <p className="text-xs text-gray-500">
+                            {new Date(slot.startTime).toLocaleDateString()} • {new Date(slot.startTime).toLocaleTimeString([], {
+                              hour: '2-digit',
+                              minute: '2-digit'
+                            })} • {slot.assigned}/{isUnderstaffed ? slot.minPersonnel : slot.maxPersonnel} assigned
+                          </p>
+                        </div>
+                        <Badge
+                          variant="secondary"
+                          className={isUnderstaffed ? 'bg-red-100 text-red-800' : 'bg-blue-100 text-blue-800'}
+                        >
+                          {isUnderstaffed ? `${slot.missing} missing` : `${slot.excess} extra`}
+                        </Badge>
+                      </div>
+                    );
+                  })}
+                </div>
+              ) : (
+                <div className="text-center py-8 text-gray-500">
+                  <CheckCircle className="h-12 w-12 mx-auto mb-4 text-gray-300" />
+                  <p>{t('dashboard.coverageOk')}</p>
+                </div>
+              )}
+              {coverageIssues.length > 0 && (
+                <Button
+                  variant="outline"
+                  className="w-full mt-4"
+                  onClick={() => onPageChange('conflicts')}
+                >
+                  Review in Conflicts ({coverageIssues.length})
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <Card>
           <CardHeader>
-            <CardTitle>Quick Actions</CardTitle>
-            <CardDescription>Common tasks and shortcuts</CardDescription>
+            <CardTitle>{t('dashboard.quickActions')}</CardTitle>
+            <CardDescription>{t('dashboard.quickActionsDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="grid grid-cols-2 gap-3">
@@ -288,17 +355,17 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
                   onClick={() => onPageChange('schedule')}
                 >
                   <Calendar className="h-6 w-6 mb-2" />
-                  <span className="text-xs">Create Schedule</span>
+                  <span className="text-xs">{t('dashboard.createSchedule')}</span>
                 </Button>
               )}
               
               <Button 
                 variant="outline" 
                 className="flex flex-col items-center p-4 h-auto"
-                onClick={() => onPageChange('availability')}
+                onClick={() => onPageChange('requests')}
               >
                 <Clock className="h-6 w-6 mb-2" />
-                <span className="text-xs">Submit Request</span>
+                <span className="text-xs">{t('dashboard.submitRequest')}</span>
               </Button>
 
               {hasPermission(user!, PERMISSIONS.VIEW_REPORTS) && (
@@ -308,7 +375,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
                   onClick={() => onPageChange('reports')}
                 >
                   <TrendingUp className="h-6 w-6 mb-2" />
-                  <span className="text-xs">View Reports</span>
+                  <span className="text-xs">{t('dashboard.viewReports')}</span>
                 </Button>
               )}
 
@@ -319,7 +386,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
                   onClick={() => onPageChange('personnel')}
                 >
                   <Users className="h-6 w-6 mb-2" />
-                  <span className="text-xs">Manage Personnel</span>
+                  <span className="text-xs">{t('dashboard.managePersonnel')}</span>
                 </Button>
               )}
             </div>
@@ -329,21 +396,21 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
         {/* System Status */}
         <Card>
           <CardHeader>
-            <CardTitle>System Status</CardTitle>
-            <CardDescription>Current operational status</CardDescription>
+            <CardTitle>{t('dashboard.systemStatus')}</CardTitle>
+            <CardDescription>{t('dashboard.systemStatusDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
             <div className="space-y-4">
               <div className="flex items-center justify-between">
-                <span className="text-sm font-medium">System Health</span>
+                <span className="text-sm font-medium">{t('dashboard.systemHealth')}</span>
                 <Badge variant="secondary" className="bg-green-100 text-green-800">
-                  Operational
+                  {t('dashboard.operational')}
                 </Badge>
               </div>
               
               <div>
                 <div className="flex items-center justify-between mb-2">
-                  <span className="text-sm text-gray-600">Personnel Coverage</span>
+                  <span className="text-sm text-gray-600">{t('dashboard.personnelCoverage')}</span>
                   <span className="text-sm font-medium">
                     {Math.round((stats?.availablePersonnel || 0) / (stats?.totalPersonnel || 1) * 100)}%
                   </span>
@@ -355,7 +422,7 @@ const Dashboard: React.FC<DashboardProps> = ({ onPageChange }) => {
               </div>
 
               <div className="pt-2 text-xs text-gray-500">
-                Last updated: {new Date().toLocaleTimeString()}
+                {t('dashboard.lastUpdated', { time: new Date().toLocaleTimeString() })}
               </div>
             </div>
           </CardContent>
@@ -10,7 +10,9 @@ import { Separator } from '@/components/ui/separator';
 import { Switch } from '@/components/ui/switch';
 import { sheetsIntegration, GoogleSheetsConfig } from '@/lib/sheetsIntegration';
 import { Schedule, User, DutyType } from '@/types';
-import { apiService } from '@/lib/api';
+import { dataProvider } from '@/lib/data-provider';
+import { localDb } from '@/lib/local-db';
+import { useLanguage } from '@/hooks/use-language';
 import { 
   Upload, 
   Download, 
@@ -26,7 +28,6 @@ import {
 interface ImportExportDialogProps {
   isOpen: boolean;
   onClose: () => void;
-  schedules: Schedule[];
   users: User[];
   dutyTypes: DutyType[];
   onSchedulesImported: (schedules: Omit<Schedule, 'id'>[]) => void;
@@ -35,11 +36,11 @@ interface ImportExportDialogProps {
 export function ImportExportDialog({
   isOpen,
   onClose,
-  schedules,
   users,
   dutyTypes,
   onSchedulesImported,
 }: ImportExportDialogProps) {
+  const { t } = useLanguage();
   const [activeTab, setActiveTab] = useState('export');
   const [isLoading, setIsLoading] = useState(false);
   const [progress, setProgress] = useState(0);
@@ -49,7 +50,7 @@ export function ImportExportDialog({
     sheetsIntegration.getConfig()
   );
   const [autoSyncEnabled, setAutoSyncEnabled] = useState(() => 
-    localStorage.getItem('idf_auto_sync_interval') !== null
+    localDb.getValue('idf_auto_sync_interval') !== undefined
   );
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -58,16 +59,22 @@ export function ImportExportDialog({
     try {
       setIsLoading(true);
       setProgress(30);
-      setMessage({ type: 'info', text: `Exporting schedules to ${format.toUpperCase()}...` });
+      setMessage({ type: 'info', text: t('importExport.exporting', { format: format.toUpperCase() }) });
 
+      // The calendar only holds the weeks on screen; an export covers every schedule
+      const schedules = await dataProvider.fetchSchedules();
+      if (schedules.length === 0) {
+        setMessage({ type: 'info', text: t('importExport.nothingToExport') });
+        return;
+      }
       await sheetsIntegration.exportSchedulesToExcel(schedules, users, dutyTypes, format);
       
       setProgress(100);
-      setMessage({ type: 'success', text: `Successfully exported ${schedules.length} schedules to ${format.toUpperCase()}` });
+      setMessage({ type: 'success', text: t('importExport.exported', { count: schedules.length, format: format.toUpperCase() }) });
     } catch (error) {
       setMessage({ 
         type: 'error', 
-        text: error instanceof Error ? error.message : 'Export failed' 
+        text: error instanceof Error ? error.message : t('importExport.exportFailed') 
       });
     } finally {
       setIsLoading(false);
@@ -78,11 +85,11 @@ export function ImportExportDialog({
   const handleDownloadTemplate = () => {
     try {
       sheetsIntegration.generateImportTemplate();
-      setMessage({ type: 'success', text: 'Import template downloaded successfully' });
+      setMessage({ type: 'success', text: t('importExport.templateDownloaded') });
     } catch (error) {
       setMessage({ 
         type: 'error', 
-        text: 'Failed to generate template' 
+        text: t('importExport.templateFailed') 
       });
     }
   };
@@ -95,7 +102,7 @@ export function ImportExportDialog({
     try {
       setIsLoading(true);
       setProgress(20);
-      setMessage({ type: 'info', text: 'Reading Excel file...' });
+      setMessage({ type: 'info', text: t('importExport.reading') });
 
       setProgress(50);
       const results = await sheetsIntegration.importSchedulesFromExcel(file);
@@ -106,12 +113,12 @@ export function ImportExportDialog({
       if (results.schedules.length > 0) {
         setMessage({ 
           type: 'success', 
-          text: `Found ${results.schedules.length} valid schedules from ${results.summary.total} rows` 
+          text: t('importExport.found', { count: results.schedules.length, total: results.summary.total }) 
         });
       } else {
         setMessage({ 
           type: 'error', 
-          text: 'No valid schedules found in the file' 
+          text: t('importExport.noneFound') 
         });
       }
 
@@ -119,7 +126,7 @@ export function ImportExportDialog({
     } catch (error) {
       setMessage({ 
         type: 'error', 
-        text: error instanceof Error ? error.message : 'Import failed' 
+        text: error instanceof Error ? error.message : t('importExport.importFailed') 
       });
       setImportResults(null);
     } finally {
@@ -137,20 +144,20 @@ export function ImportExportDialog({
 
     try {
       setIsLoading(true);
-      setMessage({ type: 'info', text: 'Importing schedules...' });
+      setMessage({ type: 'info', text: t('importExport.importing') });
 
       // Import schedules to the system
       onSchedulesImported(importResults.schedules);
       
       setMessage({ 
         type: 'success', 
-        text: `Successfully imported ${importResults.schedules.length} schedules` 
+        text: t('importExport.imported', { count: importResults.schedules.length }) 
       });
       setImportResults(null);
     } catch (error) {
       setMessage({ 
         type: 'error', 
-        text: 'Failed to import schedules' 
+        text: t('importExport.importSchedulesFailed') 
       });
     } finally {
       setIsLoading(false);
@@ -162,9 +169,9 @@ export function ImportExportDialog({
     try {
       setIsLoading(true);
       setProgress(30);
-      setMessage({ type: 'info', text: 'Syncing with Google Sheets...' });
+      setMessage({ type: 'info', text: t('importExport.syncing') });
 
-      const result = await sheetsIntegration.syncWithGoogleSheets(schedules, users, dutyTypes);
+      const result = await sheetsIntegration.syncWithGoogleSheets(await dataProvider.fetchSchedules(), users, dutyTypes);
       
       setProgress(100);
       if (result.success) {
@@ -178,7 +185,7 @@ export function ImportExportDialog({
     } catch (error) {
       setMessage({ 
         type: 'error', 
-        text: error instanceof Error ? error.message : 'Sync failed' 
+        text: error instanceof Error ? error.message : t('importExport.syncFailed') 
       });
     } finally {
       setIsLoading(false);
@@ -188,17 +195,17 @@ export function ImportExportDialog({
 
   const handleSaveConfig = () => {
     sheetsIntegration.setConfig(sheetsConfig);
-    setMessage({ type: 'success', text: 'Google Sheets configuration saved' });
+    setMessage({ type: 'success', text: t('importExport.configSaved') });
   };
 
   const handleAutoSyncToggle = async (enabled: boolean) => {
     setAutoSyncEnabled(enabled);
     if (enabled) {
       await sheetsIntegration.enableAutoSync(30);
-      setMessage({ type: 'success', text: 'Auto-sync enabled (every 30 minutes)' });
+      setMessage({ type: 'success', text: t('importExport.autoSyncEnabled') });
     } else {
       await sheetsIntegration.disableAutoSync();
-      setMessage({ type: 'success', text: 'Auto-sync disabled' });
+      setMessage({ type: 'success', text: t('importExport.autoSyncDisabled') });
     }
   };
 
@@ -210,7 +217,7 @@ export function ImportExportDialog({
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <FileSpreadsheet className="h-5 w-5" />
-            Import/Export & Google Sheets Integration
+            {t('importExport.title')}
           </DialogTitle>
         </DialogHeader>
 
@@ -249,48 +256,48 @@ export function ImportExportDialog({
 
         <Tabs value={activeTab} onValueChange={setActiveTab}>
           <TabsList className="grid w-full grid-cols-4">
-            <TabsTrigger value="export">Export</TabsTrigger>
-            <TabsTrigger value="import">Import</TabsTrigger>
-            <TabsTrigger value="sheets">Google Sheets</TabsTrigger>
-            <TabsTrigger value="settings">Settings</TabsTrigger>
+            <TabsTrigger value="export">{t('importExport.tabExport')}</TabsTrigger>
+            <TabsTrigger value="import">{t('importExport.tabImport')}</TabsTrigger>
+            <TabsTrigger value="sheets">{t('importExport.tabSheets')}</TabsTrigger>
+            <TabsTrigger value="settings">{t('importExport.tabSettings')}</TabsTrigger>
           </TabsList>
 
           <TabsContent value="export" className="space-y-4">
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Export Schedules</h3>
+              <h3 className="text-lg font-semibold">{t('importExport.exportTitle')}</h3>
               <p className="text-sm text-gray-600">
-                Export current schedules to Excel or CSV format for backup or external use.
+                {t('importExport.exportDescription')}
               </p>
               
               <div className="grid grid-cols-2 gap-4">
                 <Button 
                   onClick={() => handleExportToExcel('xlsx')}
-                  disabled={isLoading || schedules.length === 0}
+                  disabled={isLoading}
                   className="flex items-center gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export to Excel (.xlsx)
+                  {t('importExport.exportExcel')}
                 </Button>
                 
                 <Button 
                   onClick={() => handleExportToExcel('csv')}
-                  disabled={isLoading || schedules.length === 0}
+                  disabled={isLoading}
                   variant="outline"
                   className="flex items-center gap-2"
                 >
                   <Download className="h-4 w-4" />
-                  Export to CSV
+                  {t('importExport.exportCsv')}
                 </Button>
               </div>
 
               <div className="p-4 bg-gray-50 rounded-lg">
-                <h4 className="font-medium mb-2">Export includes:</h4>
+                <h4 className="font-medium mb-2">{t('importExport.exportIncludes')}</h4>
                 <ul className="text-sm text-gray-600 space-y-1">
-                  <li>• Personnel details (name, rank, unit, email)</li>
-                  <li>• Duty assignments and types</li>
-                  <li>• Schedule dates and times</li>
-                  <li>• Status and notes</li>
-                  <li>• Assignment history</li>
+                  <li>• {t('importExport.includesPersonnel')}</li>
+                  <li>• {t('importExport.includesDuties')}</li>
+                  <li>• {t('importExport.includesTimes')}</li>
+                  <li>• {t('importExport.includesStatus')}</li>
+                  <li>• {t('importExport.includesHistory')}</li>
                 </ul>
               </div>
             </div>
@@ -298,9 +305,9 @@ export function ImportExportDialog({
 
           <TabsContent value="import" className="space-y-4">
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Import Schedules</h3>
+              <h3 className="text-lg font-semibold">{t('importExport.importTitle')}</h3>
               <p className="text-sm text-gray-600">
-                Import schedules from Excel files. Download the template to see the required format.
+                {t('importExport.importDescription')}
               </p>
 
               <div className="flex gap-2">
@@ -310,14 +317,14 @@ export function ImportExportDialog({
                   className="flex items-center gap-2"
                 >
                   <FileSpreadsheet className="h-4 w-4" />
-                  Download Template
+                  {t('importExport.downloadTemplate')}
                 </Button>
               </div>
 
               <Separator />
 
               <div className="space-y-2">
-                <Label htmlFor="file-upload">Select Excel File (.xlsx, .xls)</Label>
+                <Label htmlFor="file-upload">{t('importExport.selectFile')}</Label>
                 <Input
                   ref={fileInputRef}
                   id="file-upload"
@@ -331,18 +338,18 @@ export function ImportExportDialog({
               {importResults && (
                 <div className="space-y-4">
                   <div className="p-4 bg-blue-50 rounded-lg">
-                    <h4 className="font-medium mb-2">Import Summary</h4>
+                    <h4 className="font-medium mb-2">{t('importExport.summary')}</h4>
                     <div className="grid grid-cols-3 gap-4 text-sm">
                       <div>
-                        <span className="font-medium">Total Rows:</span>
+                        <span className="font-medium">{t('importExport.totalRows')}</span>
                         <p className="text-lg font-bold">{importResults.summary.total}</p>
                       </div>
                       <div>
-                        <span className="font-medium text-green-600">Valid:</span>
+                        <span className="font-medium text-green-600">{t('importExport.valid')}</span>
                         <p className="text-lg font-bold text-green-600">{importResults.summary.valid}</p>
                       </div>
                       <div>
-                        <span className="font-medium text-red-600">Invalid:</span>
+                        <span className="font-medium text-red-600">{t('importExport.invalid')}</span>
                         <p className="text-lg font-bold text-red-600">{importResults.summary.invalid}</p>
                       </div>
                     </div>
@@ -350,7 +357,7 @@ export function ImportExportDialog({
 
                   {importResults.errors.length > 0 && (
                     <div className="p-4 bg-red-50 rounded-lg">
-                      <h4 className="font-medium text-red-800 mb-2">Import Errors</h4>
+                      <h4 className="font-medium text-red-800 mb-2">{t('importExport.errors')}</h4>
                       <div className="max-h-32 overflow-y-auto">
                         {importResults.errors.map((error: string, index: number) => (
                           <p key={index} className="text-sm text-red-700">{error}</p>
@@ -366,13 +373,13 @@ export function ImportExportDialog({
                       className="flex items-center gap-2"
                     >
                       <Upload className="h-4 w-4" />
-                      Import {importResults.schedules.length} Schedules
+                      {t('importExport.importCount', { count: importResults.schedules.length })}
                     </Button>
                     <Button 
                       onClick={() => setImportResults(null)}
                       variant="outline"
                     >
-                      Cancel
+                      {t('common.cancel')}
                     </Button>
                   </div>
                 </div>
@@ -382,9 +389,9 @@ export function ImportExportDialog({
 
           <TabsContent value="sheets" className="space-y-4">
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Google Sheets Integration</h3>
+              <h3 className="text-lg font-semibold">{t('importExport.sheetsTitle')}</h3>
               <p className="text-sm text-gray-600">
-                Automatically sync schedules with Google Sheets for real-time collaboration.
+                {t('importExport.sheetsDescription')}
               </p>
 
               <div className="flex items-center space-x-2">
@@ -393,7 +400,7 @@ export function ImportExportDialog({
                   checked={autoSyncEnabled}
                   onCheckedChange={handleAutoSyncToggle}
                 />
-                <Label htmlFor="auto-sync">Enable Auto-sync (every 30 minutes)</Label>
+                <Label htmlFor="auto-sync">{t('importExport.enableAutoSync')}</Label>
               </div>
 
               <div className="flex gap-2">
@@ -403,7 +410,7 @@ export function ImportExportDialog({
                   className="flex items-center gap-2"
                 >
                   <RefreshCw className="h-4 w-4" />
-                  Sync Now
+                  {t('importExport.syncNow')}
                 </Button>
                 <Button 
                   onClick={() => window.open('https://docs.google.com/spreadsheets/', '_blank')}
@@ -411,18 +418,18 @@ export function ImportExportDialog({
                   className="flex items-center gap-2"
                 >
                   <ExternalLink className="h-4 w-4" />
-                  Open Google Sheets
+                  {t('importExport.openSheets')}
                 </Button>
               </div>
 
               <div className="p-4 bg-green-50 rounded-lg">
-                <h4 className="font-medium mb-2">Sync Features:</h4>
+                <h4 className="font-medium mb-2">{t('importExport.syncFeatures')}</h4>
                 <ul className="text-sm text-gray-600 space-y-1">
-                  <li>• Real-time schedule updates</li>
-                  <li>• Collaborative editing</li>
-                  <li>• Automatic conflict detection</li>
-                  <li>• Version history tracking</li>
-                  <li>• Mobile access via Google Sheets app</li>
+                  <li>• {t('importExport.featureUpdates')}</li>
+                  <li>• {t('importExport.featureEditing')}</li>
+                  <li>• {t('importExport.featureConflicts')}</li>
+                  <li>• {t('importExport.featureHistory')}</li>
+                  <li>• {t('importExport.featureMobile')}</li>
                 </ul>
               </div>
             </div>
@@ -430,14 +437,14 @@ export function ImportExportDialog({
 
           <TabsContent value="settings" className="space-y-4">
             <div className="space-y-4">
-              <h3 className="text-lg font-semibold">Google Sheets Configuration</h3>
+              <h3 className="text-lg font-semibold">{t('importExport.configTitle')}</h3>
               <p className="text-sm text-gray-600">
-                Configure your Google Sheets integration settings.
+                {t('importExport.configDescription')}
               </p>
 
               <div className="grid gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="sheet-id">Google Sheet ID</Label>
+                  <Label htmlFor="sheet-id">{t('importExport.sheetId')}</Label>
                   <Input
                     id="sheet-id"
                     placeholder="1BxiMVs0XRA5nFMdKvBdBZjgmUUqptlbs74OgvE2upms"
@@ -445,12 +452,12 @@ export function ImportExportDialog({
                     onChange={(e) => setSheetsConfig(prev => ({ ...prev, sheetId: e.target.value }))}
                   />
                   <p className="text-xs text-gray-500">
-                    Found in the URL: https://docs.google.com/spreadsheets/d/[SHEET_ID]/edit
+                    {t('importExport.sheetIdHint')}
                   </p>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="api-key">Google API Key</Label>
+                  <Label htmlFor="api-key">{t('importExport.apiKey')}</Label>
                   <Input
                     id="api-key"
                     type="password"
@@ -459,12 +466,12 @@ export function ImportExportDialog({
                     onChange={(e) => setSheetsConfig(prev => ({ ...prev, apiKey: e.target.value }))}
                   />
                   <p className="text-xs text-gray-500">
-                    Get your API key from Google Cloud Console
+                    {t('importExport.apiKeyHint')}
                   </p>
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="access-token">Access Token (Optional)</Label>
+                  <Label htmlFor="access-token">{t('importExport.accessToken')}</Label>
                   <Input
                     id="access-token"
                     type="password"
@@ -473,7 +480,7 @@ export function ImportExportDialog({
                     onChange={(e) => setSheetsConfig(prev => ({ ...prev, accessToken: e.target.value }))}
                   />
                   <p className="text-xs text-gray-500">
-                    OAuth2 access token for write permissions
+                    {t('importExport.accessTokenHint')}
                   </p>
                 </div>
 
@@ -482,18 +489,18 @@ export function ImportExportDialog({
                   className="flex items-center gap-2 w-fit"
                 >
                   <Settings className="h-4 w-4" />
-                  Save Configuration
+                  {t('importExport.saveConfig')}
                 </Button>
               </div>
 
               <div className="p-4 bg-yellow-50 rounded-lg">
-                <h4 className="font-medium mb-2">Setup Instructions:</h4>
+                <h4 className="font-medium mb-2">{t('importExport.setupTitle')}</h4>
                 <ol className="text-sm text-gray-600 space-y-1 list-decimal list-inside">
-                  <li>Create a Google Sheet for your schedules</li>
-                  <li>Copy the Sheet ID from the URL</li>
-                  <li>Get an API key from Google Cloud Console</li>
-                  <li>Enable Google Sheets API for your project</li>
-                  <li>Configure authentication for write access</li>
+                  <li>{t('importExport.setupCreate')}</li>
+                  <li>{t('importExport.setupCopyId')}</li>
+                  <li>{t('importExport.setupApiKey')}</li>
+                  <li>{t('importExport.setupEnableApi')}</li>
+                  <li>{t('importExport.setupAuth')}</li>
                 </ol>
               </div>
             </div>
@@ -502,7 +509,7 @@ export function ImportExportDialog({
 
         <div className="flex justify-end gap-2 mt-6">
           <Button variant="outline" onClick={onClose}>
-            Close
+            {t('importExport.close')}
           </Button>
         </div>
       </DialogContent>
@@ -1,5 +1,7 @@
 import React, { useState } from 'react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
 import { Button } from '@/components/ui/button';
 import { Avatar, AvatarFallback, AvatarImage } from '@/components/ui/avatar';
 import { Badge } from '@/components/ui/badge';
@@ -13,6 +15,7 @@ import {
 } from '@/components/ui/dropdown-menu';
 import {
   Calendar,
+  CalendarCheck,
   Users,
   BarChart3,
   Settings,
@@ -24,9 +27,11 @@ import {
   AlertTriangle,
   ChevronLeft,
   ChevronRight,
+  History,
 } from 'lucide-react';
 import { getRoleDisplayName, getRoleColor, hasPermission, PERMISSIONS } from '@/lib/auth';
 import NotificationCenter from '@/components/NotificationCenter';
+import OfflineChanges from '@/components/OfflineChanges';
 
 interface LayoutProps {
   children: React.ReactNode;
@@ -36,6 +41,7 @@ interface LayoutProps {
 
 const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange }) => {
   const { user, logout } = useAuth();
+  const { t, language, isRTL } = useLanguage();
   const [sidebarOpen, setSidebarOpen] = useState(true);
 
   if (!user) return null;
@@ -43,50 +49,46 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
   const navigationItems = [
     {
       id: 'dashboard',
-      label: 'Dashboard',
-      labelHe: 'לוח בקרה',
       icon: Home,
       permission: null,
     },
     {
       id: 'schedule',
-      label: 'Schedule',
-      labelHe: 'לוח זמנים',
       icon: Calendar,
       permission: PERMISSIONS.VIEW_ALL_SCHEDULES,
     },
     {
-      id: 'availability',
-      label: 'Requests',
-      labelHe: 'בקשות',
+      id: 'requests',
       icon: Clock,
       permission: null,
     },
+    {
+      id: 'availability',
+      icon: CalendarCheck,
+      permission: null,
+    },
     {
       id: 'personnel',
-      label: 'Personnel',
-      labelHe: 'כוח אדם',
       icon: Users,
       permission: PERMISSIONS.MANAGE_USERS,
     },
     {
       id: 'conflicts',
-      label: 'Conflicts',
-      labelHe: 'קונפליקטים',
       icon: AlertTriangle,
       permission: PERMISSIONS.VIEW_ALL_SCHEDULES,
     },
     {
       id: 'reports',
-      label: 'Reports',
-      labelHe: 'דוחות',
       icon: BarChart3,
       permission: PERMISSIONS.VIEW_REPORTS,
     },
+    {
+      id: 'audit',
+      icon: History,
+      permission: PERMISSIONS.VIEW_AUDIT_LOG,
+    },
     {
       id: 'settings',
-      label: 'Settings',
-      labelHe: 'הגדרות',
       icon: Settings,
       permission: PERMISSIONS.MANAGE_USERS,
     },
@@ -106,8 +108,8 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
             <img src="/images/idf-logo.png" alt="IDF" className="h-8 w-8 object-contain" />
             {sidebarOpen && (
               <div>
-                <h1 className="text-lg font-bold text-gray-900">IDF Logistics</h1>
-                <p className="text-xs text-gray-500">Reserve Management</p>
+                <h1 className="text-lg font-bold text-gray-900">{t('layout.appName')}</h1>
+                <p className="text-xs text-gray-500">{t('layout.appSubtitle')}</p>
               </div>
             )}
           </div>
@@ -123,15 +125,15 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
               <button
                 key={item.id}
                 onClick={() => onPageChange(item.id)}
-                className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-left transition-colors duration-200 ${
+                className={`w-full flex items-center space-x-3 px-3 py-2 rounded-lg text-start transition-colors duration-200 ${
                   isActive
-                    ? 'bg-blue-100 text-blue-700 border-r-2 border-blue-700'
+                    ? 'bg-blue-100 text-blue-700 border-e-2 border-blue-700'
                     : 'text-gray-600 hover:bg-gray-100 hover:text-gray-900'
                 }`}
               >
                 <Icon className="h-5 w-5 flex-shrink-0" />
                 {sidebarOpen && (
-                  <span className="font-medium">{item.label}</span>
+                  <span className="font-medium">{t(`nav.${item.id}` as TranslationKey)}</span>
                 )}
               </button>
             );
@@ -146,7 +148,7 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
             onClick={() => setSidebarOpen(!sidebarOpen)}
             className="w-full justify-center"
           >
-            {sidebarOpen ? (
+            {sidebarOpen !== isRTL ? (
               <ChevronLeft className="h-4 w-4" />
             ) : (
               <ChevronRight className="h-4 w-4" />
@@ -162,10 +164,10 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
           <div className="flex items-center justify-between">
             <div className="flex items-center space-x-4">
               <h2 className="text-xl font-semibold text-gray-900 capitalize">
-                {currentPage}
+                {t(`nav.${currentPage}` as TranslationKey)}
               </h2>
               <Badge variant="outline" className="text-xs">
-                {new Date().toLocaleDateString('en-US', { 
+                {new Date().toLocaleDateString(language === 'he' ? 'he-IL' : 'en-US', { 
                   weekday: 'long', 
                   year: 'numeric', 
                   month: 'long', 
@@ -175,6 +177,9 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
             </div>
 
             <div className="flex items-center space-x-4">
+              {/* Writes waiting to reach the server */}
+              <OfflineChanges />
+
               {/* Notification Center */}
               <NotificationCenter />
               
@@ -187,7 +192,7 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
                         {user.firstName[0]}{user.lastName[0]}
                       </AvatarFallback>
                     </Avatar>
-                    <div className="text-left hidden sm:block">
+                    <div className="text-start hidden sm:block">
                       <p className="text-sm font-medium text-gray-900">
                         {user.rank} {user.firstName} {user.lastName}
                       </p>
@@ -209,17 +214,17 @@ const Layout: React.FC<LayoutProps> = ({ children, currentPage, onPageChange })
                   </DropdownMenuLabel>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={() => onPageChange('profile')}>
-                    <Users className="mr-2 h-4 w-4" />
-                    Profile
+                    <Users className="me-2 h-4 w-4" />
+                    {t('nav.profile')}
                   </DropdownMenuItem>
                   <DropdownMenuItem onClick={() => onPageChange('settings')}>
-                    <Settings className="mr-2 h-4 w-4" />
-                    Settings
+                    <Settings className="me-2 h-4 w-4" />
+                    {t('nav.settings')}
                   </DropdownMenuItem>
                   <DropdownMenuSeparator />
                   <DropdownMenuItem onClick={logout} className="text-red-600">
-                    <LogOut className="mr-2 h-4 w-4" />
-                    Sign Out
+                    <LogOut className="me-2 h-4 w-4" />
+                    {t('layout.signOut')}
                   </DropdownMenuItem>
                 </DropdownMenuContent>
               </DropdownMenu>
@@ -5,6 +5,9 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/com
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Shield, Eye, EyeOff, UserPlus } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
+import { UserRole } from '@/types';
 
 interface LoginProps {
   onShowSignUp?: () => void;
@@ -17,6 +20,7 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
   const [error, setError] = useState('');
   const [isLoading, setIsLoading] = useState(false);
   const { login } = useAuth();
+  const { t } = useLanguage();
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
@@ -26,21 +30,21 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
     try {
       const success = await login(email, password);
       if (!success) {
-        setError('Invalid email or password');
+        setError(t('login.invalidCredentials'));
       }
     } catch (err) {
-      setError('Login failed. Please try again.');
+      setError(t('login.failed'));
     } finally {
       setIsLoading(false);
     }
   };
 
-  const demoAccounts = [
-    { email: 'admin@idf.mil', role: 'Super Admin', description: 'Full system access' },
-    { email: 'commander@idf.mil', role: 'Commander', description: 'Unit management' },
-    { email: 'dutyofficer@idf.mil', role: 'Duty Officer', description: 'Daily operations' },
-    { email: 'nco1@idf.mil', role: 'NCO', description: 'Squad coordination' },
-    { email: 'reservist1@idf.mil', role: 'Reservist', description: 'Basic access' },
+  const demoAccounts: { email: string; role: UserRole }[] = [
+    { email: 'admin@idf.mil', role: 'SUPER_ADMIN' },
+    { email: 'commander@idf.mil', role: 'COMMANDER' },
+    { email: 'dutyofficer@idf.mil', role: 'DUTY_OFFICER' },
+    { email: 'nco1@idf.mil', role: 'NCO' },
+    { email: 'reservist1@idf.mil', role: 'RESERVIST' },
   ];
 
   return (
@@ -53,34 +57,34 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
           <div className="flex items-center space-x-4 mb-8">
             <img src="/images/idf-logo.png" alt="IDF Logo" className="h-16 w-16 object-contain" />
             <div>
-              <h1 className="text-4xl font-bold">IDF Logistics</h1>
-              <p className="text-xl text-blue-200">Reserve Duty Management</p>
+              <h1 className="text-4xl font-bold">{t('layout.appName')}</h1>
+              <p className="text-xl text-blue-200">{t('login.appSubtitle')}</p>
             </div>
           </div>
           
           <div className="space-y-4 text-lg">
             <p className="flex items-center space-x-3">
               <Shield className="h-5 w-5 text-blue-300" />
-              <span>Secure military-grade system</span>
+              <span>{t('login.secureSystem')}</span>
             </p>
             <p className="text-blue-200">
-              Advanced shift planning and logistics management for IDF reserve units.
+              {t('login.tagline')}
             </p>
           </div>
 
           {/* Demo Accounts */}
           <div className="bg-blue-800/30 backdrop-blur-sm rounded-lg p-4">
-            <h3 className="text-lg font-semibold mb-3">Demo Accounts</h3>
+            <h3 className="text-lg font-semibold mb-3">{t('login.demoAccounts')}</h3>
             <div className="space-y-2 text-sm">
               {demoAccounts.map((account) => (
                 <div key={account.email} className="flex flex-col space-y-1">
                   <div className="flex justify-between items-center">
                     <span className="font-medium text-xs">{account.email}</span>
-                    <span className="text-blue-200">{account.role}</span>
+                    <span className="text-blue-200">{t(`roles.${account.role}` as TranslationKey)}</span>
                   </div>
                 </div>
               ))}
-              <p className="text-xs text-blue-300 mt-2">Password: any 3+ characters</p>
+              <p className="text-xs text-blue-300 mt-2">{t('login.demoPassword')}</p>
             </div>
           </div>
         </div>
@@ -89,9 +93,9 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
         <div className="flex items-center justify-center">
           <Card className="w-full max-w-md bg-white/95 backdrop-blur-sm shadow-2xl">
             <CardHeader className="text-center">
-              <CardTitle className="text-2xl font-bold text-gray-900">Sign In</CardTitle>
+              <CardTitle className="text-2xl font-bold text-gray-900">{t('login.title')}</CardTitle>
               <CardDescription className="text-gray-600">
-                Access the IDF Reserve Duty Management System
+                {t('login.description')}
               </CardDescription>
             </CardHeader>
             <CardContent>
@@ -104,7 +108,7 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
                 
                 <div className="space-y-2">
                   <label htmlFor="email" className="text-sm font-medium text-gray-700">
-                    Email
+                    {t('login.email')}
                   </label>
                   <Input
                     id="email"
@@ -113,13 +117,13 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
                     onChange={(e) => setEmail(e.target.value)}
                     required
                     className="w-full"
-                    placeholder="Enter your email"
+                    placeholder={t('login.emailPlaceholder')}
                   />
                 </div>
 
                 <div className="space-y-2">
                   <label htmlFor="password" className="text-sm font-medium text-gray-700">
-                    Password
+                    {t('login.password')}
                   </label>
                   <div className="relative">
                     <Input
@@ -129,7 +133,7 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
                       onChange={(e) => setPassword(e.target.value)}
                       required
                       className="w-full pr-10"
-                      placeholder="Enter your password"
+                      placeholder={t('login.passwordPlaceholder')}
                     />
                     <button
                       type="button"
@@ -146,7 +150,7 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
                   className="w-full bg-blue-600 hover:bg-blue-700"
                   disabled={isLoading}
                 >
-                  {isLoading ? 'Signing In...' : 'Sign In'}
+                  {isLoading ? t('login.signingIn') : t('login.title')}
                 </Button>
               </form>
 
@@ -157,7 +161,7 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
                       <span className="w-full border-t border-gray-300" />
                     </div>
                     <div className="relative flex justify-center text-xs uppercase">
-                      <span className="bg-white px-2 text-gray-500">Or</span>
+                      <span className="bg-white px-2 text-gray-500">{t('login.or')}</span>
                     </div>
                   </div>
                   
@@ -168,14 +172,14 @@ const Login: React.FC<LoginProps> = ({ onShowSignUp }) => {
                     onClick={onShowSignUp}
                   >
                     <UserPlus className="h-4 w-4 mr-2" />
-                    Create New Account
+                    {t('login.createAccount')}
                   </Button>
                 </div>
               )}
 
               <div className="mt-6 text-center text-sm text-gray-500">
-                <p>Secure access to military systems</p>
-                <p className="mt-1">All activities are logged and monitored</p>
+                <p>{t('login.secureAccess')}</p>
+                <p className="mt-1">{t('login.monitored')}</p>
               </div>
             </CardContent>
           </Card>
@@ -11,11 +11,13 @@ import {
 } from '@/components/ui/dropdown-menu';
 import { ScrollArea } from '@/components/ui/scroll-area';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/hooks/use-language';
 import { useNotifications, notificationService, Notification } from '@/lib/notifications';
 import { cn } from '@/lib/utils';
 
 const NotificationCenter: React.FC = () => {
   const { user } = useAuth();
+  const { t, language } = useLanguage();
   const { notifications, unreadCount, markAsRead, markAllAsRead, deleteNotification } = useNotifications(user?.id || '');
   const [isOpen, setIsOpen] = useState(false);
 
@@ -28,6 +30,7 @@ const NotificationCenter: React.FC = () => {
     switch (type) {
       case 'duty_assigned':
       case 'duty_changed':
+      case 'shift_swap':
         return <Clock className="h-4 w-4 text-blue-600" />;
       case 'duty_cancelled':
         return <X className="h-4 w-4 text-red-600" />;
@@ -60,16 +63,16 @@ const NotificationCenter: React.FC = () => {
     const now = new Date();
     const diffInMinutes = Math.floor((now.getTime() - date.getTime()) / (1000 * 60));
 
-    if (diffInMinutes < 1) return 'Just now';
-    if (diffInMinutes < 60) return `${diffInMinutes}m ago`;
+    if (diffInMinutes < 1) return t('notifications.justNow');
+    if (diffInMinutes < 60) return t('notifications.minutesAgo', { count: diffInMinutes });
     
     const diffInHours = Math.floor(diffInMinutes / 60);
-    if (diffInHours < 24) return `${diffInHours}h ago`;
+    if (diffInHours < 24) return t('notifications.hoursAgo', { count: diffInHours });
     
     const diffInDays = Math.floor(diffInHours / 24);
-    if (diffInDays < 7) return `${diffInDays}d ago`;
+    if (diffInDays < 7) return t('notifications.daysAgo', { count: diffInDays });
     
-    return date.toLocaleDateString();
+    return date.toLocaleDateString(language === 'he' ? 'he-IL' : 'en-US');
   };
 
   const handleNotificationClick = (notification: Notification) => {
@@ -96,7 +99,7 @@ const NotificationCenter: React.FC = () => {
       
       <DropdownMenuContent align="end" className="w-80">
         <div className="flex items-center justify-between px-4 py-2 border-b">
-          <h3 className="font-semibold">Notifications</h3>
+          <h3 className="font-semibold">{t('notifications.title')}</h3>
           <div className="flex items-center space-x-1">
             {unreadCount > 0 && (
               <Button
@@ -106,7 +109,7 @@ const NotificationCenter: React.FC = () => {
                 className="text-xs h-6 px-2"
               >
                 <CheckCheck className="h-3 w-3 mr-1" />
-                Mark all read
+                {t('notifications.markAllRead')}
               </Button>
             )}
           </div>
@@ -167,7 +170,7 @@ const NotificationCenter: React.FC = () => {
                         
                         {notification.priority === 'high' && (
                           <Badge variant="destructive" className="text-xs">
-                            High Priority
+                            {t('notifications.highPriority')}
                           </Badge>
                         )}
                       </div>
@@ -179,7 +182,7 @@ const NotificationCenter: React.FC = () => {
           ) : (
             <div className="text-center py-8">
               <Bell className="h-12 w-12 text-gray-300 mx-auto mb-4" />
-              <p className="text-gray-500">No notifications</p>
+              <p className="text-gray-500">{t('notifications.empty')}</p>
             </div>
           )}
         </ScrollArea>
@@ -187,7 +190,7 @@ const NotificationCenter: React.FC = () => {
         {notifications.length > 20 && (
           <div className="border-t p-2">
             <Button variant="ghost" size="sm" className="w-full">
-              View all notifications
+              {t('notifications.viewAll')}
             </Button>
           </div>
         )}
@@ -0,0 +1,249 @@
+import React, { useEffect, useState } from 'react';
+import { CloudOff, RefreshCw, AlertTriangle, XCircle, Clock, RotateCcw, Trash2 } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { ScrollArea } from '@/components/ui/scroll-area';
+import { useToast } from '@/hooks/use-toast';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
+import { outboxService, useOutbox } from '@/lib/outbox';
+import { OutboxOperation, OutboxStatus } from '@/types';
+
+const STATUS_STYLES: Record<OutboxStatus, { label: TranslationKey; className: string }> = {
+  PENDING: { label: 'offline.status.pending', className: 'bg-gray-100 text-gray-800' },
+  SYNCING: { label: 'offline.status.syncing', className: 'bg-blue-100 text-blue-800' },
+  FAILED: { label: 'offline.status.failed', className: 'bg-red-100 text-red-800' },
+  CONFLICT: { label: 'offline.status.conflict', className: 'bg-orange-100 text-orange-800' },
+};
+
+const formatValue = (value: unknown): string => {
+  if (value === undefined || value === null || value === '') return '-';
+  return typeof value === 'object' ? JSON.stringify(value) : String(value);
+};
+
+// Fields where the local version and the server copy disagree
+const getConflictingFields = (operation: OutboxOperation) => {
+  const server = operation.serverCopy || {};
+  const local = operation.type === 'DELETE' ? {} : { ...operation.base, ...operation.data };
+
+  return Array.from(new Set([...Object.keys(server), ...Object.keys(local)]))
+    .filter(field => field !== 'id' && JSON.stringify(server[field]) !== JSON.stringify(local[field]))
+    .sort()
+    .map(field => ({ field, server: server[field], local: local[field] }));
+};
+
+const OfflineChanges: React.FC = () => {
+  const { operations, retry, keepLocal, discard } = useOutbox();
+  const { toast } = useToast();
+  const { t } = useLanguage();
+  const [isOnline, setIsOnline] = useState(navigator.onLine);
+  const [dismissedConflictId, setDismissedConflictId] = useState<string | null>(null);
+  const [reviewing, setReviewing] = useState<OutboxOperation | null>(null);
+
+  useEffect(() => {
+    const updateOnline = () => setIsOnline(navigator.onLine);
+    window.addEventListener('online', updateOnline);
+    window.addEventListener('offline', updateOnline);
+    return () => {
+      window.removeEventListener('online', updateOnline);
+      window.removeEventListener('offline', updateOnline);
+    };
+  }, []);
+
+  // Writes that can't be queued are refused while offline; say so whichever screen made them
+  useEffect(() => outboxService.onRefusedWrite(error => {
+    toast({
+      title: t('offline.notSaved'),
+      description: t(error.reason === 'offline' ? 'offline.refusedOffline' : 'offline.refusedPending'),
+      variant: 'destructive',
+    });
+  }), [toast, t]);
+
+  // Replay stops at a conflict, so the first one is raised as soon as it is found
+  const conflict = operations.find(op => op.status === 'CONFLICT');
+  const prompted = reviewing || (conflict && conflict.id !== dismissedConflictId ? conflict : null);
+
+  useEffect(() => {
+    if (reviewing && !operations.some(op => op.id === reviewing.id && op.status === 'CONFLICT')) {
+      setReviewing(null);
+    }
+  }, [operations, reviewing]);
+
+  if (operations.length === 0 && isOnline) return null;
+
+  const run = async (action: () => Promise<void>, failure: TranslationKey) => {
+    try {
+      await action();
+    } catch (error) {
+      console.error('Offline change action failed:', error);
+      toast({
+        title: t('offline.error'),
+        description: t(failure),
+        variant: 'destructive',
+      });
+    }
+  };
+
+  const closePrompt = () => {
+    if (prompted) setDismissedConflictId(prompted.id);
+    setReviewing(null);
+  };
+
+  const resolve = (operation: OutboxOperation, keep: 'local' | 'server') => {
+    setReviewing(null);
+    run(
+      () => keep === 'local' ? keepLocal(operation.id) : discard(operation.id),
+      'offline.resolveFailed'
+    );
+  };
+
+  const isSyncing = operations.some(op => op.status === 'SYNCING');
+  const needsAttention = operations.some(op => op.status === 'FAILED' || op.status === 'CONFLICT');
+
+  return (
+    <>
+      <DropdownMenu>
+        <DropdownMenuTrigger asChild>
+          <Button variant="ghost" size="sm" className="relative" title={t(isOnline ? 'offline.title' : 'offline.offline')}>
+            {isSyncing
+              ? <RefreshCw className="h-5 w-5 animate-spin" />
+              : needsAttention
+                ? <AlertTriangle className="h-5 w-5 text-orange-600" />
+                : <CloudOff className={`h-5 w-5 ${isOnline ? '' : 'text-gray-500'}`} />}
+            {operations.length > 0 && (
+              <Badge
+                variant={needsAttention ? 'destructive' : 'secondary'}
+                className="absolute -top-1 -right-1 h-5 w-5 rounded-full p-0 text-xs flex items-center justify-center"
+              >
+                {operations.length > 99 ? '99+' : operations.length}
+              </Badge>
+            )}
+          </Button>
+        </DropdownMenuTrigger>
+
+        <DropdownMenuContent align="end" className="w-96">
+          <div className="px-4 py-2 border-b">
+            <h3 className="font-semibold">{t('offline.title')}</h3>
+            <p className="text-xs text-gray-500">
+              {t(isOnline ? 'offline.onlineHint' : 'offline.offlineHint')}
+            </p>
+          </div>
+
+          <ScrollArea className="max-h-96">
+            {operations.length > 0 ? (
+              <div className="space-y-1 p-1">
+                {operations.map(operation => (
+                  <div key={operation.id} className="p-3 rounded-md border">
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <p className="text-sm font-medium truncate">{operation.summary}</p>
+                        <p className="text-xs text-gray-500 flex items-center">
+                          <Clock className="h-3 w-3 me-1" />
+                          {new Date(operation.createdAt).toLocaleString()}
+                        </p>
+                      </div>
+                      <Badge variant="secondary" className={STATUS_STYLES[operation.status].className}>
+                        {t(STATUS_STYLES[operation.status].label)}
+                      </Badge>
+                    </div>
+
+                    {operation.status === 'FAILED' && (
+                      <div className="mt-2 space-y-2">
+                        <p className="text-xs text-red-600 flex items-start">
+                          <XCircle className="h-3 w-3 me-1 mt-0.5 shrink-0" />
+                          {operation.error}
+                        </p>
+                        <div className="flex space-x-2">
+                          <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => run(() => retry(operation.id), 'offline.retryFailed')}>
+                            <RotateCcw className="h-3 w-3 me-1" />
+                            {t('offline.retry')}
+                          </Button>
+                          <Button size="sm" variant="outline" className="h-7 text-xs text-red-600" onClick={() => run(() => discard(operation.id), 'offline.discardFailed')}>
+                            <Trash2 className="h-3 w-3 me-1" />
+                            {t('offline.discard')}
+                          </Button>
+                        </div>
+                      </div>
+                    )}
+
+                    {operation.status === 'CONFLICT' && (
+                      <Button size="sm" variant="outline" className="mt-2 h-7 text-xs" onClick={() => setReviewing(operation)}>
+                        <AlertTriangle className="h-3 w-3 me-1" />
+                        {t('offline.resolve')}
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            ) : (
+              <p className="p-4 text-sm text-gray-500 text-center">{t('offline.empty')}</p>
+            )}
+          </ScrollArea>
+        </DropdownMenuContent>
+      </DropdownMenu>
+
+      <Dialog open={!!prompted} onOpenChange={(open) => !open && closePrompt()}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle>{t('offline.conflictTitle')}</DialogTitle>
+            <DialogDescription>
+              {prompted && t(
+                prompted.serverCopy ? 'offline.conflictChanged' : 'offline.conflictDeleted',
+                { summary: prompted.summary }
+              )}
+            </DialogDescription>
+          </DialogHeader>
+
+          {prompted && (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('offline.field')}</TableHead>
+                  <TableHead>{t('offline.server')}</TableHead>
+                  <TableHead>{t(prompted.type === 'DELETE' ? 'offline.yourDelete' : 'offline.yourChange')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {getConflictingFields(prompted).map(change => (
+                  <TableRow key={change.field}>
+                    <TableCell className="font-mono text-xs align-top">{change.field}</TableCell>
+                    <TableCell className="align-top break-all max-w-[14rem]">{formatValue(change.server)}</TableCell>
+                    <TableCell className="align-top break-all max-w-[14rem]">{formatValue(change.local)}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+
+          <DialogFooter>
+            <Button variant="ghost" onClick={closePrompt}>
+              {t('offline.decideLater')}
+            </Button>
+            <Button variant="outline" onClick={() => prompted && resolve(prompted, 'server')}>
+              {t('offline.keepServer')}
+            </Button>
+            <Button onClick={() => prompted && resolve(prompted, 'local')}>
+              {t('offline.keepLocal')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    </>
+  );
+};
+
+export default OfflineChanges;
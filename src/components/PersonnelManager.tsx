@@ -51,13 +51,18 @@ import {
   XCircle,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
+import { dataProvider } from '@/lib/data-provider';
 import { User, UserRole } from '@/types';
-import { getRoleDisplayName, getRoleColor, hasPermission, PERMISSIONS } from '@/lib/auth';
+import { getRoleColor, hasPermission, PERMISSIONS } from '@/lib/auth';
+import { TranslationKey } from '@/lib/i18n';
+import { useLanguage } from '@/hooks/use-language';
 import { toast } from '@/hooks/use-toast';
 
+const ROLES: UserRole[] = ['RESERVIST', 'NCO', 'DUTY_OFFICER', 'COMMANDER', 'SUPER_ADMIN'];
+
 const PersonnelManager: React.FC = () => {
   const { user: currentUser } = useAuth();
+  const { t } = useLanguage();
   const [users, setUsers] = useState<User[]>([]);
   const [filteredUsers, setFilteredUsers] = useState<User[]>([]);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
@@ -94,7 +99,7 @@ const PersonnelManager: React.FC = () => {
 
   const loadUsers = async () => {
     try {
-      const usersData = await apiService.fetchUsers();
+      const usersData = await dataProvider.fetchUsers();
       setUsers(usersData);
     } catch (error) {
       console.error('Error loading users:', error);
@@ -125,14 +130,22 @@ const PersonnelManager: React.FC = () => {
     setFilteredUsers(filtered);
   };
 
+  const reportError = (description: string, error: unknown) => {
+    console.error(`${description}:`, error);
+    toast({
+      title: t('personnel.error'),
+      description: error instanceof Error && error.message ? error.message : description,
+      variant: "destructive",
+    });
+  };
+
   const handleCreateUser = async () => {
     if (!formData.firstName || !formData.lastName || !formData.email) {
       return;
     }
 
     try {
-      const newUser: User = {
-        id: `user-${Date.now()}`,
+      const newUser = await dataProvider.createUser({
         username: `${formData.firstName.toLowerCase()}.${formData.lastName.toLowerCase()}`,
         firstName: formData.firstName,
         lastName: formData.lastName,
@@ -146,13 +159,13 @@ const PersonnelManager: React.FC = () => {
         isActive: true,
         lastLogin: '',
         createdAt: new Date().toISOString(),
-      };
+      });
 
       setUsers(prev => [...prev, newUser]);
       setShowCreateDialog(false);
       resetForm();
     } catch (error) {
-      console.error('Error creating user:', error);
+      reportError(t('personnel.createFailed'), error);
     }
   };
 
@@ -160,8 +173,7 @@ const PersonnelManager: React.FC = () => {
     if (!editingUser) return;
 
     try {
-      const updatedUser: User = {
-        ...editingUser,
+      const updatedUser = await dataProvider.updateUser(editingUser.id, {
         firstName: formData.firstName,
         lastName: formData.lastName,
         email: formData.email,
@@ -171,7 +183,7 @@ const PersonnelManager: React.FC = () => {
         personalNumber: formData.personalNumber,
         skills: formData.skills,
         phone: formData.phone,
-      };
+      });
 
       setUsers(prev => 
         prev.map(user => 
@@ -183,27 +195,32 @@ const PersonnelManager: React.FC = () => {
       setShowCreateDialog(false);
       resetForm();
     } catch (error) {
-      console.error('Error updating user:', error);
+      reportError(t('personnel.updateFailed'), error);
     }
   };
 
   const handleDeleteUser = async (userId: string) => {
     try {
+      await dataProvider.deleteUsers([userId]);
       setUsers(prev => prev.filter(user => user.id !== userId));
     } catch (error) {
-      console.error('Error deleting user:', error);
+      reportError(t('personnel.deleteFailed'), error);
     }
   };
 
   const toggleUserStatus = async (userId: string) => {
+    const target = users.find(user => user.id === userId);
+    if (!target) return;
+
     try {
+      const updatedUser = await dataProvider.updateUser(userId, { isActive: !target.isActive });
       setUsers(prev => 
         prev.map(user => 
-          user.id === userId ? { ...user, isActive: !user.isActive } : user
+          user.id === userId ? updatedUser : user
         )
       );
     } catch (error) {
-      console.error('Error toggling user status:', error);
+      reportError(t('personnel.statusFailed'), error);
     }
   };
 
@@ -255,48 +272,56 @@ const PersonnelManager: React.FC = () => {
     }
   };
 
-  const handleBulkStatusToggle = () => {
-    const selectedUsersList = users.filter(u => selectedUsers.has(u.id));
-    const updatedUsers = users.map(user => {
-      if (selectedUsers.has(user.id)) {
-        return { ...user, isActive: !user.isActive };
-      }
-      return user;
-    });
-    setUsers(updatedUsers);
-    setSelectedUsers(new Set());
-    
-    toast({
-      title: "Bulk Action Complete",
-      description: `Updated status for ${selectedUsersList.length} personnel.`,
-    });
+  const handleBulkStatusToggle = async () => {
+    try {
+      const updatedUsers = await dataProvider.updateUsers(
+        users
+          .filter(u => selectedUsers.has(u.id))
+          .map(u => ({ userId: u.id, updates: { isActive: !u.isActive } }))
+      );
+      setUsers(prev => prev.map(user => updatedUsers.find(u => u.id === user.id) || user));
+      setSelectedUsers(new Set());
+
+      toast({
+        title: t('personnel.bulkComplete'),
+        description: t('personnel.bulkStatusDone', { count: updatedUsers.length }),
+      });
+    } catch (error) {
+      reportError(t('personnel.bulkStatusFailed'), error);
+    }
   };
 
-  const handleBulkUnitChange = (newUnit: string) => {
-    const updatedUsers = users.map(user => {
-      if (selectedUsers.has(user.id)) {
-        return { ...user, unit: newUnit };
-      }
-      return user;
-    });
-    setUsers(updatedUsers);
-    setSelectedUsers(new Set());
-    
-    toast({
-      title: "Bulk Action Complete",
-      description: `Updated unit for ${selectedUsers.size} personnel.`,
-    });
+  const handleBulkUnitChange = async (newUnit: string) => {
+    try {
+      const updatedUsers = await dataProvider.updateUsers(
+        Array.from(selectedUsers).map(userId => ({ userId, updates: { unit: newUnit } }))
+      );
+      setUsers(prev => prev.map(user => updatedUsers.find(u => u.id === user.id) || user));
+      setSelectedUsers(new Set());
+
+      toast({
+        title: t('personnel.bulkComplete'),
+        description: t('personnel.bulkUnitDone', { count: updatedUsers.length }),
+      });
+    } catch (error) {
+      reportError(t('personnel.bulkUnitFailed'), error);
+    }
   };
 
-  const handleBulkDelete = () => {
-    const updatedUsers = users.filter(u => !selectedUsers.has(u.id));
-    setUsers(updatedUsers);
-    
-    toast({
-      title: "Bulk Action Complete",
-      description: `Deleted ${selectedUsers.size} personnel.`,
-    });
-    setSelectedUsers(new Set());
+  const handleBulkDelete = async () => {
+    try {
+      const deletedIds = new Set(selectedUsers);
+      await dataProvider.deleteUsers(Array.from(deletedIds));
+      setUsers(prev => prev.filter(u => !deletedIds.has(u.id)));
+
+      toast({
+        title: t('personnel.bulkComplete'),
+        description: t('personnel.bulkDeleteDone', { count: deletedIds.size }),
+      });
+      setSelectedUsers(new Set());
+    } catch (error) {
+      reportError(t('personnel.bulkDeleteFailed'), error);
+    }
   };
 
   const getUniqueUnits = () => {
@@ -304,6 +329,8 @@ const PersonnelManager: React.FC = () => {
     return units;
   };
 
+  const roleName = (role: UserRole) => t(`roles.${role}` as TranslationKey);
+
   const availableSkills = [
     'leadership', 'admin', 'security', 'guard', 'kitchen', 'maintenance', 
     'logistics', 'communications', 'training', 'weapons', 'tactics', 'squad_leadership'
@@ -325,8 +352,8 @@ const PersonnelManager: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Personnel Management</h1>
-          <p className="text-gray-600">Manage unit personnel and their information</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('personnel.title')}</h1>
+          <p className="text-gray-600">{t('personnel.subtitle')}</p>
         </div>
 
         {canManageUsers && (
@@ -337,40 +364,40 @@ const PersonnelManager: React.FC = () => {
                 setEditingUser(null);
               }}>
                 <Plus className="h-4 w-4 mr-2" />
-                Add Personnel
+                {t('personnel.add')}
               </Button>
             </DialogTrigger>
             <DialogContent className="max-w-2xl">
               <DialogHeader>
                 <DialogTitle>
-                  {editingUser ? 'Edit Personnel' : 'Add New Personnel'}
+                  {editingUser ? t('personnel.editTitle') : t('personnel.createTitle')}
                 </DialogTitle>
                 <DialogDescription>
-                  {editingUser ? 'Update personnel information' : 'Add a new person to the unit'}
+                  {editingUser ? t('personnel.editDescription') : t('personnel.createDescription')}
                 </DialogDescription>
               </DialogHeader>
               
               <div className="grid grid-cols-2 gap-4">
                 <div>
-                  <label className="text-sm font-medium text-gray-700">First Name</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.firstName')}</label>
                   <Input
                     value={formData.firstName}
                     onChange={(e) => setFormData(prev => ({ ...prev, firstName: e.target.value }))}
-                    placeholder="First name"
+                    placeholder={t('personnel.firstNamePlaceholder')}
                   />
                 </div>
                 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Last Name</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.lastName')}</label>
                   <Input
                     value={formData.lastName}
                     onChange={(e) => setFormData(prev => ({ ...prev, lastName: e.target.value }))}
-                    placeholder="Last name"
+                    placeholder={t('personnel.lastNamePlaceholder')}
                   />
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Email</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.email')}</label>
                   <Input
                     type="email"
                     value={formData.email}
@@ -380,7 +407,7 @@ const PersonnelManager: React.FC = () => {
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Phone</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.phone')}</label>
                   <Input
                     value={formData.phone}
                     onChange={(e) => setFormData(prev => ({ ...prev, phone: e.target.value }))}
@@ -389,7 +416,7 @@ const PersonnelManager: React.FC = () => {
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Role</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.role')}</label>
                   <Select 
                     value={formData.role} 
                     onValueChange={(value: UserRole) => setFormData(prev => ({ ...prev, role: value }))}
@@ -398,45 +425,43 @@ const PersonnelManager: React.FC = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="RESERVIST">Reservist</SelectItem>
-                      <SelectItem value="NCO">NCO</SelectItem>
-                      <SelectItem value="DUTY_OFFICER">Duty Officer</SelectItem>
-                      <SelectItem value="COMMANDER">Commander</SelectItem>
-                      <SelectItem value="SUPER_ADMIN">Super Admin</SelectItem>
+                      {ROLES.map(role => (
+                        <SelectItem key={role} value={role}>{roleName(role)}</SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Rank</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.rank')}</label>
                   <Input
                     value={formData.rank}
                     onChange={(e) => setFormData(prev => ({ ...prev, rank: e.target.value }))}
-                    placeholder="e.g., Corporal, Sergeant"
+                    placeholder={t('personnel.rankPlaceholder')}
                   />
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Unit</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.unit')}</label>
                   <Input
                     value={formData.unit}
                     onChange={(e) => setFormData(prev => ({ ...prev, unit: e.target.value }))}
-                    placeholder="e.g., Alpha Company"
+                    placeholder={t('personnel.unitPlaceholder')}
                   />
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Personal Number</label>
+                  <label className="text-sm font-medium text-gray-700">{t('personnel.personalNumber')}</label>
                   <Input
                     value={formData.personalNumber}
                     onChange={(e) => setFormData(prev => ({ ...prev, personalNumber: e.target.value }))}
-                    placeholder="Military ID number"
+                    placeholder={t('personnel.personalNumberPlaceholder')}
                   />
                 </div>
               </div>
 
               <div>
-                <label className="text-sm font-medium text-gray-700 mb-2 block">Skills</label>
+                <label className="text-sm font-medium text-gray-700 mb-2 block">{t('personnel.skills')}</label>
                 <div className="grid grid-cols-3 gap-2">
                   {availableSkills.map(skill => (
                     <label key={skill} className="flex items-center space-x-2">
@@ -472,12 +497,12 @@ const PersonnelManager: React.FC = () => {
                     setEditingUser(null);
                   }}
                 >
-                  Cancel
+                  {t('common.cancel')}
                 </Button>
                 <Button 
                   onClick={editingUser ? handleUpdateUser : handleCreateUser}
                 >
-                  {editingUser ? 'Update' : 'Create'}
+                  {editingUser ? t('personnel.update') : t('personnel.create')}
                 </Button>
               </DialogFooter>
             </DialogContent>
@@ -493,7 +518,7 @@ const PersonnelManager: React.FC = () => {
               <div className="relative">
                 <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                 <Input
-                  placeholder="Search personnel..."
+                  placeholder={t('personnel.searchPlaceholder')}
                   value={searchTerm}
                   onChange={(e) => setSearchTerm(e.target.value)}
                   className="pl-10 w-64"
@@ -502,24 +527,22 @@ const PersonnelManager: React.FC = () => {
 
               <Select value={roleFilter} onValueChange={setRoleFilter}>
                 <SelectTrigger className="w-40">
-                  <SelectValue placeholder="All roles" />
+                  <SelectValue placeholder={t('personnel.allRoles')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All roles</SelectItem>
-                  <SelectItem value="RESERVIST">Reservist</SelectItem>
-                  <SelectItem value="NCO">NCO</SelectItem>
-                  <SelectItem value="DUTY_OFFICER">Duty Officer</SelectItem>
-                  <SelectItem value="COMMANDER">Commander</SelectItem>
-                  <SelectItem value="SUPER_ADMIN">Super Admin</SelectItem>
+                  <SelectItem value="all">{t('personnel.allRoles')}</SelectItem>
+                  {ROLES.map(role => (
+                    <SelectItem key={role} value={role}>{roleName(role)}</SelectItem>
+                  ))}
                 </SelectContent>
               </Select>
 
               <Select value={unitFilter} onValueChange={setUnitFilter}>
                 <SelectTrigger className="w-40">
-                  <SelectValue placeholder="All units" />
+                  <SelectValue placeholder={t('personnel.allUnits')} />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="all">All units</SelectItem>
+                  <SelectItem value="all">{t('personnel.allUnits')}</SelectItem>
                   {getUniqueUnits().map(unit => (
                     <SelectItem key={unit} value={unit}>{unit}</SelectItem>
                   ))}
@@ -529,11 +552,11 @@ const PersonnelManager: React.FC = () => {
 
             <div className="flex items-center space-x-2">
               <Badge variant="outline">
-                {filteredUsers.length} Personnel
+                {t('personnel.count', { count: filteredUsers.length })}
               </Badge>
               {selectedUsers.size > 0 && (
                 <Badge variant="secondary">
-                  {selectedUsers.size} Selected
+                  {t('personnel.selected', { count: selectedUsers.size })}
                 </Badge>
               )}
             </div>
@@ -547,16 +570,16 @@ const PersonnelManager: React.FC = () => {
           <CardContent className="p-4">
             <div className="flex items-center justify-between">
               <div className="flex items-center space-x-2">
-                <Badge variant="secondary">{selectedUsers.size} selected</Badge>
-                <span className="text-sm text-gray-600">Bulk Actions:</span>
+                <Badge variant="secondary">{t('personnel.selected', { count: selectedUsers.size })}</Badge>
+                <span className="text-sm text-gray-600">{t('personnel.bulkActions')}</span>
               </div>
               <div className="flex items-center space-x-2">
                 <Button variant="outline" size="sm" onClick={handleBulkStatusToggle}>
-                  Toggle Status
+                  {t('personnel.toggleStatus')}
                 </Button>
                 <Select onValueChange={handleBulkUnitChange}>
                   <SelectTrigger className="w-40">
-                    <SelectValue placeholder="Change Unit" />
+                    <SelectValue placeholder={t('personnel.changeUnit')} />
                   </SelectTrigger>
                   <SelectContent>
                     {getUniqueUnits().map(unit => (
@@ -566,10 +589,10 @@ const PersonnelManager: React.FC = () => {
                 </Select>
                 <Button variant="destructive" size="sm" onClick={handleBulkDelete}>
                   <Trash2 className="h-4 w-4 mr-1" />
-                  Delete
+                  {t('common.delete')}
                 </Button>
                 <Button variant="ghost" size="sm" onClick={() => setSelectedUsers(new Set())}>
-                  Cancel
+                  {t('common.cancel')}
                 </Button>
               </div>
             </div>
@@ -580,8 +603,8 @@ const PersonnelManager: React.FC = () => {
       {/* Personnel Table */}
       <Card>
         <CardHeader>
-          <CardTitle>Personnel Directory</CardTitle>
-          <CardDescription>Complete list of unit personnel</CardDescription>
+          <CardTitle>{t('personnel.directory')}</CardTitle>
+          <CardDescription>{t('personnel.directoryDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <Table>
@@ -595,12 +618,12 @@ const PersonnelManager: React.FC = () => {
                     className="rounded"
                   />
                 </TableHead>
-                <TableHead>Person</TableHead>
-                <TableHead>Role & Rank</TableHead>
-                <TableHead>Contact</TableHead>
-                <TableHead>Skills</TableHead>
-                <TableHead>Status</TableHead>
-                <TableHead>Actions</TableHead>
+                <TableHead>{t('personnel.person')}</TableHead>
+                <TableHead>{t('personnel.roleAndRank')}</TableHead>
+                <TableHead>{t('personnel.contact')}</TableHead>
+                <TableHead>{t('personnel.skills')}</TableHead>
+                <TableHead>{t('personnel.status')}</TableHead>
+                <TableHead>{t('personnel.actions')}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -631,7 +654,7 @@ const PersonnelManager: React.FC = () => {
                   <TableCell>
                     <div>
                       <Badge className={getRoleColor(user.role)} variant="secondary">
-                        {getRoleDisplayName(user.role)}
+                        {roleName(user.role)}
                       </Badge>
                       <p className="text-sm text-gray-600 mt-1">{user.rank}</p>
                       <p className="text-xs text-gray-500">{user.unit}</p>
@@ -676,7 +699,7 @@ const PersonnelManager: React.FC = () => {
                         <XCircle className="h-4 w-4 text-red-600" />
                       )}
                       <span className="text-sm">
-                        {user.isActive ? 'Active' : 'Inactive'}
+                        {user.isActive ? t('personnel.active') : t('personnel.inactive')}
                       </span>
                     </div>
                   </TableCell>
@@ -691,13 +714,13 @@ const PersonnelManager: React.FC = () => {
                       <DropdownMenuContent align="end">
                         <DropdownMenuItem onClick={() => setSelectedUser(user)}>
                           <Eye className="mr-2 h-4 w-4" />
-                          View Details
+                          {t('personnel.viewDetails')}
                         </DropdownMenuItem>
                         {canManageUsers && (
                           <>
                             <DropdownMenuItem onClick={() => openEditDialog(user)}>
                               <Edit className="mr-2 h-4 w-4" />
-                              Edit
+                              {t('common.edit')}
                             </DropdownMenuItem>
                             <DropdownMenuItem 
                               onClick={() => toggleUserStatus(user.id)}
@@ -706,12 +729,12 @@ const PersonnelManager: React.FC = () => {
                               {user.isActive ? (
                                 <>
                                   <XCircle className="mr-2 h-4 w-4" />
-                                  Deactivate
+                                  {t('personnel.deactivate')}
                                 </>
                               ) : (
                                 <>
                                   <CheckCircle className="mr-2 h-4 w-4" />
-                                  Activate
+                                  {t('personnel.activate')}
                                 </>
                               )}
                             </DropdownMenuItem>
@@ -720,7 +743,7 @@ const PersonnelManager: React.FC = () => {
                               className="text-red-600"
                             >
                               <Trash2 className="mr-2 h-4 w-4" />
-                              Delete
+                              {t('common.delete')}
                             </DropdownMenuItem>
                           </>
                         )}
@@ -755,7 +778,7 @@ const PersonnelManager: React.FC = () => {
             <div className="space-y-6">
               <div className="grid grid-cols-2 gap-6">
                 <div>
-                  <h4 className="font-medium text-gray-900 mb-2">Contact Information</h4>
+                  <h4 className="font-medium text-gray-900 mb-2">{t('personnel.contactInfo')}</h4>
                   <div className="space-y-2 text-sm">
                     <div className="flex items-center space-x-2">
                       <Mail className="h-4 w-4 text-gray-400" />
@@ -771,17 +794,17 @@ const PersonnelManager: React.FC = () => {
                 </div>
 
                 <div>
-                  <h4 className="font-medium text-gray-900 mb-2">Military Details</h4>
+                  <h4 className="font-medium text-gray-900 mb-2">{t('personnel.militaryDetails')}</h4>
                   <div className="space-y-2 text-sm">
-                    <p><span className="text-gray-600">Personal Number:</span> {selectedUser.personalNumber}</p>
-                    <p><span className="text-gray-600">Role:</span> {getRoleDisplayName(selectedUser.role)}</p>
-                    <p><span className="text-gray-600">Status:</span> {selectedUser.isActive ? 'Active' : 'Inactive'}</p>
+                    <p><span className="text-gray-600">{t('personnel.personalNumber')}:</span> {selectedUser.personalNumber}</p>
+                    <p><span className="text-gray-600">{t('personnel.role')}:</span> {roleName(selectedUser.role)}</p>
+                    <p><span className="text-gray-600">{t('personnel.status')}:</span> {selectedUser.isActive ? t('personnel.active') : t('personnel.inactive')}</p>
                   </div>
                 </div>
               </div>
 
               <div>
-                <h4 className="font-medium text-gray-900 mb-2">Skills & Qualifications</h4>
+                <h4 className="font-medium text-gray-900 mb-2">{t('personnel.skillsAndQualifications')}</h4>
                 <div className="flex flex-wrap gap-2">
                   {selectedUser.skills.map(skill => (
                     <Badge key={skill} variant="outline">
@@ -792,9 +815,9 @@ const PersonnelManager: React.FC = () => {
               </div>
 
               <div className="text-xs text-gray-500 pt-4 border-t">
-                <p>Created: {new Date(selectedUser.createdAt).toLocaleDateString()}</p>
+                <p>{t('personnel.createdAt', { date: new Date(selectedUser.createdAt).toLocaleDateString() })}</p>
                 {selectedUser.lastLogin && (
-                  <p>Last Login: {new Date(selectedUser.lastLogin).toLocaleDateString()}</p>
+                  <p>{t('personnel.lastLogin', { date: new Date(selectedUser.lastLogin).toLocaleDateString() })}</p>
                 )}
               </div>
             </div>
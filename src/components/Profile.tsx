@@ -48,7 +48,10 @@ import {
   CheckCircle,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/hooks/use-language';
+import { toLanguage, TranslationKey } from '@/lib/i18n';
 import { getRoleDisplayName, getRoleColor } from '@/lib/auth';
+import { localDb } from '@/lib/local-db';
 import { toast } from '@/hooks/use-toast';
 
 interface UserProfile {
@@ -96,8 +99,11 @@ interface UserProfile {
   };
 }
 
+const CLEARANCE_LEVELS = ['STANDARD', 'CONFIDENTIAL', 'SECRET', 'TOP_SECRET'];
+
 const Profile: React.FC = () => {
   const { user, logout } = useAuth();
+  const { t, setLanguage } = useLanguage();
   const [profile, setProfile] = useState<UserProfile>({
     personal: {
       firstName: user?.firstName || '',
@@ -171,31 +177,27 @@ const Profile: React.FC = () => {
   }, []);
 
   const loadProfile = async () => {
-    try {
-      const storedProfile = localStorage.getItem(`idf_profile_${user?.id}`);
-      if (storedProfile) {
-        const parsed = JSON.parse(storedProfile);
-        setProfile(prev => ({ ...prev, ...parsed }));
-      }
-    } catch (error) {
-      console.error('Error loading profile:', error);
+    const storedProfile = localDb.getValue<Partial<typeof profile>>(`idf_profile_${user?.id}`);
+    if (storedProfile) {
+      setProfile(prev => ({ ...prev, ...storedProfile }));
     }
   };
 
   const saveProfile = async () => {
     setLoading(true);
     try {
-      localStorage.setItem(`idf_profile_${user?.id}`, JSON.stringify(profile));
+      await localDb.setValue(`idf_profile_${user?.id}`, profile);
+      setLanguage(toLanguage(profile.preferences.language));
       
       toast({
-        title: "Profile Updated",
-        description: "Your profile has been saved successfully.",
+        title: t('profile.saved'),
+        description: t('profile.savedDescription'),
       });
       setEditing(false);
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to save profile. Please try again.",
+        title: t('profile.error'),
+        description: t('profile.saveFailed'),
         variant: "destructive",
       });
     } finally {
@@ -206,8 +208,8 @@ const Profile: React.FC = () => {
   const changePassword = async () => {
     if (passwordForm.new !== passwordForm.confirm) {
       toast({
-        title: "Error",
-        description: "New passwords do not match.",
+        title: t('profile.error'),
+        description: t('profile.passwordMismatch'),
         variant: "destructive",
       });
       return;
@@ -215,8 +217,8 @@ const Profile: React.FC = () => {
 
     if (passwordForm.new.length < 8) {
       toast({
-        title: "Error",
-        description: "Password must be at least 8 characters long.",
+        title: t('profile.error'),
+        description: t('profile.passwordTooShort'),
         variant: "destructive",
       });
       return;
@@ -233,16 +235,16 @@ const Profile: React.FC = () => {
       }));
 
       toast({
-        title: "Password Changed",
-        description: "Your password has been updated successfully.",
+        title: t('profile.passwordChanged'),
+        description: t('profile.passwordChangedDescription'),
       });
       
       setPasswordForm({ current: '', new: '', confirm: '' });
       setShowPasswordDialog(false);
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to change password. Please try again.",
+        title: t('profile.error'),
+        description: t('profile.passwordChangeFailed'),
         variant: "destructive",
       });
     }
@@ -265,8 +267,8 @@ const Profile: React.FC = () => {
     if (file) {
       // In a real app, this would upload the file to a server
       toast({
-        title: "Avatar Upload",
-        description: "Avatar upload functionality would be implemented here.",
+        title: t('profile.avatarUpload'),
+        description: t('profile.avatarUploadDescription'),
       });
     }
   };
@@ -311,17 +313,17 @@ const Profile: React.FC = () => {
           {editing ? (
             <>
               <Button variant="outline" onClick={() => setEditing(false)}>
-                Cancel
+                {t('common.cancel')}
               </Button>
               <Button onClick={saveProfile} disabled={loading}>
                 <Save className="h-4 w-4 mr-2" />
-                Save Changes
+                {t('profile.saveChanges')}
               </Button>
             </>
           ) : (
             <Button onClick={() => setEditing(true)}>
               <Edit className="h-4 w-4 mr-2" />
-              Edit Profile
+              {t('profile.editProfile')}
             </Button>
           )}
         </div>
@@ -329,10 +331,10 @@ const Profile: React.FC = () => {
 
       <Tabs defaultValue="personal" className="space-y-6">
         <TabsList className="grid w-full grid-cols-4">
-          <TabsTrigger value="personal">Personal</TabsTrigger>
-          <TabsTrigger value="military">Military</TabsTrigger>
-          <TabsTrigger value="preferences">Preferences</TabsTrigger>
-          <TabsTrigger value="security">Security</TabsTrigger>
+          <TabsTrigger value="personal">{t('profile.tabs.personal')}</TabsTrigger>
+          <TabsTrigger value="military">{t('profile.tabs.military')}</TabsTrigger>
+          <TabsTrigger value="preferences">{t('profile.tabs.preferences')}</TabsTrigger>
+          <TabsTrigger value="security">{t('profile.tabs.security')}</TabsTrigger>
         </TabsList>
 
         {/* Personal Information */}
@@ -341,14 +343,14 @@ const Profile: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <UserIcon className="h-5 w-5" />
-                <span>Personal Information</span>
+                <span>{t('profile.personalTitle')}</span>
               </CardTitle>
-              <CardDescription>Basic personal details and contact information</CardDescription>
+              <CardDescription>{t('profile.personalDescription')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="firstName">First Name</Label>
+                  <Label htmlFor="firstName">{t('profile.firstName')}</Label>
                   <Input
                     id="firstName"
                     value={profile.personal.firstName}
@@ -361,7 +363,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="lastName">Last Name</Label>
+                  <Label htmlFor="lastName">{t('profile.lastName')}</Label>
                   <Input
                     id="lastName"
                     value={profile.personal.lastName}
@@ -374,7 +376,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="email">Email Address</Label>
+                  <Label htmlFor="email">{t('profile.email')}</Label>
                   <div className="relative">
                     <Mail className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                     <Input
@@ -392,7 +394,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="phone">Phone Number</Label>
+                  <Label htmlFor="phone">{t('profile.phone')}</Label>
                   <div className="relative">
                     <Phone className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 h-4 w-4" />
                     <Input
@@ -410,7 +412,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="emergencyContact">Emergency Contact</Label>
+                  <Label htmlFor="emergencyContact">{t('profile.emergencyContact')}</Label>
                   <Input
                     id="emergencyContact"
                     value={profile.personal.emergencyContact}
@@ -424,7 +426,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="birthDate">Date of Birth</Label>
+                  <Label htmlFor="birthDate">{t('profile.birthDate')}</Label>
                   <Input
                     id="birthDate"
                     type="date"
@@ -439,7 +441,7 @@ const Profile: React.FC = () => {
               </div>
 
               <div className="space-y-2">
-                <Label htmlFor="address">Address</Label>
+                <Label htmlFor="address">{t('profile.address')}</Label>
                 <div className="relative">
                   <MapPin className="absolute left-3 top-3 text-gray-400 h-4 w-4" />
                   <Textarea
@@ -451,7 +453,7 @@ const Profile: React.FC = () => {
                     }))}
                     disabled={!editing}
                     className="pl-10"
-                    placeholder="Street address, city, postal code"
+                    placeholder={t('profile.addressPlaceholder')}
                   />
                 </div>
               </div>
@@ -465,14 +467,14 @@ const Profile: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Shield className="h-5 w-5" />
-                <span>Military Information</span>
+                <span>{t('profile.militaryTitle')}</span>
               </CardTitle>
-              <CardDescription>Military service details and qualifications</CardDescription>
+              <CardDescription>{t('profile.militaryDescription')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="personalNumber">Personal Number</Label>
+                  <Label htmlFor="personalNumber">{t('profile.personalNumber')}</Label>
                   <Input
                     id="personalNumber"
                     value={profile.military.personalNumber}
@@ -482,7 +484,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="rank">Rank</Label>
+                  <Label htmlFor="rank">{t('profile.rank')}</Label>
                   <Input
                     id="rank"
                     value={profile.military.rank}
@@ -495,7 +497,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="unit">Unit</Label>
+                  <Label htmlFor="unit">{t('profile.unit')}</Label>
                   <Input
                     id="unit"
                     value={profile.military.unit}
@@ -508,7 +510,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="enlistmentDate">Enlistment Date</Label>
+                  <Label htmlFor="enlistmentDate">{t('profile.enlistmentDate')}</Label>
                   <Input
                     id="enlistmentDate"
                     type="date"
@@ -522,7 +524,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="specialization">Specialization</Label>
+                  <Label htmlFor="specialization">{t('profile.specialization')}</Label>
                   <Input
                     id="specialization"
                     value={profile.military.specialization}
@@ -531,12 +533,12 @@ const Profile: React.FC = () => {
                       military: { ...prev.military, specialization: e.target.value }
                     }))}
                     disabled={!editing}
-                    placeholder="e.g., Infantry, Communications, Logistics"
+                    placeholder={t('profile.specializationPlaceholder')}
                   />
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="clearanceLevel">Security Clearance</Label>
+                  <Label htmlFor="clearanceLevel">{t('profile.clearanceLevel')}</Label>
                   <Select 
                     value={profile.military.clearanceLevel} 
                     onValueChange={(value) => setProfile(prev => ({
@@ -549,17 +551,18 @@ const Profile: React.FC = () => {
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="STANDARD">Standard</SelectItem>
-                      <SelectItem value="CONFIDENTIAL">Confidential</SelectItem>
-                      <SelectItem value="SECRET">Secret</SelectItem>
-                      <SelectItem value="TOP_SECRET">Top Secret</SelectItem>
+                      {CLEARANCE_LEVELS.map(level => (
+                        <SelectItem key={level} value={level}>
+                          {t(`profile.clearance.${level}` as TranslationKey)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                 </div>
               </div>
 
               <div className="space-y-3">
-                <Label>Skills & Qualifications</Label>
+                <Label>{t('profile.skills')}</Label>
                 <div className="grid grid-cols-2 md:grid-cols-3 gap-3">
                   {availableSkills.map(skill => (
                     <label
@@ -592,14 +595,14 @@ const Profile: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <SettingsIcon className="h-5 w-5" />
-                <span>Preferences</span>
+                <span>{t('profile.preferencesTitle')}</span>
               </CardTitle>
-              <CardDescription>Application preferences and privacy settings</CardDescription>
+              <CardDescription>{t('profile.preferencesDescription')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
                 <div className="space-y-2">
-                  <Label htmlFor="language">Language</Label>
+                  <Label htmlFor="language">{t('preferences.language')}</Label>
                   <Select 
                     value={profile.preferences.language} 
                     onValueChange={(value) => setProfile(prev => ({
@@ -620,7 +623,7 @@ const Profile: React.FC = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="timezone">Timezone</Label>
+                  <Label htmlFor="timezone">{t('profile.timezone')}</Label>
                   <Select 
                     value={profile.preferences.timezone} 
                     onValueChange={(value) => setProfile(prev => ({
@@ -644,12 +647,12 @@ const Profile: React.FC = () => {
               <Separator />
 
               <div className="space-y-4">
-                <h4 className="text-sm font-medium text-gray-900">Notification Preferences</h4>
+                <h4 className="text-sm font-medium text-gray-900">{t('profile.notificationPreferences')}</h4>
                 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Email Notifications</Label>
-                    <p className="text-sm text-gray-500">Receive notifications via email</p>
+                    <Label>{t('profile.emailNotifications')}</Label>
+                    <p className="text-sm text-gray-500">{t('profile.emailNotificationsDescription')}</p>
                   </div>
                   <input
                     type="checkbox"
@@ -671,8 +674,8 @@ const Profile: React.FC = () => {
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>SMS Notifications</Label>
-                    <p className="text-sm text-gray-500">Receive notifications via SMS</p>
+                    <Label>{t('profile.smsNotifications')}</Label>
+                    <p className="text-sm text-gray-500">{t('profile.smsNotificationsDescription')}</p>
                   </div>
                   <input
                     type="checkbox"
@@ -694,8 +697,8 @@ const Profile: React.FC = () => {
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Push Notifications</Label>
-                    <p className="text-sm text-gray-500">Browser push notifications</p>
+                    <Label>{t('profile.pushNotifications')}</Label>
+                    <p className="text-sm text-gray-500">{t('profile.pushNotificationsDescription')}</p>
                   </div>
                   <input
                     type="checkbox"
@@ -719,12 +722,12 @@ const Profile: React.FC = () => {
               <Separator />
 
               <div className="space-y-4">
-                <h4 className="text-sm font-medium text-gray-900">Privacy Settings</h4>
+                <h4 className="text-sm font-medium text-gray-900">{t('profile.privacySettings')}</h4>
                 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Show Profile to Others</Label>
-                    <p className="text-sm text-gray-500">Allow others to view your profile</p>
+                    <Label>{t('profile.showProfile')}</Label>
+                    <p className="text-sm text-gray-500">{t('profile.showProfileDescription')}</p>
                   </div>
                   <input
                     type="checkbox"
@@ -746,8 +749,8 @@ const Profile: React.FC = () => {
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Show Schedule</Label>
-                    <p className="text-sm text-gray-500">Allow others to view your schedule</p>
+                    <Label>{t('profile.showSchedule')}</Label>
+                    <p className="text-sm text-gray-500">{t('profile.showScheduleDescription')}</p>
                   </div>
                   <input
                     type="checkbox"
@@ -769,8 +772,8 @@ const Profile: React.FC = () => {
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Show Contact Information</Label>
-                    <p className="text-sm text-gray-500">Allow others to view your contact details</p>
+                    <Label>{t('profile.showContact')}</Label>
+                    <p className="text-sm text-gray-500">{t('profile.showContactDescription')}</p>
                   </div>
                   <input
                     type="checkbox"
@@ -800,36 +803,36 @@ const Profile: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Key className="h-5 w-5" />
-                <span>Security Settings</span>
+                <span>{t('profile.securityTitle')}</span>
               </CardTitle>
-              <CardDescription>Account security and access management</CardDescription>
+              <CardDescription>{t('profile.securityDescription')}</CardDescription>
             </CardHeader>
             <CardContent className="space-y-6">
               <div className="space-y-4">
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Password</Label>
+                    <Label>{t('profile.password')}</Label>
                     <p className="text-sm text-gray-500">
-                      Last changed: {new Date(profile.security.lastPasswordChange).toLocaleDateString()}
+                      {t('profile.lastChanged', { date: new Date(profile.security.lastPasswordChange).toLocaleDateString() })}
                     </p>
                   </div>
                   <Dialog open={showPasswordDialog} onOpenChange={setShowPasswordDialog}>
                     <DialogTrigger asChild>
                       <Button variant="outline">
                         <Key className="h-4 w-4 mr-2" />
-                        Change Password
+                        {t('profile.changePassword')}
                       </Button>
                     </DialogTrigger>
                     <DialogContent>
                       <DialogHeader>
-                        <DialogTitle>Change Password</DialogTitle>
+                        <DialogTitle>{t('profile.changePassword')}</DialogTitle>
                         <DialogDescription>
-                          Enter your current password and choose a new one.
+                          {t('profile.changePasswordDescription')}
                         </DialogDescription>
                       </DialogHeader>
                       <div className="space-y-4">
                         <div className="space-y-2">
-                          <Label htmlFor="currentPassword">Current Password</Label>
+                          <Label htmlFor="currentPassword">{t('profile.currentPassword')}</Label>
                           <Input
                             id="currentPassword"
                             type="password"
@@ -838,7 +841,7 @@ const Profile: React.FC = () => {
                           />
                         </div>
                         <div className="space-y-2">
-                          <Label htmlFor="newPassword">New Password</Label>
+                          <Label htmlFor="newPassword">{t('profile.newPassword')}</Label>
                           <Input
                             id="newPassword"
                             type="password"
@@ -847,7 +850,7 @@ const Profile: React.FC = () => {
                           />
                         </div>
                         <div className="space-y-2">
-                          <Label htmlFor="confirmPassword">Confirm New Password</Label>
+                          <Label htmlFor="confirmPassword">{t('profile.confirmPassword')}</Label>
                           <Input
                             id="confirmPassword"
                             type="password"
@@ -858,10 +861,10 @@ const Profile: React.FC = () => {
                       </div>
                       <DialogFooter>
                         <Button variant="outline" onClick={() => setShowPasswordDialog(false)}>
-                          Cancel
+                          {t('common.cancel')}
                         </Button>
                         <Button onClick={changePassword}>
-                          Change Password
+                          {t('profile.changePassword')}
                         </Button>
                       </DialogFooter>
                     </DialogContent>
@@ -872,9 +875,9 @@ const Profile: React.FC = () => {
 
                 <div className="flex items-center justify-between">
                   <div className="space-y-0.5">
-                    <Label>Two-Factor Authentication</Label>
+                    <Label>{t('profile.twoFactor')}</Label>
                     <p className="text-sm text-gray-500">
-                      {profile.security.twoFactorEnabled ? 'Enabled' : 'Disabled'}
+                      {profile.security.twoFactorEnabled ? t('profile.enabled') : t('profile.disabled')}
                     </p>
                   </div>
                   <Button 
@@ -887,7 +890,7 @@ const Profile: React.FC = () => {
                       }
                     }))}
                   >
-                    {profile.security.twoFactorEnabled ? 'Disable 2FA' : 'Enable 2FA'}
+                    {profile.security.twoFactorEnabled ? t('profile.disableTwoFactor') : t('profile.enableTwoFactor')}
                   </Button>
                 </div>
               </div>
@@ -898,9 +901,9 @@ const Profile: React.FC = () => {
             <CardHeader>
               <CardTitle className="flex items-center space-x-2">
                 <Activity className="h-5 w-5" />
-                <span>Session History</span>
+                <span>{t('profile.sessionHistory')}</span>
               </CardTitle>
-              <CardDescription>Recent login activity and sessions</CardDescription>
+              <CardDescription>{t('profile.sessionHistoryDescription')}</CardDescription>
             </CardHeader>
             <CardContent>
               <div className="space-y-4">
@@ -909,7 +912,7 @@ const Profile: React.FC = () => {
                     <div className="space-y-1">
                       <div className="flex items-center space-x-2">
                         <CheckCircle className="h-4 w-4 text-green-600" />
-                        <span className="font-medium">Successful Login</span>
+                        <span className="font-medium">{t('profile.successfulLogin')}</span>
                       </div>
                       <p className="text-sm text-gray-600">{session.device}</p>
                       <p className="text-sm text-gray-500">
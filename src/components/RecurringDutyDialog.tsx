@@ -0,0 +1,401 @@
+import React, { useState } from 'react';
+import moment from 'moment';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from '@/components/ui/dialog';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Badge } from '@/components/ui/badge';
+import { Checkbox } from '@/components/ui/checkbox';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Repeat, CalendarPlus } from 'lucide-react';
+import { dataProvider } from '@/lib/data-provider';
+import { autoScheduler } from '@/lib/scheduler';
+import { describeRecurrence, expandTemplate, getOccurrenceDates } from '@/lib/recurrence';
+import { DutyTemplate, RecurrenceRule, Schedule, User, DutyType } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
+import { toast } from '@/hooks/use-toast';
+
+const EXTEND_WEEKS = 4;
+
+interface RecurringDutyDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  users: User[];
+  dutyTypes: DutyType[];
+  templates: DutyTemplate[];
+  assignedBy: string;
+  onSeriesSaved: (template: DutyTemplate, schedules: Schedule[]) => void;
+}
+
+const getInitialForm = () => ({
+  name: '',
+  dutyTypeId: '',
+  startDate: moment().add(1, 'day').format('YYYY-MM-DD'),
+  startTime: '08:00',
+  durationHours: 8,
+  recurrenceType: 'DAILY' as RecurrenceRule['type'],
+  daysOfWeek: [] as number[],
+  interval: 2,
+  crews: [[]] as string[][],
+  until: moment().add(EXTEND_WEEKS, 'weeks').format('YYYY-MM-DD'),
+  notes: '',
+});
+
+export function RecurringDutyDialog({
+  isOpen,
+  onClose,
+  users,
+  dutyTypes,
+  templates,
+  assignedBy,
+  onSeriesSaved,
+}: RecurringDutyDialogProps) {
+  const { t, language, dutyTypeName } = useLanguage();
+  const [form, setForm] = useState(getInitialForm);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const rosterableUsers = users.filter(u => autoScheduler.isRosterable(u));
+
+  const recurrence: RecurrenceRule = {
+    type: form.recurrenceType,
+    ...(form.recurrenceType === 'WEEKLY' ? { daysOfWeek: [...form.daysOfWeek].sort() } : {}),
+    ...(form.recurrenceType === 'EVERY_N_DAYS' ? { interval: form.interval } : {}),
+  };
+
+  const draftTemplate: DutyTemplate = {
+    id: 'draft',
+    name: form.name,
+    dutyTypeId: form.dutyTypeId,
+    startTime: form.startTime,
+    durationHours: form.durationHours,
+    recurrence,
+    crews: form.crews.filter(crew => crew.length > 0),
+    startDate: form.startDate,
+    generatedUntil: moment(form.startDate).subtract(1, 'day').format('YYYY-MM-DD'),
+    notes: form.notes || undefined,
+    createdBy: assignedBy,
+    createdAt: new Date().toISOString(),
+  };
+
+  const occurrenceCount = form.startDate && form.until
+    ? getOccurrenceDates(draftTemplate, form.startDate, form.until).length
+    : 0;
+
+  const isValid = !!form.name && !!form.dutyTypeId && draftTemplate.crews.length > 0 &&
+    form.durationHours > 0 && occurrenceCount > 0 &&
+    (form.recurrenceType !== 'WEEKLY' || form.daysOfWeek.length > 0);
+
+  const toggleCrewMember = (crewIndex: number, userId: string) => {
+    setForm(prev => ({
+      ...prev,
+      crews: prev.crews.map((crew, i) => {
+        if (i !== crewIndex) return crew;
+        return crew.includes(userId) ? crew.filter(id => id !== userId) : [...crew, userId];
+      }),
+    }));
+  };
+
+  const toggleDay = (day: number) => {
+    setForm(prev => ({
+      ...prev,
+      daysOfWeek: prev.daysOfWeek.includes(day)
+        ? prev.daysOfWeek.filter(d => d !== day)
+        : [...prev.daysOfWeek, day],
+    }));
+  };
+
+  const generateSeries = async (template: DutyTemplate, until: string) => {
+    const newSchedules = await dataProvider.saveSchedules(expandTemplate(template, until, assignedBy));
+    const updatedTemplate = await dataProvider.updateDutyTemplate(template.id, { generatedUntil: until });
+    onSeriesSaved(updatedTemplate, newSchedules);
+    toast({
+      title: t('recurrence.generated'),
+      description: t('recurrence.generatedDescription', {
+        count: newSchedules.length,
+        name: template.name,
+        date: moment(until).format('MMM D'),
+      }),
+    });
+  };
+
+  const handleCreate = async () => {
+    setIsSaving(true);
+    try {
+      const { id, ...templateData } = draftTemplate;
+      const template = await dataProvider.saveDutyTemplate(templateData);
+      await generateSeries(template, form.until);
+      setForm(getInitialForm());
+      onClose();
+    } catch (error) {
+      console.error('Error creating recurring duty:', error);
+      toast({
+        title: t('recurrence.error'),
+        description: t('recurrence.generateFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleExtend = async (template: DutyTemplate) => {
+    setIsSaving(true);
+    try {
+      const until = moment.max(moment(template.generatedUntil), moment())
+        .add(EXTEND_WEEKS, 'weeks')
+        .format('YYYY-MM-DD');
+      await generateSeries(template, until);
+    } catch (error) {
+      console.error('Error extending recurring duty:', error);
+      toast({
+        title: t('recurrence.error'),
+        description: t('recurrence.generateFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const getUserName = (userId: string) => {
+    const found = users.find(u => u.id === userId);
+    return found ? `${found.firstName} ${found.lastName}` : userId;
+  };
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Repeat className="h-5 w-5" />
+            {t('recurrence.title')}
+          </DialogTitle>
+          <DialogDescription>{t('recurrence.description')}</DialogDescription>
+        </DialogHeader>
+
+        {templates.length > 0 && (
+          <div className="space-y-2">
+            <Label>{t('recurrence.existingSeries')}</Label>
+            {templates.map(template => (
+              <div key={template.id} className="flex items-center justify-between border rounded p-2 text-sm">
+                <div>
+                  <span className="font-medium">{template.name}</span>
+                  <span className="text-gray-500">
+                    {' '}• {describeRecurrence(template.recurrence, language)} {t('recurrence.at', { time: template.startTime })}
+                    {template.crews.length > 1 && ` • ${t('recurrence.rotatingCrews', { count: template.crews.length })}`}
+                  </span>
+                  <div className="text-xs text-gray-500">
+                    {t('recurrence.generatedThrough', { date: moment(template.generatedUntil).format('MMM D, YYYY') })}
+                    {template.endDate && ` • ${t('recurrence.ends', { date: moment(template.endDate).format('MMM D, YYYY') })}`}
+                  </div>
+                </div>
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => handleExtend(template)}
+                  disabled={isSaving || (!!template.endDate && template.generatedUntil >= template.endDate)}
+                >
+                  <CalendarPlus className="h-4 w-4 mr-1" />
+                  {t('recurrence.extend', { count: EXTEND_WEEKS })}
+                </Button>
+              </div>
+            ))}
+          </div>
+        )}
+
+        <div className="space-y-4 border-t pt-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t('recurrence.seriesName')}</Label>
+              <Input
+                placeholder={t('recurrence.seriesNamePlaceholder')}
+                value={form.name}
+                onChange={(e) => setForm(prev => ({ ...prev, name: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>{t('calendar.dutyType')}</Label>
+              <Select
+                value={form.dutyTypeId}
+                onValueChange={(value) => {
+                  const dutyType = dutyTypes.find(dt => dt.id === value);
+                  setForm(prev => ({ ...prev, dutyTypeId: value, durationHours: dutyType?.duration || prev.durationHours }));
+                }}
+              >
+                <SelectTrigger>
+                  <SelectValue placeholder={t('calendar.selectDutyType')} />
+                </SelectTrigger>
+                <SelectContent>
+                  {dutyTypes.map(dt => (
+                    <SelectItem key={dt.id} value={dt.id}>{dutyTypeName(dt)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="grid grid-cols-4 gap-4">
+            <div>
+              <Label>{t('recurrence.firstDate')}</Label>
+              <Input
+                type="date"
+                value={form.startDate}
+                onChange={(e) => setForm(prev => ({ ...prev, startDate: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>{t('calendar.startTime')}</Label>
+              <Input
+                type="time"
+                value={form.startTime}
+                onChange={(e) => setForm(prev => ({ ...prev, startTime: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>{t('recurrence.durationHours')}</Label>
+              <Input
+                type="number"
+                min={1}
+                max={72}
+                value={form.durationHours}
+                onChange={(e) => setForm(prev => ({ ...prev, durationHours: Number(e.target.value) }))}
+              />
+            </div>
+            <div>
+              <Label>{t('recurrence.generateThrough')}</Label>
+              <Input
+                type="date"
+                value={form.until}
+                onChange={(e) => setForm(prev => ({ ...prev, until: e.target.value }))}
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div>
+              <Label>{t('recurrence.repeats')}</Label>
+              <Select
+                value={form.recurrenceType}
+                onValueChange={(value: RecurrenceRule['type']) => setForm(prev => ({ ...prev, recurrenceType: value }))}
+              >
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {(['DAILY', 'WEEKLY', 'EVERY_N_DAYS'] as RecurrenceRule['type'][]).map(type => (
+                    <SelectItem key={type} value={type}>{t(`recurrence.types.${type}` as TranslationKey)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            {form.recurrenceType === 'EVERY_N_DAYS' && (
+              <div>
+                <Label>{t('recurrence.intervalDays')}</Label>
+                <Input
+                  type="number"
+                  min={2}
+                  value={form.interval}
+                  onChange={(e) => setForm(prev => ({ ...prev, interval: Math.max(1, Number(e.target.value)) }))}
+                />
+              </div>
+            )}
+          </div>
+
+          {form.recurrenceType === 'WEEKLY' && (
+            <div className="flex flex-wrap gap-4">
+              {moment.weekdaysShort().map((label, day) => (
+                <label key={day} className="flex items-center space-x-2 text-sm">
+                  <Checkbox checked={form.daysOfWeek.includes(day)} onCheckedChange={() => toggleDay(day)} />
+                  <span>{label}</span>
+                </label>
+              ))}
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label>
+                {t('recurrence.crews')}{' '}
+                {form.crews.length > 1 && <span className="text-gray-500 font-normal">{t('recurrence.crewsTakeTurns')}</span>}
+              </Label>
+              <div className="flex gap-2">
+                {form.crews.length > 1 && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setForm(prev => ({ ...prev, crews: prev.crews.slice(0, -1) }))}
+                  >
+                    {t('recurrence.removeCrew')}
+                  </Button>
+                )}
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setForm(prev => ({ ...prev, crews: [...prev.crews, []] }))}
+                >
+                  {t('recurrence.addCrew')}
+                </Button>
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+              {form.crews.map((crew, crewIndex) => (
+                <div key={crewIndex} className="border rounded p-2">
+                  <div className="flex items-center justify-between mb-2">
+                    <span className="text-sm font-medium">{t('recurrence.crew', { letter: String.fromCharCode(65 + crewIndex) })}</span>
+                    <Badge variant="secondary">{crew.length}</Badge>
+                  </div>
+                  <div className="max-h-32 overflow-y-auto space-y-1">
+                    {rosterableUsers.map(u => (
+                      <label key={u.id} className="flex items-center space-x-2 text-sm">
+                        <Checkbox
+                          checked={crew.includes(u.id)}
+                          onCheckedChange={() => toggleCrewMember(crewIndex, u.id)}
+                        />
+                        <span>{u.rank} {getUserName(u.id)}</span>
+                      </label>
+                    ))}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <Label>{t('calendar.notes')}</Label>
+            <Textarea
+              value={form.notes}
+              onChange={(e) => setForm(prev => ({ ...prev, notes: e.target.value }))}
+              rows={2}
+            />
+          </div>
+
+          {occurrenceCount > 0 && (
+            <p className="text-sm text-gray-600">
+              {t('recurrence.summary', {
+                recurrence: describeRecurrence(recurrence, language),
+                count: occurrenceCount,
+                date: moment(form.until).format('MMM D, YYYY'),
+              })}
+            </p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={onClose}>{t('common.cancel')}</Button>
+          <Button onClick={handleCreate} disabled={!isValid || isSaving}>
+            {isSaving ? t('recurrence.generating') : t('recurrence.createSeries')}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -41,10 +41,15 @@ import {
   TrendingUp,
   FileText,
   Filter,
+  Scale,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
+import { useLanguage } from '@/hooks/use-language';
+import { dataProvider } from '@/lib/data-provider';
+import { autoScheduler } from '@/lib/scheduler';
+import { DEFAULT_FAIRNESS_WINDOW_DAYS, FAIRNESS_WEIGHTS, FairnessScore, fairnessService } from '@/lib/fairness';
 import { Schedule, User, DutyType } from '@/types';
+import { TranslationKey } from '@/lib/i18n';
 import { toast } from '@/hooks/use-toast';
 
 interface DutyDistribution {
@@ -61,8 +66,26 @@ interface PersonnelWorkload {
   avgHoursPerDuty: number;
 }
 
+// Weeks shown in the duty trend chart
+const TREND_WEEKS = 12;
+
+const getPeriodStart = (period: string, now: Date): Date => {
+  switch (period) {
+    case 'week':
+      return new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
+    case 'quarter':
+      return new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
+    case 'year':
+      return new Date(now.getFullYear(), 0, 1);
+    case 'month':
+    default:
+      return new Date(now.getFullYear(), now.getMonth(), 1);
+  }
+};
+
 const Reports: React.FC = () => {
   const { user } = useAuth();
+  const { t, isRTL, dutyTypeName } = useLanguage();
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [dutyTypes, setDutyTypes] = useState<DutyType[]>([]);
@@ -70,20 +93,39 @@ const Reports: React.FC = () => {
   const [selectedPeriod, setSelectedPeriod] = useState('month');
   const [selectedUser, setSelectedUser] = useState<string>('');
   const [selectedUnit, setSelectedUnit] = useState<string>('');
+  const [fairnessWindow, setFairnessWindow] = useState(String(DEFAULT_FAIRNESS_WINDOW_DAYS));
 
   useEffect(() => {
     loadData();
   }, []);
 
+  // Only the schedules some report looks at: the selected period, the trend chart and the fairness window
+  useEffect(() => {
+    const loadSchedules = async () => {
+      const now = new Date();
+      const from = Math.min(
+        getPeriodStart(selectedPeriod, now).getTime(),
+        now.getTime() - TREND_WEEKS * 7 * 24 * 60 * 60 * 1000,
+        fairnessService.getRollingWindow(Number(fairnessWindow), now).from.getTime()
+      );
+
+      try {
+        setSchedules(await dataProvider.querySchedules({ from: new Date(from).toISOString() }));
+      } catch (error) {
+        console.error('Error loading report schedules:', error);
+      }
+    };
+
+    loadSchedules();
+  }, [selectedPeriod, fairnessWindow]);
+
   const loadData = async () => {
     try {
-      const [schedulesData, usersData, dutyTypesData] = await Promise.all([
-        apiService.fetchSchedules(),
-        apiService.fetchUsers(),
-        apiService.fetchDutyTypes(),
+      const [usersData, dutyTypesData] = await Promise.all([
+        dataProvider.fetchUsers(),
+        dataProvider.fetchDutyTypes(),
       ]);
 
-      setSchedules(schedulesData);
       setUsers(usersData);
       setDutyTypes(dutyTypesData);
     } catch (error) {
@@ -97,25 +139,7 @@ const Reports: React.FC = () => {
     let filtered = [...schedules];
 
     // Filter by period
-    const now = new Date();
-    let startDate: Date;
-    
-    switch (selectedPeriod) {
-      case 'week':
-        startDate = new Date(now.getTime() - 7 * 24 * 60 * 60 * 1000);
-        break;
-      case 'month':
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-        break;
-      case 'quarter':
-        startDate = new Date(now.getFullYear(), Math.floor(now.getMonth() / 3) * 3, 1);
-        break;
-      case 'year':
-        startDate = new Date(now.getFullYear(), 0, 1);
-        break;
-      default:
-        startDate = new Date(now.getFullYear(), now.getMonth(), 1);
-    }
+    const startDate = getPeriodStart(selectedPeriod, new Date());
 
     filtered = filtered.filter(s => new Date(s.startTime) >= startDate);
 
@@ -141,17 +165,18 @@ const Reports: React.FC = () => {
       const dutyType = dutyTypes.find(dt => dt.id === schedule.dutyTypeId);
       if (dutyType) {
         const hours = (new Date(schedule.endTime).getTime() - new Date(schedule.startTime).getTime()) / (1000 * 60 * 60);
+        const name = dutyTypeName(dutyType)!;
         
-        if (!distribution[dutyType.name]) {
-          distribution[dutyType.name] = {
+        if (!distribution[name]) {
+          distribution[name] = {
             count: 0,
             hours: 0,
             color: dutyType.color,
           };
         }
         
-        distribution[dutyType.name].count++;
-        distribution[dutyType.name].hours += hours;
+        distribution[name].count++;
+        distribution[name].hours += hours;
       }
     });
 
@@ -192,11 +217,26 @@ const Reports: React.FC = () => {
       .sort((a, b) => b.totalHours - a.totalHours);
   };
 
+  // Burden over the rolling window for rosterable personnel in the selected unit/user
+  const getFairnessScores = (): FairnessScore[] => {
+    const people = users
+      .filter(u => autoScheduler.isRosterable(u))
+      .filter(u => !selectedUnit || selectedUnit === 'all' || u.unit === selectedUnit)
+      .filter(u => !selectedUser || selectedUser === 'all' || u.id === selectedUser);
+
+    return fairnessService.getScores(
+      people,
+      schedules,
+      dutyTypes,
+      fairnessService.getRollingWindow(Number(fairnessWindow))
+    );
+  };
+
   const getWeeklyTrend = () => {
     const weeks = [];
     const now = new Date();
     
-    for (let i = 11; i >= 0; i--) {
+    for (let i = TREND_WEEKS - 1; i >= 0; i--) {
       const weekStart = new Date(now.getTime() - i * 7 * 24 * 60 * 60 * 1000);
       const weekEnd = new Date(weekStart.getTime() + 7 * 24 * 60 * 60 * 1000);
       
@@ -206,7 +246,7 @@ const Reports: React.FC = () => {
       });
 
       weeks.push({
-        week: `Week ${52 - i}`,
+        week: t('reports.week', { number: 52 - i }),
         duties: weekSchedules.length,
         hours: weekSchedules.reduce((total, s) => {
           const hours = (new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) / (1000 * 60 * 60);
@@ -244,24 +284,26 @@ const Reports: React.FC = () => {
         weeklyTrend: getWeeklyTrend(),
       };
 
+      const periodLabel = t(`reports.periods.${selectedPeriod}` as TranslationKey);
+
       if (format === 'excel') {
         // Create CSV format for Excel compatibility
         const csvData = [
-          ['IDF Reserve Duty Report'],
-          [`Generated: ${new Date().toLocaleString()}`],
-          [`Period: ${selectedPeriod}`],
+          [t('reports.export.title')],
+          [t('reports.export.generated', { time: new Date().toLocaleString() })],
+          [t('reports.export.period', { period: periodLabel })],
           [''],
-          ['Summary Statistics'],
-          ['Total Duties', reportData.stats.totalDuties],
-          ['Total Hours', reportData.stats.totalHours],
-          ['Active Personnel', reportData.stats.activePersonnel],
+          [t('reports.export.summary')],
+          [t('reports.totalDuties'), reportData.stats.totalDuties],
+          [t('reports.totalHours'), reportData.stats.totalHours],
+          [t('reports.activePersonnel'), reportData.stats.activePersonnel],
           [''],
-          ['Duty Distribution'],
-          ['Duty Type', 'Count', 'Hours'],
+          [t('reports.distribution')],
+          [t('reports.export.dutyType'), t('reports.export.count'), t('reports.hours')],
           ...reportData.dutyDistribution.map(d => [d.name, d.count, d.hours]),
           [''],
-          ['Personnel Workload'],
-          ['Name', 'Total Hours', 'Total Duties', 'Avg Hours/Duty'],
+          [t('reports.workload')],
+          [t('reports.export.name'), t('reports.totalHours'), t('reports.totalDuties'), t('reports.avgHoursPerDuty')],
           ...reportData.personnelWorkload.map(p => [p.name, p.totalHours, p.totalDuties, p.avgHoursPerDuty]),
         ];
 
@@ -278,16 +320,16 @@ const Reports: React.FC = () => {
         URL.revokeObjectURL(url);
 
         toast({
-          title: "Report Exported",
-          description: "Excel report has been downloaded successfully.",
+          title: t('reports.exported'),
+          description: t('reports.excelExported'),
         });
       } else if (format === 'pdf') {
         // Create HTML content for PDF
         const htmlContent = `
           <!DOCTYPE html>
-          <html>
+          <html dir="${isRTL ? 'rtl' : 'ltr'}">
           <head>
-            <title>IDF Reserve Duty Report</title>
+            <title>${t('reports.export.title')}</title>
             <style>
               body { font-family: Arial, sans-serif; margin: 20px; }
               .header { text-align: center; margin-bottom: 30px; }
@@ -301,31 +343,31 @@ const Reports: React.FC = () => {
           </head>
           <body>
             <div class="header">
-              <h1>IDF Reserve Duty Report</h1>
-              <p>Generated: ${new Date().toLocaleString()}</p>
-              <p>Period: ${selectedPeriod.toUpperCase()}</p>
+              <h1>${t('reports.export.title')}</h1>
+              <p>${t('reports.export.generated', { time: new Date().toLocaleString() })}</p>
+              <p>${t('reports.export.period', { period: periodLabel })}</p>
             </div>
             
             <div class="stats">
               <div class="stat-card">
-                <h3>Total Duties</h3>
+                <h3>${t('reports.totalDuties')}</h3>
                 <p style="font-size: 24px; font-weight: bold;">${reportData.stats.totalDuties}</p>
               </div>
               <div class="stat-card">
-                <h3>Total Hours</h3>
+                <h3>${t('reports.totalHours')}</h3>
                 <p style="font-size: 24px; font-weight: bold;">${reportData.stats.totalHours}</p>
               </div>
               <div class="stat-card">
-                <h3>Active Personnel</h3>
+                <h3>${t('reports.activePersonnel')}</h3>
                 <p style="font-size: 24px; font-weight: bold;">${reportData.stats.activePersonnel}</p>
               </div>
             </div>
 
             <div class="section">
-              <h2>Duty Distribution</h2>
+              <h2>${t('reports.distribution')}</h2>
               <table>
                 <thead>
-                  <tr><th>Duty Type</th><th>Count</th><th>Hours</th></tr>
+                  <tr><th>${t('reports.export.dutyType')}</th><th>${t('reports.export.count')}</th><th>${t('reports.hours')}</th></tr>
                 </thead>
                 <tbody>
                   ${reportData.dutyDistribution.map(d => 
@@ -336,10 +378,10 @@ const Reports: React.FC = () => {
             </div>
 
             <div class="section">
-              <h2>Personnel Workload</h2>
+              <h2>${t('reports.workload')}</h2>
               <table>
                 <thead>
-                  <tr><th>Name</th><th>Total Hours</th><th>Total Duties</th><th>Avg Hours/Duty</th></tr>
+                  <tr><th>${t('reports.export.name')}</th><th>${t('reports.totalHours')}</th><th>${t('reports.totalDuties')}</th><th>${t('reports.avgHoursPerDuty')}</th></tr>
                 </thead>
                 <tbody>
                   ${reportData.personnelWorkload.slice(0, 10).map(p => 
@@ -361,14 +403,14 @@ const Reports: React.FC = () => {
         URL.revokeObjectURL(url);
 
         toast({
-          title: "Report Exported",
-          description: "PDF report (HTML format) has been downloaded successfully.",
+          title: t('reports.exported'),
+          description: t('reports.pdfExported'),
         });
       }
     } catch (error) {
       toast({
-        title: "Export Failed",
-        description: "Failed to export report. Please try again.",
+        title: t('reports.exportFailed'),
+        description: t('reports.exportFailedDescription'),
         variant: "destructive",
       });
     }
@@ -376,6 +418,7 @@ const Reports: React.FC = () => {
 
   const dutyDistribution = getDutyDistribution();
   const personnelWorkload = getPersonnelWorkload();
+  const fairnessScores = getFairnessScores();
   const weeklyTrend = getWeeklyTrend();
   const COLORS = ['#3B82F6', '#EF4444', '#10B981', '#F59E0B', '#8B5CF6', '#F97316'];
 
@@ -399,18 +442,18 @@ const Reports: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Reports & Analytics</h1>
-          <p className="text-gray-600">Duty distribution and personnel workload analysis</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('reports.title')}</h1>
+          <p className="text-gray-600">{t('reports.subtitle')}</p>
         </div>
 
         <div className="flex items-center space-x-3">
           <Button variant="outline" onClick={() => exportReport('excel')}>
             <Download className="h-4 w-4 mr-2" />
-            Export Excel
+            {t('reports.exportExcel')}
           </Button>
           <Button variant="outline" onClick={() => exportReport('pdf')}>
             <FileText className="h-4 w-4 mr-2" />
-            Export PDF
+            {t('reports.exportPdf')}
           </Button>
         </div>
       </div>
@@ -421,28 +464,28 @@ const Reports: React.FC = () => {
           <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
             <div className="flex items-center space-x-4">
               <div>
-                <label className="text-sm font-medium text-gray-700">Time Period</label>
+                <label className="text-sm font-medium text-gray-700">{t('reports.timePeriod')}</label>
                 <Select value={selectedPeriod} onValueChange={setSelectedPeriod}>
                   <SelectTrigger className="w-32">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="week">This Week</SelectItem>
-                    <SelectItem value="month">This Month</SelectItem>
-                    <SelectItem value="quarter">This Quarter</SelectItem>
-                    <SelectItem value="year">This Year</SelectItem>
+                    <SelectItem value="week">{t('reports.periods.week')}</SelectItem>
+                    <SelectItem value="month">{t('reports.periods.month')}</SelectItem>
+                    <SelectItem value="quarter">{t('reports.periods.quarter')}</SelectItem>
+                    <SelectItem value="year">{t('reports.periods.year')}</SelectItem>
                   </SelectContent>
                 </Select>
               </div>
 
               <div>
-                <label className="text-sm font-medium text-gray-700">Personnel</label>
+                <label className="text-sm font-medium text-gray-700">{t('reports.personnel')}</label>
                 <Select value={selectedUser} onValueChange={setSelectedUser}>
                   <SelectTrigger className="w-48">
-                    <SelectValue placeholder="All personnel" />
+                    <SelectValue placeholder={t('reports.allPersonnel')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All personnel</SelectItem>
+                    <SelectItem value="all">{t('reports.allPersonnel')}</SelectItem>
                     {users.map(u => (
                       <SelectItem key={u.id} value={u.id}>
                         {u.firstName} {u.lastName}
@@ -453,13 +496,13 @@ const Reports: React.FC = () => {
               </div>
 
               <div>
-                <label className="text-sm font-medium text-gray-700">Unit</label>
+                <label className="text-sm font-medium text-gray-700">{t('reports.unit')}</label>
                 <Select value={selectedUnit} onValueChange={setSelectedUnit}>
                   <SelectTrigger className="w-40">
-                    <SelectValue placeholder="All units" />
+                    <SelectValue placeholder={t('reports.allUnits')} />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="all">All units</SelectItem>
+                    <SelectItem value="all">{t('reports.allUnits')}</SelectItem>
                     {getUnits().map(unit => (
                       <SelectItem key={unit} value={unit}>{unit}</SelectItem>
                     ))}
@@ -469,7 +512,7 @@ const Reports: React.FC = () => {
             </div>
 
             <Badge variant="outline">
-              {getFilteredSchedules().length} duties in selected period
+              {t('reports.dutiesInPeriod', { count: getFilteredSchedules().length })}
             </Badge>
           </div>
         </CardContent>
@@ -481,7 +524,7 @@ const Reports: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Total Duties</p>
+                <p className="text-sm font-medium text-gray-600">{t('reports.totalDuties')}</p>
                 <p className="text-3xl font-bold text-blue-600 mt-1">
                   {getFilteredSchedules().length}
                 </p>
@@ -495,7 +538,7 @@ const Reports: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Total Hours</p>
+                <p className="text-sm font-medium text-gray-600">{t('reports.totalHours')}</p>
                 <p className="text-3xl font-bold text-green-600 mt-1">
                   {Math.round(getFilteredSchedules().reduce((total, s) => {
                     const hours = (new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) / (1000 * 60 * 60);
@@ -512,7 +555,7 @@ const Reports: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Active Personnel</p>
+                <p className="text-sm font-medium text-gray-600">{t('reports.activePersonnel')}</p>
                 <p className="text-3xl font-bold text-purple-600 mt-1">
                   {new Set(getFilteredSchedules().map(s => s.userId)).size}
                 </p>
@@ -526,7 +569,7 @@ const Reports: React.FC = () => {
           <CardContent className="p-6">
             <div className="flex items-center justify-between">
               <div>
-                <p className="text-sm font-medium text-gray-600">Avg Hours/Person</p>
+                <p className="text-sm font-medium text-gray-600">{t('reports.avgHoursPerPerson')}</p>
                 <p className="text-3xl font-bold text-orange-600 mt-1">
                   {personnelWorkload.length > 0 
                     ? Math.round(personnelWorkload.reduce((sum, p) => sum + p.totalHours, 0) / personnelWorkload.length)
@@ -545,8 +588,8 @@ const Reports: React.FC = () => {
         {/* Duty Distribution */}
         <Card>
           <CardHeader>
-            <CardTitle>Duty Type Distribution</CardTitle>
-            <CardDescription>Breakdown by duty types and hours</CardDescription>
+            <CardTitle>{t('reports.distribution')}</CardTitle>
+            <CardDescription>{t('reports.distributionDescription')}</CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -558,7 +601,7 @@ const Reports: React.FC = () => {
                   outerRadius={100}
                   fill="#8884d8"
                   dataKey="hours"
-                  label={({ name, hours }) => `${name}: ${hours}h`}
+                  label={({ name, hours }) => `${name}: ${t('reports.hoursShort', { count: hours })}`}
                 >
                   {dutyDistribution.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={entry.color || COLORS[index % COLORS.length]} />
@@ -573,8 +616,8 @@ const Reports: React.FC = () => {
         {/* Weekly Trend */}
         <Card>
           <CardHeader>
-            <CardTitle>Weekly Duty Trend</CardTitle>
-            <CardDescription>Duties and hours over the past 12 weeks</CardDescription>
+            <CardTitle>{t('reports.trend')}</CardTitle>
+            <CardDescription>{t('reports.trendDescription', { count: TREND_WEEKS })}</CardDescription>
           </CardHeader>
           <CardContent>
             <ResponsiveContainer width="100%" height={300}>
@@ -583,8 +626,8 @@ const Reports: React.FC = () => {
                 <XAxis dataKey="week" />
                 <YAxis />
                 <Tooltip />
-                <Line type="monotone" dataKey="duties" stroke="#3B82F6" name="Duties" />
-                <Line type="monotone" dataKey="hours" stroke="#EF4444" name="Hours" />
+                <Line type="monotone" dataKey="duties" stroke="#3B82F6" name={t('reports.duties')} />
+                <Line type="monotone" dataKey="hours" stroke="#EF4444" name={t('reports.hours')} />
               </LineChart>
             </ResponsiveContainer>
           </CardContent>
@@ -594,18 +637,18 @@ const Reports: React.FC = () => {
       {/* Personnel Workload */}
       <Card>
         <CardHeader>
-          <CardTitle>Personnel Workload Analysis</CardTitle>
-          <CardDescription>Individual workload distribution and statistics</CardDescription>
+          <CardTitle>{t('reports.workload')}</CardTitle>
+          <CardDescription>{t('reports.workloadDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <Table>
             <TableHeader>
               <TableRow>
-                <TableHead>Personnel</TableHead>
-                <TableHead>Total Hours</TableHead>
-                <TableHead>Total Duties</TableHead>
-                <TableHead>Avg Hours/Duty</TableHead>
-                <TableHead>Workload Distribution</TableHead>
+                <TableHead>{t('reports.personnel')}</TableHead>
+                <TableHead>{t('reports.totalHours')}</TableHead>
+                <TableHead>{t('reports.totalDuties')}</TableHead>
+                <TableHead>{t('reports.avgHoursPerDuty')}</TableHead>
+                <TableHead>{t('reports.workloadDistribution')}</TableHead>
               </TableRow>
             </TableHeader>
             <TableBody>
@@ -616,9 +659,9 @@ const Reports: React.FC = () => {
                 return (
                   <TableRow key={index}>
                     <TableCell className="font-medium">{person.name}</TableCell>
-                    <TableCell>{person.totalHours}h</TableCell>
+                    <TableCell>{t('reports.hoursShort', { count: person.totalHours })}</TableCell>
                     <TableCell>{person.totalDuties}</TableCell>
-                    <TableCell>{person.avgHoursPerDuty}h</TableCell>
+                    <TableCell>{t('reports.hoursShort', { count: person.avgHoursPerDuty })}</TableCell>
                     <TableCell>
                       <div className="flex items-center space-x-2">
                         <Progress value={percentage} className="flex-1" />
@@ -633,11 +676,84 @@ const Reports: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Duty Fairness */}
+      <Card>
+        <CardHeader>
+          <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-3 lg:space-y-0">
+            <div>
+              <CardTitle className="flex items-center space-x-2">
+                <Scale className="h-5 w-5" />
+                <span>{t('reports.fairness')}</span>
+              </CardTitle>
+              <CardDescription>
+                {t('reports.fairnessDescription', {
+                  priority: FAIRNESS_WEIGHTS.priority.HIGH,
+                  night: FAIRNESS_WEIGHTS.night,
+                  weekend: FAIRNESS_WEIGHTS.weekend,
+                })}
+              </CardDescription>
+            </div>
+            <Select value={fairnessWindow} onValueChange={setFairnessWindow}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {['14', '30', '60', '90'].map(days => (
+                  <SelectItem key={days} value={days}>{t('reports.lastDays', { count: days })}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </CardHeader>
+        <CardContent>
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>{t('reports.personnel')}</TableHead>
+                <TableHead>{t('reports.burdenScore')}</TableHead>
+                <TableHead>{t('reports.hours')}</TableHead>
+                <TableHead>{t('reports.nightHours')}</TableHead>
+                <TableHead>{t('reports.weekendHours')}</TableHead>
+                <TableHead>{t('reports.holidayHours')}</TableHead>
+                <TableHead>{t('reports.highPriority')}</TableHead>
+                <TableHead>{t('reports.status')}</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {fairnessScores.map(score => {
+                const person = users.find(u => u.id === score.userId);
+                return (
+                  <TableRow key={score.userId} className={score.outlier === 'OVERLOADED' ? 'bg-red-50' : ''}>
+                    <TableCell className="font-medium">
+                      {person ? `${person.rank} ${person.firstName} ${person.lastName}` : score.userId}
+                    </TableCell>
+                    <TableCell>{Math.round(score.burden)}</TableCell>
+                    <TableCell>{t('reports.hoursShort', { count: Math.round(score.hours) })}</TableCell>
+                    <TableCell>{t('reports.hoursShort', { count: Math.round(score.nightHours) })}</TableCell>
+                    <TableCell>{t('reports.hoursShort', { count: Math.round(score.weekendHours) })}</TableCell>
+                    <TableCell>{t('reports.hoursShort', { count: Math.round(score.holidayHours) })}</TableCell>
+                    <TableCell>{score.highPriorityDuties}</TableCell>
+                    <TableCell>
+                      {score.outlier === 'OVERLOADED' && <Badge variant="destructive">{t('reports.overloaded')}</Badge>}
+                      {score.outlier === 'UNDERLOADED' && <Badge variant="secondary">{t('reports.underloaded')}</Badge>}
+                      {!score.outlier && <span className="text-sm text-gray-500">{t('reports.withinRange')}</span>}
+                    </TableCell>
+                  </TableRow>
+                );
+              })}
+            </TableBody>
+          </Table>
+          {fairnessScores.length === 0 && (
+            <p className="text-sm text-gray-500 text-center py-4">{t('reports.noPersonnel')}</p>
+          )}
+        </CardContent>
+      </Card>
+
       {/* Duty Types Breakdown */}
       <Card>
         <CardHeader>
-          <CardTitle>Duty Types Breakdown</CardTitle>
-          <CardDescription>Detailed statistics for each duty type</CardDescription>
+          <CardTitle>{t('reports.breakdown')}</CardTitle>
+          <CardDescription>{t('reports.breakdownDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
@@ -652,16 +768,16 @@ const Reports: React.FC = () => {
                 </div>
                 <div className="space-y-2 text-sm">
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Total Count:</span>
+                    <span className="text-gray-600">{t('reports.totalCount')}</span>
                     <span className="font-medium">{duty.count}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Total Hours:</span>
-                    <span className="font-medium">{duty.hours}h</span>
+                    <span className="text-gray-600">{t('reports.totalHoursLabel')}</span>
+                    <span className="font-medium">{t('reports.hoursShort', { count: duty.hours })}</span>
                   </div>
                   <div className="flex justify-between">
-                    <span className="text-gray-600">Avg Hours:</span>
-                    <span className="font-medium">{Math.round(duty.hours / duty.count)}h</span>
+                    <span className="text-gray-600">{t('reports.avgHours')}</span>
+                    <span className="font-medium">{t('reports.hoursShort', { count: Math.round(duty.hours / duty.count) })}</span>
                   </div>
                 </div>
               </div>
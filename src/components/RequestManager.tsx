@@ -35,48 +35,49 @@ import {
   Clock,
   Eye,
   AlertTriangle,
+  ArrowLeftRight,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
-import { Schedule, User, DutyType } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+import { dataProvider } from '@/lib/data-provider';
+import { Schedule, User, DutyType, Availability, ShiftSwap, LeaveRequest, DutyChangeRequest } from '@/types';
 import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { shiftSwapService } from '@/lib/shift-swaps';
+import { RosterData } from '@/lib/scheduler';
+import { notificationService } from '@/lib/notifications';
+import { getScheduleVersion, StaleScheduleError } from '@/lib/schedule-versions';
+import { toast } from '@/hooks/use-toast';
 
-interface LeaveRequest {
-  id: string;
-  userId: string;
-  startDate: string;
-  endDate: string;
-  reason: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
-  requestedAt: string;
-  reviewedBy?: string;
-  reviewedAt?: string;
-  reviewNotes?: string;
-}
-
-interface DutyChangeRequest {
-  id: string;
-  userId: string;
-  currentScheduleId: string;
-  requestedDutyTypeId: string;
-  reason: string;
-  status: 'PENDING' | 'APPROVED' | 'REJECTED';
-  requestedAt: string;
-  reviewedBy?: string;
-  reviewedAt?: string;
-  reviewNotes?: string;
+// A leave approval that stopped after changing some data; approving again finishes it
+class PartialApprovalError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PartialApprovalError';
+  }
 }
 
 const RequestManager: React.FC = () => {
   const { user } = useAuth();
+  const { t, dutyTypeName } = useLanguage();
   const [leaveRequests, setLeaveRequests] = useState<LeaveRequest[]>([]);
   const [dutyChangeRequests, setDutyChangeRequests] = useState<DutyChangeRequest[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [dutyTypes, setDutyTypes] = useState<DutyType[]>([]);
+  const [availability, setAvailability] = useState<Availability[]>([]);
+  const [shiftSwaps, setShiftSwaps] = useState<ShiftSwap[]>([]);
   const [activeTab, setActiveTab] = useState('my-requests');
   const [showLeaveDialog, setShowLeaveDialog] = useState(false);
   const [showDutyChangeDialog, setShowDutyChangeDialog] = useState(false);
+  const [showOfferSwapDialog, setShowOfferSwapDialog] = useState(false);
+  const [claimingSwap, setClaimingSwap] = useState<ShiftSwap | null>(null);
+  const [returnScheduleId, setReturnScheduleId] = useState('none');
+  const [reviewTarget, setReviewTarget] = useState<{
+    kind: 'leave' | 'dutyChange';
+    requestId: string;
+    status: 'APPROVED' | 'REJECTED';
+  } | null>(null);
+  const [reviewNotes, setReviewNotes] = useState('');
   const [loading, setLoading] = useState(true);
 
   const [leaveFormData, setLeaveFormData] = useState({
@@ -91,6 +92,11 @@ const RequestManager: React.FC = () => {
     reason: '',
   });
 
+  const [offerSwapFormData, setOfferSwapFormData] = useState({
+    scheduleId: '',
+    reason: '',
+  });
+
   const canApproveRequests = hasPermission(user!, PERMISSIONS.MANAGE_USERS);
 
   useEffect(() => {
@@ -99,18 +105,31 @@ const RequestManager: React.FC = () => {
 
   const loadData = async () => {
     try {
-      const [usersData, schedulesData, dutyTypesData] = await Promise.all([
-        apiService.fetchUsers(),
-        apiService.fetchSchedules(),
-        apiService.fetchDutyTypes(),
+      const [
+        usersData,
+        schedulesData,
+        dutyTypesData,
+        availabilityData,
+        shiftSwapsData,
+        leaveRequestsData,
+        dutyChangeRequestsData,
+      ] = await Promise.all([
+        dataProvider.fetchUsers(),
+        dataProvider.fetchSchedules(),
+        dataProvider.fetchDutyTypes(),
+        dataProvider.fetchAvailability(),
+        dataProvider.fetchShiftSwaps(),
+        dataProvider.fetchLeaveRequests(),
+        dataProvider.fetchDutyChangeRequests(),
       ]);
 
       setUsers(usersData);
       setSchedules(schedulesData);
       setDutyTypes(dutyTypesData);
-      
-      // Load mock request data
-      loadMockRequests();
+      setAvailability(availabilityData);
+      setShiftSwaps(shiftSwapsData);
+      setLeaveRequests(leaveRequestsData);
+      setDutyChangeRequests(dutyChangeRequestsData);
     } catch (error) {
       console.error('Error loading request data:', error);
     } finally {
@@ -118,131 +137,352 @@ const RequestManager: React.FC = () => {
     }
   };
 
-  const loadMockRequests = () => {
-    // Mock leave requests
-    const mockLeaveRequests: LeaveRequest[] = [
-      {
-        id: '1',
+  const handleSubmitLeaveRequest = async () => {
+    if (!leaveFormData.startDate || !leaveFormData.endDate || !leaveFormData.reason) {
+      return;
+    }
+
+    try {
+      const newRequest = await dataProvider.createLeaveRequest({
         userId: user!.id,
-        startDate: '2025-06-25',
-        endDate: '2025-06-27',
-        reason: 'Family emergency',
+        startDate: leaveFormData.startDate,
+        endDate: leaveFormData.endDate,
+        reason: leaveFormData.reason,
         status: 'PENDING',
         requestedAt: new Date().toISOString(),
-      },
-      {
-        id: '2',
-        userId: user!.id,
-        startDate: '2025-06-30',
-        endDate: '2025-06-30',
-        reason: 'Medical appointment',
-        status: 'APPROVED',
-        requestedAt: new Date(Date.now() - 86400000).toISOString(),
-        reviewedBy: 'admin1',
-        reviewedAt: new Date().toISOString(),
-        reviewNotes: 'Approved for medical reasons',
-      },
-    ];
-
-    // Mock duty change requests
-    const mockDutyChangeRequests: DutyChangeRequest[] = [
-      {
-        id: '1',
+      });
+
+      setLeaveRequests(prev => [...prev, newRequest]);
+      setShowLeaveDialog(false);
+      setLeaveFormData({ startDate: '', endDate: '', reason: '' });
+    } catch (error) {
+      console.error('Error submitting leave request:', error);
+      toast({
+        title: t('requests.error'),
+        description: t('requests.leaveSubmitFailed'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleSubmitDutyChangeRequest = async () => {
+    if (!dutyChangeFormData.currentScheduleId || !dutyChangeFormData.requestedDutyTypeId || !dutyChangeFormData.reason) {
+      return;
+    }
+
+    try {
+      const newRequest = await dataProvider.createDutyChangeRequest({
         userId: user!.id,
-        currentScheduleId: 'schedule1',
-        requestedDutyTypeId: 'duty2',
-        reason: 'Prefer kitchen duty due to recent training',
+        currentScheduleId: dutyChangeFormData.currentScheduleId,
+        requestedDutyTypeId: dutyChangeFormData.requestedDutyTypeId,
+        reason: dutyChangeFormData.reason,
         status: 'PENDING',
         requestedAt: new Date().toISOString(),
-      },
-    ];
+      });
 
-    setLeaveRequests(mockLeaveRequests);
-    setDutyChangeRequests(mockDutyChangeRequests);
+      setDutyChangeRequests(prev => [...prev, newRequest]);
+      setShowDutyChangeDialog(false);
+      setDutyChangeFormData({ currentScheduleId: '', requestedDutyTypeId: '', reason: '' });
+    } catch (error) {
+      console.error('Error submitting duty change request:', error);
+      toast({
+        title: t('requests.error'),
+        description: t('requests.dutyChangeSubmitFailed'),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleSubmitLeaveRequest = async () => {
-    if (!leaveFormData.startDate || !leaveFormData.endDate || !leaveFormData.reason) {
+  const handleReviewLeaveRequest = async (
+    requestId: string,
+    status: 'APPROVED' | 'REJECTED',
+    notes?: string
+  ) => {
+    if (status === 'REJECTED') {
+      const reviewed = await dataProvider.reviewLeaveRequest(requestId, status, user!.id, notes);
+      setLeaveRequests(prev => prev.map(req => req.id === requestId ? reviewed : req));
       return;
     }
 
-    const newRequest: LeaveRequest = {
-      id: `leave_${Date.now()}`,
-      userId: user!.id,
-      startDate: leaveFormData.startDate,
-      endDate: leaveFormData.endDate,
-      reason: leaveFormData.reason,
-      status: 'PENDING',
-      requestedAt: new Date().toISOString(),
-    };
-
-    setLeaveRequests(prev => [...prev, newRequest]);
-    setShowLeaveDialog(false);
-    setLeaveFormData({ startDate: '', endDate: '', reason: '' });
+    const request = leaveRequests.find(req => req.id === requestId);
+    if (!request) {
+      throw new Error(`Leave request ${requestId} not found`);
+    }
+
+    // The duties are released before the approval is saved, so a failure can't leave an approved
+    // leave with its duties still assigned. Each step is safe to repeat when approving again.
+    const flagged = await applyApprovedLeave(request);
+
+    let reviewed: LeaveRequest;
+    try {
+      reviewed = await dataProvider.reviewLeaveRequest(requestId, status, user!.id, notes);
+    } catch (error) {
+      console.error('Error saving leave approval:', error);
+      throw new PartialApprovalError(t(
+        flagged.length === 1 ? 'requests.approvalNotSavedOne' : 'requests.approvalNotSavedOther',
+        { count: flagged.length }
+      ));
+    }
+    setLeaveRequests(prev => prev.map(req => req.id === requestId ? reviewed : req));
+
+    if (flagged.length > 0) {
+      notifyLeaveCover(request, flagged);
+      toast({
+        title: t('requests.leaveApproved'),
+        description: t(
+          flagged.length === 1 ? 'requests.leaveApprovedFlaggedOne' : 'requests.leaveApprovedFlaggedOther',
+          { count: flagged.length }
+        ),
+      });
+    }
+  };
+
+  // Approved leave blocks the window and flags the affected duties, all in one batch, for reassignment
+  const applyApprovedLeave = async (request: LeaveRequest): Promise<Schedule[]> => {
+    const startTime = new Date(`${request.startDate}T00:00:00`).toISOString();
+    const endTime = new Date(`${request.endDate}T23:59:59.999`).toISOString();
+    const reassignmentReason = `On approved leave ${request.startDate} - ${request.endDate}`;
+
+    const affected = (await dataProvider.querySchedules({ from: startTime, to: endTime, userId: request.userId }))
+      .filter(s => s.status !== 'CANCELLED' && s.status !== 'COMPLETED');
+    const flagged = affected.length > 0
+      ? await dataProvider.updateSchedules(affected.map(s => ({
+          scheduleId: s.id,
+          expectedVersion: getScheduleVersion(s),
+          updates: { needsReassignment: true, reassignmentReason },
+        })))
+      : [];
+    setSchedules(prev => prev.map(s => flagged.find(f => f.id === s.id) || s));
+
+    // A block left by an earlier attempt that stopped part way is reused
+    const hasBlock = availability.some(a =>
+      a.userId === request.userId && a.status === 'UNAVAILABLE' && a.startTime === startTime && a.endTime === endTime
+    );
+    if (!hasBlock) {
+      try {
+        const leaveBlock = await dataProvider.saveAvailability({
+          userId: request.userId,
+          startTime,
+          endTime,
+          status: 'UNAVAILABLE',
+          notes: `Approved leave: ${request.reason}`,
+          updatedAt: new Date().toISOString(),
+        });
+        setAvailability(prev => [...prev, leaveBlock]);
+      } catch (error) {
+        console.error('Error blocking leave availability:', error);
+        if (flagged.length === 0) throw error;
+        throw new PartialApprovalError(t(
+          flagged.length === 1 ? 'requests.leaveNotBlockedOne' : 'requests.leaveNotBlockedOther',
+          { count: flagged.length }
+        ));
+      }
+    }
+
+    return flagged;
   };
 
-  const handleSubmitDutyChangeRequest = async () => {
-    if (!dutyChangeFormData.currentScheduleId || !dutyChangeFormData.requestedDutyTypeId || !dutyChangeFormData.reason) {
+  // Hands the flagged duties back to whoever scheduled them
+  const notifyLeaveCover = (request: LeaveRequest, flagged: Schedule[]) => {
+    const absentUser = users.find(u => u.id === request.userId);
+    if (!absentUser) return;
+
+    // Duties whose scheduler is unknown go to the approving commander
+    const bySchedulerId = new Map<string, Schedule[]>();
+    flagged.forEach(schedule => {
+      const schedulerId = users.some(u => u.id === schedule.assignedBy) ? schedule.assignedBy : user!.id;
+      bySchedulerId.set(schedulerId, [...(bySchedulerId.get(schedulerId) || []), schedule]);
+    });
+    bySchedulerId.forEach((duties, schedulerId) => {
+      const scheduler = users.find(u => u.id === schedulerId) || user!;
+      notificationService.notifyDutiesNeedCover(scheduler, absentUser, duties, dutyTypes);
+    });
+  };
+
+  const handleReviewDutyChangeRequest = async (
+    requestId: string,
+    status: 'APPROVED' | 'REJECTED',
+    notes?: string
+  ) => {
+    const reviewed = await dataProvider.reviewDutyChangeRequest(requestId, status, user!.id, notes);
+    setDutyChangeRequests(prev => prev.map(req => req.id === requestId ? reviewed : req));
+  };
+
+  const handleSubmitReview = async () => {
+    if (!reviewTarget) return;
+
+    try {
+      const notes = reviewNotes.trim() || undefined;
+      if (reviewTarget.kind === 'leave') {
+        await handleReviewLeaveRequest(reviewTarget.requestId, reviewTarget.status, notes);
+      } else {
+        await handleReviewDutyChangeRequest(reviewTarget.requestId, reviewTarget.status, notes);
+      }
+
+      setReviewTarget(null);
+      setReviewNotes('');
+    } catch (error) {
+      console.error('Error reviewing request:', error);
+      toast({
+        title: t('requests.error'),
+        description: error instanceof PartialApprovalError || error instanceof StaleScheduleError
+          ? error.message
+          : t('requests.reviewFailed'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleOfferSwap = async () => {
+    if (!offerSwapFormData.scheduleId) {
       return;
     }
 
-    const newRequest: DutyChangeRequest = {
-      id: `duty_${Date.now()}`,
-      userId: user!.id,
-      currentScheduleId: dutyChangeFormData.currentScheduleId,
-      requestedDutyTypeId: dutyChangeFormData.requestedDutyTypeId,
-      reason: dutyChangeFormData.reason,
-      status: 'PENDING',
-      requestedAt: new Date().toISOString(),
-    };
-
-    setDutyChangeRequests(prev => [...prev, newRequest]);
-    setShowDutyChangeDialog(false);
-    setDutyChangeFormData({ currentScheduleId: '', requestedDutyTypeId: '', reason: '' });
+    try {
+      const newSwap = await dataProvider.createShiftSwap({
+        scheduleId: offerSwapFormData.scheduleId,
+        offeredBy: user!.id,
+        offeredAt: new Date().toISOString(),
+        reason: offerSwapFormData.reason || undefined,
+        status: 'OPEN',
+      });
+
+      setShiftSwaps(prev => [newSwap, ...prev]);
+      setShowOfferSwapDialog(false);
+      setOfferSwapFormData({ scheduleId: '', reason: '' });
+    } catch (error) {
+      console.error('Error offering shift:', error);
+      toast({
+        title: t('requests.error'),
+        description: t('requests.offerFailed'),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleApproveLeaveRequest = (requestId: string) => {
-    setLeaveRequests(prev => prev.map(req => 
-      req.id === requestId 
-        ? { ...req, status: 'APPROVED' as const, reviewedBy: user!.id, reviewedAt: new Date().toISOString() }
-        : req
-    ));
+  const handleClaimSwap = async () => {
+    if (!claimingSwap) return;
+
+    const offered = schedules.find(s => s.id === claimingSwap.scheduleId);
+    const returned = schedules.find(s => s.id === returnScheduleId);
+    if (!offered || !shiftSwapService.canClaim(offered, user!.id, rosterData, returned)) {
+      toast({
+        title: t('requests.cannotClaim'),
+        description: t('requests.cannotClaimDescription'),
+        variant: "destructive",
+      });
+      return;
+    }
+
+    try {
+      const updatedSwap = await dataProvider.updateShiftSwap(claimingSwap.id, {
+        status: 'CLAIMED',
+        claimedBy: user!.id,
+        claimedAt: new Date().toISOString(),
+        returnScheduleId: returned?.id,
+      });
+
+      setShiftSwaps(prev => prev.map(s => s.id === updatedSwap.id ? updatedSwap : s));
+
+      const offerer = users.find(u => u.id === claimingSwap.offeredBy);
+      const dutyType = dutyTypes.find(dt => dt.id === offered.dutyTypeId);
+      if (offerer && dutyType) {
+        notificationService.notifyShiftSwapClaimed(offerer, user!, offered, dutyType);
+      }
+
+      setClaimingSwap(null);
+      setReturnScheduleId('none');
+    } catch (error) {
+      console.error('Error claiming shift:', error);
+      toast({
+        title: t('requests.error'),
+        description: t('requests.claimFailed'),
+        variant: "destructive",
+      });
+    }
   };
 
-  const handleRejectLeaveRequest = (requestId: string) => {
-    setLeaveRequests(prev => prev.map(req => 
-      req.id === requestId 
-        ? { ...req, status: 'REJECTED' as const, reviewedBy: user!.id, reviewedAt: new Date().toISOString() }
-        : req
-    ));
+  const handleCancelSwap = async (swapId: string) => {
+    try {
+      const updatedSwap = await dataProvider.updateShiftSwap(swapId, { status: 'CANCELLED' });
+      setShiftSwaps(prev => prev.map(s => s.id === swapId ? updatedSwap : s));
+    } catch (error) {
+      console.error('Error cancelling shift swap:', error);
+    }
+  };
+
+  const handleApproveSwap = async (swap: ShiftSwap) => {
+    try {
+      const approvedSwap = await dataProvider.approveShiftSwap(swap, user!.id);
+      setShiftSwaps(prev => prev.map(s => s.id === swap.id ? approvedSwap : s));
+      setSchedules(await dataProvider.fetchSchedules());
+      notifySwapParticipants(swap, true);
+    } catch (error) {
+      console.error('Error approving shift swap:', error);
+      toast({
+        title: t('requests.swapNotApplied'),
+        description: error instanceof Error ? error.message : t('requests.swapApproveFailed'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const handleRejectSwap = async (swap: ShiftSwap) => {
+    try {
+      const rejectedSwap = await dataProvider.updateShiftSwap(swap.id, {
+        status: 'REJECTED',
+        reviewedBy: user!.id,
+        reviewedAt: new Date().toISOString(),
+      });
+      setShiftSwaps(prev => prev.map(s => s.id === swap.id ? rejectedSwap : s));
+      notifySwapParticipants(swap, false);
+    } catch (error) {
+      console.error('Error rejecting shift swap:', error);
+    }
   };
 
-  const handleApproveDutyChangeRequest = (requestId: string) => {
-    setDutyChangeRequests(prev => prev.map(req => 
-      req.id === requestId 
-        ? { ...req, status: 'APPROVED' as const, reviewedBy: user!.id, reviewedAt: new Date().toISOString() }
-        : req
-    ));
+  const notifySwapParticipants = (swap: ShiftSwap, approved: boolean) => {
+    const offered = schedules.find(s => s.id === swap.scheduleId);
+    const dutyType = dutyTypes.find(dt => dt.id === offered?.dutyTypeId);
+    if (!offered || !dutyType) return;
+
+    [swap.offeredBy, swap.claimedBy].forEach(userId => {
+      const participant = users.find(u => u.id === userId);
+      if (participant) {
+        notificationService.notifyShiftSwapReviewed(participant, offered, dutyType, approved);
+      }
+    });
+  };
+
+  const getUserName = (userId?: string) => {
+    const found = users.find(u => u.id === userId);
+    return found ? `${found.rank} ${found.firstName} ${found.lastName}` : t('requests.unknown');
   };
 
-  const handleRejectDutyChangeRequest = (requestId: string) => {
-    setDutyChangeRequests(prev => prev.map(req => 
-      req.id === requestId 
-        ? { ...req, status: 'REJECTED' as const, reviewedBy: user!.id, reviewedAt: new Date().toISOString() }
-        : req
-    ));
+  const describeSchedule = (scheduleId?: string) => {
+    const schedule = schedules.find(s => s.id === scheduleId);
+    if (!schedule) return t('common.unknownDuty');
+    const dutyType = dutyTypes.find(dt => dt.id === schedule.dutyTypeId);
+    const startDate = new Date(schedule.startTime);
+    return `${dutyTypeName(dutyType)} • ${startDate.toLocaleDateString()} ${startDate.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}`;
   };
 
   const getStatusBadge = (status: string) => {
     switch (status) {
+      case 'OPEN':
+        return <Badge variant="outline" className="text-blue-600 border-blue-600"><ArrowLeftRight className="h-3 w-3 mr-1" />{t('requests.status.OPEN')}</Badge>;
+      case 'CLAIMED':
+        return <Badge variant="outline" className="text-yellow-600 border-yellow-600"><Clock className="h-3 w-3 mr-1" />{t('requests.status.CLAIMED')}</Badge>;
+      case 'CANCELLED':
+        return <Badge variant="outline" className="text-gray-600 border-gray-600"><XCircle className="h-3 w-3 mr-1" />{t('requests.status.CANCELLED')}</Badge>;
       case 'PENDING':
-        return <Badge variant="outline" className="text-yellow-600 border-yellow-600"><Clock className="h-3 w-3 mr-1" />Pending</Badge>;
+        return <Badge variant="outline" className="text-yellow-600 border-yellow-600"><Clock className="h-3 w-3 mr-1" />{t('requests.status.PENDING')}</Badge>;
       case 'APPROVED':
-        return <Badge variant="outline" className="text-green-600 border-green-600"><CheckCircle className="h-3 w-3 mr-1" />Approved</Badge>;
+        return <Badge variant="outline" className="text-green-600 border-green-600"><CheckCircle className="h-3 w-3 mr-1" />{t('requests.status.APPROVED')}</Badge>;
       case 'REJECTED':
-        return <Badge variant="outline" className="text-red-600 border-red-600"><XCircle className="h-3 w-3 mr-1" />Rejected</Badge>;
+        return <Badge variant="outline" className="text-red-600 border-red-600"><XCircle className="h-3 w-3 mr-1" />{t('requests.status.REJECTED')}</Badge>;
       default:
-        return <Badge variant="outline">Unknown</Badge>;
+        return <Badge variant="outline">{t('requests.unknown')}</Badge>;
     }
   };
 
@@ -258,6 +498,26 @@ const RequestManager: React.FC = () => {
     new Date(schedule.startTime) > new Date()
   );
 
+  const rosterData: RosterData = { users, dutyTypes, schedules, availability };
+  const activeSwaps = shiftSwaps.filter(swap => swap.status === 'OPEN' || swap.status === 'CLAIMED');
+  const offerableSchedules = userSchedules.filter(schedule =>
+    !activeSwaps.some(swap => swap.scheduleId === schedule.id || swap.returnScheduleId === schedule.id)
+  );
+  // Only offers this user could actually take are listed in the marketplace
+  const claimableSwaps = shiftSwaps.filter(swap => {
+    if (swap.status !== 'OPEN' || swap.offeredBy === user!.id) return false;
+    const offered = schedules.find(s => s.id === swap.scheduleId);
+    return !!offered && new Date(offered.startTime) > new Date() &&
+      shiftSwapService.canClaim(offered, user!.id, rosterData);
+  });
+  const mySwaps = shiftSwaps.filter(swap => swap.offeredBy === user!.id || swap.claimedBy === user!.id);
+  const allPendingSwaps = shiftSwaps.filter(swap => swap.status === 'CLAIMED');
+  const claimingSchedule = schedules.find(s => s.id === claimingSwap?.scheduleId);
+  const returnOptions = claimingSchedule
+    ? shiftSwapService.getReturnOptions(claimingSchedule, user!.id, rosterData)
+        .filter(s => !activeSwaps.some(swap => swap.scheduleId === s.id || swap.returnScheduleId === s.id))
+    : [];
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -273,8 +533,8 @@ const RequestManager: React.FC = () => {
     <div className="space-y-6">
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Leave & Duty Requests</h1>
-          <p className="text-gray-600">Submit and manage leave requests and duty changes</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('requests.title')}</h1>
+          <p className="text-gray-600">{t('requests.subtitle')}</p>
         </div>
 
         <div className="flex items-center space-x-3">
@@ -282,19 +542,19 @@ const RequestManager: React.FC = () => {
             <DialogTrigger asChild>
               <Button size="sm">
                 <Home className="h-4 w-4 mr-2" />
-                Request Leave
+                {t('requests.requestLeave')}
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Request Leave</DialogTitle>
-                <DialogDescription>Submit a request to go home</DialogDescription>
+                <DialogTitle>{t('requests.requestLeave')}</DialogTitle>
+                <DialogDescription>{t('requests.requestLeaveDescription')}</DialogDescription>
               </DialogHeader>
               
               <div className="space-y-4">
                 <div className="grid grid-cols-2 gap-4">
                   <div>
-                    <label className="text-sm font-medium text-gray-700">Start Date</label>
+                    <label className="text-sm font-medium text-gray-700">{t('requests.startDate')}</label>
                     <Input
                       type="date"
                       value={leaveFormData.startDate}
@@ -302,7 +562,7 @@ const RequestManager: React.FC = () => {
                     />
                   </div>
                   <div>
-                    <label className="text-sm font-medium text-gray-700">End Date</label>
+                    <label className="text-sm font-medium text-gray-700">{t('requests.endDate')}</label>
                     <Input
                       type="date"
                       value={leaveFormData.endDate}
@@ -312,9 +572,9 @@ const RequestManager: React.FC = () => {
                 </div>
                 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Reason</label>
+                  <label className="text-sm font-medium text-gray-700">{t('requests.reason')}</label>
                   <Textarea
-                    placeholder="Please provide a reason for your leave request..."
+                    placeholder={t('requests.leaveReasonPlaceholder')}
                     value={leaveFormData.reason}
                     onChange={(e) => setLeaveFormData(prev => ({ ...prev, reason: e.target.value }))}
                   />
@@ -322,8 +582,8 @@ const RequestManager: React.FC = () => {
               </div>
 
               <DialogFooter>
-                <Button variant="outline" onClick={() => setShowLeaveDialog(false)}>Cancel</Button>
-                <Button onClick={handleSubmitLeaveRequest}>Submit Request</Button>
+                <Button variant="outline" onClick={() => setShowLeaveDialog(false)}>{t('common.cancel')}</Button>
+                <Button onClick={handleSubmitLeaveRequest}>{t('requests.submit')}</Button>
               </DialogFooter>
             </DialogContent>
           </Dialog>
@@ -332,18 +592,18 @@ const RequestManager: React.FC = () => {
             <DialogTrigger asChild>
               <Button variant="outline" size="sm">
                 <RefreshCw className="h-4 w-4 mr-2" />
-                Request Duty Change
+                {t('requests.requestDutyChange')}
               </Button>
             </DialogTrigger>
             <DialogContent>
               <DialogHeader>
-                <DialogTitle>Request Duty Change</DialogTitle>
-                <DialogDescription>Request to change your assigned duty</DialogDescription>
+                <DialogTitle>{t('requests.requestDutyChange')}</DialogTitle>
+                <DialogDescription>{t('requests.requestDutyChangeDescription')}</DialogDescription>
               </DialogHeader>
               
               <div className="space-y-4">
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Current Assignment</label>
+                  <label className="text-sm font-medium text-gray-700">{t('requests.currentAssignment')}</label>
                   <Select 
                     value={dutyChangeFormData.currentScheduleId} 
                     onValueChange={(value) => {
@@ -355,14 +615,14 @@ const RequestManager: React.FC = () => {
                     <SelectTrigger>
                       <SelectValue placeholder={
                         userSchedules.length === 0 
-                          ? "No upcoming duties available" 
-                          : "Select current assignment"
+                          ? t('requests.noUpcomingDuties') 
+                          : t('requests.selectCurrentAssignment')
                       } />
                     </SelectTrigger>
                     <SelectContent>
                       {userSchedules.length === 0 ? (
                         <SelectItem value="no-schedules" disabled>
-                          No upcoming assigned duties found
+                          {t('requests.noAssignedDuties')}
                         </SelectItem>
                       ) : (
                         userSchedules.map(schedule => {
@@ -373,13 +633,13 @@ const RequestManager: React.FC = () => {
                           const isTomorrow = startDate.toDateString() === new Date(Date.now() + 86400000).toDateString();
                           
                           let dateLabel = startDate.toLocaleDateString();
-                          if (isToday) dateLabel = "Today";
-                          else if (isTomorrow) dateLabel = "Tomorrow";
+                          if (isToday) dateLabel = t('requests.today');
+                          else if (isTomorrow) dateLabel = t('requests.tomorrow');
                           
                           return (
                             <SelectItem key={schedule.id} value={schedule.id}>
                               <div className="flex flex-col">
-                                <span className="font-medium">{dutyType?.name}</span>
+                                <span className="font-medium">{dutyTypeName(dutyType)}</span>
                                 <span className="text-sm text-gray-500">
                                   {dateLabel} • {startDate.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})} - {endDate.toLocaleTimeString([], {hour: '2-digit', minute:'2-digit'})}
                                 </span>
@@ -396,10 +656,10 @@ const RequestManager: React.FC = () => {
                 </div>
 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Requested Duty</label>
+                  <label className="text-sm font-medium text-gray-700">{t('requests.requestedDuty')}</label>
                   <Select value={dutyChangeFormData.requestedDutyTypeId} onValueChange={(value) => setDutyChangeFormData(prev => ({ ...prev, requestedDutyTypeId: value }))}>
                     <SelectTrigger>
-                      <SelectValue placeholder="Select preferred duty" />
+                      <SelectValue placeholder={t('requests.selectPreferredDuty')} />
                     </SelectTrigger>
                     <SelectContent>
                       {dutyTypes
@@ -412,9 +672,9 @@ const RequestManager: React.FC = () => {
                               style={{ backgroundColor: dt.color }}
                             />
                             <div className="flex flex-col">
-                              <span className="font-medium">{dt.name}</span>
+                              <span className="font-medium">{dutyTypeName(dt)}</span>
                               <span className="text-xs text-gray-500">{dt.description}</span>
-                              <span className="text-xs text-gray-400">Duration: {dt.duration} hours</span>
+                              <span className="text-xs text-gray-400">{t('requests.duration', { hours: dt.duration })}</span>
                             </div>
                           </div>
                         </SelectItem>
@@ -424,9 +684,9 @@ const RequestManager: React.FC = () => {
                 </div>
                 
                 <div>
-                  <label className="text-sm font-medium text-gray-700">Reason</label>
+                  <label className="text-sm font-medium text-gray-700">{t('requests.reason')}</label>
                   <Textarea
-                    placeholder="Please provide a reason for your duty change request..."
+                    placeholder={t('requests.dutyChangeReasonPlaceholder')}
                     value={dutyChangeFormData.reason}
                     onChange={(e) => setDutyChangeFormData(prev => ({ ...prev, reason: e.target.value }))}
                   />
@@ -434,18 +694,170 @@ const RequestManager: React.FC = () => {
               </div>
 
               <DialogFooter>
-                <Button variant="outline" onClick={() => setShowDutyChangeDialog(false)}>Cancel</Button>
-                <Button onClick={handleSubmitDutyChangeRequest}>Submit Request</Button>
+                <Button variant="outline" onClick={() => setShowDutyChangeDialog(false)}>{t('common.cancel')}</Button>
+                <Button onClick={handleSubmitDutyChangeRequest}>{t('requests.submit')}</Button>
+              </DialogFooter>
+            </DialogContent>
+          </Dialog>
+
+          <Dialog open={showOfferSwapDialog} onOpenChange={setShowOfferSwapDialog}>
+            <DialogTrigger asChild>
+              <Button variant="outline" size="sm">
+                <ArrowLeftRight className="h-4 w-4 mr-2" />
+                {t('requests.offerShift')}
+              </Button>
+            </DialogTrigger>
+            <DialogContent>
+              <DialogHeader>
+                <DialogTitle>{t('requests.offerShiftTitle')}</DialogTitle>
+                <DialogDescription>{t('requests.offerShiftDescription')}</DialogDescription>
+              </DialogHeader>
+
+              <div className="space-y-4">
+                <div>
+                  <label className="text-sm font-medium text-gray-700">{t('requests.dutyToOffer')}</label>
+                  <Select
+                    value={offerSwapFormData.scheduleId}
+                    onValueChange={(value) => {
+                      if (value !== 'no-schedules') {
+                        setOfferSwapFormData(prev => ({ ...prev, scheduleId: value }));
+                      }
+                    }}
+                  >
+                    <SelectTrigger>
+                      <SelectValue placeholder={
+                        offerableSchedules.length === 0
+                          ? t('requests.noUpcomingDuties')
+                          : t('requests.selectDuty')
+                      } />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {offerableSchedules.length === 0 ? (
+                        <SelectItem value="no-schedules" disabled>
+                          {t('requests.noDutiesToOffer')}
+                        </SelectItem>
+                      ) : (
+                        offerableSchedules.map(schedule => (
+                          <SelectItem key={schedule.id} value={schedule.id}>
+                            {describeSchedule(schedule.id)}
+                          </SelectItem>
+                        ))
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                <div>
+                  <label className="text-sm font-medium text-gray-700">{t('requests.reasonOptional')}</label>
+                  <Textarea
+                    placeholder={t('requests.offerReasonPlaceholder')}
+                    value={offerSwapFormData.reason}
+                    onChange={(e) => setOfferSwapFormData(prev => ({ ...prev, reason: e.target.value }))}
+                  />
+                </div>
+              </div>
+
+              <DialogFooter>
+                <Button variant="outline" onClick={() => setShowOfferSwapDialog(false)}>{t('common.cancel')}</Button>
+                <Button onClick={handleOfferSwap} disabled={!offerSwapFormData.scheduleId}>{t('requests.offerShift')}</Button>
               </DialogFooter>
             </DialogContent>
           </Dialog>
         </div>
       </div>
 
+      <Dialog
+        open={!!claimingSwap}
+        onOpenChange={(open) => {
+          if (!open) {
+            setClaimingSwap(null);
+            setReturnScheduleId('none');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{t('requests.claimShift')}</DialogTitle>
+            <DialogDescription>
+              {t('requests.claimFrom', {
+                duty: describeSchedule(claimingSwap?.scheduleId),
+                name: getUserName(claimingSwap?.offeredBy),
+              })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">{t('requests.giveInReturn')}</label>
+            <Select value={returnScheduleId} onValueChange={setReturnScheduleId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="none">{t('requests.nothingInReturn')}</SelectItem>
+                {returnOptions.map(schedule => (
+                  <SelectItem key={schedule.id} value={schedule.id}>
+                    {describeSchedule(schedule.id)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <p className="text-xs text-gray-500 mt-1">
+              {t('requests.returnHint', { name: getUserName(claimingSwap?.offeredBy) })}
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setClaimingSwap(null)}>{t('common.cancel')}</Button>
+            <Button onClick={handleClaimSwap}>{t('requests.claimShift')}</Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <Dialog
+        open={!!reviewTarget}
+        onOpenChange={(open) => {
+          if (!open) {
+            setReviewTarget(null);
+            setReviewNotes('');
+          }
+        }}
+      >
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>
+              {reviewTarget?.kind === 'leave'
+                ? t(reviewTarget?.status === 'APPROVED' ? 'requests.review.approveLeave' : 'requests.review.rejectLeave')
+                : t(reviewTarget?.status === 'APPROVED' ? 'requests.review.approveDutyChange' : 'requests.review.rejectDutyChange')}
+            </DialogTitle>
+            <DialogDescription>{t('requests.reviewDescription')}</DialogDescription>
+          </DialogHeader>
+
+          <div>
+            <label className="text-sm font-medium text-gray-700">{t('requests.reviewNotesOptional')}</label>
+            <Textarea
+              placeholder={t('requests.reviewNotesPlaceholder')}
+              value={reviewNotes}
+              onChange={(e) => setReviewNotes(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setReviewTarget(null)}>{t('common.cancel')}</Button>
+            <Button
+              onClick={handleSubmitReview}
+              variant={reviewTarget?.status === 'REJECTED' ? 'destructive' : 'default'}
+            >
+              {reviewTarget?.status === 'APPROVED' ? t('requests.approve') : t('requests.reject')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       <Tabs value={activeTab} onValueChange={setActiveTab}>
         <TabsList>
-          <TabsTrigger value="my-requests">My Requests</TabsTrigger>
-          {canApproveRequests && <TabsTrigger value="pending-approval">Pending Approval</TabsTrigger>}
+          <TabsTrigger value="my-requests">{t('requests.tabMine')}</TabsTrigger>
+          <TabsTrigger value="shift-swaps">{t('requests.tabSwaps')}</TabsTrigger>
+          {canApproveRequests && <TabsTrigger value="pending-approval">{t('requests.tabPending')}</TabsTrigger>}
         </TabsList>
 
         <TabsContent value="my-requests" className="space-y-6">
@@ -455,14 +867,14 @@ const RequestManager: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <Home className="h-5 w-5" />
-                  <span>My Leave Requests</span>
+                  <span>{t('requests.myLeave')}</span>
                 </CardTitle>
-                <CardDescription>Your submitted leave requests</CardDescription>
+                <CardDescription>{t('requests.myLeaveDescription')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
                   {myLeaveRequests.length === 0 ? (
-                    <p className="text-gray-500 text-center py-4">No leave requests</p>
+                    <p className="text-gray-500 text-center py-4">{t('requests.noLeave')}</p>
                   ) : (
                     myLeaveRequests.map(request => {
                       const requestUser = users.find(u => u.id === request.userId);
@@ -476,11 +888,11 @@ const RequestManager: React.FC = () => {
                           </div>
                           <p className="text-sm text-gray-600">{request.reason}</p>
                           <p className="text-xs text-gray-500">
-                            Requested: {new Date(request.requestedAt).toLocaleString()}
+                            {t('requests.requestedAt', { time: new Date(request.requestedAt).toLocaleString() })}
                           </p>
                           {request.reviewNotes && (
                             <div className="bg-gray-50 p-2 rounded text-sm">
-                              <strong>Review Notes:</strong> {request.reviewNotes}
+                              <strong>{t('requests.reviewNotes')}</strong> {request.reviewNotes}
                             </div>
                           )}
                         </div>
@@ -496,14 +908,14 @@ const RequestManager: React.FC = () => {
               <CardHeader>
                 <CardTitle className="flex items-center space-x-2">
                   <RefreshCw className="h-5 w-5" />
-                  <span>My Duty Change Requests</span>
+                  <span>{t('requests.myDutyChanges')}</span>
                 </CardTitle>
-                <CardDescription>Your submitted duty change requests</CardDescription>
+                <CardDescription>{t('requests.myDutyChangesDescription')}</CardDescription>
               </CardHeader>
               <CardContent>
                 <div className="space-y-3">
                   {myDutyChangeRequests.length === 0 ? (
-                    <p className="text-gray-500 text-center py-4">No duty change requests</p>
+                    <p className="text-gray-500 text-center py-4">{t('requests.noDutyChanges')}</p>
                   ) : (
                     myDutyChangeRequests.map(request => {
                       const currentSchedule = schedules.find(s => s.id === request.currentScheduleId);
@@ -514,14 +926,19 @@ const RequestManager: React.FC = () => {
                         <div key={request.id} className="border rounded-lg p-3 space-y-2">
                           <div className="flex items-center justify-between">
                             <span className="font-medium">
-                              {currentDutyType?.name} → {requestedDutyType?.name}
+                              {dutyTypeName(currentDutyType)} → {dutyTypeName(requestedDutyType)}
                             </span>
                             {getStatusBadge(request.status)}
                           </div>
                           <p className="text-sm text-gray-600">{request.reason}</p>
                           <p className="text-xs text-gray-500">
-                            Requested: {new Date(request.requestedAt).toLocaleString()}
+                            {t('requests.requestedAt', { time: new Date(request.requestedAt).toLocaleString() })}
                           </p>
+                          {request.reviewNotes && (
+                            <div className="bg-gray-50 p-2 rounded text-sm">
+                              <strong>{t('requests.reviewNotes')}</strong> {request.reviewNotes}
+                            </div>
+                          )}
                         </div>
                       );
                     })
@@ -532,6 +949,86 @@ const RequestManager: React.FC = () => {
           </div>
         </TabsContent>
 
+        <TabsContent value="shift-swaps" className="space-y-6">
+          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+            {/* Swap Marketplace */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <ArrowLeftRight className="h-5 w-5" />
+                  <span>{t('requests.availableShifts')}</span>
+                  <Badge variant="secondary">{claimableSwaps.length}</Badge>
+                </CardTitle>
+                <CardDescription>{t('requests.availableShiftsDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {claimableSwaps.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t('requests.noAvailableShifts')}</p>
+                  ) : (
+                    claimableSwaps.map(swap => (
+                      <div key={swap.id} className="border rounded-lg p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{describeSchedule(swap.scheduleId)}</span>
+                          {getStatusBadge(swap.status)}
+                        </div>
+                        <p className="text-sm text-gray-600">{t('requests.offeredBy', { name: getUserName(swap.offeredBy) })}</p>
+                        {swap.reason && <p className="text-sm text-gray-600">{swap.reason}</p>}
+                        <Button size="sm" onClick={() => setClaimingSwap(swap)}>
+                          {t('requests.claim')}
+                        </Button>
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+
+            {/* My Swaps */}
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center space-x-2">
+                  <RefreshCw className="h-5 w-5" />
+                  <span>{t('requests.mySwaps')}</span>
+                </CardTitle>
+                <CardDescription>{t('requests.mySwapsDescription')}</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-3">
+                  {mySwaps.length === 0 ? (
+                    <p className="text-gray-500 text-center py-4">{t('requests.noSwaps')}</p>
+                  ) : (
+                    mySwaps.map(swap => (
+                      <div key={swap.id} className="border rounded-lg p-3 space-y-2">
+                        <div className="flex items-center justify-between">
+                          <span className="font-medium">{describeSchedule(swap.scheduleId)}</span>
+                          {getStatusBadge(swap.status)}
+                        </div>
+                        <p className="text-sm text-gray-600">
+                          {swap.offeredBy === user!.id
+                            ? swap.claimedBy ? t('requests.claimedBy', { name: getUserName(swap.claimedBy) }) : t('requests.waitingForClaim')
+                            : t('requests.offeredBy', { name: getUserName(swap.offeredBy) })}
+                        </p>
+                        {swap.returnScheduleId && (
+                          <p className="text-sm text-gray-600">{t('requests.inExchangeFor', { duty: describeSchedule(swap.returnScheduleId) })}</p>
+                        )}
+                        <p className="text-xs text-gray-500">
+                          {t('requests.offeredAt', { time: new Date(swap.offeredAt).toLocaleString() })}
+                        </p>
+                        {swap.offeredBy === user!.id && (swap.status === 'OPEN' || swap.status === 'CLAIMED') && (
+                          <Button size="sm" variant="outline" onClick={() => handleCancelSwap(swap.id)}>
+                            {t('requests.withdrawOffer')}
+                          </Button>
+                        )}
+                      </div>
+                    ))
+                  )}
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        </TabsContent>
+
         {canApproveRequests && (
           <TabsContent value="pending-approval" className="space-y-6">
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
@@ -540,15 +1037,15 @@ const RequestManager: React.FC = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <Home className="h-5 w-5" />
-                    <span>Pending Leave Requests</span>
+                    <span>{t('requests.pendingLeave')}</span>
                     <Badge variant="secondary">{allPendingLeaveRequests.length}</Badge>
                   </CardTitle>
-                  <CardDescription>Leave requests awaiting approval</CardDescription>
+                  <CardDescription>{t('requests.pendingLeaveDescription')}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     {allPendingLeaveRequests.length === 0 ? (
-                      <p className="text-gray-500 text-center py-4">No pending requests</p>
+                      <p className="text-gray-500 text-center py-4">{t('requests.noPending')}</p>
                     ) : (
                       allPendingLeaveRequests.map(request => {
                         const requestUser = users.find(u => u.id === request.userId);
@@ -569,19 +1066,19 @@ const RequestManager: React.FC = () => {
                             <div className="flex space-x-2">
                               <Button 
                                 size="sm" 
-                                onClick={() => handleApproveLeaveRequest(request.id)}
+                                onClick={() => setReviewTarget({ kind: 'leave', requestId: request.id, status: 'APPROVED' })}
                                 className="bg-green-600 hover:bg-green-700"
                               >
                                 <CheckCircle className="h-4 w-4 mr-1" />
-                                Approve
+                                {t('requests.approve')}
                               </Button>
                               <Button 
                                 size="sm" 
                                 variant="destructive"
-                                onClick={() => handleRejectLeaveRequest(request.id)}
+                                onClick={() => setReviewTarget({ kind: 'leave', requestId: request.id, status: 'REJECTED' })}
                               >
                                 <XCircle className="h-4 w-4 mr-1" />
-                                Reject
+                                {t('requests.reject')}
                               </Button>
                             </div>
                           </div>
@@ -597,15 +1094,15 @@ const RequestManager: React.FC = () => {
                 <CardHeader>
                   <CardTitle className="flex items-center space-x-2">
                     <RefreshCw className="h-5 w-5" />
-                    <span>Pending Duty Changes</span>
+                    <span>{t('requests.pendingDutyChanges')}</span>
                     <Badge variant="secondary">{allPendingDutyChangeRequests.length}</Badge>
                   </CardTitle>
-                  <CardDescription>Duty change requests awaiting approval</CardDescription>
+                  <CardDescription>{t('requests.pendingDutyChangesDescription')}</CardDescription>
                 </CardHeader>
                 <CardContent>
                   <div className="space-y-3">
                     {allPendingDutyChangeRequests.length === 0 ? (
-                      <p className="text-gray-500 text-center py-4">No pending requests</p>
+                      <p className="text-gray-500 text-center py-4">{t('requests.noPending')}</p>
                     ) : (
                       allPendingDutyChangeRequests.map(request => {
                         const requestUser = users.find(u => u.id === request.userId);
@@ -621,7 +1118,7 @@ const RequestManager: React.FC = () => {
                                   {requestUser?.rank} {requestUser?.firstName} {requestUser?.lastName}
                                 </span>
                                 <p className="text-sm text-gray-600">
-                                  {currentDutyType?.name} → {requestedDutyType?.name}
+                                  {dutyTypeName(currentDutyType)} → {dutyTypeName(requestedDutyType)}
                                 </p>
                               </div>
                               {getStatusBadge(request.status)}
@@ -630,19 +1127,19 @@ const RequestManager: React.FC = () => {
                             <div className="flex space-x-2">
                               <Button 
                                 size="sm" 
-                                onClick={() => handleApproveDutyChangeRequest(request.id)}
+                                onClick={() => setReviewTarget({ kind: 'dutyChange', requestId: request.id, status: 'APPROVED' })}
                                 className="bg-green-600 hover:bg-green-700"
                               >
                                 <CheckCircle className="h-4 w-4 mr-1" />
-                                Approve
+                                {t('requests.approve')}
                               </Button>
                               <Button 
                                 size="sm" 
                                 variant="destructive"
-                                onClick={() => handleRejectDutyChangeRequest(request.id)}
+                                onClick={() => setReviewTarget({ kind: 'dutyChange', requestId: request.id, status: 'REJECTED' })}
                               >
                                 <XCircle className="h-4 w-4 mr-1" />
-                                Reject
+                                {t('requests.reject')}
                               </Button>
                             </div>
                           </div>
@@ -652,6 +1149,63 @@ const RequestManager: React.FC = () => {
                   </div>
                 </CardContent>
               </Card>
+
+              {/* Pending Shift Swaps */}
+              <Card>
+                <CardHeader>
+                  <CardTitle className="flex items-center space-x-2">
+                    <ArrowLeftRight className="h-5 w-5" />
+                    <span>{t('requests.pendingSwaps')}</span>
+                    <Badge variant="secondary">{allPendingSwaps.length}</Badge>
+                  </CardTitle>
+                  <CardDescription>{t('requests.pendingSwapsDescription')}</CardDescription>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3">
+                    {allPendingSwaps.length === 0 ? (
+                      <p className="text-gray-500 text-center py-4">{t('requests.noPendingSwaps')}</p>
+                    ) : (
+                      allPendingSwaps.map(swap => (
+                        <div key={swap.id} className="border rounded-lg p-3 space-y-3">
+                          <div className="flex items-center justify-between">
+                            <div>
+                              <span className="font-medium">
+                                {getUserName(swap.offeredBy)} → {getUserName(swap.claimedBy)}
+                              </span>
+                              <p className="text-sm text-gray-600">{describeSchedule(swap.scheduleId)}</p>
+                              {swap.returnScheduleId && (
+                                <p className="text-sm text-gray-600">
+                                  {t('requests.inExchangeFor', { duty: describeSchedule(swap.returnScheduleId) })}
+                                </p>
+                              )}
+                            </div>
+                            {getStatusBadge(swap.status)}
+                          </div>
+                          {swap.reason && <p className="text-sm text-gray-600">{swap.reason}</p>}
+                          <div className="flex space-x-2">
+                            <Button 
+                              size="sm" 
+                              onClick={() => handleApproveSwap(swap)}
+                              className="bg-green-600 hover:bg-green-700"
+                            >
+                              <CheckCircle className="h-4 w-4 mr-1" />
+                              {t('requests.approve')}
+                            </Button>
+                            <Button 
+                              size="sm" 
+                              variant="destructive"
+                              onClick={() => handleRejectSwap(swap)}
+                            >
+                              <XCircle className="h-4 w-4 mr-1" />
+                              {t('requests.reject')}
+                            </Button>
+                          </div>
+                        </div>
+                      ))
+                    )}
+                  </div>
+                </CardContent>
+              </Card>
             </div>
           </TabsContent>
         )}
@@ -0,0 +1,265 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import moment from 'moment';
+import { Button } from '@/components/ui/button';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { autoScheduler } from '@/lib/scheduler';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
+import { Availability, DutyType, Schedule, User } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const RANGE_OPTIONS = [1, 3, 7];
+
+const AVAILABILITY_COLORS: Record<Availability['status'], string> = {
+  AVAILABLE: 'bg-green-100',
+  LIMITED: 'bg-yellow-200',
+  UNAVAILABLE: 'bg-red-200',
+};
+
+interface TimelineBlock {
+  key: string;
+  start: number;
+  end: number;
+}
+
+interface ResourceTimelineProps {
+  users: User[];
+  schedules: Schedule[];
+  dutyTypes: DutyType[];
+  availability: Availability[];
+  onSelectSchedule: (schedule: Schedule) => void;
+  // Lets the parent load schedules for the days now on screen
+  onRangeChange?: (start: Date, end: Date) => void;
+}
+
+export function ResourceTimeline({ users, schedules, dutyTypes, availability, onSelectSchedule, onRangeChange }: ResourceTimelineProps) {
+  const { t, dutyTypeName } = useLanguage();
+  const [rangeStart, setRangeStart] = useState(() => moment().startOf('day').toDate());
+  const [rangeDays, setRangeDays] = useState(3);
+
+  const rangeStartMs = rangeStart.getTime();
+  const rangeEndMs = moment(rangeStart).add(rangeDays, 'days').valueOf();
+  const rangeMs = rangeEndMs - rangeStartMs;
+
+  useEffect(() => {
+    onRangeChange?.(new Date(rangeStartMs), new Date(rangeEndMs));
+  }, [rangeStartMs, rangeEndMs, onRangeChange]);
+
+  // Clip a block to the visible range and express it as CSS percentages
+  const toPosition = (start: number, end: number) => {
+    const left = Math.max(start, rangeStartMs);
+    const right = Math.min(end, rangeEndMs);
+    return {
+      left: `${((left - rangeStartMs) / rangeMs) * 100}%`,
+      width: `${((right - left) / rangeMs) * 100}%`,
+    };
+  };
+
+  const isVisible = (block: TimelineBlock) => block.start < rangeEndMs && rangeStartMs < block.end;
+
+  const groups = useMemo(() => {
+    const rosterable = users.filter(u => autoScheduler.isRosterable(u));
+    const units = Array.from(new Set(rosterable.map(u => u.unit))).sort();
+    return units.map(unit => ({
+      unit,
+      members: rosterable
+        .filter(u => u.unit === unit)
+        .sort((a, b) => a.lastName.localeCompare(b.lastName)),
+    }));
+  }, [users]);
+
+  const rows = useMemo(() => {
+    const now = Date.now();
+
+    return new Map(groups.flatMap(group => group.members).map(member => {
+      const duties = schedules
+        .filter(s => s.userId === member.id && s.status !== 'CANCELLED')
+        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+      // Required rest after each duty, cut short where the next duty starts
+      const restGaps = duties.map((duty, index) => {
+        const dutyType = dutyTypes.find(dt => dt.id === duty.dutyTypeId);
+        const start = new Date(duty.endTime).getTime();
+        const next = duties[index + 1];
+        const end = Math.min(
+          start + (dutyType?.minRestAfter || 0) * HOUR_MS,
+          next ? new Date(next.startTime).getTime() : Infinity
+        );
+        return { key: `${duty.id}-rest`, start, end };
+      }).filter(gap => gap.end > gap.start);
+
+      const windows = availability
+        .filter(a => a.userId === member.id && a.status !== 'AVAILABLE')
+        .map(a => ({
+          key: a.id,
+          start: new Date(a.startTime).getTime(),
+          end: new Date(a.endTime).getTime(),
+          status: a.status,
+          notes: a.notes,
+        }));
+
+      const isBusyNow = [
+        ...duties.map(d => ({ start: new Date(d.startTime).getTime(), end: new Date(d.endTime).getTime() })),
+        ...restGaps,
+        ...windows,
+      ].some(block => block.start <= now && now < block.end);
+
+      return [member.id, { duties, restGaps, windows, isBusyNow }] as const;
+    }));
+  }, [groups, schedules, dutyTypes, availability]);
+
+  const ticks = useMemo(() => {
+    const stepHours = rangeDays === 1 ? 2 : rangeDays === 3 ? 6 : 12;
+    return Array.from({ length: (rangeDays * 24) / stepHours }, (_, i) =>
+      moment(rangeStart).add(i * stepHours, 'hours')
+    );
+  }, [rangeStart, rangeDays]);
+
+  const nowOffset = Date.now() >= rangeStartMs && Date.now() < rangeEndMs
+    ? `${((Date.now() - rangeStartMs) / rangeMs) * 100}%`
+    : null;
+
+  const shiftRange = (direction: number) => {
+    setRangeStart(prev => moment(prev).add(direction * rangeDays, 'days').toDate());
+  };
+
+  return (
+    <div className="p-4 space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-3">
+        <div className="flex items-center space-x-2">
+          <Button variant="outline" size="sm" onClick={() => shiftRange(-1)}>
+            <ChevronLeft className="h-4 w-4" />
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => setRangeStart(moment().startOf('day').toDate())}>
+            {t('calendar.timeline.today')}
+          </Button>
+          <Button variant="outline" size="sm" onClick={() => shiftRange(1)}>
+            <ChevronRight className="h-4 w-4" />
+          </Button>
+          <span className="text-sm font-medium">
+            {moment(rangeStart).format('MMM D')}
+            {rangeDays > 1 && ` - ${moment(rangeEndMs).subtract(1, 'day').format('MMM D')}`}
+            , {moment(rangeStart).format('YYYY')}
+          </span>
+        </div>
+        <Select value={String(rangeDays)} onValueChange={(value) => setRangeDays(Number(value))}>
+          <SelectTrigger className="h-8 w-32">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {RANGE_OPTIONS.map(days => (
+              <SelectItem key={days} value={String(days)}>{t(`calendar.timeline.ranges.${days}` as TranslationKey)}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="overflow-x-auto">
+        <div className="min-w-[800px]">
+          {/* Time axis */}
+          <div className="flex border-b">
+            <div className="w-48 flex-shrink-0" />
+            <div className="relative flex-1 h-6">
+              {ticks.map(tick => (
+                <span
+                  key={tick.valueOf()}
+                  className="absolute text-[10px] text-gray-500 -translate-x-1/2"
+                  style={{ left: toPosition(tick.valueOf(), tick.valueOf()).left }}
+                >
+                  {tick.hours() === 0 ? tick.format('ddd D/M') : tick.format('HH:mm')}
+                </span>
+              ))}
+            </div>
+          </div>
+
+          {groups.map(group => (
+            <div key={group.unit}>
+              <div className="bg-gray-50 px-2 py-1 text-xs font-semibold text-gray-700 border-b">
+                {group.unit} ({group.members.length})
+              </div>
+              {group.members.map(member => {
+                const row = rows.get(member.id)!;
+                return (
+                  <div key={member.id} className="flex border-b hover:bg-gray-50">
+                    <div className="w-48 flex-shrink-0 flex items-center space-x-2 px-2 py-1 text-sm">
+                      <span
+                        className={`h-2 w-2 rounded-full flex-shrink-0 ${row.isBusyNow ? 'bg-gray-300' : 'bg-green-500'}`}
+                        title={row.isBusyNow ? t('calendar.timeline.busyNow') : t('calendar.timeline.freeNow')}
+                      />
+                      <span className="truncate">{member.rank} {member.firstName} {member.lastName}</span>
+                    </div>
+                    <div className="relative flex-1 h-9">
+                      {ticks.map(tick => (
+                        <div
+                          key={tick.valueOf()}
+                          className={`absolute top-0 bottom-0 border-l ${tick.hours() === 0 ? 'border-gray-300' : 'border-gray-100'}`}
+                          style={{ left: toPosition(tick.valueOf(), tick.valueOf()).left }}
+                        />
+                      ))}
+
+                      {row.windows.filter(isVisible).map(window => (
+                        <div
+                          key={window.key}
+                          className={`absolute top-0 bottom-0 ${AVAILABILITY_COLORS[window.status]}`}
+                          style={toPosition(window.start, window.end)}
+                          title={`${window.status}${window.notes ? `: ${window.notes}` : ''}`}
+                        />
+                      ))}
+
+                      {row.restGaps.filter(isVisible).map(gap => (
+                        <div
+                          key={gap.key}
+                          className="absolute top-2 bottom-2 bg-[repeating-linear-gradient(45deg,#e5e7eb,#e5e7eb_3px,transparent_3px,transparent_6px)]"
+                          style={toPosition(gap.start, gap.end)}
+                          title={t('calendar.timeline.restUntil', { time: moment(gap.end).format('MMM D HH:mm') })}
+                        />
+                      ))}
+
+                      {row.duties
+                        .map(duty => ({ duty, start: new Date(duty.startTime).getTime(), end: new Date(duty.endTime).getTime() }))
+                        .filter(block => isVisible({ key: block.duty.id, ...block }))
+                        .map(({ duty, start, end }) => {
+                          const dutyType = dutyTypes.find(dt => dt.id === duty.dutyTypeId);
+                          return (
+                            <button
+                              key={duty.id}
+                              type="button"
+                              className={`absolute top-1 bottom-1 rounded text-[10px] text-white px-1 truncate text-left ${
+                                duty.needsReassignment ? 'ring-2 ring-red-600' : ''
+                              }`}
+                              style={{ ...toPosition(start, end), backgroundColor: dutyType?.color || '#3174ad' }}
+                              title={`${dutyTypeName(dutyType) || t('calendar.timeline.duty')}: ${moment(start).format('MMM D HH:mm')} - ${moment(end).format('HH:mm')}`}
+                              onClick={() => onSelectSchedule(duty)}
+                            >
+                              {dutyTypeName(dutyType)}
+                            </button>
+                          );
+                        })}
+
+                      {nowOffset && (
+                        <div className="absolute top-0 bottom-0 w-px bg-blue-600" style={{ left: nowOffset }} />
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          ))}
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-xs text-gray-600">
+        <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-blue-500 mr-1" />{t('calendar.timeline.duty')}</span>
+        <span className="flex items-center">
+          <span className="h-3 w-3 rounded-sm mr-1 bg-[repeating-linear-gradient(45deg,#d1d5db,#d1d5db_2px,transparent_2px,transparent_4px)]" />
+          {t('calendar.timeline.requiredRest')}
+        </span>
+        <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-yellow-200 mr-1" />{t('calendar.timeline.limited')}</span>
+        <span className="flex items-center"><span className="h-3 w-3 rounded-sm bg-red-200 mr-1" />{t('calendar.timeline.unavailable')}</span>
+        <span className="flex items-center"><span className="h-2 w-2 rounded-full bg-green-500 mr-1" />{t('calendar.timeline.freeNow')}</span>
+      </div>
+    </div>
+  );
+}
@@ -1,5 +1,6 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo, useCallback, useRef } from 'react';
 import { Calendar, momentLocalizer, View } from 'react-big-calendar';
+import withDragAndDrop from 'react-big-calendar/lib/addons/dragAndDrop';
 import moment from 'moment';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
@@ -22,6 +23,7 @@ import {
   DropdownMenuTrigger,
 } from '@/components/ui/dropdown-menu';
 import { Textarea } from '@/components/ui/textarea';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
 import { Checkbox } from '@/components/ui/checkbox';
 import {
   Calendar as CalendarIcon,
@@ -37,27 +39,112 @@ import {
   Trash2,
   FileSpreadsheet,
   Upload,
+  Wand2,
+  Repeat,
+  GanttChart,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
-import { Schedule, User, DutyType, CalendarEvent } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+import { dataProvider } from '@/lib/data-provider';
+import { Schedule, User, DutyType, CalendarEvent, DutyTemplate, Conflict, Availability } from '@/types';
 import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { constraintEngine, ConstraintViolation, ProposedSchedule } from '@/lib/constraints';
 import { ImportExportDialog } from './ImportExportDialog';
+import { AutoScheduleDialog } from './AutoScheduleDialog';
+import { RecurringDutyDialog } from './RecurringDutyDialog';
+import { ResourceTimeline } from './ResourceTimeline';
+import { describeRecurrence, getOccurrenceTimes } from '@/lib/recurrence';
+import { fairnessService } from '@/lib/fairness';
+import { getHolidays, isRestDay, isShabbat } from '@/lib/holidays';
+import { getScheduleVersion, StaleScheduleError } from '@/lib/schedule-versions';
+import { hasTranslation, TranslationKey } from '@/lib/i18n';
+import { findScheduleConflicts } from '@/lib/conflict-detection';
+import { useToast } from '@/hooks/use-toast';
 import 'react-big-calendar/lib/css/react-big-calendar.css';
+import 'react-big-calendar/lib/addons/dragAndDrop/styles.css';
 
 const localizer = momentLocalizer(moment);
+const DragAndDropCalendar = withDragAndDrop(Calendar);
+
+// Conflict types a drag can introduce by changing when a duty runs
+const MOVE_CONFLICT_TYPES: Conflict['type'][] = ['OVERLAP', 'REST_VIOLATION', 'AVAILABILITY', 'CONSECUTIVE_HOURS'];
+
+interface PendingMove {
+  schedule: Schedule;
+  startTime: string;
+  endTime: string;
+  conflicts: Conflict[];
+}
+
+// Fields an edit can change; version and other bookkeeping always follow the stored copy
+const MERGE_FIELDS: (keyof Schedule)[] = [
+  'userId', 'dutyTypeId', 'startTime', 'endTime', 'status', 'notes',
+  'isOverride', 'needsReassignment', 'reassignmentReason', 'isSeriesException',
+];
+
+const MERGE_FIELD_LABELS: Partial<Record<keyof Schedule, TranslationKey>> = {
+  userId: 'calendar.merge.fields.userId',
+  dutyTypeId: 'calendar.merge.fields.dutyTypeId',
+  startTime: 'calendar.merge.fields.startTime',
+  endTime: 'calendar.merge.fields.endTime',
+  status: 'calendar.merge.fields.status',
+  notes: 'calendar.merge.fields.notes',
+  isOverride: 'calendar.merge.fields.isOverride',
+  needsReassignment: 'calendar.merge.fields.needsReassignment',
+  reassignmentReason: 'calendar.merge.fields.reassignmentReason',
+  isSeriesException: 'calendar.merge.fields.isSeriesException',
+};
+
+// An edit rejected because someone saved the duty after it was opened
+interface StaleEdit {
+  original: Schedule;
+  current: Schedule;
+  mine: Partial<Schedule>;
+  choices: Partial<Record<keyof Schedule, 'mine' | 'theirs'>>;
+}
+
+// The range a calendar view shows, shifted by whole pages for prefetching
+const getCalendarWindow = (anchor: Date, calendarView: View, offset: number): { start: Date; end: Date } => {
+  if (calendarView === 'agenda') {
+    // The agenda lists 30 days from the selected date
+    const start = moment(anchor).startOf('day').add(offset * 30, 'days');
+    return { start: start.toDate(), end: start.clone().add(30, 'days').toDate() };
+  }
+
+  const unit = calendarView === 'month' ? 'month' : calendarView === 'day' ? 'day' : 'week';
+  const page = moment(anchor).add(offset, unit);
+  // The month grid is padded out to whole weeks with days from the months either side
+  const start = calendarView === 'month' ? page.clone().startOf('month').startOf('week') : page.clone().startOf(unit);
+  const end = calendarView === 'month' ? page.clone().endOf('month').endOf('week') : page.clone().endOf(unit);
+  return { start: start.toDate(), end: end.add(1, 'ms').toDate() };
+};
+
+// Fetched schedules replace any copies already held, so windows can overlap freely
+const mergeSchedules = (held: Schedule[], fetched: Schedule[]): Schedule[] => {
+  const fetchedIds = new Set(fetched.map(s => s.id));
+  return [...held.filter(s => !fetchedIds.has(s.id)), ...fetched];
+};
+
+// Empty text, false and unset all read as "no value" when comparing versions
+const isSameValue = (a: unknown, b: unknown) =>
+  JSON.stringify(a || null) === JSON.stringify(b || null);
 
 const ScheduleCalendar: React.FC = () => {
   const { user } = useAuth();
+  const { t, language, isRTL, dutyTypeName } = useLanguage();
+  const { toast } = useToast();
   const [schedules, setSchedules] = useState<Schedule[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [dutyTypes, setDutyTypes] = useState<DutyType[]>([]);
+  const [dutyTemplates, setDutyTemplates] = useState<DutyTemplate[]>([]);
+  const [availability, setAvailability] = useState<Availability[]>([]);
   const [calendarEvents, setCalendarEvents] = useState<CalendarEvent[]>([]);
   const [selectedEvent, setSelectedEvent] = useState<CalendarEvent | null>(null);
   const [showCreateDialog, setShowCreateDialog] = useState(false);
   const [editingScheduleId, setEditingScheduleId] = useState<string | null>(null);
   const [loading, setLoading] = useState(true);
   const [view, setView] = useState<View>('week');
+  const [displayMode, setDisplayMode] = useState<'calendar' | 'timeline'>('calendar');
   const [date, setDate] = useState(new Date());
   
   // Filter states
@@ -68,6 +155,27 @@ const ScheduleCalendar: React.FC = () => {
   // Import/Export dialog state
   const [showImportExportDialog, setShowImportExportDialog] = useState(false);
 
+  // Auto-schedule dialog state
+  const [showAutoScheduleDialog, setShowAutoScheduleDialog] = useState(false);
+
+  // Recurring duty state
+  const [showRecurringDialog, setShowRecurringDialog] = useState(false);
+  const [editScope, setEditScope] = useState<'occurrence' | 'series'>('occurrence');
+  const [seriesDeleteTarget, setSeriesDeleteTarget] = useState<Schedule | null>(null);
+
+  // Drag-and-drop state
+  const [pendingMove, setPendingMove] = useState<PendingMove | null>(null);
+
+  // Concurrent edit merge state
+  const [staleEdit, setStaleEdit] = useState<StaleEdit | null>(null);
+
+  // Ranges already fetched, so paging back to one doesn't query it again
+  const loadedWindows = useRef(new Set<string>());
+
+  // Constraint check state
+  const [constraintViolations, setConstraintViolations] = useState<ConstraintViolation[]>([]);
+  const [constraintOverrideReason, setConstraintOverrideReason] = useState('');
+
   // Create form states
   const [formData, setFormData] = useState({
     userId: '',
@@ -79,25 +187,66 @@ const ScheduleCalendar: React.FC = () => {
     isAllDay: false
   });
 
+  // Lowest weighted burden first, so the fairest pick is at the top of the personnel list
+  const burdenByUser = useMemo(
+    () => fairnessService.getBurdenByUser(schedules, dutyTypes, fairnessService.getRollingWindow()),
+    [schedules, dutyTypes]
+  );
+
   useEffect(() => {
     loadData();
   }, []);
 
+  const loadScheduleWindow = useCallback(async (start: Date, end: Date) => {
+    const key = `${start.toISOString()}/${end.toISOString()}`;
+    if (loadedWindows.current.has(key)) return;
+
+    loadedWindows.current.add(key);
+    try {
+      const fetched = await dataProvider.querySchedules({ from: start.toISOString(), to: end.toISOString() });
+      setSchedules(prev => mergeSchedules(prev, fetched));
+    } catch (error) {
+      loadedWindows.current.delete(key);
+      console.error('Error loading schedules:', error);
+    }
+  }, []);
+
+  // The visible range first, then the pages either side so navigating shows duties straight away
+  const loadWindowsAround = useCallback(async (anchor: Date, calendarView: View) => {
+    const visible = getCalendarWindow(anchor, calendarView, 0);
+    await loadScheduleWindow(visible.start, visible.end);
+    await Promise.all([-1, 1].map(offset => {
+      const adjacent = getCalendarWindow(anchor, calendarView, offset);
+      return loadScheduleWindow(adjacent.start, adjacent.end);
+    }));
+  }, [loadScheduleWindow]);
+
+  useEffect(() => {
+    loadWindowsAround(date, view);
+  }, [date, view, loadWindowsAround]);
+
   useEffect(() => {
     updateCalendarEvents();
-  }, [schedules, users, dutyTypes, filterUser, filterDutyType, filterStatus]);
+  }, [schedules, users, dutyTypes, filterUser, filterDutyType, filterStatus, language]);
 
   const loadData = async () => {
+    // Schedules load by window; this one covers the fairness figures in the personnel picker
+    const fairnessWindow = fairnessService.getRollingWindow();
+
     try {
-      const [schedulesData, usersData, dutyTypesData] = await Promise.all([
-        apiService.fetchSchedules(),
-        apiService.fetchUsers(),
-        apiService.fetchDutyTypes(),
+      const [schedulesData, usersData, dutyTypesData, templatesData, availabilityData] = await Promise.all([
+        dataProvider.querySchedules({ from: fairnessWindow.from.toISOString(), to: fairnessWindow.to.toISOString() }),
+        dataProvider.fetchUsers(),
+        dataProvider.fetchDutyTypes(),
+        dataProvider.fetchDutyTemplates(),
+        dataProvider.fetchAvailability(),
       ]);
 
-      setSchedules(schedulesData);
+      setSchedules(prev => mergeSchedules(prev, schedulesData));
       setUsers(usersData);
       setDutyTypes(dutyTypesData);
+      setDutyTemplates(templatesData);
+      setAvailability(availabilityData);
     } catch (error) {
       console.error('Error loading calendar data:', error);
     } finally {
@@ -126,7 +275,7 @@ const ScheduleCalendar: React.FC = () => {
 
       return {
         id: schedule.id,
-        title: `${dutyType?.name || 'Unknown Duty'} - ${scheduleUser?.firstName} ${scheduleUser?.lastName}`,
+        title: `${dutyTypeName(dutyType) || t('common.unknownDuty')} - ${scheduleUser?.firstName} ${scheduleUser?.lastName}`,
         start: new Date(schedule.startTime),
         end: new Date(schedule.endTime),
         resource: {
@@ -144,26 +293,78 @@ const ScheduleCalendar: React.FC = () => {
     setSelectedEvent(event);
   };
 
-  const handleCreateOrUpdateSchedule = async () => {
+  // Pass a reason to save despite the violations shown in the constraint dialog
+  const handleCreateOrUpdateSchedule = async (overrideReason?: string) => {
     if (!formData.userId || !formData.dutyTypeId || !formData.startTime || !formData.endTime) {
       return;
     }
 
+    const existingSchedule = schedules.find(s => s.id === editingScheduleId);
+    const proposed: ProposedSchedule = {
+      status: 'ASSIGNED',
+      assignedBy: user!.id,
+      assignedAt: new Date().toISOString(),
+      isOverride: false,
+      ...existingSchedule,
+      userId: formData.userId,
+      dutyTypeId: formData.dutyTypeId,
+      startTime: formData.startTime,
+      endTime: formData.endTime,
+      notes: formData.notes,
+    };
+
+    if (overrideReason === undefined) {
+      const violations = constraintEngine.evaluate([proposed], { users, dutyTypes, schedules });
+      if (violations.length > 0) {
+        setConstraintViolations(violations);
+        return;
+      }
+    }
+
+    const overriddenViolations = constraintViolations.filter(v => v.blocking);
+    const isOverride = overriddenViolations.length > 0 || !!existingSchedule?.isOverride;
+
     try {
-      if (editingScheduleId) {
+      let savedSchedule: Schedule;
+
+      if (editingScheduleId && existingSchedule?.seriesId && editScope === 'series') {
+        savedSchedule = await updateSeriesFrom(existingSchedule, isOverride);
+      } else if (editingScheduleId) {
         // Update existing schedule
-        const updatedSchedule = await apiService.updateSchedule(editingScheduleId, {
+        const updates: Partial<Schedule> = {
           userId: formData.userId,
           dutyTypeId: formData.dutyTypeId,
           startTime: formData.startTime,
           endTime: formData.endTime,
           notes: formData.notes,
-        });
+          isOverride,
+          // Detach a single edited occurrence so later series edits leave it alone
+          ...(existingSchedule?.seriesId ? { isSeriesException: true } : {}),
+          // Handing the duty to someone else clears a pending reassignment flag
+          ...(existingSchedule?.needsReassignment && existingSchedule.userId !== formData.userId
+            ? { needsReassignment: false, reassignmentReason: undefined }
+            : {}),
+        };
 
-        setSchedules(prev => prev.map(s => s.id === editingScheduleId ? updatedSchedule : s));
+        try {
+          savedSchedule = await dataProvider.updateSchedule(
+            editingScheduleId,
+            updates,
+            existingSchedule && getScheduleVersion(existingSchedule)
+          );
+        } catch (error) {
+          if (!(error instanceof StaleScheduleError)) throw error;
+
+          // The form closes and the merge dialog takes over
+          openStaleEdit(existingSchedule || error.current, updates, error.current);
+          resetScheduleForm();
+          return;
+        }
+
+        setSchedules(prev => prev.map(s => s.id === editingScheduleId ? savedSchedule : s));
       } else {
         // Create new schedule
-        const newSchedule = await apiService.saveSchedule({
+        savedSchedule = await dataProvider.saveSchedule({
           userId: formData.userId,
           dutyTypeId: formData.dutyTypeId,
           startTime: formData.startTime,
@@ -172,25 +373,248 @@ const ScheduleCalendar: React.FC = () => {
           assignedBy: user!.id,
           assignedAt: new Date().toISOString(),
           notes: formData.notes,
-          isOverride: false,
+          isOverride,
         });
 
-        setSchedules(prev => [...prev, newSchedule]);
+        setSchedules(prev => [...prev, savedSchedule]);
+      }
+
+      if (overriddenViolations.length > 0) {
+        const overrides = await constraintEngine.recordOverride(overriddenViolations, user!.id, overrideReason!, savedSchedule.id);
+        await Promise.all(overrides.map(override =>
+          dataProvider.recordAudit('OVERRIDE', 'CONSTRAINT', override.constraintId, `${override.message} (${override.reason})`, {
+            after: override,
+          })
+        ));
       }
 
-      setShowCreateDialog(false);
-      setEditingScheduleId(null);
-      setFormData({
-        userId: '',
-        dutyTypeId: '',
-        startTime: '',
-        endTime: '',
-        notes: '',
-        isEvent: false,
-        isAllDay: false
-      });
+      resetScheduleForm();
     } catch (error) {
       console.error('Error creating/updating schedule:', error);
+      if (error instanceof StaleScheduleError) {
+        // A series edit spans many duties, so there is no single pair of versions to merge
+        toast({
+          title: t('calendar.merge.seriesNotUpdated'),
+          description: t('calendar.merge.seriesReloaded', { message: describeStaleChange(error.current) }),
+          variant: 'destructive',
+        });
+        resetScheduleForm();
+        loadedWindows.current.clear();
+        loadData();
+        loadWindowsAround(date, view);
+      }
+    }
+  };
+
+  const resetScheduleForm = () => {
+    setConstraintViolations([]);
+    setConstraintOverrideReason('');
+    setShowCreateDialog(false);
+    setEditingScheduleId(null);
+    setFormData({
+      userId: '',
+      dutyTypeId: '',
+      startTime: '',
+      endTime: '',
+      notes: '',
+      isEvent: false,
+      isAllDay: false
+    });
+  };
+
+  // Shows the stored duty next to the rejected edit. Fields this user changed default to their
+  // own value; fields they left alone default to what the other editor saved.
+  const openStaleEdit = (original: Schedule, mine: Partial<Schedule>, current: Schedule) => {
+    const choices: StaleEdit['choices'] = {};
+    MERGE_FIELDS.forEach(field => {
+      if (field in mine && !isSameValue(mine[field], current[field])) {
+        choices[field] = isSameValue(mine[field], original[field]) ? 'theirs' : 'mine';
+      }
+    });
+
+    setSchedules(prev => prev.map(s => s.id === current.id ? current : s));
+    setStaleEdit({ original, current, mine, choices });
+  };
+
+  const handleSaveMerged = async () => {
+    if (!staleEdit) return;
+
+    const { original, current, mine, choices } = staleEdit;
+    const merged = Object.fromEntries(
+      Object.entries(choices)
+        .filter(([, choice]) => choice === 'mine')
+        .map(([field]) => [field, mine[field as keyof Schedule]])
+    ) as Partial<Schedule>;
+
+    // Keeping every stored value means there is nothing left to write
+    if (Object.keys(merged).length === 0) {
+      setStaleEdit(null);
+      return;
+    }
+
+    try {
+      const savedSchedule = await dataProvider.updateSchedule(current.id, merged, getScheduleVersion(current));
+      setSchedules(prev => prev.map(s => s.id === savedSchedule.id ? savedSchedule : s));
+      setStaleEdit(null);
+    } catch (error) {
+      if (error instanceof StaleScheduleError) {
+        // Changed yet again while the dialog was open: merge against the newest copy
+        openStaleEdit(original, mine, error.current);
+        return;
+      }
+      console.error('Error saving merged schedule:', error);
+    }
+  };
+
+  // Apply the form to the template and to every later occurrence that hasn't been edited on its own
+  const updateSeriesFrom = async (schedule: Schedule, isOverride: boolean): Promise<Schedule> => {
+    const template = dutyTemplates.find(t => t.id === schedule.seriesId);
+    if (!template || !schedule.seriesDate) {
+      throw new Error(`Series ${schedule.seriesId} not found`);
+    }
+
+    const start = moment(formData.startTime);
+    const updatedTemplate = await dataProvider.updateDutyTemplate(template.id, {
+      dutyTypeId: formData.dutyTypeId,
+      startTime: start.format('HH:mm'),
+      durationHours: moment(formData.endTime).diff(start, 'hours', true),
+      notes: formData.notes || undefined,
+      crews: schedule.userId === formData.userId
+        ? template.crews
+        : template.crews.map(crew => crew.map(id => id === schedule.userId ? formData.userId : id)),
+    });
+
+    let updated: Schedule[];
+    try {
+      // Read from the provider: the calendar only holds the weeks around the one on screen
+      const series = await dataProvider.querySchedules({ seriesId: template.id });
+      const changes = series
+        .filter(s => !!s.seriesDate && s.seriesDate >= schedule.seriesDate!)
+        .filter(s => s.id === schedule.id || !s.isSeriesException)
+        .map(s => ({
+          scheduleId: s.id,
+          expectedVersion: getScheduleVersion(s),
+          updates: {
+            ...getOccurrenceTimes(updatedTemplate, s.seriesDate!),
+            dutyTypeId: updatedTemplate.dutyTypeId,
+            notes: formData.notes,
+            ...(s.userId === schedule.userId ? { userId: formData.userId } : {}),
+            ...(s.id === schedule.id ? { isOverride } : {}),
+          },
+        }));
+
+      // The duty being edited may have been deleted, or taken out of the series, since it was opened
+      if (!changes.some(c => c.scheduleId === schedule.id)) {
+        throw new Error('Schedule not found');
+      }
+      updated = await dataProvider.updateSchedules(changes);
+    } catch (error) {
+      // The occurrences are written all or nothing, so none changed: put the template back to match them
+      await dataProvider.updateDutyTemplate(template.id, {
+        dutyTypeId: template.dutyTypeId,
+        startTime: template.startTime,
+        durationHours: template.durationHours,
+        notes: template.notes,
+        crews: template.crews,
+      }).catch(rollbackError => console.error('Error restoring series template:', rollbackError));
+      throw error;
+    }
+
+    const savedSchedule = updated.find(u => u.id === schedule.id);
+    if (!savedSchedule) {
+      throw new Error('Schedule not found');
+    }
+
+    setDutyTemplates(prev => prev.map(t => t.id === updatedTemplate.id ? updatedTemplate : t));
+    setSchedules(prev => prev.map(s => updated.find(u => u.id === s.id) || s));
+    return savedSchedule;
+  };
+
+  const handleSeriesSaved = (template: DutyTemplate, newSchedules: Schedule[]) => {
+    setDutyTemplates(prev => prev.some(t => t.id === template.id)
+      ? prev.map(t => t.id === template.id ? template : t)
+      : [...prev, template]);
+    setSchedules(prev => [...prev, ...newSchedules]);
+  };
+
+  const handleDeleteSeries = async (schedule: Schedule, scope: 'following' | 'all') => {
+    const template = dutyTemplates.find(t => t.id === schedule.seriesId);
+    try {
+      // Every occurrence, not only those in the loaded weeks
+      const series = await dataProvider.querySchedules({ seriesId: schedule.seriesId });
+      const toDelete = series.filter(s =>
+        scope === 'all' || (!!s.seriesDate && s.seriesDate >= schedule.seriesDate!)
+      );
+      await dataProvider.deleteSchedules(toDelete.map(s => s.id));
+
+      if (template && scope === 'all') {
+        await dataProvider.deleteDutyTemplate(template.id);
+        setDutyTemplates(prev => prev.filter(t => t.id !== template.id));
+      } else if (template) {
+        // End the series the day before so extending it later doesn't bring these back
+        const updatedTemplate = await dataProvider.updateDutyTemplate(template.id, {
+          endDate: moment(schedule.seriesDate).subtract(1, 'day').format('YYYY-MM-DD'),
+        });
+        setDutyTemplates(prev => prev.map(t => t.id === updatedTemplate.id ? updatedTemplate : t));
+      }
+
+      const deletedIds = new Set(toDelete.map(s => s.id));
+      setSchedules(prev => prev.filter(s => !deletedIds.has(s.id)));
+      setSeriesDeleteTarget(null);
+      setSelectedEvent(null);
+    } catch (error) {
+      console.error('Error deleting recurring duties:', error);
+    }
+  };
+
+  const commitMove = async (schedule: Schedule, startTime: string, endTime: string) => {
+    const updates: Partial<Schedule> = {
+      startTime,
+      endTime,
+      ...(schedule.seriesId ? { isSeriesException: true } : {}),
+    };
+
+    try {
+      const savedSchedule = await dataProvider.updateSchedule(schedule.id, updates, getScheduleVersion(schedule));
+      setSchedules(prev => prev.map(s => s.id === schedule.id ? savedSchedule : s));
+      setPendingMove(null);
+    } catch (error) {
+      if (error instanceof StaleScheduleError) {
+        setPendingMove(null);
+        openStaleEdit(schedule, updates, error.current);
+        return;
+      }
+      console.error('Error moving schedule:', error);
+    }
+  };
+
+  // Check the proposed times first and only ask for confirmation when the move introduces new conflicts
+  const handleEventMove = async ({ event, start, end }: { event: CalendarEvent; start: Date; end: Date }) => {
+    const schedule = event.resource.schedule;
+    const startTime = new Date(start).toISOString();
+    const endTime = new Date(end).toISOString();
+    if (startTime === schedule.startTime && endTime === schedule.endTime) return;
+
+    try {
+      // Checked without the provider, which would store the conflicts of a move not yet made
+      const moved = { ...schedule, startTime, endTime };
+      const before = findScheduleConflicts(schedules, users, dutyTypes, availability);
+      const after = findScheduleConflicts(schedules.map(s => s.id === schedule.id ? moved : s), users, dutyTypes, availability);
+      const existingIds = new Set(before.map(c => c.id));
+      const introduced = after.filter(c =>
+        MOVE_CONFLICT_TYPES.includes(c.type) &&
+        c.affectedSchedules.includes(schedule.id) &&
+        !existingIds.has(c.id)
+      );
+
+      if (introduced.length > 0) {
+        setPendingMove({ schedule, startTime, endTime, conflicts: introduced });
+        return;
+      }
+
+      await commitMove(schedule, startTime, endTime);
+    } catch (error) {
+      console.error('Error checking schedule move:', error);
     }
   };
 
@@ -206,6 +630,7 @@ const ScheduleCalendar: React.FC = () => {
       isAllDay: false
     });
     setEditingScheduleId(schedule.id);
+    setEditScope('occurrence');
     setSelectedEvent(null);
     setShowCreateDialog(true);
   };
@@ -213,7 +638,7 @@ const ScheduleCalendar: React.FC = () => {
   const handleDeleteSchedule = async (scheduleId: string) => {
     try {
       // Actually delete the schedule from the array
-      await apiService.deleteSchedule(scheduleId);
+      await dataProvider.deleteSchedule(scheduleId);
       setSchedules(prev => prev.filter(s => s.id !== scheduleId));
       setSelectedEvent(null);
     } catch (error) {
@@ -227,7 +652,7 @@ const ScheduleCalendar: React.FC = () => {
       const newSchedules: Schedule[] = [];
       
       for (const scheduleData of importedSchedules) {
-        const newSchedule = await apiService.saveSchedule(scheduleData);
+        const newSchedule = await dataProvider.saveSchedule(scheduleData);
         newSchedules.push(newSchedule);
       }
       
@@ -244,7 +669,15 @@ const ScheduleCalendar: React.FC = () => {
     }
   };
 
-
+  const handleRosterCommitted = async (rosterSchedules: Omit<Schedule, 'id'>[]) => {
+    try {
+      const newSchedules = await dataProvider.saveSchedules(rosterSchedules);
+      setSchedules(prev => [...prev, ...newSchedules]);
+    } catch (error) {
+      console.error('Error committing roster:', error);
+      throw error;
+    }
+  };
 
   const eventStyleGetter = (event: CalendarEvent) => {
     const dutyType = event.resource.dutyType;
@@ -266,7 +699,7 @@ const ScheduleCalendar: React.FC = () => {
       style: {
         backgroundColor,
         opacity,
-        border: 'none',
+        border: event.resource.schedule.needsReassignment ? '2px dashed #dc2626' : 'none',
         borderRadius: '4px',
         color: 'white',
         fontSize: '12px',
@@ -274,22 +707,45 @@ const ScheduleCalendar: React.FC = () => {
     };
   };
 
+  // Shabbat and festival days are shaded; other holidays only get their name in the header
+  const dayPropGetter = (day: Date) => (
+    isRestDay(day) ? { style: { backgroundColor: '#fef3c7' } } : {}
+  );
+
+  const renderDateLabel = ({ date: day, label }: { date: Date; label: string }) => {
+    const names = [
+      ...(isShabbat(day) ? [t('calendar.shabbat')] : []),
+      ...getHolidays(day).map(h => (language === 'he' ? h.nameHe : h.name)),
+    ];
+    return (
+      <div className="flex flex-col items-center">
+        <span>{label}</span>
+        {names.length > 0 && (
+          <span className="text-[10px] font-normal text-amber-700 truncate max-w-full" title={names.join(', ')}>
+            {names.join(', ')}
+          </span>
+        )}
+      </div>
+    );
+  };
+
   const renderEventDetails = () => {
     if (!selectedEvent) return null;
 
     const { schedule, user: eventUser, dutyType } = selectedEvent.resource;
+    const template = dutyTemplates.find(t => t.id === schedule.seriesId);
 
     return (
       <Dialog open={!!selectedEvent} onOpenChange={() => setSelectedEvent(null)}>
         <DialogContent className="max-w-md">
           <DialogHeader>
             <DialogTitle className="flex items-center space-x-2">
-              <span>{dutyType.name}</span>
+              <span>{dutyTypeName(dutyType)}</span>
               <Badge 
                 variant={schedule.status === 'ASSIGNED' ? 'default' : 'secondary'}
                 className="text-xs"
               >
-                {schedule.status}
+                {t(`calendar.status.${schedule.status}`)}
               </Badge>
             </DialogTitle>
             <DialogDescription>
@@ -300,26 +756,43 @@ const ScheduleCalendar: React.FC = () => {
           <div className="space-y-4">
             <div className="grid grid-cols-2 gap-4 text-sm">
               <div>
-                <p className="font-medium text-gray-700">Start Time</p>
+                <p className="font-medium text-gray-700">{t('calendar.startTime')}</p>
                 <p>{moment(schedule.startTime).format('MMM DD, YYYY HH:mm')}</p>
               </div>
               <div>
-                <p className="font-medium text-gray-700">End Time</p>
+                <p className="font-medium text-gray-700">{t('calendar.endTime')}</p>
                 <p>{moment(schedule.endTime).format('MMM DD, YYYY HH:mm')}</p>
               </div>
               <div>
-                <p className="font-medium text-gray-700">Duration</p>
-                <p>{moment(schedule.endTime).diff(moment(schedule.startTime), 'hours')} hours</p>
+                <p className="font-medium text-gray-700">{t('calendar.duration')}</p>
+                <p>{t('common.hours', { count: moment(schedule.endTime).diff(moment(schedule.startTime), 'hours') })}</p>
               </div>
               <div>
-                <p className="font-medium text-gray-700">Unit</p>
+                <p className="font-medium text-gray-700">{t('calendar.unit')}</p>
                 <p>{eventUser.unit}</p>
               </div>
             </div>
 
+            {schedule.needsReassignment && (
+              <div className="flex items-start space-x-2 text-sm text-red-700 bg-red-50 p-2 rounded">
+                <AlertTriangle className="h-4 w-4 mt-0.5 flex-shrink-0" />
+                <span>{t('calendar.needsReassignment')}{schedule.reassignmentReason ? `: ${schedule.reassignmentReason}` : ''}</span>
+              </div>
+            )}
+
+            {template && (
+              <div className="flex items-center space-x-2 text-sm text-gray-600">
+                <Repeat className="h-4 w-4" />
+                <span>
+                  {template.name} • {describeRecurrence(template.recurrence, language)}
+                  {schedule.isSeriesException && ` • ${t('calendar.editedOccurrence')}`}
+                </span>
+              </div>
+            )}
+
             {schedule.notes && (
               <div>
-                <p className="font-medium text-gray-700 mb-1">Notes</p>
+                <p className="font-medium text-gray-700 mb-1">{t('calendar.notes')}</p>
                 <p className="text-sm text-gray-600 bg-gray-50 p-2 rounded">
                   {schedule.notes}
                 </p>
@@ -327,7 +800,7 @@ const ScheduleCalendar: React.FC = () => {
             )}
 
             <div className="text-xs text-gray-500 pt-2 border-t">
-              Assigned by: {schedule.assignedBy} • {moment(schedule.assignedAt).format('MMM DD, YYYY HH:mm')}
+              {t('calendar.assignedBy')}: {schedule.assignedBy} • {moment(schedule.assignedAt).format('MMM DD, YYYY HH:mm')}
             </div>
           </div>
 
@@ -338,16 +811,18 @@ const ScheduleCalendar: React.FC = () => {
                 size="sm"
                 onClick={() => handleEditSchedule(selectedEvent.resource.schedule)}
               >
-                <Edit className="h-4 w-4 mr-1" />
-                Edit
+                <Edit className="h-4 w-4 me-1" />
+                {t('common.edit')}
               </Button>
               <Button 
                 variant="destructive" 
                 size="sm"
-                onClick={() => handleDeleteSchedule(selectedEvent.resource.schedule.id)}
+                onClick={() => schedule.seriesId
+                  ? setSeriesDeleteTarget(schedule)
+                  : handleDeleteSchedule(schedule.id)}
               >
-                <Trash2 className="h-4 w-4 mr-1" />
-                Delete
+                <Trash2 className="h-4 w-4 me-1" />
+                {t('common.delete')}
               </Button>
             </DialogFooter>
           )}
@@ -356,6 +831,256 @@ const ScheduleCalendar: React.FC = () => {
     );
   };
 
+  const renderSeriesDeleteDialog = () => {
+    if (!seriesDeleteTarget) return null;
+
+    return (
+      <Dialog open={!!seriesDeleteTarget} onOpenChange={() => setSeriesDeleteTarget(null)}>
+        <DialogContent className="max-w-sm">
+          <DialogHeader>
+            <DialogTitle>{t('calendar.series.deleteTitle')}</DialogTitle>
+            <DialogDescription>{t('calendar.series.deleteDescription')}</DialogDescription>
+          </DialogHeader>
+          <div className="flex flex-col space-y-2">
+            <Button
+              variant="outline"
+              onClick={async () => {
+                await handleDeleteSchedule(seriesDeleteTarget.id);
+                setSeriesDeleteTarget(null);
+              }}
+            >
+              {t('calendar.series.thisOccurrence')}
+            </Button>
+            <Button variant="outline" onClick={() => handleDeleteSeries(seriesDeleteTarget, 'following')}>
+              {t('calendar.series.followingOccurrences')}
+            </Button>
+            <Button variant="destructive" onClick={() => handleDeleteSeries(seriesDeleteTarget, 'all')}>
+              {t('calendar.series.entireSeries')}
+            </Button>
+          </div>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  const renderMoveWarningDialog = () => {
+    if (!pendingMove) return null;
+
+    const { schedule, startTime, endTime, conflicts } = pendingMove;
+
+    return (
+      <Dialog open={!!pendingMove} onOpenChange={() => setPendingMove(null)}>
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              <span>{t('calendar.move.title')}</span>
+            </DialogTitle>
+            <DialogDescription>
+              {t('calendar.move.description', {
+                start: moment(startTime).format('MMM DD HH:mm'),
+                end: moment(endTime).format('MMM DD HH:mm'),
+              })}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-2">
+            {conflicts.map(conflict => (
+              <div key={conflict.id} className="p-2 bg-gray-50 rounded border text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{t(`conflicts.types.${conflict.type}`)}</span>
+                  <Badge variant={conflict.severity === 'HIGH' ? 'destructive' : 'secondary'} className="text-xs">
+                    {t(`conflicts.severities.${conflict.severity}`)}
+                  </Badge>
+                </div>
+                <p className="text-gray-600 mt-1">{conflict.description}</p>
+              </div>
+            ))}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setPendingMove(null)}>
+              {t('common.cancel')}
+            </Button>
+            <Button variant="destructive" onClick={() => commitMove(schedule, startTime, endTime)}>
+              {t('calendar.move.moveAnyway')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  // Who saved the duty since it was opened, and when
+  const constraintName = (violation: ConstraintViolation) => {
+    const key = `constraints.${violation.constraintId}.name`;
+    return hasTranslation(key) ? t(key) : violation.constraintName;
+  };
+
+  const describeStaleChange = (current: Schedule) => {
+    const name = current.updatedByName || t('calendar.merge.anotherUser');
+    return current.updatedAt
+      ? t('calendar.merge.changedByAt', { name, time: moment(current.updatedAt).format('HH:mm') })
+      : t('calendar.merge.changedBy', { name });
+  };
+
+  const formatMergeValue = (field: keyof Schedule, value: unknown) => {
+    if (value === undefined || value === null || value === '') return '-';
+    if (field === 'userId') {
+      const assignee = users.find(u => u.id === value);
+      return assignee ? `${assignee.rank} ${assignee.firstName} ${assignee.lastName}` : String(value);
+    }
+    if (field === 'dutyTypeId') {
+      return dutyTypeName(dutyTypes.find(dt => dt.id === value)) || String(value);
+    }
+    if (field === 'startTime' || field === 'endTime') {
+      return moment(value as string).format('MMM DD, YYYY HH:mm');
+    }
+    if (typeof value === 'boolean') return t(value ? 'common.yes' : 'common.no');
+    return String(value);
+  };
+
+  const renderStaleEditDialog = () => {
+    if (!staleEdit) return null;
+
+    const { current, mine, choices } = staleEdit;
+    const fields = MERGE_FIELDS.filter(field => choices[field]);
+    const choose = (field: keyof Schedule, choice: 'mine' | 'theirs') =>
+      setStaleEdit(prev => prev && { ...prev, choices: { ...prev.choices, [field]: choice } });
+    const cellClass = (selected: boolean) =>
+      `align-top cursor-pointer break-all max-w-[14rem] ${selected ? 'bg-blue-50 font-medium ring-1 ring-inset ring-blue-300' : 'text-gray-500'}`;
+
+    return (
+      <Dialog open={!!staleEdit} onOpenChange={() => setStaleEdit(null)}>
+        <DialogContent className="max-w-2xl">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              <span>{describeStaleChange(current)}</span>
+            </DialogTitle>
+            <DialogDescription>
+              {t('calendar.merge.description')}
+            </DialogDescription>
+          </DialogHeader>
+
+          {fields.length > 0 ? (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>{t('calendar.merge.field')}</TableHead>
+                  <TableHead>{t('calendar.merge.savedBy', { name: current.updatedByName || t('calendar.merge.anotherUser') })}</TableHead>
+                  <TableHead>{t('calendar.merge.yourEdit')}</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {fields.map(field => (
+                  <TableRow key={field}>
+                    <TableCell className="align-top font-medium">{t(MERGE_FIELD_LABELS[field])}</TableCell>
+                    <TableCell className={cellClass(choices[field] === 'theirs')} onClick={() => choose(field, 'theirs')}>
+                      {formatMergeValue(field, current[field])}
+                    </TableCell>
+                    <TableCell className={cellClass(choices[field] === 'mine')} onClick={() => choose(field, 'mine')}>
+                      {formatMergeValue(field, mine[field])}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ) : (
+            <p className="text-sm text-gray-600">{t('calendar.merge.noDifferences')}</p>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setStaleEdit(null)}>
+              {t('calendar.merge.keepSaved')}
+            </Button>
+            <Button onClick={handleSaveMerged}>
+              {t('calendar.merge.saveMerged')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
+  const renderConstraintDialog = () => {
+    if (constraintViolations.length === 0) return null;
+
+    const hasBlocking = constraintViolations.some(v => v.blocking);
+    const canOverride = hasPermission(user!, PERMISSIONS.OVERRIDE_CONSTRAINTS);
+
+    return (
+      <Dialog
+        open={constraintViolations.length > 0}
+        onOpenChange={() => {
+          setConstraintViolations([]);
+          setConstraintOverrideReason('');
+        }}
+      >
+        <DialogContent className="max-w-md">
+          <DialogHeader>
+            <DialogTitle className="flex items-center space-x-2">
+              <AlertTriangle className="h-5 w-5 text-orange-600" />
+              <span>{t('calendar.constraints.title')}</span>
+            </DialogTitle>
+            <DialogDescription>
+              {hasBlocking
+                ? t('calendar.constraints.breaksEnforced')
+                : t('calendar.constraints.breaksAdvisory')}
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-3">
+            {constraintViolations.map((violation, index) => (
+              <div key={index} className="p-2 bg-gray-50 rounded border text-sm">
+                <div className="flex items-center justify-between">
+                  <span className="font-medium">{constraintName(violation)}</span>
+                  <Badge variant={violation.blocking ? 'destructive' : 'secondary'} className="text-xs">
+                    {violation.blocking ? t('calendar.constraints.enforced') : t('calendar.constraints.advisory')}
+                  </Badge>
+                </div>
+                <p className="text-gray-600 mt-1">{violation.message}</p>
+              </div>
+            ))}
+
+            {hasBlocking && canOverride && (
+              <div>
+                <label className="text-sm font-medium text-gray-700">{t('calendar.constraints.overrideReason')}</label>
+                <Textarea
+                  placeholder={t('calendar.constraints.overridePlaceholder')}
+                  value={constraintOverrideReason}
+                  onChange={(e) => setConstraintOverrideReason(e.target.value)}
+                  rows={2}
+                />
+              </div>
+            )}
+
+            {hasBlocking && !canOverride && (
+              <p className="text-sm text-red-600">
+                {t('calendar.constraints.noOverridePermission')}
+              </p>
+            )}
+          </div>
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setConstraintViolations([])}>
+              {t('common.back')}
+            </Button>
+            {(!hasBlocking || canOverride) && (
+              <Button
+                variant={hasBlocking ? 'destructive' : 'default'}
+                disabled={hasBlocking && !constraintOverrideReason.trim()}
+                onClick={() => handleCreateOrUpdateSchedule(constraintOverrideReason.trim())}
+              >
+                {hasBlocking ? t('calendar.constraints.overrideAndSave') : t('calendar.constraints.saveAnyway')}
+              </Button>
+            )}
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+    );
+  };
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -372,29 +1097,49 @@ const ScheduleCalendar: React.FC = () => {
       {/* Header and Controls */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">Schedule Calendar</h1>
-          <p className="text-gray-600">Manage duty assignments and schedules</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('calendar.title')}</h1>
+          <p className="text-gray-600">{t('calendar.subtitle')}</p>
         </div>
 
         <div className="flex items-center space-x-3">
+          {/* Calendar / Timeline toggle */}
+          <div className="flex rounded-md border">
+            <Button
+              variant={displayMode === 'calendar' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setDisplayMode('calendar')}
+            >
+              <CalendarIcon className="h-4 w-4 me-2" />
+              {t('calendar.calendarView')}
+            </Button>
+            <Button
+              variant={displayMode === 'timeline' ? 'secondary' : 'ghost'}
+              size="sm"
+              onClick={() => setDisplayMode('timeline')}
+            >
+              <GanttChart className="h-4 w-4 me-2" />
+              {t('calendar.timelineView')}
+            </Button>
+          </div>
+
           {/* Filters */}
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm">
-                <Filter className="h-4 w-4 mr-2" />
-                Filters
+                <Filter className="h-4 w-4 me-2" />
+                {t('calendar.filters')}
               </Button>
             </DropdownMenuTrigger>
             <DropdownMenuContent align="end" className="w-56">
               <div className="p-2 space-y-3">
                 <div>
-                  <label className="text-xs font-medium text-gray-700">User</label>
+                  <label className="text-xs font-medium text-gray-700">{t('calendar.filterUser')}</label>
                   <Select value={filterUser} onValueChange={setFilterUser}>
                     <SelectTrigger className="h-8">
-                      <SelectValue placeholder="All users" />
+                      <SelectValue placeholder={t('calendar.allUsers')} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All users</SelectItem>
+                      <SelectItem value="all">{t('calendar.allUsers')}</SelectItem>
                       {users.map(u => (
                         <SelectItem key={u.id} value={u.id}>
                           {u.rank} {u.firstName} {u.lastName}
@@ -405,16 +1150,16 @@ const ScheduleCalendar: React.FC = () => {
                 </div>
                 
                 <div>
-                  <label className="text-xs font-medium text-gray-700">Duty Type</label>
+                  <label className="text-xs font-medium text-gray-700">{t('calendar.filterDutyType')}</label>
                   <Select value={filterDutyType} onValueChange={setFilterDutyType}>
                     <SelectTrigger className="h-8">
-                      <SelectValue placeholder="All duties" />
+                      <SelectValue placeholder={t('calendar.allDuties')} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All duties</SelectItem>
+                      <SelectItem value="all">{t('calendar.allDuties')}</SelectItem>
                       {dutyTypes.map(dt => (
                         <SelectItem key={dt.id} value={dt.id}>
-                          {dt.name}
+                          {dutyTypeName(dt)}
                         </SelectItem>
                       ))}
                     </SelectContent>
@@ -422,17 +1167,17 @@ const ScheduleCalendar: React.FC = () => {
                 </div>
 
                 <div>
-                  <label className="text-xs font-medium text-gray-700">Status</label>
+                  <label className="text-xs font-medium text-gray-700">{t('calendar.filterStatus')}</label>
                   <Select value={filterStatus} onValueChange={setFilterStatus}>
                     <SelectTrigger className="h-8">
-                      <SelectValue placeholder="All status" />
+                      <SelectValue placeholder={t('calendar.allStatus')} />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="all">All status</SelectItem>
-                      <SelectItem value="ASSIGNED">Assigned</SelectItem>
-                      <SelectItem value="REQUESTED">Requested</SelectItem>
-                      <SelectItem value="PENDING">Pending</SelectItem>
-                      <SelectItem value="CANCELLED">Cancelled</SelectItem>
+                      <SelectItem value="all">{t('calendar.allStatus')}</SelectItem>
+                      <SelectItem value="ASSIGNED">{t('calendar.status.ASSIGNED')}</SelectItem>
+                      <SelectItem value="REQUESTED">{t('calendar.status.REQUESTED')}</SelectItem>
+                      <SelectItem value="PENDING">{t('calendar.status.PENDING')}</SelectItem>
+                      <SelectItem value="CANCELLED">{t('calendar.status.CANCELLED')}</SelectItem>
                     </SelectContent>
                   </Select>
                 </div>
@@ -448,9 +1193,33 @@ const ScheduleCalendar: React.FC = () => {
             className="flex items-center gap-2"
           >
             <FileSpreadsheet className="h-4 w-4" />
-            Import/Export
+            {t('calendar.importExport')}
           </Button>
 
+          {hasPermission(user!, PERMISSIONS.CREATE_SCHEDULE) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowAutoScheduleDialog(true)}
+              className="flex items-center gap-2"
+            >
+              <Wand2 className="h-4 w-4" />
+              {t('calendar.autoSchedule')}
+            </Button>
+          )}
+
+          {hasPermission(user!, PERMISSIONS.CREATE_SCHEDULE) && (
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowRecurringDialog(true)}
+              className="flex items-center gap-2"
+            >
+              <Repeat className="h-4 w-4" />
+              {t('calendar.recurring')}
+            </Button>
+          )}
+
           {hasPermission(user!, PERMISSIONS.CREATE_SCHEDULE) && (
             <Dialog open={showCreateDialog} onOpenChange={setShowCreateDialog}>
               <DialogTrigger asChild>
@@ -469,42 +1238,60 @@ const ScheduleCalendar: React.FC = () => {
                     });
                   }}
                 >
-                  <Plus className="h-4 w-4 mr-2" />
-                  Add Schedule
+                  <Plus className="h-4 w-4 me-2" />
+                  {t('calendar.addSchedule')}
                 </Button>
               </DialogTrigger>
               <DialogContent>
                 <DialogHeader>
-                  <DialogTitle>{editingScheduleId ? 'Edit Schedule' : 'Create New Schedule'}</DialogTitle>
+                  <DialogTitle>{editingScheduleId ? t('calendar.editTitle') : t('calendar.createTitle')}</DialogTitle>
                   <DialogDescription>
-                    {editingScheduleId ? 'Update the existing duty assignment' : 'Assign a new duty to personnel'}
+                    {editingScheduleId ? t('calendar.editDescription') : t('calendar.createDescription')}
                   </DialogDescription>
                 </DialogHeader>
                 
                 <div className="space-y-4">
+                  {schedules.find(s => s.id === editingScheduleId)?.seriesId && (
+                    <div>
+                      <label className="text-sm font-medium text-gray-700">{t('calendar.series.applyChangesTo')}</label>
+                      <Select value={editScope} onValueChange={(value: 'occurrence' | 'series') => setEditScope(value)}>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="occurrence">{t('calendar.series.thisOccurrence')}</SelectItem>
+                          <SelectItem value="series">{t('calendar.series.futureOccurrences')}</SelectItem>
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  )}
+
                   <div>
-                    <label className="text-sm font-medium text-gray-700">Personnel</label>
+                    <label className="text-sm font-medium text-gray-700">{t('calendar.personnel')}</label>
                     <Select value={formData.userId} onValueChange={(value) => setFormData(prev => ({ ...prev, userId: value }))}>
                       <SelectTrigger>
-                        <SelectValue placeholder="Select personnel" />
+                        <SelectValue placeholder={t('calendar.selectPersonnel')} />
                       </SelectTrigger>
                       <SelectContent>
-                        {users.filter(u => u.role === 'RESERVIST' || u.role === 'NCO').map(u => (
-                          <SelectItem key={u.id} value={u.id}>
-                            {u.rank} {u.firstName} {u.lastName} - {u.unit}
-                          </SelectItem>
-                        ))}
+                        {users
+                          .filter(u => u.role === 'RESERVIST' || u.role === 'NCO')
+                          .sort((a, b) => (burdenByUser[a.id] || 0) - (burdenByUser[b.id] || 0))
+                          .map(u => (
+                            <SelectItem key={u.id} value={u.id}>
+                              {u.rank} {u.firstName} {u.lastName} - {u.unit} ({t('calendar.burden', { score: Math.round(burdenByUser[u.id] || 0) })})
+                            </SelectItem>
+                          ))}
                       </SelectContent>
                     </Select>
                   </div>
 
                   <div>
                     <label className="text-sm font-medium text-gray-700">
-                      {formData.isEvent ? 'Event Type' : 'Duty Type'}
+                      {formData.isEvent ? t('calendar.eventType') : t('calendar.dutyType')}
                     </label>
                     <Select value={formData.dutyTypeId} onValueChange={(value) => setFormData(prev => ({ ...prev, dutyTypeId: value }))}>
                       <SelectTrigger>
-                        <SelectValue placeholder={formData.isEvent ? "Select event type" : "Select duty type"} />
+                        <SelectValue placeholder={formData.isEvent ? t('calendar.selectEventType') : t('calendar.selectDutyType')} />
                       </SelectTrigger>
                       <SelectContent>
                         {dutyTypes.map(dt => (
@@ -514,7 +1301,7 @@ const ScheduleCalendar: React.FC = () => {
                                 className="w-3 h-3 rounded"
                                 style={{ backgroundColor: dt.color }}
                               />
-                              <span>{dt.name}</span>
+                              <span>{dutyTypeName(dt)}</span>
                             </div>
                           </SelectItem>
                         ))}
@@ -530,7 +1317,7 @@ const ScheduleCalendar: React.FC = () => {
                         onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isEvent: !!checked }))}
                       />
                       <label htmlFor="isEvent" className="text-sm font-medium text-gray-700">
-                        This is an event (not a duty assignment)
+                        {t('calendar.isEvent')}
                       </label>
                     </div>
                     
@@ -541,7 +1328,7 @@ const ScheduleCalendar: React.FC = () => {
                         onCheckedChange={(checked) => setFormData(prev => ({ ...prev, isAllDay: !!checked }))}
                       />
                       <label htmlFor="isAllDay" className="text-sm font-medium text-gray-700">
-                        All day event
+                        {t('calendar.allDay')}
                       </label>
                     </div>
                   </div>
@@ -549,7 +1336,7 @@ const ScheduleCalendar: React.FC = () => {
                   {!formData.isAllDay && (
                     <div className="grid grid-cols-2 gap-4">
                       <div>
-                        <label className="text-sm font-medium text-gray-700">Start Time</label>
+                        <label className="text-sm font-medium text-gray-700">{t('calendar.startTime')}</label>
                         <Input
                           type="datetime-local"
                           value={formData.startTime}
@@ -557,7 +1344,7 @@ const ScheduleCalendar: React.FC = () => {
                         />
                       </div>
                       <div>
-                        <label className="text-sm font-medium text-gray-700">End Time</label>
+                        <label className="text-sm font-medium text-gray-700">{t('calendar.endTime')}</label>
                         <Input
                           type="datetime-local"
                           value={formData.endTime}
@@ -569,7 +1356,7 @@ const ScheduleCalendar: React.FC = () => {
 
                   {formData.isAllDay && (
                     <div>
-                      <label className="text-sm font-medium text-gray-700">Date</label>
+                      <label className="text-sm font-medium text-gray-700">{t('calendar.date')}</label>
                       <Input
                         type="date"
                         value={formData.startTime ? formData.startTime.split('T')[0] : ''}
@@ -586,9 +1373,9 @@ const ScheduleCalendar: React.FC = () => {
                   )}
 
                   <div>
-                    <label className="text-sm font-medium text-gray-700">Notes</label>
+                    <label className="text-sm font-medium text-gray-700">{t('calendar.notes')}</label>
                     <Textarea
-                      placeholder="Additional notes or instructions..."
+                      placeholder={t('calendar.notesPlaceholder')}
                       value={formData.notes}
                       onChange={(e) => setFormData(prev => ({ ...prev, notes: e.target.value }))}
                     />
@@ -612,10 +1399,10 @@ const ScheduleCalendar: React.FC = () => {
                       });
                     }}
                   >
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
-                  <Button onClick={handleCreateOrUpdateSchedule}>
-                    {editingScheduleId ? 'Update Schedule' : 'Create Schedule'}
+                  <Button onClick={() => handleCreateOrUpdateSchedule()}>
+                    {editingScheduleId ? t('calendar.updateSchedule') : t('calendar.createSchedule')}
                   </Button>
                 </DialogFooter>
               </DialogContent>
@@ -624,11 +1411,27 @@ const ScheduleCalendar: React.FC = () => {
         </div>
       </div>
 
+      {/* Per-person timeline */}
+      {displayMode === 'timeline' && (
+        <Card>
+          <CardContent className="p-0">
+            <ResourceTimeline
+              users={filterUser && filterUser !== 'all' ? users.filter(u => u.id === filterUser) : users}
+              schedules={calendarEvents.map(e => e.resource.schedule)}
+              dutyTypes={dutyTypes}
+              availability={availability}
+              onSelectSchedule={(schedule) => setSelectedEvent(calendarEvents.find(e => e.id === schedule.id) || null)}
+              onRangeChange={loadScheduleWindow}
+            />
+          </CardContent>
+        </Card>
+      )}
+
       {/* Calendar */}
-      <Card>
+      <Card className={displayMode === 'calendar' ? '' : 'hidden'}>
         <CardContent className="p-0">
           <div style={{ height: '600px' }}>
-            <Calendar
+            <DragAndDropCalendar
               localizer={localizer}
               events={calendarEvents}
               startAccessor="start"
@@ -638,22 +1441,34 @@ const ScheduleCalendar: React.FC = () => {
               date={date}
               onNavigate={setDate}
               onSelectEvent={handleSelectEvent}
+              onEventDrop={handleEventMove}
+              onEventResize={handleEventMove}
+              draggableAccessor={() => hasPermission(user!, PERMISSIONS.EDIT_SCHEDULE)}
+              resizable={hasPermission(user!, PERMISSIONS.EDIT_SCHEDULE)}
               eventPropGetter={eventStyleGetter}
+              dayPropGetter={dayPropGetter}
+              components={{
+                month: { dateHeader: renderDateLabel },
+                week: { header: renderDateLabel },
+                day: { header: renderDateLabel },
+              }}
               popup
               showMultiDayTimes
               step={60}
               timeslots={1}
               defaultView="week"
               views={['month', 'week', 'day', 'agenda']}
+              rtl={isRTL}
+              culture={language}
               messages={{
-                week: 'Week',
-                day: 'Day',
-                month: 'Month',
-                agenda: 'Agenda',
-                today: 'Today',
-                previous: 'Previous',
-                next: 'Next',
-                showMore: (total) => `+${total} more`,
+                week: t('calendar.toolbar.week'),
+                day: t('calendar.toolbar.day'),
+                month: t('calendar.toolbar.month'),
+                agenda: t('calendar.toolbar.agenda'),
+                today: t('calendar.toolbar.today'),
+                previous: t('calendar.toolbar.previous'),
+                next: t('calendar.toolbar.next'),
+                showMore: (total) => t('calendar.toolbar.showMore', { count: total }),
               }}
               className="p-4"
             />
@@ -664,10 +1479,22 @@ const ScheduleCalendar: React.FC = () => {
       {/* Event Details Modal */}
       {renderEventDetails()}
 
+      {/* Constraint Violations Modal */}
+      {renderConstraintDialog()}
+
+      {/* Recurring Delete Scope Modal */}
+      {renderSeriesDeleteDialog()}
+
+      {/* Drag-and-Drop Conflict Warning */}
+      {renderMoveWarningDialog()}
+
+      {/* Concurrent Edit Merge */}
+      {renderStaleEditDialog()}
+
       {/* Legend */}
       <Card>
         <CardHeader>
-          <CardTitle className="text-sm">Duty Types Legend</CardTitle>
+          <CardTitle className="text-sm">{t('calendar.legend')}</CardTitle>
         </CardHeader>
         <CardContent>
           <div className="grid grid-cols-2 md:grid-cols-3 lg:grid-cols-6 gap-3">
@@ -677,9 +1504,13 @@ const ScheduleCalendar: React.FC = () => {
                   className="w-4 h-4 rounded"
                   style={{ backgroundColor: dutyType.color }}
                 />
-                <span className="text-sm font-medium">{dutyType.name}</span>
+                <span className="text-sm font-medium">{dutyTypeName(dutyType)}</span>
               </div>
             ))}
+            <div className="flex items-center space-x-2">
+              <div className="w-4 h-4 rounded border bg-amber-100" />
+              <span className="text-sm font-medium">{t('calendar.restDay')}</span>
+            </div>
           </div>
         </CardContent>
       </Card>
@@ -688,11 +1519,35 @@ const ScheduleCalendar: React.FC = () => {
       <ImportExportDialog
         isOpen={showImportExportDialog}
         onClose={() => setShowImportExportDialog(false)}
-        schedules={schedules}
         users={users}
         dutyTypes={dutyTypes}
         onSchedulesImported={handleSchedulesImported}
       />
+
+      {/* Auto-Schedule Dialog */}
+      {hasPermission(user!, PERMISSIONS.CREATE_SCHEDULE) && (
+        <AutoScheduleDialog
+          isOpen={showAutoScheduleDialog}
+          onClose={() => setShowAutoScheduleDialog(false)}
+          users={users}
+          dutyTypes={dutyTypes}
+          assignedBy={user!.id}
+          onRosterCommitted={handleRosterCommitted}
+        />
+      )}
+
+      {/* Recurring Duty Dialog */}
+      {hasPermission(user!, PERMISSIONS.CREATE_SCHEDULE) && (
+        <RecurringDutyDialog
+          isOpen={showRecurringDialog}
+          onClose={() => setShowRecurringDialog(false)}
+          users={users}
+          dutyTypes={dutyTypes}
+          templates={dutyTemplates}
+          assignedBy={user!.id}
+          onSeriesSaved={handleSeriesSaved}
+        />
+      )}
     </div>
   );
 };
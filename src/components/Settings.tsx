@@ -24,6 +24,14 @@ import {
   DialogTrigger,
 } from '@/components/ui/dialog';
 import { Alert, AlertDescription } from '@/components/ui/alert';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
 import {
   Settings as SettingsIcon,
   Shield,
@@ -40,9 +48,25 @@ import {
   RefreshCw,
   AlertTriangle,
   CheckCircle,
+  ListChecks,
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
+import { useLanguage } from '@/hooks/use-language';
+import { hasTranslation, resolveLanguage, TranslationKey } from '@/lib/i18n';
 import { hasPermission, PERMISSIONS } from '@/lib/auth';
+import { dataProvider } from '@/lib/data-provider';
+import { constraintEngine } from '@/lib/constraints';
+import { localDb } from '@/lib/local-db';
+import {
+  backupService,
+  BackupFile,
+  BackupSettings,
+  BackupValidation,
+  DEFAULT_BACKUP_SETTINGS,
+  RestorePreviewRow,
+  StoredBackup,
+} from '@/lib/backup';
+import { Constraint } from '@/types';
 import { toast } from '@/hooks/use-toast';
 
 interface SystemSettings {
@@ -78,16 +102,18 @@ interface SystemSettings {
     systemMaintenance: boolean;
     weeklyReports: boolean;
   };
-  backup: {
-    autoBackup: boolean;
-    backupFrequency: 'daily' | 'weekly' | 'monthly';
-    retentionDays: number;
-    lastBackup: string;
-  };
+  backup: BackupSettings;
+}
+
+interface RestorePlan {
+  source: string;
+  validation: BackupValidation;
+  preview: RestorePreviewRow[];
 }
 
 const Settings: React.FC = () => {
   const { user } = useAuth();
+  const { t, setLanguage } = useLanguage();
   const [settings, setSettings] = useState<SystemSettings>({
     general: {
       siteName: 'IDF Reserve Logistics',
@@ -121,17 +147,16 @@ const Settings: React.FC = () => {
       systemMaintenance: true,
       weeklyReports: false,
     },
-    backup: {
-      autoBackup: true,
-      backupFrequency: 'daily',
-      retentionDays: 30,
-      lastBackup: '2025-06-23T02:00:00Z',
-    },
+    backup: DEFAULT_BACKUP_SETTINGS,
   });
 
+  const [constraints, setConstraints] = useState<Constraint[]>(() => constraintEngine.getConstraints());
   const [loading, setLoading] = useState(false);
   const [showBackupDialog, setShowBackupDialog] = useState(false);
   const [showResetDialog, setShowResetDialog] = useState(false);
+  const [autoBackups, setAutoBackups] = useState<StoredBackup[]>([]);
+  const [restorePlan, setRestorePlan] = useState<RestorePlan | null>(null);
+  const [restoring, setRestoring] = useState(false);
 
   const canManageSettings = hasPermission(user!, PERMISSIONS.MANAGE_USERS);
 
@@ -140,21 +165,21 @@ const Settings: React.FC = () => {
   }, []);
 
   const loadSettings = async () => {
-    try {
-      const storedSettings = localStorage.getItem('idf_settings');
-      if (storedSettings) {
-        setSettings(JSON.parse(storedSettings));
-      }
-    } catch (error) {
-      console.error('Error loading settings:', error);
+    const storedSettings = localDb.getValue<SystemSettings>('idf_settings');
+    if (storedSettings) {
+      setSettings(storedSettings);
     }
+    // Another commander may have changed the rules since they were loaded
+    await constraintEngine.load();
+    setConstraints(constraintEngine.getConstraints());
+    setAutoBackups(await backupService.getAutoBackups());
   };
 
   const saveSettings = async () => {
     if (!canManageSettings) {
       toast({
-        title: "Access Denied",
-        description: "You don't have permission to modify system settings.",
+        title: t('settings.accessDenied'),
+        description: t('settings.noModifyPermission'),
         variant: "destructive",
       });
       return;
@@ -162,16 +187,21 @@ const Settings: React.FC = () => {
 
     setLoading(true);
     try {
-      localStorage.setItem('idf_settings', JSON.stringify(settings));
+      // Audited before saving, so switching audit logging off is itself recorded
+      await auditSettingsChange(settings, constraints);
+      await localDb.setValue('idf_settings', settings);
+      // The system default only applies to users who haven't picked their own language
+      setLanguage(resolveLanguage(user?.id));
+      await constraintEngine.saveConstraints(constraints);
       
       toast({
-        title: "Settings Saved",
-        description: "System settings have been updated successfully.",
+        title: t('settings.saved'),
+        description: t('settings.savedDescription'),
       });
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to save settings. Please try again.",
+        title: t('settings.error'),
+        description: t('settings.saveFailed'),
         variant: "destructive",
       });
     } finally {
@@ -179,16 +209,45 @@ const Settings: React.FC = () => {
     }
   };
 
+  // A null change is a reset of both the settings and the constraints to their defaults
+  const auditSettingsChange = async (nextSettings: SystemSettings | null, nextConstraints: Constraint[] | null) => {
+    const previousSettings = localDb.getValue<SystemSettings>('idf_settings') ?? null;
+    if (!nextConstraints) {
+      await dataProvider.recordAudit('UPDATE', 'SETTINGS', 'system', 'Reset system settings and constraints', {
+        before: { settings: previousSettings, constraints: constraintEngine.getConstraints() },
+      });
+      return;
+    }
+    if (JSON.stringify(previousSettings) !== JSON.stringify(nextSettings)) {
+      await dataProvider.recordAudit('UPDATE', 'SETTINGS', 'system', 'Updated system settings', {
+        before: previousSettings,
+        after: nextSettings,
+      });
+    }
+
+    const previousConstraints = constraintEngine.getConstraints();
+    await Promise.all(previousConstraints.map(before => {
+      const after = nextConstraints.find(c => c.id === before.id);
+      if (!after || JSON.stringify(after) === JSON.stringify(before)) return undefined;
+      return dataProvider.recordAudit('UPDATE', 'CONSTRAINT', before.id, `Updated constraint "${before.name}"`, {
+        before,
+        after,
+      });
+    }));
+  };
+
   const resetSettings = async () => {
     if (!canManageSettings) return;
 
     try {
-      localStorage.removeItem('idf_settings');
+      await auditSettingsChange(null, null);
+      await localDb.removeValue('idf_settings');
+      await constraintEngine.saveConstraints([]);
       window.location.reload();
     } catch (error) {
       toast({
-        title: "Error",
-        description: "Failed to reset settings. Please try again.",
+        title: t('settings.error'),
+        description: t('settings.resetFailed'),
         variant: "destructive",
       });
     }
@@ -215,13 +274,13 @@ const Settings: React.FC = () => {
         const importedSettings = JSON.parse(e.target?.result as string);
         setSettings(importedSettings);
         toast({
-          title: "Settings Imported",
-          description: "Settings have been imported successfully. Don't forget to save.",
+          title: t('settings.imported'),
+          description: t('settings.importedDescription'),
         });
       } catch (error) {
         toast({
-          title: "Import Error",
-          description: "Invalid settings file format.",
+          title: t('settings.importError'),
+          description: t('settings.invalidFile'),
           variant: "destructive",
         });
       }
@@ -231,49 +290,115 @@ const Settings: React.FC = () => {
 
   const performBackup = async () => {
     try {
-      const backupData = {
-        settings,
-        timestamp: new Date().toISOString(),
-        version: '1.0',
-      };
-      
-      const dataStr = JSON.stringify(backupData, null, 2);
-      const dataBlob = new Blob([dataStr], { type: 'application/json' });
-      const url = URL.createObjectURL(dataBlob);
-      const link = document.createElement('a');
-      link.href = url;
-      link.download = `idf-backup-${new Date().toISOString().split('T')[0]}.json`;
-      link.click();
-      URL.revokeObjectURL(url);
+      const backup = await backupService.createBackup(user!.id);
+      backupService.downloadBackup(backup);
+      await backupService.recordLastBackup(backup.createdAt);
 
       setSettings(prev => ({
         ...prev,
         backup: {
           ...prev.backup,
-          lastBackup: new Date().toISOString(),
+          lastBackup: backup.createdAt,
         },
       }));
 
       toast({
-        title: "Backup Complete",
-        description: "System backup has been downloaded successfully.",
+        title: t('settings.backupComplete'),
+        description: t('settings.backupCompleteDescription'),
       });
       setShowBackupDialog(false);
     } catch (error) {
+      console.error('Error creating backup:', error);
+      toast({
+        title: t('settings.backupFailed'),
+        description: t('settings.backupFailedDescription'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const prepareRestore = async (source: string, validation: BackupValidation) => {
+    try {
+      const preview = validation.backup ? await backupService.previewRestore(validation.backup) : [];
+      setRestorePlan({ source, validation, preview });
+    } catch (error) {
+      console.error('Error preparing restore:', error);
+      toast({
+        title: t('settings.restoreError'),
+        description: t('settings.restoreCompareFailed'),
+        variant: "destructive",
+      });
+    }
+  };
+
+  const selectRestoreFile = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      prepareRestore(file.name, backupService.parseBackup(e.target?.result as string));
+    };
+    reader.readAsText(file);
+  };
+
+  const selectAutoBackup = (stored: StoredBackup) => {
+    prepareRestore(
+      t('settings.autoBackupFrom', { time: new Date(stored.createdAt).toLocaleString() }),
+      backupService.validateBackup(stored.backup)
+    );
+  };
+
+  const confirmRestore = async () => {
+    const backup = restorePlan?.validation.backup;
+    if (!backup) return;
+
+    setRestoring(true);
+    try {
+      await backupService.restoreBackup(backup, user!.id);
+      toast({
+        title: t('settings.backupRestored'),
+        description: t('settings.backupRestoredDescription'),
+      });
+      window.location.reload();
+    } catch (error) {
+      console.error('Error restoring backup:', error);
       toast({
-        title: "Backup Failed",
-        description: "Failed to create backup. Please try again.",
+        title: t('settings.restoreFailed'),
+        description: t('settings.restoreFailedDescription'),
         variant: "destructive",
       });
+      setAutoBackups(await backupService.getAutoBackups());
+      setRestoring(false);
     }
   };
 
+  const deleteAutoBackup = async (backupId: string) => {
+    await backupService.deleteAutoBackup(backupId);
+    setAutoBackups(await backupService.getAutoBackups());
+  };
+
+  const describeCreator = (backup: BackupFile) => {
+    const creator = backup.data.users.find(u => u.id === backup.createdBy);
+    return creator ? `${creator.rank} ${creator.firstName} ${creator.lastName}` : backup.createdBy || t('settings.unknownCreator');
+  };
+
+  const constraintText = (constraintId: string, field: string, fallback: string) => {
+    const key = `constraints.${constraintId}.${field}`;
+    return hasTranslation(key) ? t(key) : fallback;
+  };
+
+  const updateConstraint = (constraintId: string, updates: Partial<Constraint>) => {
+    setConstraints(prev => prev.map(c => c.id === constraintId ? { ...c, ...updates } : c));
+  };
+
   if (!canManageSettings) {
     return (
       <div className="text-center py-12">
         <Shield className="h-12 w-12 text-gray-400 mx-auto mb-4" />
-        <h2 className="text-xl font-semibold text-gray-900 mb-2">Access Restricted</h2>
-        <p className="text-gray-600">You don't have permission to access system settings.</p>
+        <h2 className="text-xl font-semibold text-gray-900 mb-2">{t('settings.accessRestricted')}</h2>
+        <p className="text-gray-600">{t('settings.noPermission')}</p>
       </div>
     );
   }
@@ -283,8 +408,8 @@ const Settings: React.FC = () => {
       {/* Header */}
       <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-4 lg:space-y-0">
         <div>
-          <h1 className="text-2xl font-bold text-gray-900">System Settings</h1>
-          <p className="text-gray-600">Configure system parameters and preferences</p>
+          <h1 className="text-2xl font-bold text-gray-900">{t('settings.title')}</h1>
+          <p className="text-gray-600">{t('settings.subtitle')}</p>
         </div>
 
         <div className="flex items-center space-x-3">
@@ -299,14 +424,14 @@ const Settings: React.FC = () => {
             <Button variant="outline" size="sm" asChild>
               <span>
                 <Upload className="h-4 w-4 mr-2" />
-                Import
+                {t('settings.import')}
               </span>
             </Button>
           </label>
           
           <Button variant="outline" size="sm" onClick={exportSettings}>
             <Download className="h-4 w-4 mr-2" />
-            Export
+            {t('settings.export')}
           </Button>
           
           <Button onClick={saveSettings} disabled={loading}>
@@ -315,7 +440,7 @@ const Settings: React.FC = () => {
             ) : (
               <Save className="h-4 w-4 mr-2" />
             )}
-            Save Changes
+            {t('settings.saveChanges')}
           </Button>
         </div>
       </div>
@@ -325,14 +450,14 @@ const Settings: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <SettingsIcon className="h-5 w-5" />
-            <span>General Settings</span>
+            <span>{t('settings.general')}</span>
           </CardTitle>
-          <CardDescription>Basic system configuration and appearance</CardDescription>
+          <CardDescription>{t('settings.generalDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
-              <Label htmlFor="siteName">Site Name</Label>
+              <Label htmlFor="siteName">{t('settings.siteName')}</Label>
               <Input
                 id="siteName"
                 value={settings.general.siteName}
@@ -344,7 +469,7 @@ const Settings: React.FC = () => {
             </div>
             
             <div className="space-y-2">
-              <Label htmlFor="timezone">Timezone</Label>
+              <Label htmlFor="timezone">{t('settings.timezone')}</Label>
               <Select 
                 value={settings.general.timezone} 
                 onValueChange={(value) => setSettings(prev => ({
@@ -365,7 +490,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="language">Language</Label>
+              <Label htmlFor="language">{t('preferences.language')}</Label>
               <Select 
                 value={settings.general.language} 
                 onValueChange={(value) => setSettings(prev => ({
@@ -385,7 +510,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="theme">Theme</Label>
+              <Label htmlFor="theme">{t('settings.theme')}</Label>
               <Select 
                 value={settings.general.theme} 
                 onValueChange={(value: 'light' | 'dark' | 'auto') => setSettings(prev => ({
@@ -400,19 +525,19 @@ const Settings: React.FC = () => {
                   <SelectItem value="light">
                     <div className="flex items-center">
                       <Sun className="h-4 w-4 mr-2" />
-                      Light
+                      {t('settings.themeLight')}
                     </div>
                   </SelectItem>
                   <SelectItem value="dark">
                     <div className="flex items-center">
                       <Moon className="h-4 w-4 mr-2" />
-                      Dark
+                      {t('settings.themeDark')}
                     </div>
                   </SelectItem>
                   <SelectItem value="auto">
                     <div className="flex items-center">
                       <Globe className="h-4 w-4 mr-2" />
-                      Auto
+                      {t('settings.themeAuto')}
                     </div>
                   </SelectItem>
                 </SelectContent>
@@ -420,7 +545,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="dateFormat">Date Format</Label>
+              <Label htmlFor="dateFormat">{t('settings.dateFormat')}</Label>
               <Select 
                 value={settings.general.dateFormat} 
                 onValueChange={(value) => setSettings(prev => ({
@@ -440,7 +565,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="timeFormat">Time Format</Label>
+              <Label htmlFor="timeFormat">{t('settings.timeFormat')}</Label>
               <Select 
                 value={settings.general.timeFormat} 
                 onValueChange={(value: '12h' | '24h') => setSettings(prev => ({
@@ -452,8 +577,8 @@ const Settings: React.FC = () => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="12h">12 Hour (AM/PM)</SelectItem>
-                  <SelectItem value="24h">24 Hour</SelectItem>
+                  <SelectItem value="12h">{t('settings.time12h')}</SelectItem>
+                  <SelectItem value="24h">{t('settings.time24h')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
@@ -466,14 +591,14 @@ const Settings: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Shield className="h-5 w-5" />
-            <span>Security Settings</span>
+            <span>{t('settings.security')}</span>
           </CardTitle>
-          <CardDescription>Authentication and security configuration</CardDescription>
+          <CardDescription>{t('settings.securityDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
-              <Label htmlFor="sessionTimeout">Session Timeout (minutes)</Label>
+              <Label htmlFor="sessionTimeout">{t('settings.sessionTimeout')}</Label>
               <Input
                 id="sessionTimeout"
                 type="number"
@@ -486,7 +611,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="passwordMinLength">Minimum Password Length</Label>
+              <Label htmlFor="passwordMinLength">{t('settings.passwordMinLength')}</Label>
               <Input
                 id="passwordMinLength"
                 type="number"
@@ -499,7 +624,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="maxLoginAttempts">Max Login Attempts</Label>
+              <Label htmlFor="maxLoginAttempts">{t('settings.maxLoginAttempts')}</Label>
               <Input
                 id="maxLoginAttempts"
                 type="number"
@@ -512,7 +637,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="lockoutDuration">Lockout Duration (minutes)</Label>
+              <Label htmlFor="lockoutDuration">{t('settings.lockoutDuration')}</Label>
               <Input
                 id="lockoutDuration"
                 type="number"
@@ -530,8 +655,8 @@ const Settings: React.FC = () => {
           <div className="space-y-4">
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
-                <Label>Two-Factor Authentication</Label>
-                <p className="text-sm text-gray-500">Require 2FA for all users</p>
+                <Label>{t('settings.twoFactor')}</Label>
+                <p className="text-sm text-gray-500">{t('settings.twoFactorDescription')}</p>
               </div>
               <Switch
                 checked={settings.security.requireTwoFactor}
@@ -544,8 +669,8 @@ const Settings: React.FC = () => {
 
             <div className="flex items-center justify-between">
               <div className="space-y-0.5">
-                <Label>Audit Logging</Label>
-                <p className="text-sm text-gray-500">Log all user activities</p>
+                <Label>{t('settings.auditLogging')}</Label>
+                <p className="text-sm text-gray-500">{t('settings.auditLoggingDescription')}</p>
               </div>
               <Switch
                 checked={settings.security.auditLogging}
@@ -564,14 +689,14 @@ const Settings: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Clock className="h-5 w-5" />
-            <span>Scheduling Settings</span>
+            <span>{t('settings.scheduling')}</span>
           </CardTitle>
-          <CardDescription>Default values and constraints for duty scheduling</CardDescription>
+          <CardDescription>{t('settings.schedulingDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
-              <Label htmlFor="defaultDutyDuration">Default Duty Duration (hours)</Label>
+              <Label htmlFor="defaultDutyDuration">{t('settings.defaultDutyDuration')}</Label>
               <Input
                 id="defaultDutyDuration"
                 type="number"
@@ -584,7 +709,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="minRestPeriod">Minimum Rest Period (hours)</Label>
+              <Label htmlFor="minRestPeriod">{t('settings.minRestPeriod')}</Label>
               <Input
                 id="minRestPeriod"
                 type="number"
@@ -597,7 +722,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="maxConsecutiveHours">Max Consecutive Hours</Label>
+              <Label htmlFor="maxConsecutiveHours">{t('settings.maxConsecutiveHours')}</Label>
               <Input
                 id="maxConsecutiveHours"
                 type="number"
@@ -610,7 +735,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="advancedSchedulingDays">Advanced Scheduling (days)</Label>
+              <Label htmlFor="advancedSchedulingDays">{t('settings.advancedSchedulingDays')}</Label>
               <Input
                 id="advancedSchedulingDays"
                 type="number"
@@ -623,7 +748,7 @@ const Settings: React.FC = () => {
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="dutyReminderHours">Duty Reminder (hours before)</Label>
+              <Label htmlFor="dutyReminderHours">{t('settings.dutyReminderHours')}</Label>
               <Input
                 id="dutyReminderHours"
                 type="number"
@@ -640,8 +765,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Auto Conflict Detection</Label>
-              <p className="text-sm text-gray-500">Automatically detect and alert on scheduling conflicts</p>
+              <Label>{t('settings.autoConflictDetection')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.autoConflictDetectionDescription')}</p>
             </div>
             <Switch
               checked={settings.scheduling.autoConflictDetection}
@@ -654,20 +779,95 @@ const Settings: React.FC = () => {
         </CardContent>
       </Card>
 
+      {/* Constraint Rules */}
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center space-x-2">
+            <ListChecks className="h-5 w-5" />
+            <span>{t('settings.constraintRules')}</span>
+          </CardTitle>
+          <CardDescription>{t('settings.constraintRulesDescription')}</CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          {constraints.map((constraint, index) => {
+            const rule = constraintEngine.getRule(constraint.id);
+            return (
+              <div key={constraint.id} className="space-y-3">
+                {index > 0 && <Separator />}
+                <div className="flex items-center justify-between">
+                  <div className="space-y-0.5">
+                    <Label>{constraintText(constraint.id, 'name', constraint.name)}</Label>
+                    <p className="text-sm text-gray-500">{constraintText(constraint.id, 'description', constraint.description)}</p>
+                  </div>
+                  <div className="flex items-center space-x-3">
+                    <Select
+                      value={constraint.type}
+                      onValueChange={(value: Constraint['type']) => updateConstraint(constraint.id, { type: value })}
+                    >
+                      <SelectTrigger className="w-32 h-8">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="AUTOMATED">{t('settings.enforced')}</SelectItem>
+                        <SelectItem value="MANUAL">{t('settings.advisory')}</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <Switch
+                      checked={constraint.isActive}
+                      onCheckedChange={(checked) => updateConstraint(constraint.id, { isActive: checked })}
+                    />
+                  </div>
+                </div>
+
+                {Object.keys(constraint.parameters).length > 0 && (
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {Object.entries(constraint.parameters).map(([key, value]) => (
+                      <div key={key} className="space-y-2">
+                        <Label htmlFor={`${constraint.id}-${key}`}>{constraintText(constraint.id, key, rule?.parameterLabels[key] || key)}</Label>
+                        <Input
+                          id={`${constraint.id}-${key}`}
+                          type="number"
+                          min={0}
+                          value={value}
+                          disabled={!constraint.isActive}
+                          onChange={(e) => updateConstraint(constraint.id, {
+                            parameters: { ...constraint.parameters, [key]: parseFloat(e.target.value) || 0 }
+                          })}
+                        />
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {constraint.overriddenAt && (
+                  <p className="text-xs text-gray-500">
+                    {t('settings.lastOverridden', {
+                      time: new Date(constraint.overriddenAt).toLocaleString(),
+                      user: constraint.overriddenBy,
+                      reason: constraint.overrideReason,
+                    })}
+                  </p>
+                )}
+              </div>
+            );
+          })}
+        </CardContent>
+      </Card>
+
       {/* Notification Settings */}
       <Card>
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Bell className="h-5 w-5" />
-            <span>Notification Settings</span>
+            <span>{t('settings.notifications')}</span>
           </CardTitle>
-          <CardDescription>Configure notification preferences</CardDescription>
+          <CardDescription>{t('settings.notificationsDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-4">
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Email Notifications</Label>
-              <p className="text-sm text-gray-500">Send notifications via email</p>
+              <Label>{t('settings.emailNotifications')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.emailNotificationsDescription')}</p>
             </div>
             <Switch
               checked={settings.notifications.emailNotifications}
@@ -680,8 +880,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Push Notifications</Label>
-              <p className="text-sm text-gray-500">Browser push notifications</p>
+              <Label>{t('settings.pushNotifications')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.pushNotificationsDescription')}</p>
             </div>
             <Switch
               checked={settings.notifications.pushNotifications}
@@ -694,8 +894,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Duty Assignments</Label>
-              <p className="text-sm text-gray-500">Notify when duties are assigned</p>
+              <Label>{t('settings.dutyAssignments')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.dutyAssignmentsDescription')}</p>
             </div>
             <Switch
               checked={settings.notifications.dutyAssignments}
@@ -708,8 +908,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Conflict Alerts</Label>
-              <p className="text-sm text-gray-500">Notify when conflicts are detected</p>
+              <Label>{t('settings.conflictAlerts')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.conflictAlertsDescription')}</p>
             </div>
             <Switch
               checked={settings.notifications.conflictAlerts}
@@ -722,8 +922,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>System Maintenance</Label>
-              <p className="text-sm text-gray-500">Notify about system maintenance</p>
+              <Label>{t('settings.systemMaintenance')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.systemMaintenanceDescription')}</p>
             </div>
             <Switch
               checked={settings.notifications.systemMaintenance}
@@ -736,8 +936,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Weekly Reports</Label>
-              <p className="text-sm text-gray-500">Send weekly summary reports</p>
+              <Label>{t('settings.weeklyReports')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.weeklyReportsDescription')}</p>
             </div>
             <Switch
               checked={settings.notifications.weeklyReports}
@@ -755,14 +955,14 @@ const Settings: React.FC = () => {
         <CardHeader>
           <CardTitle className="flex items-center space-x-2">
             <Download className="h-5 w-5" />
-            <span>Backup & Maintenance</span>
+            <span>{t('settings.backup')}</span>
           </CardTitle>
-          <CardDescription>System backup and maintenance settings</CardDescription>
+          <CardDescription>{t('settings.backupDescription')}</CardDescription>
         </CardHeader>
         <CardContent className="space-y-6">
           <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
             <div className="space-y-2">
-              <Label htmlFor="backupFrequency">Backup Frequency</Label>
+              <Label htmlFor="backupFrequency">{t('settings.backupFrequency')}</Label>
               <Select 
                 value={settings.backup.backupFrequency} 
                 onValueChange={(value: 'daily' | 'weekly' | 'monthly') => setSettings(prev => ({
@@ -774,15 +974,15 @@ const Settings: React.FC = () => {
                   <SelectValue />
                 </SelectTrigger>
                 <SelectContent>
-                  <SelectItem value="daily">Daily</SelectItem>
-                  <SelectItem value="weekly">Weekly</SelectItem>
-                  <SelectItem value="monthly">Monthly</SelectItem>
+                  <SelectItem value="daily">{t('settings.daily')}</SelectItem>
+                  <SelectItem value="weekly">{t('settings.weekly')}</SelectItem>
+                  <SelectItem value="monthly">{t('settings.monthly')}</SelectItem>
                 </SelectContent>
               </Select>
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="retentionDays">Retention Period (days)</Label>
+              <Label htmlFor="retentionDays">{t('settings.retentionDays')}</Label>
               <Input
                 id="retentionDays"
                 type="number"
@@ -799,8 +999,8 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Automatic Backup</Label>
-              <p className="text-sm text-gray-500">Enable scheduled automatic backups</p>
+              <Label>{t('settings.autoBackup')}</Label>
+              <p className="text-sm text-gray-500">{t('settings.autoBackupDescription')}</p>
             </div>
             <Switch
               checked={settings.backup.autoBackup}
@@ -813,54 +1013,203 @@ const Settings: React.FC = () => {
 
           <div className="flex items-center justify-between">
             <div className="space-y-0.5">
-              <Label>Last Backup</Label>
+              <Label>{t('settings.lastBackup')}</Label>
               <p className="text-sm text-gray-500">
-                {new Date(settings.backup.lastBackup).toLocaleString()}
+                {settings.backup.lastBackup ? new Date(settings.backup.lastBackup).toLocaleString() : t('settings.never')}
               </p>
             </div>
-            <Dialog open={showBackupDialog} onOpenChange={setShowBackupDialog}>
-              <DialogTrigger asChild>
-                <Button variant="outline">
-                  <Download className="h-4 w-4 mr-2" />
-                  Backup Now
+            <div className="flex items-center space-x-2">
+              <input
+                type="file"
+                accept=".json"
+                onChange={selectRestoreFile}
+                className="hidden"
+                id="restore-backup"
+              />
+              <label htmlFor="restore-backup">
+                <Button variant="outline" asChild>
+                  <span>
+                    <Upload className="h-4 w-4 mr-2" />
+                    {t('settings.restore')}
+                  </span>
                 </Button>
-              </DialogTrigger>
-              <DialogContent>
-                <DialogHeader>
-                  <DialogTitle>Create System Backup</DialogTitle>
-                  <DialogDescription>
-                    This will create a complete backup of your system settings and data.
-                  </DialogDescription>
-                </DialogHeader>
-                <DialogFooter>
-                  <Button variant="outline" onClick={() => setShowBackupDialog(false)}>
-                    Cancel
-                  </Button>
-                  <Button onClick={performBackup}>
+              </label>
+              <Dialog open={showBackupDialog} onOpenChange={setShowBackupDialog}>
+                <DialogTrigger asChild>
+                  <Button variant="outline">
                     <Download className="h-4 w-4 mr-2" />
-                    Create Backup
+                    {t('settings.backupNow')}
                   </Button>
-                </DialogFooter>
-              </DialogContent>
-            </Dialog>
+                </DialogTrigger>
+                <DialogContent>
+                  <DialogHeader>
+                    <DialogTitle>{t('settings.createBackupTitle')}</DialogTitle>
+                    <DialogDescription>{t('settings.createBackupDescription')}</DialogDescription>
+                  </DialogHeader>
+                  <DialogFooter>
+                    <Button variant="outline" onClick={() => setShowBackupDialog(false)}>
+                      {t('common.cancel')}
+                    </Button>
+                    <Button onClick={performBackup}>
+                      <Download className="h-4 w-4 mr-2" />
+                      {t('settings.createBackup')}
+                    </Button>
+                  </DialogFooter>
+                </DialogContent>
+              </Dialog>
+            </div>
+          </div>
+
+          <Separator />
+
+          <div className="space-y-2">
+            <Label>{t('settings.automaticBackups')}</Label>
+            {autoBackups.length === 0 ? (
+              <p className="text-sm text-gray-500">{t('settings.noAutoBackups')}</p>
+            ) : (
+              <div className="space-y-2">
+                {autoBackups.map(stored => (
+                  <div key={stored.id} className="flex items-center justify-between p-3 border rounded-lg">
+                    <div>
+                      <p className="text-sm font-medium">{new Date(stored.createdAt).toLocaleString()}</p>
+                      <p className="text-xs text-gray-500">
+                        {t('settings.backupContents', {
+                          schedules: stored.backup.data.schedules.length,
+                          personnel: stored.backup.data.users.length,
+                        })}
+                      </p>
+                    </div>
+                    <div className="flex items-center space-x-2">
+                      <Badge variant="outline">
+                        {stored.trigger === 'pre-restore' ? t('settings.beforeRestore') : t('settings.scheduled')}
+                      </Badge>
+                      <Button variant="ghost" size="sm" title={t('settings.download')} onClick={() => backupService.downloadBackup(stored.backup)}>
+                        <Download className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title={t('settings.restore')} onClick={() => selectAutoBackup(stored)}>
+                        <RefreshCw className="h-4 w-4" />
+                      </Button>
+                      <Button variant="ghost" size="sm" title={t('common.delete')} onClick={() => deleteAutoBackup(stored.id)}>
+                        <Trash2 className="h-4 w-4" />
+                      </Button>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
           </div>
         </CardContent>
       </Card>
 
+      <Dialog open={!!restorePlan} onOpenChange={(open) => !open && !restoring && setRestorePlan(null)}>
+        <DialogContent className="max-w-3xl">
+          <DialogHeader>
+            <DialogTitle>{t('settings.restoreBackup')}</DialogTitle>
+            <DialogDescription>{restorePlan?.source}</DialogDescription>
+          </DialogHeader>
+
+          {restorePlan && !restorePlan.validation.backup && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                <p className="font-medium mb-1">{t('settings.cannotRestore')}</p>
+                <ul className="list-disc pl-5 space-y-0.5">
+                  {restorePlan.validation.errors.map(error => <li key={error}>{error}</li>)}
+                </ul>
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {restorePlan?.validation.backup && (
+            <div className="space-y-4">
+              <p className="text-sm text-gray-600">
+                {t('settings.backupCreated', {
+                  time: new Date(restorePlan.validation.backup.createdAt).toLocaleString(),
+                  user: describeCreator(restorePlan.validation.backup),
+                  version: restorePlan.validation.backup.version,
+                })}
+              </p>
+
+              {restorePlan.validation.warnings.length > 0 && (
+                <Alert>
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertDescription>
+                    <ul className="list-disc pl-5 space-y-0.5">
+                      {restorePlan.validation.warnings.map(warning => <li key={warning}>{warning}</li>)}
+                    </ul>
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className="max-h-80 overflow-y-auto">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>{t('settings.data')}</TableHead>
+                      <TableHead className="text-right">{t('settings.current')}</TableHead>
+                      <TableHead className="text-right">{t('settings.inBackup')}</TableHead>
+                      <TableHead className="text-right">{t('settings.new')}</TableHead>
+                      <TableHead className="text-right">{t('settings.overwritten')}</TableHead>
+                      <TableHead className="text-right">{t('settings.removed')}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {restorePlan.preview.map(row => (
+                      <TableRow key={row.key}>
+                        <TableCell className="font-medium">{t(`settings.collections.${row.key}` as TranslationKey)}</TableCell>
+                        <TableCell className="text-right">{row.current}</TableCell>
+                        <TableCell className="text-right">{row.incoming}</TableCell>
+                        <TableCell className="text-right text-green-700">{row.added || '-'}</TableCell>
+                        <TableCell className="text-right text-yellow-700">{row.updated || '-'}</TableCell>
+                        <TableCell className="text-right text-red-700">{row.removed || '-'}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <Alert>
+                <AlertTriangle className="h-4 w-4" />
+                <AlertDescription>
+                  {restorePlan.validation.backup.data.settings
+                    ? t('settings.restoreReplacesWithSettings')
+                    : t('settings.restoreReplaces')}{' '}
+                  {t('settings.restoreKeepsCurrent')}
+                </AlertDescription>
+              </Alert>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setRestorePlan(null)} disabled={restoring}>
+              {t('common.cancel')}
+            </Button>
+            <Button
+              variant="destructive"
+              onClick={confirmRestore}
+              disabled={!restorePlan?.validation.backup || restoring}
+            >
+              <Upload className="h-4 w-4 mr-2" />
+              {restoring ? t('settings.restoring') : t('settings.restoreBackup')}
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
       {/* Danger Zone */}
       <Card className="border-red-200">
         <CardHeader>
           <CardTitle className="flex items-center space-x-2 text-red-600">
             <AlertTriangle className="h-5 w-5" />
-            <span>Danger Zone</span>
+            <span>{t('settings.dangerZone')}</span>
           </CardTitle>
-          <CardDescription>Irreversible and destructive actions</CardDescription>
+          <CardDescription>{t('settings.dangerZoneDescription')}</CardDescription>
         </CardHeader>
         <CardContent>
           <Alert>
             <AlertTriangle className="h-4 w-4" />
             <AlertDescription>
-              These actions cannot be undone. Please proceed with caution.
+              {t('settings.dangerZoneWarning')}
             </AlertDescription>
           </Alert>
 
@@ -869,23 +1218,21 @@ const Settings: React.FC = () => {
               <DialogTrigger asChild>
                 <Button variant="destructive">
                   <Trash2 className="h-4 w-4 mr-2" />
-                  Reset All Settings
+                  {t('settings.resetAll')}
                 </Button>
               </DialogTrigger>
               <DialogContent>
                 <DialogHeader>
-                  <DialogTitle>Reset All Settings</DialogTitle>
-                  <DialogDescription>
-                    This will reset all system settings to their default values. This action cannot be undone.
-                  </DialogDescription>
+                  <DialogTitle>{t('settings.resetAll')}</DialogTitle>
+                  <DialogDescription>{t('settings.resetDescription')}</DialogDescription>
                 </DialogHeader>
                 <DialogFooter>
                   <Button variant="outline" onClick={() => setShowResetDialog(false)}>
-                    Cancel
+                    {t('common.cancel')}
                   </Button>
                   <Button variant="destructive" onClick={resetSettings}>
                     <Trash2 className="h-4 w-4 mr-2" />
-                    Reset Settings
+                    {t('settings.reset')}
                   </Button>
                 </DialogFooter>
               </DialogContent>
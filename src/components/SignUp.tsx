@@ -25,7 +25,8 @@ import {
   UserPlus
 } from 'lucide-react';
 import { useAuth } from '@/contexts/AuthContext';
-import { apiService } from '@/lib/api';
+import { useLanguage } from '@/hooks/use-language';
+import { dataProvider } from '@/lib/data-provider';
 
 interface SignUpProps {
   onBackToLogin: () => void;
@@ -33,6 +34,7 @@ interface SignUpProps {
 
 const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
   const { login } = useAuth();
+  const { t } = useLanguage();
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState('');
 
@@ -110,37 +112,37 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
 
   const validateForm = (): boolean => {
     if (!formData.firstName || !formData.lastName) {
-      setError('שם פרטי ושם משפחה נדרשים');
+      setError(t('signup.nameRequired'));
       return false;
     }
 
     if (!formData.email || !/\S+@\S+\.\S+/.test(formData.email)) {
-      setError('אימייל תקין נדרש');
+      setError(t('signup.emailRequired'));
       return false;
     }
 
     if (!formData.password || formData.password.length < 6) {
-      setError('סיסמה חייבת להכיל לפחות 6 תווים');
+      setError(t('signup.passwordTooShort'));
       return false;
     }
 
     if (formData.password !== formData.confirmPassword) {
-      setError('סיסמאות אינן תואמות');
+      setError(t('signup.passwordMismatch'));
       return false;
     }
 
     if (!formData.serviceNumber || formData.serviceNumber.length < 7) {
-      setError('מספר אישי תקין נדרש (7 ספרות לפחות)');
+      setError(t('signup.serviceNumberRequired'));
       return false;
     }
 
     if (!formData.rank || !formData.unit) {
-      setError('דרגה ויחידה נדרשים');
+      setError(t('signup.rankUnitRequired'));
       return false;
     }
 
     if (!formData.acceptTerms || !formData.acceptPrivacy) {
-      setError('יש לאשר את תנאי השימוש ומדיניות הפרטיות');
+      setError(t('signup.termsRequired'));
       return false;
     }
 
@@ -157,7 +159,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
     setLoading(true);
     try {
       // Create new user
-      const newUser = await apiService.createUser({
+      const newUser = await dataProvider.createUser({
         firstName: formData.firstName,
         lastName: formData.lastName,
         email: formData.email,
@@ -178,7 +180,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
       await login(formData.email, formData.password);
       
     } catch (error: any) {
-      setError(error.message || 'שגיאה ביצירת המשתמש');
+      setError(error.message || t('signup.failed'));
     } finally {
       setLoading(false);
     }
@@ -196,10 +198,10 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
             />
           </div>
           <CardTitle className="text-2xl font-bold text-gray-900">
-            הרשמה למערכת ניהול מילואים
+            {t('signup.title')}
           </CardTitle>
           <CardDescription className="text-gray-600">
-            יצירת חשבון חדש למילואימניקים
+            {t('signup.description')}
           </CardDescription>
         </CardHeader>
 
@@ -215,33 +217,33 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
             {/* Personal Information Section */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">
-                מידע אישי
+                {t('signup.personalInfo')}
               </h3>
               
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
                   <Label htmlFor="firstName" className="flex items-center space-x-2">
                     <User className="h-4 w-4" />
-                    <span>שם פרטי *</span>
+                    <span>{t('signup.firstName')}</span>
                   </Label>
                   <Input
                     id="firstName"
                     type="text"
                     value={formData.firstName}
                     onChange={(e) => handleInputChange('firstName', e.target.value)}
-                    placeholder="הכנס שם פרטי"
+                    placeholder={t('signup.firstNamePlaceholder')}
                     required
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="lastName">שם משפחה *</Label>
+                  <Label htmlFor="lastName">{t('signup.lastName')}</Label>
                   <Input
                     id="lastName"
                     type="text"
                     value={formData.lastName}
                     onChange={(e) => handleInputChange('lastName', e.target.value)}
-                    placeholder="הכנס שם משפחה"
+                    placeholder={t('signup.lastNamePlaceholder')}
                     required
                   />
                 </div>
@@ -250,7 +252,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
               <div>
                 <Label htmlFor="email" className="flex items-center space-x-2">
                   <Mail className="h-4 w-4" />
-                  <span>אימייל *</span>
+                  <span>{t('signup.email')}</span>
                 </Label>
                 <Input
                   id="email"
@@ -266,26 +268,26 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 <div>
                   <Label htmlFor="password" className="flex items-center space-x-2">
                     <Lock className="h-4 w-4" />
-                    <span>סיסמה *</span>
+                    <span>{t('signup.password')}</span>
                   </Label>
                   <Input
                     id="password"
                     type="password"
                     value={formData.password}
                     onChange={(e) => handleInputChange('password', e.target.value)}
-                    placeholder="לפחות 6 תווים"
+                    placeholder={t('signup.passwordPlaceholder')}
                     required
                   />
                 </div>
 
                 <div>
-                  <Label htmlFor="confirmPassword">אישור סיסמה *</Label>
+                  <Label htmlFor="confirmPassword">{t('signup.confirmPassword')}</Label>
                   <Input
                     id="confirmPassword"
                     type="password"
                     value={formData.confirmPassword}
                     onChange={(e) => handleInputChange('confirmPassword', e.target.value)}
-                    placeholder="חזור על הסיסמה"
+                    placeholder={t('signup.confirmPasswordPlaceholder')}
                     required
                   />
                 </div>
@@ -295,7 +297,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 <div>
                   <Label htmlFor="phone" className="flex items-center space-x-2">
                     <Phone className="h-4 w-4" />
-                    <span>טלפון</span>
+                    <span>{t('signup.phone')}</span>
                   </Label>
                   <Input
                     id="phone"
@@ -309,7 +311,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 <div>
                   <Label htmlFor="dateOfBirth" className="flex items-center space-x-2">
                     <Calendar className="h-4 w-4" />
-                    <span>תאריך לידה</span>
+                    <span>{t('signup.dateOfBirth')}</span>
                   </Label>
                   <Input
                     id="dateOfBirth"
@@ -324,13 +326,13 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
             {/* Military Information Section */}
             <div className="space-y-4">
               <h3 className="text-lg font-semibold text-gray-900 border-b pb-2">
-                מידע צבאי
+                {t('signup.militaryInfo')}
               </h3>
 
               <div>
                 <Label htmlFor="serviceNumber" className="flex items-center space-x-2">
                   <Shield className="h-4 w-4" />
-                  <span>מספר אישי *</span>
+                  <span>{t('signup.serviceNumber')}</span>
                 </Label>
                 <Input
                   id="serviceNumber"
@@ -344,13 +346,13 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="rank">דרגה *</Label>
+                  <Label htmlFor="rank">{t('signup.rank')}</Label>
                   <Select 
                     value={formData.rank} 
                     onValueChange={(value) => handleInputChange('rank', value)}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="בחר דרגה" />
+                      <SelectValue placeholder={t('signup.selectRank')} />
                     </SelectTrigger>
                     <SelectContent>
                       {ranks.map(rank => (
@@ -365,14 +367,14 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 <div>
                   <Label htmlFor="unit" className="flex items-center space-x-2">
                     <MapPin className="h-4 w-4" />
-                    <span>יחידה *</span>
+                    <span>{t('signup.unit')}</span>
                   </Label>
                   <Select 
                     value={formData.unit} 
                     onValueChange={(value) => handleInputChange('unit', value)}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="בחר יחידה" />
+                      <SelectValue placeholder={t('signup.selectUnit')} />
                     </SelectTrigger>
                     <SelectContent>
                       {units.map(unit => (
@@ -387,13 +389,13 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
 
               <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
                 <div>
-                  <Label htmlFor="specialization">התמחות</Label>
+                  <Label htmlFor="specialization">{t('signup.specialization')}</Label>
                   <Select 
                     value={formData.specialization} 
                     onValueChange={(value) => handleInputChange('specialization', value)}
                   >
                     <SelectTrigger>
-                      <SelectValue placeholder="בחר התמחות" />
+                      <SelectValue placeholder={t('signup.selectSpecialization')} />
                     </SelectTrigger>
                     <SelectContent>
                       {specializations.map(spec => (
@@ -406,7 +408,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 </div>
 
                 <div>
-                  <Label htmlFor="yearsOfService">שנות שירות</Label>
+                  <Label htmlFor="yearsOfService">{t('signup.yearsOfService')}</Label>
                   <Input
                     id="yearsOfService"
                     type="number"
@@ -429,7 +431,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                   onCheckedChange={(checked) => handleInputChange('acceptTerms', !!checked)}
                 />
                 <Label htmlFor="acceptTerms" className="text-sm leading-5">
-                  אני מסכים לתנאי השימוש ולתקנון המערכת *
+                  {t('signup.acceptTerms')}
                 </Label>
               </div>
 
@@ -440,7 +442,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                   onCheckedChange={(checked) => handleInputChange('acceptPrivacy', !!checked)}
                 />
                 <Label htmlFor="acceptPrivacy" className="text-sm leading-5">
-                  אני מסכים למדיניות הפרטיות ולהגנת המידע *
+                  {t('signup.acceptPrivacy')}
                 </Label>
               </div>
             </div>
@@ -453,11 +455,11 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 disabled={loading}
               >
                 {loading ? (
-                  'יוצר חשבון...'
+                  t('signup.creating')
                 ) : (
                   <div className="flex items-center justify-center space-x-2">
                     <UserPlus className="h-4 w-4" />
-                    <span>יצירת חשבון</span>
+                    <span>{t('signup.create')}</span>
                   </div>
                 )}
               </Button>
@@ -469,7 +471,7 @@ const SignUp: React.FC<SignUpProps> = ({ onBackToLogin }) => {
                 onClick={onBackToLogin}
               >
                 <ArrowLeft className="h-4 w-4 mr-2" />
-                חזרה להתחברות
+                {t('signup.backToLogin')}
               </Button>
             </div>
           </form>
@@ -0,0 +1,210 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import moment from 'moment';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Eraser, Save } from 'lucide-react';
+import { dataProvider } from '@/lib/data-provider';
+import {
+  AvailabilityStatus,
+  buildWeekCells,
+  cellsToAvailability,
+  startOfWeek,
+} from '@/lib/availability';
+import { Availability } from '@/types';
+import { useLanguage } from '@/hooks/use-language';
+import { TranslationKey } from '@/lib/i18n';
+import { toast } from '@/hooks/use-toast';
+
+type Brush = AvailabilityStatus | 'CLEAR';
+
+const CELL_COLORS: Record<AvailabilityStatus, string> = {
+  AVAILABLE: 'bg-green-400',
+  LIMITED: 'bg-yellow-400',
+  UNAVAILABLE: 'bg-red-500',
+};
+
+const BRUSHES: { value: Brush; label: TranslationKey; className: string }[] = [
+  { value: 'AVAILABLE', label: 'availability.statuses.AVAILABLE', className: 'bg-green-400' },
+  { value: 'LIMITED', label: 'availability.statuses.LIMITED', className: 'bg-yellow-400' },
+  { value: 'UNAVAILABLE', label: 'availability.statuses.UNAVAILABLE', className: 'bg-red-500' },
+  { value: 'CLEAR', label: 'availability.grid.clear', className: 'bg-gray-100' },
+];
+
+interface WeeklyAvailabilityGridProps {
+  userId: string;
+  availability: Availability[];
+  canEdit: boolean;
+  onSaved: () => void;
+}
+
+export function WeeklyAvailabilityGrid({ userId, availability, canEdit, onSaved }: WeeklyAvailabilityGridProps) {
+  const { t } = useLanguage();
+  const [weekStart, setWeekStart] = useState(() => startOfWeek(new Date()));
+  const [brush, setBrush] = useState<Brush>('UNAVAILABLE');
+  const [isPainting, setIsPainting] = useState(false);
+  const [cells, setCells] = useState<(AvailabilityStatus | null)[]>([]);
+  const [isDirty, setIsDirty] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+
+  const weekEnd = useMemo(() => moment(weekStart).add(7, 'days').toDate(), [weekStart]);
+
+  // Only one-off records inside this week are repainted; patterns and longer blocks stay as they are
+  const { editable, fixed } = useMemo(() => {
+    const isInsideWeek = (a: Availability) =>
+      !a.patternId &&
+      new Date(a.startTime) >= weekStart &&
+      new Date(a.endTime) <= weekEnd;
+    const userAvailability = availability.filter(a => a.userId === userId);
+    return {
+      editable: userAvailability.filter(isInsideWeek),
+      fixed: userAvailability.filter(a => !isInsideWeek(a)),
+    };
+  }, [availability, userId, weekStart, weekEnd]);
+
+  const fixedCells = useMemo(() => buildWeekCells(userId, weekStart, fixed), [userId, weekStart, fixed]);
+
+  useEffect(() => {
+    setCells(buildWeekCells(userId, weekStart, editable));
+    setIsDirty(false);
+  }, [userId, weekStart, editable]);
+
+  useEffect(() => {
+    const stopPainting = () => setIsPainting(false);
+    window.addEventListener('mouseup', stopPainting);
+    return () => window.removeEventListener('mouseup', stopPainting);
+  }, []);
+
+  const paint = (index: number) => {
+    if (!canEdit || fixedCells[index]) return;
+    const value = brush === 'CLEAR' ? null : brush;
+    setCells(prev => prev[index] === value ? prev : prev.map((cell, i) => i === index ? value : cell));
+    setIsDirty(true);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+      await dataProvider.replaceAvailabilityInRange(
+        userId,
+        weekStart.toISOString(),
+        weekEnd.toISOString(),
+        cellsToAvailability(userId, weekStart, cells)
+      );
+      setIsDirty(false);
+      onSaved();
+      toast({
+        title: t('availability.grid.saved'),
+        description: t('availability.grid.savedDescription', { date: moment(weekStart).format('MMM D') }),
+      });
+    } catch (error) {
+      console.error('Error saving weekly availability:', error);
+      toast({
+        title: t('availability.error'),
+        description: t('availability.grid.saveFailed'),
+        variant: "destructive",
+      });
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const shiftWeek = (weeks: number) => {
+    setWeekStart(prev => moment(prev).add(weeks, 'weeks').toDate());
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col lg:flex-row lg:items-center lg:justify-between space-y-3 lg:space-y-0">
+          <div>
+            <CardTitle>{t('availability.grid.title')}</CardTitle>
+            <CardDescription>
+              {canEdit
+                ? t('availability.grid.editDescription')
+                : t('availability.grid.viewDescription')}
+            </CardDescription>
+          </div>
+          <div className="flex items-center space-x-2">
+            <Button variant="outline" size="sm" onClick={() => shiftWeek(-1)}>
+              <ChevronLeft className="h-4 w-4" />
+            </Button>
+            <span className="text-sm font-medium w-40 text-center">
+              {moment(weekStart).format('MMM D')} - {moment(weekEnd).subtract(1, 'day').format('MMM D, YYYY')}
+            </span>
+            <Button variant="outline" size="sm" onClick={() => shiftWeek(1)}>
+              <ChevronRight className="h-4 w-4" />
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {canEdit && (
+          <div className="flex flex-wrap items-center gap-2">
+            {BRUSHES.map(option => (
+              <Button
+                key={option.value}
+                variant={brush === option.value ? 'default' : 'outline'}
+                size="sm"
+                onClick={() => setBrush(option.value)}
+              >
+                {option.value === 'CLEAR'
+                  ? <Eraser className="h-4 w-4 mr-2" />
+                  : <span className={`h-3 w-3 rounded-sm mr-2 ${option.className}`} />}
+                {t(option.label)}
+              </Button>
+            ))}
+            <Button size="sm" className="ml-auto" onClick={handleSave} disabled={!isDirty || isSaving}>
+              <Save className="h-4 w-4 mr-2" />
+              {isSaving ? t('availability.grid.saving') : t('availability.grid.saveWeek')}
+            </Button>
+          </div>
+        )}
+
+        <div className="overflow-x-auto select-none">
+          <table className="border-collapse">
+            <thead>
+              <tr>
+                <th className="w-24" />
+                {Array.from({ length: 24 }, (_, hour) => (
+                  <th key={hour} className="text-[10px] font-normal text-gray-500 w-6">
+                    {hour % 3 === 0 ? String(hour).padStart(2, '0') : ''}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {Array.from({ length: 7 }, (_, day) => (
+                <tr key={day}>
+                  <td className="text-xs text-gray-700 pr-2 whitespace-nowrap">
+                    {moment(weekStart).add(day, 'days').format('ddd D/M')}
+                  </td>
+                  {Array.from({ length: 24 }, (_, hour) => {
+                    const index = day * 24 + hour;
+                    const fixedStatus = fixedCells[index];
+                    const status = fixedStatus || cells[index];
+                    return (
+                      <td
+                        key={hour}
+                        className={`h-6 w-6 border border-white ${status ? CELL_COLORS[status] : 'bg-gray-100'} ${
+                          fixedStatus ? 'opacity-60 bg-[repeating-linear-gradient(45deg,transparent,transparent_3px,rgba(255,255,255,0.5)_3px,rgba(255,255,255,0.5)_6px)]' : ''
+                        } ${canEdit && !fixedStatus ? 'cursor-pointer' : ''}`}
+                        title={`${moment(weekStart).add(index, 'hours').format('ddd HH:00')} - ${
+                          status ? t(`availability.statuses.${status}`) : t('availability.grid.noRecord')
+                        }`}
+                        onMouseDown={() => {
+                          setIsPainting(true);
+                          paint(index);
+                        }}
+                        onMouseEnter={() => isPainting && paint(index)}
+                      />
+                    );
+                  })}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
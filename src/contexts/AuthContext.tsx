@@ -1,7 +1,9 @@
 import React, { createContext, useContext, useState, useEffect, ReactNode } from 'react';
 import { User, AuthContextType } from '@/types';
 import { hasPermission } from '@/lib/auth';
-import { apiService } from '@/lib/api';
+import { dataProvider } from '@/lib/data-provider';
+import { auditService } from '@/lib/audit';
+import { localDb } from '@/lib/local-db';
 
 const AuthContext = createContext<AuthContextType | undefined>(undefined);
 
@@ -15,23 +17,22 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
 
   useEffect(() => {
     // Check for stored authentication
-    const storedUser = localStorage.getItem('idf_user');
+    const storedUser = localDb.getValue<User>('idf_user');
     if (storedUser) {
-      try {
-        const parsedUser = JSON.parse(storedUser);
-        setUser(parsedUser);
-        setIsAuthenticated(true);
-      } catch (error) {
-        console.error('Error parsing stored user:', error);
-        localStorage.removeItem('idf_user');
-      }
+      setUser(storedUser);
+      setIsAuthenticated(true);
     }
   }, []);
 
+  // Audit entries are attributed to whoever is signed in
+  useEffect(() => {
+    auditService.setActor(user);
+  }, [user]);
+
   const login = async (email: string, password: string): Promise<boolean> => {
     try {
       // Use API service to authenticate
-      const authenticatedUser = await apiService.authenticateUser(email, password);
+      const authenticatedUser = await dataProvider.authenticateUser(email, password);
       
       if (!authenticatedUser) {
         return false;
@@ -42,7 +43,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
       
       setUser(userWithoutPassword);
       setIsAuthenticated(true);
-      localStorage.setItem('idf_user', JSON.stringify(userWithoutPassword));
+      localDb.setValue('idf_user', userWithoutPassword).catch(error => {
+        console.error('Error storing session:', error);
+      });
       
       return true;
     } catch (error) {
@@ -54,7 +57,9 @@ export const AuthProvider: React.FC<AuthProviderProps> = ({ children }) => {
   const logout = () => {
     setUser(null);
     setIsAuthenticated(false);
-    localStorage.removeItem('idf_user');
+    localDb.removeValue('idf_user').catch(error => {
+      console.error('Error clearing session:', error);
+    });
   };
 
   const hasUserPermission = (permission: string): boolean => {
@@ -9,6 +9,7 @@ import {
 import { doc, getDoc, setDoc, updateDoc } from 'firebase/firestore';
 import { User, AuthContextType } from '@/types';
 import { hasPermission } from '@/lib/auth';
+import { auditService } from '@/lib/audit';
 import { auth, db, isFirebaseConfigured } from '@/lib/firebase';
 import { AuthProvider as LocalAuthProvider, useAuth as useLocalAuth } from './AuthContext';
 
@@ -43,6 +44,7 @@ export const FirebaseAuthProvider: React.FC<FirebaseAuthProviderProps> = ({ chil
           if (userProfile) {
             setUser(userProfile);
             setIsAuthenticated(true);
+            auditService.setActor(userProfile);
             
             // Update last login timestamp
             await updateLastLogin(firebaseUser.uid);
@@ -57,6 +59,7 @@ export const FirebaseAuthProvider: React.FC<FirebaseAuthProviderProps> = ({ chil
           // User is signed out
           setUser(null);
           setIsAuthenticated(false);
+          auditService.setActor(null);
         }
       } catch (error) {
         console.error('Error in auth state change:', error);
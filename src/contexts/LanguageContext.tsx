@@ -0,0 +1,59 @@
+import React, { useState, useEffect, useCallback, ReactNode } from 'react';
+import moment from 'moment';
+import { DutyType } from '@/types';
+import { useAuth } from '@/contexts/AuthContext';
+import { LanguageContext, LanguageContextType } from '@/hooks/use-language';
+import {
+  getDutyTypeName,
+  isRTL,
+  Language,
+  resolveLanguage,
+  setActiveLanguage,
+  translate,
+  TranslationKey,
+} from '@/lib/i18n';
+
+interface LanguageProviderProps {
+  children: ReactNode;
+}
+
+export const LanguageProvider: React.FC<LanguageProviderProps> = ({ children }) => {
+  const { user } = useAuth();
+  const [language, setLanguage] = useState<Language>(() => resolveLanguage(user?.id));
+
+  // Switch to the signed-in user's preference, or back to the system default on sign out
+  useEffect(() => {
+    setLanguage(resolveLanguage(user?.id));
+  }, [user?.id]);
+
+  useEffect(() => {
+    document.documentElement.lang = language;
+    document.documentElement.dir = isRTL(language) ? 'rtl' : 'ltr';
+    moment.locale(language);
+    setActiveLanguage(language);
+  }, [language]);
+
+  const t = useCallback(
+    (key: TranslationKey, params?: Record<string, string | number>) => translate(language, key, params),
+    [language]
+  );
+
+  const dutyTypeName = useCallback(
+    (dutyType: DutyType | undefined) => getDutyTypeName(dutyType, language),
+    [language]
+  );
+
+  const value: LanguageContextType = {
+    language,
+    isRTL: isRTL(language),
+    setLanguage,
+    t,
+    dutyTypeName,
+  };
+
+  return (
+    <LanguageContext.Provider value={value}>
+      {children}
+    </LanguageContext.Provider>
+  );
+};
@@ -0,0 +1,21 @@
+import { createContext, useContext } from 'react';
+import { DutyType } from '@/types';
+import { Language, TranslationKey } from '@/lib/i18n';
+
+export interface LanguageContextType {
+  language: Language;
+  isRTL: boolean;
+  setLanguage: (language: Language) => void;
+  t: (key: TranslationKey, params?: Record<string, string | number>) => string;
+  dutyTypeName: (dutyType: DutyType | undefined) => string | undefined;
+}
+
+export const LanguageContext = createContext<LanguageContextType | undefined>(undefined);
+
+export const useLanguage = (): LanguageContextType => {
+  const context = useContext(LanguageContext);
+  if (context === undefined) {
+    throw new Error('useLanguage must be used within a LanguageProvider');
+  }
+  return context;
+};
@@ -1,118 +1,248 @@
-import { User, DutyType, Schedule, Availability, DashboardStats, Conflict } from '@/types';
-
-class ApiService {
-  private baseUrl = '';
-
+import { User, DutyType, Schedule, Availability, DashboardStats, Conflict, ConflictResolution, ShiftSwap, LeaveRequest, DutyChangeRequest, RequestStatus, AvailabilityPattern, DutyTemplate, OperationalData, AuditAction, AuditEntityType, AuditEntry, AuditSnapshots, Constraint, ConstraintOverride, DataProvider, ScheduleChange, ScheduleQuery, UserChange } from '@/types';
+import { getScheduleFingerprint } from './conflict-ids';
+import { applyResolutionHistory, findScheduleConflicts } from './conflict-detection';
+import { shiftSwapService } from './shift-swaps';
+import { expandAvailabilityPatterns } from './availability';
+import { auditService, describeUserUpdate, MAX_LOCAL_AUDIT_ENTRIES } from './audit';
+import { localDb } from './local-db';
+import { assertScheduleVersion, stampScheduleChange } from './schedule-versions';
+import { getOverlapBounds, matchesScheduleQuery } from './schedule-queries';
+
+// Local mode: every record lives in the browser's IndexedDB, seeded from /data on first run
+class ApiService implements DataProvider {
   async fetchUsers(): Promise<User[]> {
     try {
-      // Combine original data with locally stored users
-      const originalUsers = await this.fetchOriginalUsers();
-      const localUsers = this.getLocalUsers();
-      
-      // Merge and deduplicate users
-      const allUsers = [...originalUsers];
-      
-      localUsers.forEach(localUser => {
-        if (!allUsers.find(u => u.id === localUser.id)) {
-          allUsers.push(localUser);
-        }
-      });
-      
-      return allUsers;
+      return await localDb.getAll('users');
     } catch (error) {
       console.error('Error fetching users:', error);
       return [];
     }
   }
 
-  private async fetchOriginalUsers(): Promise<User[]> {
+  async fetchDutyTypes(): Promise<DutyType[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/data/users.json`);
-      const data = await response.json();
-      return data.users;
+      return await localDb.getAll('dutyTypes');
     } catch (error) {
-      console.error('Error fetching original users:', error);
+      console.error('Error fetching duty types:', error);
       return [];
     }
   }
 
-  async fetchDutyTypes(): Promise<DutyType[]> {
+  async saveDutyType(dutyType: Omit<DutyType, 'id'>): Promise<DutyType> {
+    const newDutyType: DutyType = {
+      ...dutyType,
+      id: `duty-type-${Date.now()}`,
+    };
+
     try {
-      const response = await fetch(`${this.baseUrl}/data/duty-types.json`);
-      const data = await response.json();
-      return data.dutyTypes;
+      await localDb.put('dutyTypes', [newDutyType]);
+      await this.recordAudit('CREATE', 'DUTY_TYPE', newDutyType.id, `Created duty type "${newDutyType.name}"`, { after: newDutyType });
+      return newDutyType;
     } catch (error) {
-      console.error('Error fetching duty types:', error);
-      return [];
+      console.error('Error saving duty type:', error);
+      throw error;
+    }
+  }
+
+  async updateDutyType(dutyTypeId: string, updates: Partial<DutyType>): Promise<DutyType> {
+    try {
+      const before = await localDb.get('dutyTypes', dutyTypeId);
+      if (!before) {
+        throw new Error('Duty type not found');
+      }
+
+      const updatedDutyType = { ...before, ...updates, id: dutyTypeId };
+      await localDb.put('dutyTypes', [updatedDutyType]);
+      await this.recordAudit('UPDATE', 'DUTY_TYPE', dutyTypeId, `Updated duty type "${before.name}"`, { before, after: updatedDutyType });
+      return updatedDutyType;
+    } catch (error) {
+      console.error('Error updating duty type:', error);
+      throw error;
+    }
+  }
+
+  async deleteDutyType(dutyTypeId: string): Promise<void> {
+    try {
+      const before = await localDb.get('dutyTypes', dutyTypeId);
+      await localDb.remove('dutyTypes', [dutyTypeId]);
+      await this.recordAudit('DELETE', 'DUTY_TYPE', dutyTypeId, `Deleted duty type${before ? ` "${before.name}"` : ''}`, { before });
+    } catch (error) {
+      console.error('Error deleting duty type:', error);
+      throw error;
     }
   }
 
   async fetchSchedules(): Promise<Schedule[]> {
     try {
-      // Combine original data with locally stored schedules
-      const originalSchedules = await this.fetchOriginalSchedules();
-      const localSchedules = this.getLocalSchedules();
-      const deletedSchedules = this.getDeletedSchedules();
-      
-      // Merge and deduplicate schedules, excluding deleted ones
-      const allSchedules = [...originalSchedules];
-      
-      localSchedules.forEach(localSchedule => {
-        if (!allSchedules.find(s => s.id === localSchedule.id)) {
-          allSchedules.push(localSchedule);
-        } else {
-          // Update existing schedule with local changes
-          const existingIndex = allSchedules.findIndex(s => s.id === localSchedule.id);
-          if (existingIndex !== -1) {
-            allSchedules[existingIndex] = localSchedule;
-          }
-        }
-      });
-      
-      // Filter out deleted schedules
-      const filteredSchedules = allSchedules.filter(schedule => 
-        !deletedSchedules.includes(schedule.id)
-      );
-      
-      return filteredSchedules;
+      return await localDb.getAll('schedules');
     } catch (error) {
       console.error('Error fetching schedules:', error);
       return [];
     }
   }
 
+  // Reads through the userId or startTime index instead of every schedule ever stored
+  async querySchedules(query: ScheduleQuery): Promise<Schedule[]> {
+    try {
+      const { endAfter, startBefore } = getOverlapBounds(query);
+      const candidates = query.seriesId
+        ? await localDb.getAllByIndex('schedules', 'seriesId', query.seriesId)
+        : query.userId
+          ? await localDb.getAllByIndex('schedules', 'userId', query.userId)
+          : endAfter
+            ? await localDb.getAllBetween('schedules', 'endTime', endAfter)
+            : await localDb.getAllBetween('schedules', 'startTime', undefined, startBefore);
+      return candidates.filter(s => matchesScheduleQuery(s, query));
+    } catch (error) {
+      console.error('Error querying schedules:', error);
+      return [];
+    }
+  }
+
   async fetchAvailability(): Promise<Availability[]> {
     try {
-      const response = await fetch(`${this.baseUrl}/data/availability.json`);
-      const data = await response.json();
-      return data.availability;
+      const [records, patterns] = await Promise.all([
+        localDb.getAll('availability'),
+        localDb.getAll('availabilityPatterns'),
+      ]);
+      return [...records, ...expandAvailabilityPatterns(patterns)];
     } catch (error) {
       console.error('Error fetching availability:', error);
       return [];
     }
   }
 
+  async saveAvailability(availability: Omit<Availability, 'id'>): Promise<Availability> {
+    const newAvailability: Availability = {
+      ...availability,
+      id: `avail-${Date.now()}`,
+    };
+
+    try {
+      await localDb.put('availability', [newAvailability]);
+      await this.recordAudit('CREATE', 'AVAILABILITY', newAvailability.id, `Set ${newAvailability.status.toLowerCase()} availability`, { after: newAvailability });
+      return newAvailability;
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      throw error;
+    }
+  }
+
+  async updateAvailability(availabilityId: string, updates: Partial<Availability>): Promise<Availability> {
+    try {
+      const before = await localDb.get('availability', availabilityId);
+      if (!before) {
+        throw new Error('Availability record not found');
+      }
+
+      const updatedAvailability = { ...before, ...updates };
+      await localDb.put('availability', [updatedAvailability]);
+      await this.recordAudit('UPDATE', 'AVAILABILITY', availabilityId, 'Updated availability', { before, after: updatedAvailability });
+      return updatedAvailability;
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      throw error;
+    }
+  }
+
+  async deleteAvailability(availabilityId: string): Promise<void> {
+    try {
+      const before = await localDb.get('availability', availabilityId);
+      await localDb.remove('availability', [availabilityId]);
+      await this.recordAudit('DELETE', 'AVAILABILITY', availabilityId, 'Deleted availability', { before });
+    } catch (error) {
+      console.error('Error deleting availability:', error);
+      throw error;
+    }
+  }
+
+  // Swap out a person's records that sit entirely inside the range, as saved from the weekly grid
+  async replaceAvailabilityInRange(
+    userId: string,
+    rangeStart: string,
+    rangeEnd: string,
+    records: Omit<Availability, 'id'>[]
+  ): Promise<Availability[]> {
+    try {
+      const start = new Date(rangeStart).getTime();
+      const end = new Date(rangeEnd).getTime();
+      const existing = (await localDb.getAllByIndex('availability', 'userId', userId)).filter(a =>
+        !a.patternId &&
+        new Date(a.startTime).getTime() >= start &&
+        new Date(a.endTime).getTime() <= end
+      );
+
+      const batchId = Date.now();
+      const newRecords: Availability[] = records.map((record, index) => ({
+        ...record,
+        id: `avail-${batchId}-${index}`,
+      }));
+
+      await localDb.write([{ store: 'availability', remove: existing.map(a => a.id), put: newRecords }]);
+      await this.recordAudit('UPDATE', 'AVAILABILITY', userId, 'Replaced weekly availability', {
+        before: { records: existing },
+        after: { records: newRecords },
+      });
+
+      return newRecords;
+    } catch (error) {
+      console.error('Error replacing availability:', error);
+      throw error;
+    }
+  }
+
+  async fetchAvailabilityPatterns(): Promise<AvailabilityPattern[]> {
+    return localDb.getAll('availabilityPatterns');
+  }
+
+  async saveAvailabilityPattern(pattern: Omit<AvailabilityPattern, 'id'>): Promise<AvailabilityPattern> {
+    const newPattern: AvailabilityPattern = {
+      ...pattern,
+      id: `pattern-${Date.now()}`,
+    };
+
+    try {
+      await localDb.put('availabilityPatterns', [newPattern]);
+      await this.recordAudit('CREATE', 'AVAILABILITY', newPattern.id, 'Created recurring availability pattern', { after: newPattern });
+      return newPattern;
+    } catch (error) {
+      console.error('Error saving availability pattern:', error);
+      throw error;
+    }
+  }
+
+  async deleteAvailabilityPattern(patternId: string): Promise<void> {
+    try {
+      const before = await localDb.get('availabilityPatterns', patternId);
+      await localDb.remove('availabilityPatterns', [patternId]);
+      await this.recordAudit('DELETE', 'AVAILABILITY', patternId, 'Deleted recurring availability pattern', { before });
+    } catch (error) {
+      console.error('Error deleting availability pattern:', error);
+      throw error;
+    }
+  }
+
   async getDashboardStats(): Promise<DashboardStats> {
     try {
-      const [users, schedules, availability] = await Promise.all([
+      // Every figure is about duties running now or still to come, so past ones aren't read
+      const now = new Date();
+      const [users, schedules] = await Promise.all([
         this.fetchUsers(),
-        this.fetchSchedules(),
-        this.fetchAvailability(),
+        this.querySchedules({ from: now.toISOString() }),
       ]);
 
-      const now = new Date();
-      const activeSchedules = schedules.filter(s => 
+      const activeSchedules = schedules.filter(s =>
         new Date(s.startTime) <= now && new Date(s.endTime) >= now
       );
 
       const pendingRequests = schedules.filter(s => s.status === 'REQUESTED');
-      
-      const availablePersonnel = users.filter(u => 
+
+      const availablePersonnel = users.filter(u =>
         u.isActive && !activeSchedules.some(s => s.userId === u.id)
       );
 
-      const upcomingDuties = schedules.filter(s => 
-        new Date(s.startTime) > now && 
+      const upcomingDuties = schedules.filter(s =>
+        new Date(s.startTime) > now &&
         new Date(s.startTime) <= new Date(now.getTime() + 24 * 60 * 60 * 1000)
       );
 
@@ -138,91 +268,71 @@ class ApiService {
   }
 
   async detectConflicts(schedules: Schedule[]): Promise<Conflict[]> {
-    const conflicts: Conflict[] = [];
-    const users = await this.fetchUsers();
-    const dutyTypes = await this.fetchDutyTypes();
-
-    // Check for overlapping schedules for the same user
-    for (let i = 0; i < schedules.length; i++) {
-      for (let j = i + 1; j < schedules.length; j++) {
-        const schedule1 = schedules[i];
-        const schedule2 = schedules[j];
-
-        if (schedule1.userId === schedule2.userId) {
-          const start1 = new Date(schedule1.startTime);
-          const end1 = new Date(schedule1.endTime);
-          const start2 = new Date(schedule2.startTime);
-          const end2 = new Date(schedule2.endTime);
-
-          if (start1 < end2 && start2 < end1) {
-            conflicts.push({
-              id: `conflict-${Date.now()}-${i}-${j}`,
-              type: 'OVERLAP',
-              severity: 'HIGH',
-              description: `User has overlapping schedules`,
-              affectedSchedules: [schedule1.id, schedule2.id],
-              detectedAt: new Date().toISOString(),
-            });
-          }
-        }
-      }
-    }
+    const [users, dutyTypes, availability, previousConflicts, resolutions] = await Promise.all([
+      this.fetchUsers(),
+      this.fetchDutyTypes(),
+      this.fetchAvailability(),
+      localDb.getAll('conflicts').catch(() => [] as Conflict[]),
+      this.fetchConflictResolutions().catch(() => [] as ConflictResolution[]),
+    ]);
+
+    const conflicts = applyResolutionHistory(
+      findScheduleConflicts(schedules, users, dutyTypes, availability),
+      previousConflicts,
+      resolutions,
+      schedules
+    );
 
-    // Check for rest period violations
-    for (const user of users) {
-      const userSchedules = schedules
-        .filter(s => s.userId === user.id)
-        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
-
-      for (let i = 0; i < userSchedules.length - 1; i++) {
-        const current = userSchedules[i];
-        const next = userSchedules[i + 1];
-        
-        const currentDutyType = dutyTypes.find(dt => dt.id === current.dutyTypeId);
-        if (!currentDutyType) continue;
-
-        const restTime = new Date(next.startTime).getTime() - new Date(current.endTime).getTime();
-        const requiredRest = currentDutyType.minRestAfter * 60 * 60 * 1000; // Convert hours to milliseconds
-
-        if (restTime < requiredRest) {
-          conflicts.push({
-            id: `conflict-rest-${Date.now()}-${i}`,
-            type: 'REST_VIOLATION',
-            severity: 'MEDIUM',
-            description: `Insufficient rest period between duties (${Math.round(restTime / (60 * 60 * 1000))}h required: ${currentDutyType.minRestAfter}h)`,
-            affectedSchedules: [current.id, next.id],
-            detectedAt: new Date().toISOString(),
-          });
-        }
-      }
+    try {
+      await localDb.replaceAll('conflicts', conflicts);
+    } catch (error) {
+      console.error('Error saving conflicts:', error);
     }
 
     return conflicts;
   }
 
+  // Newest first, so the first match for a conflict is its latest resolution
+  async fetchConflictResolutions(): Promise<ConflictResolution[]> {
+    const resolutions = await localDb.getAll('conflictResolutions');
+    return resolutions.sort((a, b) => b.resolvedAt.localeCompare(a.resolvedAt));
+  }
+
+  async resolveConflict(
+    conflict: Conflict,
+    resolvedBy: string,
+    resolution: string,
+    schedules: Schedule[]
+  ): Promise<ConflictResolution> {
+    const record: ConflictResolution = {
+      id: `resolution-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      conflictId: conflict.id,
+      conflict,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy,
+      resolution,
+      scheduleFingerprint: getScheduleFingerprint(conflict.affectedSchedules, schedules),
+    };
+
+    try {
+      await localDb.put('conflictResolutions', [record]);
+      await this.recordAudit('RESOLVE', 'CONFLICT', conflict.id, resolution, { before: conflict, after: record });
+      return record;
+    } catch (error) {
+      console.error('Error saving conflict resolution:', error);
+      throw error;
+    }
+  }
+
   async saveSchedule(schedule: Omit<Schedule, 'id'>): Promise<Schedule> {
-    // In a real app, this would make an API call
-    // For now, we'll simulate it with local storage
     const newSchedule: Schedule = {
       ...schedule,
       id: `sch-${Date.now()}`,
     };
 
     try {
-      // Get existing schedules from both original data and localStorage
-      const originalSchedules = await this.fetchOriginalSchedules();
-      const localSchedules = this.getLocalSchedules();
-      const allSchedules = [...originalSchedules, ...localSchedules, newSchedule];
-      
-      // Store in localStorage for persistence during demo
-      localStorage.setItem('idf_schedules', JSON.stringify([...localSchedules, newSchedule]));
-      
-      // Trigger storage event for real-time updates across tabs
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'idf_schedules',
-        newValue: JSON.stringify([...localSchedules, newSchedule])
-      }));
-      
+      await localDb.put('schedules', [newSchedule]);
+      await this.recordAudit('CREATE', 'SCHEDULE', newSchedule.id, 'Created schedule', { after: newSchedule });
       return newSchedule;
     } catch (error) {
       console.error('Error saving schedule:', error);
@@ -230,76 +340,351 @@ class ApiService {
     }
   }
 
+  async saveSchedules(schedules: Omit<Schedule, 'id'>[]): Promise<Schedule[]> {
+    // Batch variant of saveSchedule: one id prefix and a single transaction
+    const batchId = Date.now();
+    const newSchedules: Schedule[] = schedules.map((schedule, index) => ({
+      ...schedule,
+      id: `sch-${batchId}-${index}`,
+    }));
+
+    try {
+      await localDb.put('schedules', newSchedules);
+      await this.appendAuditEntries(newSchedules.map(schedule =>
+        auditService.createEntry('CREATE', 'SCHEDULE', schedule.id, 'Created schedule', { after: schedule })
+      ));
+      return newSchedules;
+    } catch (error) {
+      console.error('Error saving schedules:', error);
+      throw error;
+    }
+  }
+
   async deleteSchedule(scheduleId: string): Promise<void> {
     try {
-      // Get existing local schedules
-      const localSchedules = this.getLocalSchedules();
-      
-      // Remove the schedule from local storage
-      const updatedSchedules = localSchedules.filter(s => s.id !== scheduleId);
-      
-      // Also add the deleted schedule ID to a separate array to track deletions
-      const deletedSchedules = this.getDeletedSchedules();
-      deletedSchedules.push(scheduleId);
-      
-      // Store both updated schedules and deleted IDs
-      localStorage.setItem('idf_schedules', JSON.stringify(updatedSchedules));
-      localStorage.setItem('idf_deleted_schedules', JSON.stringify(deletedSchedules));
-      
-      // Trigger storage event for real-time updates across tabs
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'idf_schedules',
-        newValue: JSON.stringify(updatedSchedules)
-      }));
+      const before = await localDb.get('schedules', scheduleId);
+      await localDb.remove('schedules', [scheduleId]);
+      await this.recordAudit('DELETE', 'SCHEDULE', scheduleId, 'Deleted schedule', { before });
     } catch (error) {
       console.error('Error deleting schedule:', error);
       throw error;
     }
   }
 
-  async updateSchedule(scheduleId: string, updates: Partial<Schedule>): Promise<Schedule> {
+  async updateSchedule(scheduleId: string, updates: Partial<Schedule>, expectedVersion?: number): Promise<Schedule> {
     try {
-      // Get existing schedules
-      const localSchedules = this.getLocalSchedules();
-      
-      // Find and update the schedule
-      const scheduleIndex = localSchedules.findIndex(s => s.id === scheduleId);
-      if (scheduleIndex !== -1) {
-        localSchedules[scheduleIndex] = { ...localSchedules[scheduleIndex], ...updates };
-      } else {
-        // If not in local schedules, it might be from original data
-        // In that case, we add the updated version to local storage
-        const originalSchedules = await this.fetchOriginalSchedules();
-        const originalSchedule = originalSchedules.find(s => s.id === scheduleId);
-        if (originalSchedule) {
-          const updatedSchedule = { ...originalSchedule, ...updates };
-          localSchedules.push(updatedSchedule);
-        }
+      const before = await localDb.get('schedules', scheduleId);
+      if (!before) {
+        throw new Error('Schedule not found');
       }
-      
-      // Store updated schedules
-      localStorage.setItem('idf_schedules', JSON.stringify(localSchedules));
-      
-      // Trigger storage event for real-time updates
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'idf_schedules',
-        newValue: JSON.stringify(localSchedules)
-      }));
-      
-      const updatedSchedule = localSchedules.find(s => s.id === scheduleId);
-      return updatedSchedule!;
+      assertScheduleVersion(before, expectedVersion);
+
+      const updatedSchedule = { ...before, ...updates, ...stampScheduleChange(before) };
+      await localDb.put('schedules', [updatedSchedule]);
+      await this.recordAudit('UPDATE', 'SCHEDULE', scheduleId, 'Updated schedule', { before, after: updatedSchedule });
+      return updatedSchedule;
     } catch (error) {
       console.error('Error updating schedule:', error);
       throw error;
     }
   }
 
-  private getDeletedSchedules(): string[] {
+  // Batch variant of updateSchedule: all changes land in a single transaction
+  async updateSchedules(changes: ScheduleChange[]): Promise<Schedule[]> {
     try {
-      const deleted = localStorage.getItem('idf_deleted_schedules');
-      return deleted ? JSON.parse(deleted) : [];
-    } catch {
-      return [];
+      const schedules = await localDb.getAll('schedules');
+      const updatedSchedules: Schedule[] = [];
+      const auditEntries: (AuditEntry | null)[] = [];
+
+      for (const { scheduleId, updates, expectedVersion } of changes) {
+        const before = schedules.find(s => s.id === scheduleId);
+        if (!before) {
+          throw new Error('Schedule not found');
+        }
+        assertScheduleVersion(before, expectedVersion);
+
+        const after = { ...before, ...updates, ...stampScheduleChange(before) };
+        updatedSchedules.push(after);
+        auditEntries.push(auditService.createEntry('UPDATE', 'SCHEDULE', scheduleId, 'Updated schedule', { before, after }));
+      }
+
+      await localDb.put('schedules', updatedSchedules);
+      await this.appendAuditEntries(auditEntries);
+      return updatedSchedules;
+    } catch (error) {
+      console.error('Error updating schedules:', error);
+      throw error;
+    }
+  }
+
+  async deleteSchedules(scheduleIds: string[]): Promise<void> {
+    try {
+      const deleted = (await localDb.getAll('schedules')).filter(s => scheduleIds.includes(s.id));
+      await localDb.remove('schedules', scheduleIds);
+      await this.appendAuditEntries(deleted.map(schedule =>
+        auditService.createEntry('DELETE', 'SCHEDULE', schedule.id, 'Deleted schedule', { before: schedule })
+      ));
+    } catch (error) {
+      console.error('Error deleting schedules:', error);
+      throw error;
+    }
+  }
+
+  async fetchDutyTemplates(): Promise<DutyTemplate[]> {
+    return localDb.getAll('dutyTemplates');
+  }
+
+  async saveDutyTemplate(template: Omit<DutyTemplate, 'id'>): Promise<DutyTemplate> {
+    const newTemplate: DutyTemplate = {
+      ...template,
+      id: `series-${Date.now()}`,
+    };
+
+    try {
+      await localDb.put('dutyTemplates', [newTemplate]);
+      await this.recordAudit('CREATE', 'DUTY_TEMPLATE', newTemplate.id, `Created recurring series "${newTemplate.name}"`, { after: newTemplate });
+      return newTemplate;
+    } catch (error) {
+      console.error('Error saving duty template:', error);
+      throw error;
+    }
+  }
+
+  async updateDutyTemplate(templateId: string, updates: Partial<DutyTemplate>): Promise<DutyTemplate> {
+    try {
+      const before = await localDb.get('dutyTemplates', templateId);
+      if (!before) {
+        throw new Error('Duty template not found');
+      }
+
+      const updatedTemplate = { ...before, ...updates };
+      await localDb.put('dutyTemplates', [updatedTemplate]);
+      await this.recordAudit('UPDATE', 'DUTY_TEMPLATE', templateId, `Updated recurring series "${before.name}"`, { before, after: updatedTemplate });
+      return updatedTemplate;
+    } catch (error) {
+      console.error('Error updating duty template:', error);
+      throw error;
+    }
+  }
+
+  async deleteDutyTemplate(templateId: string): Promise<void> {
+    try {
+      const before = await localDb.get('dutyTemplates', templateId);
+      await localDb.remove('dutyTemplates', [templateId]);
+      await this.recordAudit('DELETE', 'DUTY_TEMPLATE', templateId, `Deleted recurring series${before ? ` "${before.name}"` : ''}`, { before });
+    } catch (error) {
+      console.error('Error deleting duty template:', error);
+      throw error;
+    }
+  }
+
+  async fetchLeaveRequests(): Promise<LeaveRequest[]> {
+    return localDb.getAll('leaveRequests');
+  }
+
+  async createLeaveRequest(request: Omit<LeaveRequest, 'id'>): Promise<LeaveRequest> {
+    const newRequest: LeaveRequest = {
+      ...request,
+      id: `leave-${Date.now()}`,
+    };
+
+    try {
+      await localDb.put('leaveRequests', [newRequest]);
+      await this.recordAudit('CREATE', 'LEAVE_REQUEST', newRequest.id, 'Submitted leave request', { after: newRequest });
+      return newRequest;
+    } catch (error) {
+      console.error('Error creating leave request:', error);
+      throw error;
+    }
+  }
+
+  async reviewLeaveRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<LeaveRequest> {
+    try {
+      const before = await localDb.get('leaveRequests', requestId);
+      if (!before) {
+        throw new Error('Leave request not found');
+      }
+
+      const reviewedRequest: LeaveRequest = {
+        ...before,
+        status,
+        reviewedBy,
+        reviewedAt: new Date().toISOString(),
+        reviewNotes,
+      };
+      await localDb.put('leaveRequests', [reviewedRequest]);
+      await this.recordAudit(
+        status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+        'LEAVE_REQUEST',
+        requestId,
+        `${status === 'APPROVED' ? 'Approved' : 'Rejected'} leave request${reviewNotes ? `: ${reviewNotes}` : ''}`,
+        { before, after: reviewedRequest }
+      );
+      return reviewedRequest;
+    } catch (error) {
+      console.error('Error reviewing leave request:', error);
+      throw error;
+    }
+  }
+
+  async fetchDutyChangeRequests(): Promise<DutyChangeRequest[]> {
+    return localDb.getAll('dutyChangeRequests');
+  }
+
+  async createDutyChangeRequest(request: Omit<DutyChangeRequest, 'id'>): Promise<DutyChangeRequest> {
+    const newRequest: DutyChangeRequest = {
+      ...request,
+      id: `duty-change-${Date.now()}`,
+    };
+
+    try {
+      await localDb.put('dutyChangeRequests', [newRequest]);
+      await this.recordAudit('CREATE', 'DUTY_CHANGE_REQUEST', newRequest.id, 'Submitted duty change request', { after: newRequest });
+      return newRequest;
+    } catch (error) {
+      console.error('Error creating duty change request:', error);
+      throw error;
+    }
+  }
+
+  async reviewDutyChangeRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<DutyChangeRequest> {
+    try {
+      const before = await localDb.get('dutyChangeRequests', requestId);
+      if (!before) {
+        throw new Error('Duty change request not found');
+      }
+
+      const reviewedRequest: DutyChangeRequest = {
+        ...before,
+        status,
+        reviewedBy,
+        reviewedAt: new Date().toISOString(),
+        reviewNotes,
+      };
+      await localDb.put('dutyChangeRequests', [reviewedRequest]);
+      await this.recordAudit(
+        status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+        'DUTY_CHANGE_REQUEST',
+        requestId,
+        `${status === 'APPROVED' ? 'Approved' : 'Rejected'} duty change request${reviewNotes ? `: ${reviewNotes}` : ''}`,
+        { before, after: reviewedRequest }
+      );
+      return reviewedRequest;
+    } catch (error) {
+      console.error('Error reviewing duty change request:', error);
+      throw error;
+    }
+  }
+
+  // Newest offers first
+  async fetchShiftSwaps(): Promise<ShiftSwap[]> {
+    const swaps = await localDb.getAll('shiftSwaps');
+    return swaps.sort((a, b) => b.offeredAt.localeCompare(a.offeredAt));
+  }
+
+  async createShiftSwap(swap: Omit<ShiftSwap, 'id'>): Promise<ShiftSwap> {
+    const newSwap: ShiftSwap = {
+      ...swap,
+      id: `swap-${Date.now()}`,
+    };
+
+    try {
+      await localDb.put('shiftSwaps', [newSwap]);
+      await this.recordAudit('CREATE', 'SHIFT_SWAP', newSwap.id, 'Offered duty for swap', { after: newSwap });
+      return newSwap;
+    } catch (error) {
+      console.error('Error creating shift swap:', error);
+      throw error;
+    }
+  }
+
+  async updateShiftSwap(swapId: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap> {
+    try {
+      const before = await localDb.get('shiftSwaps', swapId);
+      if (!before) {
+        throw new Error('Shift swap not found');
+      }
+
+      const updatedSwap = { ...before, ...updates };
+      await localDb.put('shiftSwaps', [updatedSwap]);
+      await this.recordAudit(
+        updatedSwap.status === 'REJECTED' && before.status !== 'REJECTED' ? 'REJECT' : 'UPDATE',
+        'SHIFT_SWAP',
+        swapId,
+        `Shift swap ${updatedSwap.status.toLowerCase()}`,
+        { before, after: updatedSwap }
+      );
+      return updatedSwap;
+    } catch (error) {
+      console.error('Error updating shift swap:', error);
+      throw error;
+    }
+  }
+
+  async approveShiftSwap(swap: ShiftSwap, reviewedBy: string, reviewNotes?: string): Promise<ShiftSwap> {
+    if (!swap.claimedBy) {
+      throw new Error('Shift swap has not been claimed');
+    }
+
+    try {
+      const reassignments = [
+        { scheduleId: swap.scheduleId, userId: swap.claimedBy },
+        ...(swap.returnScheduleId ? [{ scheduleId: swap.returnScheduleId, userId: swap.offeredBy }] : []),
+      ];
+      let before: ShiftSwap;
+      let approvedSwap: ShiftSwap;
+
+      // The swap and its duties are re-read in the transaction that writes them, so a second
+      // approval or a cancellation that landed first is refused rather than overwritten
+      await localDb.transact(['schedules', 'shiftSwaps'], async get => {
+        const stored = await get('shiftSwaps', swap.id);
+        if (!shiftSwapService.isAwaitingApproval(stored, swap)) {
+          throw new Error('This shift swap is no longer awaiting approval');
+        }
+
+        const schedules = (await Promise.all(reassignments.map(({ scheduleId }) => get('schedules', scheduleId))))
+          .filter((schedule): schedule is Schedule => !!schedule);
+        if (shiftSwapService.isStale(stored, schedules)) {
+          throw new Error('One of the swapped duties has changed since the swap was claimed');
+        }
+
+        before = stored;
+        approvedSwap = {
+          ...stored,
+          status: 'APPROVED',
+          reviewedBy,
+          reviewedAt: new Date().toISOString(),
+          reviewNotes,
+        };
+        const reassignedSchedules = reassignments.map(({ scheduleId, userId }) => {
+          const schedule = schedules.find(s => s.id === scheduleId)!;
+          return { ...schedule, userId, ...stampScheduleChange(schedule) };
+        });
+
+        return [
+          { store: 'schedules', put: reassignedSchedules },
+          { store: 'shiftSwaps', put: [approvedSwap] },
+        ];
+      });
+      await this.recordAudit('APPROVE', 'SHIFT_SWAP', swap.id, `Approved shift swap${reviewNotes ? `: ${reviewNotes}` : ''}`, {
+        before,
+        after: approvedSwap,
+      });
+
+      return approvedSwap;
+    } catch (error) {
+      console.error('Error approving shift swap:', error);
+      throw error;
     }
   }
 
@@ -307,8 +692,8 @@ class ApiService {
     try {
       // Check if user already exists
       const existingUsers = await this.fetchUsers();
-      const existingUser = existingUsers.find(user => 
-        user.email === userData.email || user.serviceNumber === userData.serviceNumber
+      const existingUser = existingUsers.find(user =>
+        user.email === userData.email || (userData.serviceNumber && user.serviceNumber === userData.serviceNumber)
       );
 
       if (existingUser) {
@@ -326,18 +711,8 @@ class ApiService {
         id: `user_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
       };
 
-      // Get existing local users
-      const localUsers = this.getLocalUsers();
-      localUsers.push(newUser);
-
-      // Store in localStorage
-      localStorage.setItem('idf_users', JSON.stringify(localUsers));
-
-      // Trigger storage event for real-time updates
-      window.dispatchEvent(new StorageEvent('storage', {
-        key: 'idf_users',
-        newValue: JSON.stringify(localUsers)
-      }));
+      await localDb.put('users', [newUser]);
+      await this.recordAudit('CREATE', 'USER', newUser.id, `Created user ${newUser.firstName} ${newUser.lastName}`, { after: newUser });
 
       return newUser;
     } catch (error: any) {
@@ -346,6 +721,52 @@ class ApiService {
     }
   }
 
+  async updateUser(userId: string, updates: Partial<User>): Promise<User> {
+    const [updatedUser] = await this.updateUsers([{ userId, updates }]);
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  // All changes land in a single transaction
+  async updateUsers(changes: UserChange[]): Promise<User[]> {
+    try {
+      const users = await localDb.getAll('users');
+      const updatedUsers: User[] = [];
+      const auditEntries: (AuditEntry | null)[] = [];
+
+      for (const { userId, updates } of changes) {
+        const before = users.find(u => u.id === userId);
+        if (!before) continue;
+
+        const after = { ...before, ...updates, id: userId };
+        updatedUsers.push(after);
+        auditEntries.push(auditService.createEntry('UPDATE', 'USER', userId, describeUserUpdate(before, updates), { before, after }));
+      }
+
+      await localDb.put('users', updatedUsers);
+      await this.appendAuditEntries(auditEntries);
+      return updatedUsers;
+    } catch (error) {
+      console.error('Error updating users:', error);
+      throw error;
+    }
+  }
+
+  async deleteUsers(userIds: string[]): Promise<void> {
+    try {
+      const deleted = (await localDb.getAll('users')).filter(u => userIds.includes(u.id));
+      await localDb.remove('users', userIds);
+      await this.appendAuditEntries(deleted.map(user =>
+        auditService.createEntry('DELETE', 'USER', user.id, `Deleted user ${user.firstName} ${user.lastName}`, { before: user })
+      ));
+    } catch (error) {
+      console.error('Error deleting users:', error);
+      throw error;
+    }
+  }
+
   async authenticateUser(email: string, password: string): Promise<User | null> {
     try {
       const users = await this.fetchUsers();
@@ -357,37 +778,123 @@ class ApiService {
     }
   }
 
-  private getLocalUsers(): User[] {
+  async fetchConstraints(): Promise<Constraint[]> {
+    return localDb.getValue<Constraint[]>('idf_constraints') || [];
+  }
+
+  async saveConstraints(constraints: Constraint[]): Promise<void> {
     try {
-      const localUsers = localStorage.getItem('idf_users');
-      return localUsers ? JSON.parse(localUsers) : [];
-    } catch {
-      return [];
+      await localDb.setValue('idf_constraints', constraints);
+    } catch (error) {
+      console.error('Error saving constraints:', error);
+      throw error;
     }
   }
 
-  private async fetchOriginalSchedules(): Promise<Schedule[]> {
+  // Newest first
+  async fetchConstraintOverrides(): Promise<ConstraintOverride[]> {
+    return localDb.getValue<ConstraintOverride[]>('idf_constraint_overrides') || [];
+  }
+
+  async addConstraintOverrides(overrides: ConstraintOverride[]): Promise<void> {
     try {
-      const response = await fetch(`${this.baseUrl}/data/schedules.json`);
-      const data = await response.json();
-      return data.schedules;
+      await localDb.setValue('idf_constraint_overrides', [...overrides, ...await this.fetchConstraintOverrides()]);
     } catch (error) {
-      console.error('Error fetching original schedules:', error);
-      return [];
+      console.error('Error saving constraint overrides:', error);
+      throw error;
     }
   }
 
-  private getLocalSchedules(): Schedule[] {
+  // Newest first
+  async fetchAuditLog(): Promise<AuditEntry[]> {
+    const entries = await localDb.getAll('auditLog');
+    return entries.sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+
+  // Never throws: a failed audit write must not undo the change it describes
+  async recordAudit(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    summary: string,
+    snapshots?: AuditSnapshots
+  ): Promise<void> {
+    await this.appendAuditEntries([auditService.createEntry(action, entityType, entityId, summary, snapshots)]);
+  }
+
+  private async appendAuditEntries(entries: (AuditEntry | null)[]): Promise<void> {
+    const recorded = entries.filter((e): e is AuditEntry => !!e);
+    if (recorded.length === 0) return;
+
     try {
-      const stored = localStorage.getItem('idf_schedules');
-      return stored ? JSON.parse(stored) : [];
+      await localDb.put('auditLog', recorded);
+      await localDb.trim('auditLog', 'timestamp', MAX_LOCAL_AUDIT_ENTRIES);
     } catch (error) {
-      console.error('Error getting local schedules:', error);
-      return [];
+      console.error('Error recording audit entries:', error);
     }
   }
 
+  async exportData(): Promise<OperationalData> {
+    const [users, dutyTypes, schedules, availability, availabilityPatterns, dutyTemplates, conflicts, conflictResolutions, leaveRequests, dutyChangeRequests, shiftSwaps] =
+      await Promise.all([
+        localDb.getAll('users'),
+        localDb.getAll('dutyTypes'),
+        localDb.getAll('schedules'),
+        localDb.getAll('availability'),
+        localDb.getAll('availabilityPatterns'),
+        localDb.getAll('dutyTemplates'),
+        localDb.getAll('conflicts'),
+        this.fetchConflictResolutions(),
+        localDb.getAll('leaveRequests'),
+        localDb.getAll('dutyChangeRequests'),
+        this.fetchShiftSwaps(),
+      ]);
+
+    return {
+      users,
+      dutyTypes,
+      schedules,
+      availability,
+      availabilityPatterns,
+      dutyTemplates,
+      conflicts,
+      conflictResolutions,
+      leaveRequests,
+      dutyChangeRequests,
+      shiftSwaps,
+    };
+  }
 
+  // Replace all operational data with a backup's, in one transaction
+  async restoreData(data: OperationalData): Promise<void> {
+    try {
+      const currentDutyTypes = await this.fetchDutyTypes();
+
+      await localDb.write([
+        { store: 'users', clear: true, put: data.users },
+        { store: 'dutyTypes', clear: true, put: data.dutyTypes },
+        { store: 'schedules', clear: true, put: data.schedules },
+        { store: 'availability', clear: true, put: data.availability },
+        { store: 'availabilityPatterns', clear: true, put: data.availabilityPatterns },
+        { store: 'dutyTemplates', clear: true, put: data.dutyTemplates },
+        { store: 'conflicts', clear: true, put: data.conflicts },
+        { store: 'conflictResolutions', clear: true, put: data.conflictResolutions },
+        { store: 'leaveRequests', clear: true, put: data.leaveRequests },
+        { store: 'dutyChangeRequests', clear: true, put: data.dutyChangeRequests },
+        { store: 'shiftSwaps', clear: true, put: data.shiftSwaps },
+      ]);
+
+      if (JSON.stringify(currentDutyTypes) !== JSON.stringify(data.dutyTypes)) {
+        await this.recordAudit('RESTORE', 'DUTY_TYPE', 'all', 'Duty types replaced from backup', {
+          before: { dutyTypes: currentDutyTypes },
+          after: { dutyTypes: data.dutyTypes },
+        });
+      }
+    } catch (error) {
+      console.error('Error restoring data:', error);
+      throw error;
+    }
+  }
 }
 
 export const apiService = new ApiService();
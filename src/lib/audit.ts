@@ -0,0 +1,116 @@
+import { AuditAction, AuditEntityType, AuditEntry, AuditSnapshots, User } from '@/types';
+import { localDb } from './local-db';
+
+// The local log drops its oldest entries past this size so it cannot fill browser storage
+export const MAX_LOCAL_AUDIT_ENTRIES = 5000;
+
+const SYSTEM_ACTOR = { id: 'system', name: 'System' };
+
+export interface AuditFilters {
+  search: string;
+  action: AuditAction | 'all';
+  entityType: AuditEntityType | 'all';
+  actorId: string;
+  from: string; // YYYY-MM-DD, inclusive
+  to: string;   // YYYY-MM-DD, inclusive
+}
+
+export interface AuditChange {
+  field: string;
+  before: unknown;
+  after: unknown;
+}
+
+// JSON copy without passwords, so snapshots are plain data and never leak credentials
+const toSnapshot = (value: unknown): Record<string, any> | undefined => {
+  if (value === undefined || value === null) return undefined;
+  return JSON.parse(JSON.stringify(value, (key, field) => key === 'password' ? undefined : field));
+};
+
+// Activation is named in the summary, since it decides who can sign in and be rostered
+export const describeUserUpdate = (user: User, updates: Partial<User>): string => {
+  const verb = updates.isActive === undefined || updates.isActive === user.isActive
+    ? 'Updated'
+    : updates.isActive ? 'Activated' : 'Deactivated';
+  return `${verb} user ${user.firstName} ${user.lastName}`;
+};
+
+class AuditService {
+  private actor = SYSTEM_ACTOR;
+
+  // Set by the auth provider; actions without a signed-in user (such as sign-up) are logged as System
+  setActor(user: User | null) {
+    this.actor = user
+      ? { id: user.id, name: `${user.rank} ${user.firstName} ${user.lastName}`.trim() }
+      : SYSTEM_ACTOR;
+  }
+
+  // The signed-in user, also stamped on schedule edits so others can see who changed a duty
+  getActor(): { id: string; name: string } {
+    return this.actor;
+  }
+
+  // Follows the security.auditLogging system setting, on unless switched off
+  isEnabled(): boolean {
+    return localDb.getValue<Record<string, any>>('idf_settings')?.security?.auditLogging !== false;
+  }
+
+  createEntry(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    summary: string,
+    snapshots: AuditSnapshots = {}
+  ): AuditEntry | null {
+    if (!this.isEnabled()) return null;
+
+    const entry: AuditEntry = {
+      id: `audit-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      timestamp: new Date().toISOString(),
+      actorId: this.actor.id,
+      actorName: this.actor.name,
+      action,
+      entityType,
+      entityId,
+      summary,
+    };
+
+    // Firestore rejects undefined fields, so absent snapshots are left off entirely
+    const before = toSnapshot(snapshots.before);
+    const after = toSnapshot(snapshots.after);
+    if (before) entry.before = before;
+    if (after) entry.after = after;
+
+    return entry;
+  }
+
+  getChanges(entry: AuditEntry): AuditChange[] {
+    const before = entry.before || {};
+    const after = entry.after || {};
+
+    return Array.from(new Set([...Object.keys(before), ...Object.keys(after)]))
+      .filter(field => JSON.stringify(before[field]) !== JSON.stringify(after[field]))
+      .sort()
+      .map(field => ({ field, before: before[field], after: after[field] }));
+  }
+
+  filterEntries(entries: AuditEntry[], filters: AuditFilters): AuditEntry[] {
+    const search = filters.search.trim().toLowerCase();
+    const from = filters.from ? new Date(`${filters.from}T00:00:00`).getTime() : -Infinity;
+    const to = filters.to ? new Date(`${filters.to}T23:59:59.999`).getTime() : Infinity;
+
+    return entries
+      .filter(entry => {
+        const time = new Date(entry.timestamp).getTime();
+        if (time < from || time > to) return false;
+        if (filters.action !== 'all' && entry.action !== filters.action) return false;
+        if (filters.entityType !== 'all' && entry.entityType !== filters.entityType) return false;
+        if (filters.actorId !== 'all' && entry.actorId !== filters.actorId) return false;
+        if (!search) return true;
+        return [entry.summary, entry.entityId, entry.actorName].some(text => text.toLowerCase().includes(search));
+      })
+      .sort((a, b) => b.timestamp.localeCompare(a.timestamp));
+  }
+}
+
+export const auditService = new AuditService();
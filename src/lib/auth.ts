@@ -11,6 +11,7 @@ export const PERMISSIONS = {
   VIEW_ALL_SCHEDULES: 'view_all_schedules',
   EDIT_OWN_AVAILABILITY: 'edit_own_availability',
   SYNC_GOOGLE_SHEETS: 'sync_google_sheets',
+  VIEW_AUDIT_LOG: 'view_audit_log',
 } as const;
 
 export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
@@ -25,6 +26,7 @@ export const ROLE_PERMISSIONS: Record<UserRole, string[]> = {
     PERMISSIONS.OVERRIDE_CONSTRAINTS,
     PERMISSIONS.VIEW_ALL_SCHEDULES,
     PERMISSIONS.SYNC_GOOGLE_SHEETS,
+    PERMISSIONS.VIEW_AUDIT_LOG,
   ],
   DUTY_OFFICER: [
     PERMISSIONS.CREATE_SCHEDULE,
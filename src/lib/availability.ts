@@ -0,0 +1,148 @@
+import { Availability, AvailabilityPattern, User } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// Recurring patterns are materialised over this window around today
+const PATTERN_WEEKS_BACK = 4;
+const PATTERN_WEEKS_AHEAD = 12;
+
+export type AvailabilityStatus = Availability['status'];
+
+// UNAVAILABLE beats LIMITED beats AVAILABLE wherever records overlap
+const STATUS_RANK: Record<AvailabilityStatus, number> = {
+  AVAILABLE: 0,
+  LIMITED: 1,
+  UNAVAILABLE: 2,
+};
+
+export const startOfWeek = (date: Date): Date => {
+  const start = new Date(date);
+  start.setHours(0, 0, 0, 0);
+  start.setDate(start.getDate() - start.getDay());
+  return start;
+};
+
+const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+// Turns recurring patterns into concrete windows so the scheduler and conflict checks treat them like records
+export const expandAvailabilityPatterns = (
+  patterns: AvailabilityPattern[],
+  from: Date = new Date(Date.now() - PATTERN_WEEKS_BACK * 7 * DAY_MS),
+  to: Date = new Date(Date.now() + PATTERN_WEEKS_AHEAD * 7 * DAY_MS)
+): Availability[] => {
+  const windows: Availability[] = [];
+  const day = new Date(from);
+  day.setHours(0, 0, 0, 0);
+
+  while (day < to) {
+    for (const pattern of patterns) {
+      if (!pattern.daysOfWeek.includes(day.getDay())) continue;
+
+      const start = new Date(day);
+      start.setHours(pattern.startHour, 0, 0, 0);
+      const end = new Date(day);
+      end.setHours(pattern.endHour, 0, 0, 0);
+      // An end at or before the start runs past midnight
+      if (end <= start) end.setDate(end.getDate() + 1);
+
+      windows.push({
+        id: `${pattern.id}-${toDateKey(day)}`,
+        userId: pattern.userId,
+        startTime: start.toISOString(),
+        endTime: end.toISOString(),
+        status: pattern.status,
+        notes: pattern.notes,
+        updatedAt: pattern.createdAt,
+        patternId: pattern.id,
+      });
+    }
+    day.setDate(day.getDate() + 1);
+  }
+
+  return windows;
+};
+
+export const getStatusAt = (
+  userId: string,
+  start: number,
+  end: number,
+  availability: Availability[]
+): AvailabilityStatus | null => {
+  return availability
+    .filter(a => a.userId === userId)
+    .filter(a => new Date(a.startTime).getTime() < end && start < new Date(a.endTime).getTime())
+    .reduce<AvailabilityStatus | null>(
+      (worst, a) => (!worst || STATUS_RANK[a.status] > STATUS_RANK[worst] ? a.status : worst),
+      null
+    );
+};
+
+// One cell per hour of the week, starting Sunday 00:00
+export const buildWeekCells = (
+  userId: string,
+  weekStart: Date,
+  availability: Availability[]
+): (AvailabilityStatus | null)[] => {
+  return Array.from({ length: 7 * 24 }, (_, index) => {
+    const start = weekStart.getTime() + index * HOUR_MS;
+    return getStatusAt(userId, start, start + HOUR_MS, availability);
+  });
+};
+
+// Collapse painted cells back into records, one per run of the same status
+export const cellsToAvailability = (
+  userId: string,
+  weekStart: Date,
+  cells: (AvailabilityStatus | null)[]
+): Omit<Availability, 'id'>[] => {
+  const records: Omit<Availability, 'id'>[] = [];
+  let runStart = 0;
+
+  for (let index = 1; index <= cells.length; index++) {
+    if (index < cells.length && cells[index] === cells[runStart]) continue;
+
+    const status = cells[runStart];
+    if (status) {
+      records.push({
+        userId,
+        startTime: new Date(weekStart.getTime() + runStart * HOUR_MS).toISOString(),
+        endTime: new Date(weekStart.getTime() + index * HOUR_MS).toISOString(),
+        status,
+        notes: 'Weekly availability grid',
+        updatedAt: new Date().toISOString(),
+      });
+    }
+    runStart = index;
+  }
+
+  return records;
+};
+
+export interface DailyAvailabilitySummary {
+  available: number;
+  limited: number;
+  unavailable: number;
+  total: number;
+}
+
+// A person counts as unavailable for the day if any part of it is blocked
+export const summarizeDailyAvailability = (
+  users: User[],
+  availability: Availability[],
+  day: Date
+): DailyAvailabilitySummary => {
+  const start = new Date(day);
+  start.setHours(0, 0, 0, 0);
+  const end = start.getTime() + DAY_MS;
+
+  return users.reduce<DailyAvailabilitySummary>((summary, user) => {
+    const status = getStatusAt(user.id, start.getTime(), end, availability);
+    if (status === 'UNAVAILABLE') summary.unavailable++;
+    else if (status === 'LIMITED') summary.limited++;
+    else summary.available++;
+    summary.total++;
+    return summary;
+  }, { available: 0, limited: 0, unavailable: 0, total: 0 });
+};
@@ -0,0 +1,389 @@
+import { Constraint, OperationalData } from '@/types';
+import { dataProvider } from './data-provider';
+import { constraintEngine } from './constraints';
+import { Notification, notificationService } from './notifications';
+import { localDb } from './local-db';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export const BACKUP_FORMAT = 'idf-backup';
+// Bump when the layout of `data` changes, and migrate older files in parseBackup
+export const BACKUP_VERSION = 1;
+
+const AUTO_BACKUP_CHECK_INTERVAL = 60 * 60 * 1000;
+
+export interface BackupSettings {
+  autoBackup: boolean;
+  backupFrequency: 'daily' | 'weekly' | 'monthly';
+  retentionDays: number;
+  lastBackup: string;
+}
+
+export const DEFAULT_BACKUP_SETTINGS: BackupSettings = {
+  autoBackup: true,
+  backupFrequency: 'daily',
+  retentionDays: 30,
+  lastBackup: '',
+};
+
+export interface BackupData extends OperationalData {
+  notifications: Notification[];
+  constraints: Constraint[];
+  settings: Record<string, any> | null;
+}
+
+export interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  createdAt: string;
+  createdBy: string;
+  data: BackupData;
+}
+
+export interface StoredBackup {
+  id: string;
+  createdAt: string;
+  trigger: 'scheduled' | 'pre-restore';
+  backup: BackupFile;
+}
+
+export interface BackupValidation {
+  backup: BackupFile | null;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface RestorePreviewRow {
+  key: keyof BackupData;
+  label: string;
+  current: number;
+  incoming: number;
+  added: number;
+  updated: number;
+  removed: number;
+}
+
+type RecordCollection = Exclude<keyof BackupData, 'settings'>;
+
+// `timed` collections hold startTime/endTime timestamps that must form a valid range
+const COLLECTIONS: { key: RecordCollection; label: string; required: string[]; timed?: boolean }[] = [
+  { key: 'users', label: 'Personnel', required: ['email', 'firstName', 'lastName', 'role'] },
+  { key: 'dutyTypes', label: 'Duty types', required: ['name', 'priority'] },
+  { key: 'schedules', label: 'Schedules', required: ['userId', 'dutyTypeId', 'startTime', 'endTime'], timed: true },
+  { key: 'availability', label: 'Availability', required: ['userId', 'startTime', 'endTime', 'status'], timed: true },
+  { key: 'availabilityPatterns', label: 'Availability patterns', required: ['userId'] },
+  { key: 'dutyTemplates', label: 'Recurring series', required: ['dutyTypeId'] },
+  { key: 'conflicts', label: 'Conflicts', required: ['type'] },
+  { key: 'conflictResolutions', label: 'Conflict resolutions', required: ['conflictId'] },
+  { key: 'leaveRequests', label: 'Leave requests', required: ['userId', 'status'] },
+  { key: 'dutyChangeRequests', label: 'Duty change requests', required: ['userId', 'status'] },
+  { key: 'shiftSwaps', label: 'Shift swaps', required: ['scheduleId', 'status'] },
+  { key: 'notifications', label: 'Notifications', required: ['userId', 'type'] },
+  { key: 'constraints', label: 'Constraints', required: [] },
+];
+
+// Only the first few problems per collection are listed so a broken file stays readable
+const MAX_ERRORS_PER_COLLECTION = 5;
+
+const isObject = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isValidDate = (value: unknown): boolean =>
+  typeof value === 'string' && !isNaN(new Date(value).getTime());
+
+class BackupService {
+  async createBackup(createdBy: string): Promise<BackupFile> {
+    const operationalData = await dataProvider.exportData();
+
+    return {
+      format: BACKUP_FORMAT,
+      version: BACKUP_VERSION,
+      createdAt: new Date().toISOString(),
+      createdBy,
+      data: {
+        ...operationalData,
+        notifications: notificationService.getAllNotifications(),
+        constraints: constraintEngine.getConstraints(),
+        settings: this.getStoredSettings(),
+      },
+    };
+  }
+
+  downloadBackup(backup: BackupFile) {
+    const dataStr = JSON.stringify(backup, null, 2);
+    const dataBlob = new Blob([dataStr], { type: 'application/json' });
+    const url = URL.createObjectURL(dataBlob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `idf-backup-${backup.createdAt.replace(/[:.]/g, '-')}.json`;
+    link.click();
+    URL.revokeObjectURL(url);
+  }
+
+  parseBackup(text: string): BackupValidation {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(text);
+    } catch {
+      return { backup: null, errors: ['The file is not valid JSON.'], warnings: [] };
+    }
+
+    return this.validateBackup(raw);
+  }
+
+  validateBackup(raw: unknown): BackupValidation {
+    const errors: string[] = [];
+    const warnings: string[] = [];
+
+    if (!isObject(raw) || raw.format !== BACKUP_FORMAT) {
+      // Older builds downloaded only the settings object
+      const isSettingsOnly = isObject(raw) && isObject(raw.settings) && 'timestamp' in raw;
+      errors.push(isSettingsOnly
+        ? 'This is a settings-only backup from an older version. Use Import Settings to load it.'
+        : 'This is not an IDF backup file.');
+      return { backup: null, errors, warnings };
+    }
+
+    if (!Number.isInteger(raw.version) || raw.version < 1) {
+      errors.push('The backup has no valid format version.');
+    } else if (raw.version > BACKUP_VERSION) {
+      errors.push(`The backup was created by a newer version of the system (format v${raw.version}).`);
+    }
+    if (!isValidDate(raw.createdAt)) {
+      errors.push('The backup has no valid creation date.');
+    }
+    if (!isObject(raw.data)) {
+      errors.push('The backup contains no data.');
+      return { backup: null, errors, warnings };
+    }
+
+    COLLECTIONS.forEach(({ key, label, required, timed }) => {
+      const records = raw.data[key];
+      if (!Array.isArray(records)) {
+        errors.push(`${label}: missing from the backup.`);
+        return;
+      }
+
+      const problems: string[] = [];
+      const ids = new Set<string>();
+      records.forEach((record, index) => {
+        if (!isObject(record) || typeof record.id !== 'string' || !record.id) {
+          problems.push(`record ${index + 1} has no id`);
+          return;
+        }
+        if (ids.has(record.id)) {
+          problems.push(`duplicate id "${record.id}"`);
+        }
+        ids.add(record.id);
+
+        const missing = required.filter(field => record[field] === undefined || record[field] === null);
+        if (missing.length > 0) {
+          problems.push(`"${record.id}" is missing ${missing.join(', ')}`);
+        }
+        if (timed && missing.length === 0) {
+          if (!isValidDate(record.startTime) || !isValidDate(record.endTime)) {
+            problems.push(`"${record.id}" has an invalid start or end time`);
+          } else if (new Date(record.endTime) < new Date(record.startTime)) {
+            problems.push(`"${record.id}" ends before it starts`);
+          }
+        }
+      });
+
+      problems.slice(0, MAX_ERRORS_PER_COLLECTION).forEach(problem => errors.push(`${label}: ${problem}.`));
+      if (problems.length > MAX_ERRORS_PER_COLLECTION) {
+        errors.push(`${label}: ${problems.length - MAX_ERRORS_PER_COLLECTION} more problems.`);
+      }
+    });
+
+    if (raw.data.settings !== null && raw.data.settings !== undefined && !isObject(raw.data.settings)) {
+      errors.push('System settings: not a settings object.');
+    }
+
+    if (errors.length > 0) {
+      return { backup: null, errors, warnings };
+    }
+
+    const data = raw.data as BackupData;
+    if (data.users.length === 0) {
+      errors.push('Personnel: the backup contains no users, so nobody could sign in after restoring it.');
+      return { backup: null, errors, warnings };
+    }
+
+    // Dangling references are restored as they are, but worth knowing about
+    const userIds = new Set(data.users.map(u => u.id));
+    const dutyTypeIds = new Set(data.dutyTypes.map(dt => dt.id));
+    const orphanedSchedules = data.schedules.filter(s => !userIds.has(s.userId) || !dutyTypeIds.has(s.dutyTypeId));
+    if (orphanedSchedules.length > 0) {
+      warnings.push(`${orphanedSchedules.length} schedules refer to personnel or duty types that are not in the backup.`);
+    }
+    const orphanedAvailability = data.availability.filter(a => !userIds.has(a.userId));
+    if (orphanedAvailability.length > 0) {
+      warnings.push(`${orphanedAvailability.length} availability records refer to personnel that are not in the backup.`);
+    }
+    if (!data.settings) {
+      warnings.push('The backup has no system settings; the current settings will be kept.');
+    }
+
+    return {
+      backup: { ...(raw as BackupFile), data: { ...data, settings: data.settings ?? null } },
+      errors,
+      warnings,
+    };
+  }
+
+  // What restoring the backup would add, overwrite and remove, compared by record id
+  async previewRestore(backup: BackupFile): Promise<RestorePreviewRow[]> {
+    const current = await this.createBackup('');
+
+    return COLLECTIONS.map(({ key, label }) => {
+      const currentRecords = current.data[key] as { id: string }[];
+      const incomingRecords = backup.data[key] as { id: string }[];
+      const currentById = new Map(currentRecords.map(r => [r.id, JSON.stringify(r)]));
+      const incomingIds = new Set(incomingRecords.map(r => r.id));
+
+      return {
+        key,
+        label,
+        current: currentRecords.length,
+        incoming: incomingRecords.length,
+        added: incomingRecords.filter(r => !currentById.has(r.id)).length,
+        updated: incomingRecords.filter(r => currentById.has(r.id) && currentById.get(r.id) !== JSON.stringify(r)).length,
+        removed: currentRecords.filter(r => !incomingIds.has(r.id)).length,
+      };
+    });
+  }
+
+  // The current data is kept as an automatic backup first, so a restore can itself be undone
+  async restoreBackup(backup: BackupFile, restoredBy: string): Promise<void> {
+    await this.storeAutoBackup(await this.createBackup(restoredBy), 'pre-restore');
+
+    const { notifications, constraints, settings, ...operationalData } = backup.data;
+    await dataProvider.restoreData(operationalData);
+    notificationService.replaceAllNotifications(notifications);
+    await constraintEngine.saveConstraints(constraints);
+    if (settings) {
+      await localDb.setValue('idf_settings', settings);
+    }
+
+    await dataProvider.recordAudit('RESTORE', 'BACKUP', backup.createdAt, `Restored backup from ${new Date(backup.createdAt).toLocaleString()}`, {
+      after: Object.fromEntries(COLLECTIONS.map(({ key }) => [key, backup.data[key].length])),
+    });
+  }
+
+  // Newest first. Each backup is its own record, read only when the list is shown.
+  async getAutoBackups(): Promise<StoredBackup[]> {
+    try {
+      const backups = await localDb.getAll('backups');
+      return backups.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+    } catch (error) {
+      console.error('Error loading automatic backups:', error);
+      return [];
+    }
+  }
+
+  async deleteAutoBackup(backupId: string): Promise<void> {
+    try {
+      await localDb.remove('backups', [backupId]);
+    } catch (error) {
+      console.error('Error deleting automatic backup:', error);
+    }
+  }
+
+  getBackupSettings(): BackupSettings {
+    return { ...DEFAULT_BACKUP_SETTINGS, ...this.getStoredSettings()?.backup };
+  }
+
+  isBackupDue(settings: BackupSettings, lastAutoBackup?: string, now: Date = new Date()): boolean {
+    // Settings may never have been saved, so the newest automatic backup also counts
+    const lastBackupTimes = [settings.lastBackup, lastAutoBackup]
+      .filter(isValidDate)
+      .map(date => new Date(date).getTime());
+    if (lastBackupTimes.length === 0) return true;
+
+    const nextBackup = new Date(Math.max(...lastBackupTimes));
+    if (settings.backupFrequency === 'monthly') {
+      nextBackup.setMonth(nextBackup.getMonth() + 1);
+    } else {
+      nextBackup.setDate(nextBackup.getDate() + (settings.backupFrequency === 'weekly' ? 7 : 1));
+    }
+    return now >= nextBackup;
+  }
+
+  async runScheduledBackup(createdBy: string): Promise<StoredBackup | null> {
+    const settings = this.getBackupSettings();
+    if (!settings.autoBackup) return null;
+
+    try {
+      const lastAutoBackup = await localDb.getLast('backups', 'createdAt');
+      if (!this.isBackupDue(settings, lastAutoBackup?.createdAt)) return null;
+
+      const stored = await this.storeAutoBackup(await this.createBackup(createdBy), 'scheduled');
+      await this.recordLastBackup(stored.createdAt);
+      return stored;
+    } catch (error) {
+      console.error('Error running scheduled backup:', error);
+      return null;
+    }
+  }
+
+  // Check on start and then hourly; returns a cleanup function
+  startAutoBackups(createdBy: string): () => void {
+    this.runScheduledBackup(createdBy);
+    const interval = setInterval(() => this.runScheduledBackup(createdBy), AUTO_BACKUP_CHECK_INTERVAL);
+    return () => clearInterval(interval);
+  }
+
+  async recordLastBackup(createdAt: string): Promise<void> {
+    const settings = this.getStoredSettings();
+    if (!settings) return;
+
+    try {
+      await localDb.setValue('idf_settings', {
+        ...settings,
+        backup: { ...settings.backup, lastBackup: createdAt },
+      });
+    } catch (error) {
+      console.error('Error recording last backup:', error);
+    }
+  }
+
+  private async storeAutoBackup(backup: BackupFile, trigger: StoredBackup['trigger']): Promise<StoredBackup> {
+    const stored: StoredBackup = {
+      id: `backup-${Date.now()}`,
+      createdAt: backup.createdAt,
+      trigger,
+      backup,
+    };
+    const cutoff = new Date(Date.now() - this.getBackupSettings().retentionDays * DAY_MS).toISOString();
+
+    await localDb.removeBefore('backups', 'createdAt', cutoff);
+    await this.putAutoBackup(stored);
+    return stored;
+  }
+
+  // When the browser's storage quota is reached, the oldest backups give way to the newest
+  private async putAutoBackup(stored: StoredBackup) {
+    const previous = await localDb.count('backups');
+    for (let kept = previous; kept >= 0; kept--) {
+      try {
+        await localDb.put('backups', [stored]);
+        if (kept < previous) {
+          console.warn(`Storage is full: kept the ${kept + 1} newest of ${previous + 1} automatic backups`);
+        }
+        return;
+      } catch (error) {
+        if (kept === 0) {
+          console.error('Error storing automatic backup:', error);
+          throw error;
+        }
+        await localDb.trim('backups', 'createdAt', kept - 1);
+      }
+    }
+  }
+
+  private getStoredSettings(): Record<string, any> | null {
+    return localDb.getValue<Record<string, any>>('idf_settings') ?? null;
+  }
+}
+
+export const backupService = new BackupService();
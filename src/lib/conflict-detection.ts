@@ -0,0 +1,157 @@
+import { Availability, Conflict, ConflictResolution, DutyType, Schedule, User } from '@/types';
+import { getCoverageConflicts, getCoverageWindow } from './coverage';
+import { getConsecutiveHoursConflicts } from './duty-chains';
+import { getConflictId, getScheduleFingerprint } from './conflict-ids';
+
+// Every rule violation in the given schedules; shared by all data providers
+export const findScheduleConflicts = (
+  schedules: Schedule[],
+  users: User[],
+  dutyTypes: DutyType[],
+  availability: Availability[]
+): Conflict[] => {
+  const conflicts: Conflict[] = [];
+
+  // Check for overlapping schedules for the same user
+  for (let i = 0; i < schedules.length; i++) {
+    for (let j = i + 1; j < schedules.length; j++) {
+      const schedule1 = schedules[i];
+      const schedule2 = schedules[j];
+
+      if (schedule1.userId === schedule2.userId) {
+        const start1 = new Date(schedule1.startTime);
+        const end1 = new Date(schedule1.endTime);
+        const start2 = new Date(schedule2.startTime);
+        const end2 = new Date(schedule2.endTime);
+
+        if (start1 < end2 && start2 < end1) {
+          conflicts.push({
+            id: getConflictId('OVERLAP', [schedule1.id, schedule2.id]),
+            type: 'OVERLAP',
+            severity: 'HIGH',
+            description: `User has overlapping schedules`,
+            affectedSchedules: [schedule1.id, schedule2.id],
+            detectedAt: new Date().toISOString(),
+          });
+        }
+      }
+    }
+  }
+
+  // Check for rest period violations
+  for (const user of users) {
+    const userSchedules = schedules
+      .filter(s => s.userId === user.id)
+      .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+
+    for (let i = 0; i < userSchedules.length - 1; i++) {
+      const current = userSchedules[i];
+      const next = userSchedules[i + 1];
+      
+      const currentDutyType = dutyTypes.find(dt => dt.id === current.dutyTypeId);
+      if (!currentDutyType) continue;
+
+      const restTime = new Date(next.startTime).getTime() - new Date(current.endTime).getTime();
+      const requiredRest = currentDutyType.minRestAfter * 60 * 60 * 1000; // Convert hours to milliseconds
+
+      if (restTime < requiredRest) {
+        conflicts.push({
+          id: getConflictId('REST_VIOLATION', [current.id, next.id]),
+          type: 'REST_VIOLATION',
+          severity: 'MEDIUM',
+          description: `Insufficient rest period between duties (${Math.round(restTime / (60 * 60 * 1000))}h required: ${currentDutyType.minRestAfter}h)`,
+          affectedSchedules: [current.id, next.id],
+          detectedAt: new Date().toISOString(),
+        });
+      }
+    }
+  }
+
+  // Check for assigned personnel missing the duty's required skills
+  for (const schedule of schedules) {
+    if (schedule.status === 'CANCELLED') continue;
+
+    const assignedUser = users.find(u => u.id === schedule.userId);
+    const dutyType = dutyTypes.find(dt => dt.id === schedule.dutyTypeId);
+    if (!assignedUser || !dutyType) continue;
+
+    const userSkills = assignedUser.skills || [];
+    const missingSkills = dutyType.requiredSkills.filter(skill => !userSkills.includes(skill));
+
+    if (missingSkills.length > 0) {
+      conflicts.push({
+        id: getConflictId('SKILL_MISMATCH', [schedule.id]),
+        type: 'SKILL_MISMATCH',
+        severity: dutyType.priority === 'HIGH' ? 'HIGH' : 'MEDIUM',
+        description: `${assignedUser.firstName} ${assignedUser.lastName} is missing required skills for ${dutyType.name}: ${missingSkills.join(', ')}`,
+        affectedSchedules: [schedule.id],
+        detectedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Check for duties that fall inside unavailable or limited availability windows
+  for (const schedule of schedules) {
+    if (schedule.status === 'CANCELLED') continue;
+
+    const start = new Date(schedule.startTime);
+    const end = new Date(schedule.endTime);
+    const assignedUser = users.find(u => u.id === schedule.userId);
+    const userName = assignedUser ? `${assignedUser.firstName} ${assignedUser.lastName}` : 'User';
+
+    const blockingWindows = availability.filter(a =>
+      a.userId === schedule.userId &&
+      a.status !== 'AVAILABLE' &&
+      new Date(a.startTime) < end &&
+      start < new Date(a.endTime)
+    );
+
+    for (const availabilityWindow of blockingWindows) {
+      const isUnavailable = availabilityWindow.status === 'UNAVAILABLE';
+      conflicts.push({
+        id: getConflictId('AVAILABILITY', [schedule.id], availabilityWindow.id),
+        type: 'AVAILABILITY',
+        severity: isUnavailable ? 'HIGH' : 'LOW',
+        description: `${userName} is ${isUnavailable ? 'unavailable' : 'of limited availability'} during this duty${availabilityWindow.notes ? ` (${availabilityWindow.notes})` : ''}`,
+        affectedSchedules: [schedule.id],
+        detectedAt: new Date().toISOString(),
+      });
+    }
+  }
+
+  // Check duty slots against minPersonnel / maxPersonnel
+  conflicts.push(...getCoverageConflicts(schedules, dutyTypes, getCoverageWindow()));
+
+  // Check chains of back-to-back duties against maxConsecutiveHours
+  conflicts.push(...getConsecutiveHoursConflicts(schedules, dutyTypes));
+
+  return conflicts;
+};
+
+// Carry over first-detection times and resolutions; a resolution only holds
+// while the affected schedules are unchanged, otherwise the conflict reopens
+export const applyResolutionHistory = (
+  conflicts: Conflict[],
+  previousConflicts: Conflict[],
+  resolutions: ConflictResolution[],
+  schedules: Schedule[]
+): Conflict[] => {
+  return conflicts.map(conflict => {
+    const previous = previousConflicts.find(c => c.id === conflict.id);
+    const latestResolution = resolutions.find(r => r.conflictId === conflict.id);
+    const base: Conflict = { ...conflict, detectedAt: previous?.detectedAt || conflict.detectedAt };
+
+    if (!latestResolution) return base;
+
+    if (latestResolution.scheduleFingerprint === getScheduleFingerprint(conflict.affectedSchedules, schedules)) {
+      return {
+        ...base,
+        resolvedAt: latestResolution.resolvedAt,
+        resolvedBy: latestResolution.resolvedBy,
+        resolution: latestResolution.resolution,
+      };
+    }
+
+    return { ...base, reopenedAt: previous?.reopenedAt || new Date().toISOString() };
+  });
+};
@@ -0,0 +1,31 @@
+import { Conflict, Schedule } from '@/types';
+
+// Small stable string hash (djb2) so ids stay short however many schedules are involved
+const hashString = (value: string): string => {
+  let hash = 5381;
+  for (let i = 0; i < value.length; i++) {
+    hash = ((hash << 5) + hash + value.charCodeAt(i)) | 0;
+  }
+  return (hash >>> 0).toString(36);
+};
+
+// The same type over the same schedules always yields the same id
+export const getConflictId = (
+  type: Conflict['type'],
+  scheduleIds: string[],
+  qualifier?: string
+): string => {
+  const key = [...scheduleIds].sort().join('|') + (qualifier ? `#${qualifier}` : '');
+  return `conflict-${type.toLowerCase().replace(/_/g, '-')}-${hashString(key)}`;
+};
+
+// Captures the fields that matter for a conflict, so edits to the schedules reopen it
+export const getScheduleFingerprint = (scheduleIds: string[], schedules: Schedule[]): string => {
+  const parts = [...scheduleIds].sort().map(id => {
+    const schedule = schedules.find(s => s.id === id);
+    return schedule
+      ? [id, schedule.userId, schedule.dutyTypeId, schedule.startTime, schedule.endTime, schedule.status].join(',')
+      : `${id},missing`;
+  });
+  return hashString(parts.join(';'));
+};
@@ -0,0 +1,227 @@
+import { Conflict, Schedule, User } from '@/types';
+import { autoScheduler, RosterData, RosterSlot } from './scheduler';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export interface ScheduleChange {
+  scheduleId: string;
+  before: Schedule;
+  updates: Partial<Schedule>;
+  description: string;
+}
+
+// A new duty for someone to fill an understaffed slot; who assigns it is filled in when applied
+export interface ScheduleAddition {
+  schedule: Omit<Schedule, 'id' | 'assignedBy' | 'assignedAt'>;
+  description: string;
+}
+
+export interface ResolutionProposal {
+  conflictId: string;
+  summary: string;
+  changes: ScheduleChange[];
+  additions: ScheduleAddition[];
+}
+
+class ConflictResolverService {
+  proposeResolution(conflict: Conflict, data: RosterData): ResolutionProposal | null {
+    // Understaffing needs new assignments rather than changes, and the slot may have none yet
+    if (conflict.type === 'UNDERSTAFFED') {
+      const additions = this.resolveUnderstaffed(conflict, data);
+      return additions && additions.length > 0
+        ? { conflictId: conflict.id, summary: additions.map(a => a.description).join('; '), changes: [], additions }
+        : null;
+    }
+
+    const affected = conflict.affectedSchedules
+      .map(id => data.schedules.find(s => s.id === id))
+      .filter((s): s is Schedule => !!s);
+    if (affected.length === 0) return null;
+
+    let changes: ScheduleChange[] | null = null;
+
+    switch (conflict.type) {
+      case 'OVERLAP':
+        changes = this.resolveOverlap(affected, data);
+        break;
+      case 'REST_VIOLATION':
+        changes = this.resolveRestViolation(affected, data);
+        break;
+      case 'SKILL_MISMATCH':
+      case 'AVAILABILITY':
+        changes = this.reassign(affected[0], data, 'to a qualified, available person');
+        break;
+      case 'CONSECUTIVE_HOURS':
+        changes = this.reassign(affected[affected.length - 1], data, 'to break the consecutive duty chain');
+        break;
+      case 'OVERSTAFFED':
+        changes = this.resolveOverstaffed(affected, data);
+        break;
+      default:
+        return null;
+    }
+
+    if (!changes || changes.length === 0) return null;
+
+    return {
+      conflictId: conflict.id,
+      summary: changes.map(c => c.description).join('; '),
+      changes,
+      additions: [],
+    };
+  }
+
+  // Assign the best-placed candidates, as the auto-scheduler ranks them, to the missing places
+  private resolveUnderstaffed(conflict: Conflict, data: RosterData): ScheduleAddition[] | null {
+    if (!conflict.slot) return null;
+
+    const { dutyTypeId, startTime, endTime, missing } = conflict.slot;
+    const dutyType = data.dutyTypes.find(dt => dt.id === dutyTypeId);
+    if (!dutyType) return null;
+
+    const slot: RosterSlot = {
+      key: conflict.id,
+      dutyTypeId,
+      startTime,
+      endTime,
+      required: missing,
+      maxPersonnel: dutyType.maxPersonnel,
+    };
+    const candidates = autoScheduler.findCandidates(slot, data, [], this.getHoursByUser(data.schedules));
+
+    return candidates.slice(0, missing).map(user => ({
+      schedule: {
+        userId: user.id,
+        dutyTypeId,
+        startTime,
+        endTime,
+        status: 'ASSIGNED',
+        isOverride: false,
+      },
+      description: `Assign ${this.getUserName(user)}`,
+    }));
+  }
+
+  private resolveOverlap(affected: Schedule[], data: RosterData): ScheduleChange[] | null {
+    const [first, second] = [...affected].sort(
+      (a, b) => new Date(a.assignedAt).getTime() - new Date(b.assignedAt).getTime()
+    );
+    if (!second) return null;
+
+    const isDuplicate = first.dutyTypeId === second.dutyTypeId &&
+      new Date(first.startTime).getTime() === new Date(second.startTime).getTime() &&
+      new Date(first.endTime).getTime() === new Date(second.endTime).getTime();
+
+    if (isDuplicate) {
+      return [this.cancel(second, 'Cancel duplicate assignment')];
+    }
+
+    return this.reassign(second, data, 'to remove the overlap');
+  }
+
+  // Push the later duty back until the required rest has passed, keeping its length
+  private resolveRestViolation(affected: Schedule[], data: RosterData): ScheduleChange[] | null {
+    const [current, next] = [...affected].sort(
+      (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    );
+    if (!next) return null;
+
+    const dutyType = data.dutyTypes.find(dt => dt.id === current.dutyTypeId);
+    if (!dutyType) return null;
+
+    const newStart = new Date(current.endTime).getTime() + dutyType.minRestAfter * HOUR_MS;
+    const duration = new Date(next.endTime).getTime() - new Date(next.startTime).getTime();
+    const updates = {
+      startTime: new Date(newStart).toISOString(),
+      endTime: new Date(newStart + duration).toISOString(),
+    };
+
+    // Shifting must not collide with anything else the person already has
+    const collides = data.schedules.some(s =>
+      s.id !== next.id &&
+      s.id !== current.id &&
+      s.userId === next.userId &&
+      s.status !== 'CANCELLED' &&
+      new Date(s.startTime).getTime() < newStart + duration &&
+      newStart < new Date(s.endTime).getTime()
+    );
+
+    if (collides) {
+      return this.reassign(next, data, 'since shifting would cause a new overlap');
+    }
+
+    return [{
+      scheduleId: next.id,
+      before: next,
+      updates,
+      description: `Shift start by ${Math.round((newStart - new Date(next.startTime).getTime()) / HOUR_MS)}h to allow ${dutyType.minRestAfter}h rest`,
+    }];
+  }
+
+  // Cancel the most recently assigned duties until the slot is back at maxPersonnel
+  private resolveOverstaffed(affected: Schedule[], data: RosterData): ScheduleChange[] | null {
+    const dutyType = data.dutyTypes.find(dt => dt.id === affected[0].dutyTypeId);
+    if (!dutyType) return null;
+
+    const excess = affected.length - dutyType.maxPersonnel;
+    if (excess <= 0) return null;
+
+    return [...affected]
+      .sort((a, b) => new Date(b.assignedAt).getTime() - new Date(a.assignedAt).getTime())
+      .slice(0, excess)
+      .map(s => this.cancel(s, 'Cancel surplus assignment'));
+  }
+
+  private reassign(schedule: Schedule, data: RosterData, reason: string): ScheduleChange[] | null {
+    const slot: RosterSlot = {
+      key: schedule.id,
+      dutyTypeId: schedule.dutyTypeId,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      required: 1,
+      maxPersonnel: 1,
+    };
+    const otherSchedules = data.schedules.filter(s => s.id !== schedule.id);
+    const candidates = autoScheduler.findCandidates(
+      slot,
+      { ...data, schedules: otherSchedules },
+      [],
+      this.getHoursByUser(otherSchedules)
+    );
+    const replacement = candidates.find(u => u.id !== schedule.userId);
+    if (!replacement) return null;
+
+    return [{
+      scheduleId: schedule.id,
+      before: schedule,
+      updates: { userId: replacement.id },
+      description: `Reassign to ${this.getUserName(replacement)} ${reason}`,
+    }];
+  }
+
+  private cancel(schedule: Schedule, description: string): ScheduleChange {
+    return {
+      scheduleId: schedule.id,
+      before: schedule,
+      updates: { status: 'CANCELLED' },
+      description,
+    };
+  }
+
+  private getHoursByUser(schedules: Schedule[]): Record<string, number> {
+    const hours: Record<string, number> = {};
+    schedules
+      .filter(s => s.status !== 'CANCELLED')
+      .forEach(s => {
+        const duration = (new Date(s.endTime).getTime() - new Date(s.startTime).getTime()) / HOUR_MS;
+        hours[s.userId] = (hours[s.userId] || 0) + duration;
+      });
+    return hours;
+  }
+
+  private getUserName(user: User): string {
+    return `${user.rank} ${user.firstName} ${user.lastName}`;
+  }
+}
+
+export const conflictResolver = new ConflictResolverService();
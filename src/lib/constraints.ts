@@ -0,0 +1,384 @@
+import { User, DutyType, Schedule, Constraint, ConstraintOverride, DataProvider } from '@/types';
+import { getHebrewDate, getRestHolidays, toDateKey } from './holidays';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export type ProposedSchedule = Omit<Schedule, 'id'> & { id?: string };
+
+export interface ConstraintContext {
+  users: User[];
+  dutyTypes: DutyType[];
+  schedules: Schedule[];
+}
+
+export interface ConstraintRuleInput {
+  proposed: ProposedSchedule;
+  user?: User;
+  dutyType?: DutyType;
+  // The user's other active duties, including the rest of the proposal, sorted by start time
+  timeline: ProposedSchedule[];
+  context: ConstraintContext;
+  parameters: Record<string, any>;
+}
+
+export interface ConstraintRule {
+  id: string;
+  name: string;
+  description: string;
+  type: Constraint['type'];
+  defaultParameters: Record<string, any>;
+  parameterLabels: Record<string, string>;
+  evaluate: (input: ConstraintRuleInput) => string | null;
+}
+
+// The part of the data provider that keeps rule settings and overrides
+export type ConstraintStore = Pick<DataProvider, 'fetchConstraints' | 'saveConstraints' | 'fetchConstraintOverrides' | 'addConstraintOverrides'>;
+
+export interface ConstraintViolation {
+  constraintId: string;
+  constraintName: string;
+  message: string;
+  blocking: boolean;
+  proposed: ProposedSchedule;
+}
+
+const toMs = (iso: string) => new Date(iso).getTime();
+
+const durationHours = (s: ProposedSchedule) => (toMs(s.endTime) - toMs(s.startTime)) / HOUR_MS;
+
+const startOfWeek = (time: number) => {
+  const date = new Date(time);
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - date.getDay());
+  return date.getTime();
+};
+
+// Friday and Saturday make up the weekend
+const getWeekendKey = (time: number): number | null => {
+  const date = new Date(time);
+  const day = date.getDay();
+  if (day !== 5 && day !== 6) return null;
+  date.setHours(0, 0, 0, 0);
+  date.setDate(date.getDate() - (day - 5));
+  return date.getTime();
+};
+
+const maxConsecutiveHoursRule: ConstraintRule = {
+  id: 'max-consecutive-hours',
+  name: 'Max consecutive hours',
+  description: 'Back-to-back duties may not exceed a combined on-duty limit',
+  type: 'AUTOMATED',
+  defaultParameters: { maxHours: 48, gapHours: 1 },
+  parameterLabels: { maxHours: 'Max hours', gapHours: 'Max gap joining duties (hours)' },
+  evaluate: ({ proposed, dutyType, timeline, parameters }) => {
+    const gap = parameters.gapHours * HOUR_MS;
+    const chain = [proposed];
+    let chainStart = toMs(proposed.startTime);
+    let chainEnd = toMs(proposed.endTime);
+
+    // Grow the chain outwards while neighbouring duties are within the gap
+    let grown = true;
+    while (grown) {
+      grown = false;
+      for (const entry of timeline) {
+        if (chain.includes(entry)) continue;
+        const start = toMs(entry.startTime);
+        const end = toMs(entry.endTime);
+        if (start <= chainEnd + gap && end >= chainStart - gap) {
+          chain.push(entry);
+          chainStart = Math.min(chainStart, start);
+          chainEnd = Math.max(chainEnd, end);
+          grown = true;
+        }
+      }
+    }
+
+    const limit = Math.min(parameters.maxHours, dutyType?.maxConsecutiveHours || Infinity);
+    const total = chain.reduce((sum, s) => sum + durationHours(s), 0);
+    return total > limit
+      ? `${Math.round(total)}h of consecutive duty exceeds the ${limit}h limit`
+      : null;
+  },
+};
+
+const minRestRule: ConstraintRule = {
+  id: 'min-rest',
+  name: 'Minimum rest',
+  description: 'Rest after each duty must meet the duty type minimum (and the global floor)',
+  type: 'AUTOMATED',
+  defaultParameters: { minRestHours: 0 },
+  parameterLabels: { minRestHours: 'Global rest floor (hours)' },
+  evaluate: ({ proposed, dutyType, timeline, context, parameters }) => {
+    const start = toMs(proposed.startTime);
+    const end = toMs(proposed.endTime);
+
+    for (const entry of timeline) {
+      const entryStart = toMs(entry.startTime);
+      const entryEnd = toMs(entry.endTime);
+
+      if (entryEnd <= start) {
+        const previousDuty = context.dutyTypes.find(dt => dt.id === entry.dutyTypeId);
+        const required = Math.max(previousDuty?.minRestAfter || 0, parameters.minRestHours);
+        const rest = (start - entryEnd) / HOUR_MS;
+        if (rest < required) {
+          return `Only ${Math.round(rest)}h rest before this duty (required: ${required}h)`;
+        }
+      } else if (entryStart >= end) {
+        const required = Math.max(dutyType?.minRestAfter || 0, parameters.minRestHours);
+        const rest = (entryStart - end) / HOUR_MS;
+        if (rest < required) {
+          return `Only ${Math.round(rest)}h rest after this duty (required: ${required}h)`;
+        }
+      } else {
+        return 'Overlaps another duty for the same person';
+      }
+    }
+
+    return null;
+  },
+};
+
+const maxDutiesPerWeekRule: ConstraintRule = {
+  id: 'max-duties-per-week',
+  name: 'Max duties per week',
+  description: 'Limits how many duties a person can start in one week (Sunday to Saturday)',
+  type: 'AUTOMATED',
+  defaultParameters: { maxDuties: 5 },
+  parameterLabels: { maxDuties: 'Max duties' },
+  evaluate: ({ proposed, timeline, parameters }) => {
+    const week = startOfWeek(toMs(proposed.startTime));
+    const count = timeline.filter(s => {
+      const start = toMs(s.startTime);
+      return start >= week && start < week + 7 * DAY_MS;
+    }).length + 1;
+
+    return count > parameters.maxDuties
+      ? `${count} duties in the week exceeds the limit of ${parameters.maxDuties}`
+      : null;
+  },
+};
+
+const noWeekendDoublesRule: ConstraintRule = {
+  id: 'no-weekend-doubles',
+  name: 'No weekend doubles',
+  description: 'A person should not hold more than one duty on the same weekend',
+  type: 'MANUAL',
+  defaultParameters: { maxPerWeekend: 1 },
+  parameterLabels: { maxPerWeekend: 'Max duties per weekend' },
+  evaluate: ({ proposed, timeline, parameters }) => {
+    const weekend = getWeekendKey(toMs(proposed.startTime));
+    if (weekend === null) return null;
+
+    const count = timeline.filter(s => getWeekendKey(toMs(s.startTime)) === weekend).length + 1;
+    return count > parameters.maxPerWeekend
+      ? `${count} duties on the same weekend (limit: ${parameters.maxPerWeekend})`
+      : null;
+  },
+};
+
+// Festival days and Yom HaAtzmaut the duty touches, with the Hebrew year each falls in
+const getHolidayDays = (s: ProposedSchedule): { key: string; year: number }[] => {
+  const days: { key: string; year: number }[] = [];
+  const day = new Date(toMs(s.startTime));
+  day.setHours(0, 0, 0, 0);
+  while (day.getTime() < toMs(s.endTime)) {
+    if (getRestHolidays(day).length > 0) {
+      days.push({ key: toDateKey(day), year: getHebrewDate(day).year });
+    }
+    day.setDate(day.getDate() + 1);
+  }
+  return days;
+};
+
+const maxHolidaysPerYearRule: ConstraintRule = {
+  id: 'max-holidays-per-year',
+  name: 'Max holidays per year',
+  description: 'Limits how many festival days (and Yom HaAtzmaut) a person spends on duty in one Hebrew year',
+  type: 'MANUAL',
+  defaultParameters: { maxHolidays: 3 },
+  parameterLabels: { maxHolidays: 'Max holidays' },
+  evaluate: ({ proposed, timeline, parameters }) => {
+    const proposedDays = getHolidayDays(proposed);
+    if (proposedDays.length === 0) return null;
+
+    const { year } = proposedDays[0];
+    const holidays = new Set(
+      [proposed, ...timeline]
+        .flatMap(getHolidayDays)
+        .filter(day => day.year === year)
+        .map(day => day.key)
+    );
+
+    return holidays.size > parameters.maxHolidays
+      ? `${holidays.size} holidays on duty in ${year} exceeds the limit of ${parameters.maxHolidays}`
+      : null;
+  },
+};
+
+const requiredSkillRule: ConstraintRule = {
+  id: 'required-skill',
+  name: 'Required skills',
+  description: 'Assigned personnel must hold every skill the duty type requires',
+  type: 'AUTOMATED',
+  defaultParameters: {},
+  parameterLabels: {},
+  evaluate: ({ user, dutyType }) => {
+    if (!user || !dutyType) return null;
+    const skills = user.skills || [];
+    const missing = dutyType.requiredSkills.filter(skill => !skills.includes(skill));
+    return missing.length > 0 ? `Missing required skills: ${missing.join(', ')}` : null;
+  },
+};
+
+class ConstraintEngine {
+  private rules = new Map<string, ConstraintRule>();
+  private constraints: Constraint[] = [];
+  private overrides: ConstraintOverride[] = [];
+  private store: ConstraintStore | null = null;
+
+  constructor() {
+    [
+      maxConsecutiveHoursRule,
+      minRestRule,
+      maxDutiesPerWeekRule,
+      noWeekendDoublesRule,
+      maxHolidaysPerYearRule,
+      requiredSkillRule,
+    ].forEach(rule => this.register(rule));
+  }
+
+  // Set by data-provider to the active backend; without one, settings only last for the session
+  bindStore(store: ConstraintStore) {
+    this.store = store;
+  }
+
+  // Until this resolves the rules run with their defaults
+  async load(): Promise<void> {
+    if (!this.store) return;
+
+    try {
+      [this.constraints, this.overrides] = await Promise.all([
+        this.store.fetchConstraints(),
+        this.store.fetchConstraintOverrides(),
+      ]);
+    } catch (error) {
+      console.error('Error loading constraints:', error);
+    }
+  }
+
+  register(rule: ConstraintRule) {
+    this.rules.set(rule.id, rule);
+  }
+
+  getRule(constraintId: string): ConstraintRule | undefined {
+    return this.rules.get(constraintId);
+  }
+
+  // Stored settings merged over the defaults of every registered rule
+  getConstraints(): Constraint[] {
+    return Array.from(this.rules.values()).map(rule => {
+      const stored = this.constraints.find(c => c.id === rule.id);
+      return {
+        id: rule.id,
+        type: stored?.type ?? rule.type,
+        name: rule.name,
+        description: rule.description,
+        isActive: stored?.isActive ?? true,
+        parameters: { ...rule.defaultParameters, ...stored?.parameters },
+        overriddenBy: stored?.overriddenBy,
+        overriddenAt: stored?.overriddenAt,
+        overrideReason: stored?.overrideReason,
+      };
+    });
+  }
+
+  async saveConstraints(constraints: Constraint[]): Promise<void> {
+    await this.store?.saveConstraints(constraints);
+    this.constraints = constraints;
+  }
+
+  evaluate(proposals: ProposedSchedule[], context: ConstraintContext): ConstraintViolation[] {
+    const violations: ConstraintViolation[] = [];
+    const activeConstraints = this.getConstraints().filter(c => c.isActive);
+    const proposedIds = proposals.map(p => p.id).filter(Boolean);
+    const existing = context.schedules.filter(s => !proposedIds.includes(s.id));
+    const combined: ProposedSchedule[] = [...existing, ...proposals]
+      .filter(s => s.status !== 'CANCELLED');
+
+    for (const proposed of proposals) {
+      if (proposed.status === 'CANCELLED') continue;
+
+      const timeline = combined
+        .filter(s => s !== proposed && s.userId === proposed.userId)
+        .sort((a, b) => toMs(a.startTime) - toMs(b.startTime));
+      const user = context.users.find(u => u.id === proposed.userId);
+      const dutyType = context.dutyTypes.find(dt => dt.id === proposed.dutyTypeId);
+
+      for (const constraint of activeConstraints) {
+        const rule = this.rules.get(constraint.id);
+        if (!rule) continue;
+
+        const message = rule.evaluate({
+          proposed,
+          user,
+          dutyType,
+          timeline,
+          context,
+          parameters: constraint.parameters,
+        });
+
+        if (message) {
+          violations.push({
+            constraintId: constraint.id,
+            constraintName: constraint.name,
+            message,
+            blocking: constraint.type === 'AUTOMATED',
+            proposed,
+          });
+        }
+      }
+    }
+
+    return violations;
+  }
+
+  async recordOverride(
+    violations: ConstraintViolation[],
+    overriddenBy: string,
+    reason: string,
+    scheduleId?: string
+  ): Promise<ConstraintOverride[]> {
+    const overriddenAt = new Date().toISOString();
+    const records = violations.map(violation => ({
+      id: `override-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      constraintId: violation.constraintId,
+      scheduleId: scheduleId ?? violation.proposed.id,
+      message: violation.message,
+      overriddenBy,
+      overriddenAt,
+      reason,
+    }));
+
+    await this.store?.addConstraintOverrides(records);
+    this.overrides.unshift(...records);
+
+    // Keep the latest override on the constraint itself
+    const constraints = this.getConstraints().map(c =>
+      violations.some(v => v.constraintId === c.id)
+        ? { ...c, overriddenBy, overriddenAt, overrideReason: reason }
+        : c
+    );
+    await this.saveConstraints(constraints);
+
+    return records;
+  }
+
+  getOverrides(constraintId?: string): ConstraintOverride[] {
+    return constraintId
+      ? this.overrides.filter(o => o.constraintId === constraintId)
+      : [...this.overrides];
+  }
+}
+
+export const constraintEngine = new ConstraintEngine();
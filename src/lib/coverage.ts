@@ -0,0 +1,131 @@
+import { DutyType, Schedule, Conflict } from '@/types';
+import { getConflictId } from './conflict-ids';
+import { autoScheduler } from './scheduler';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// How far ahead empty duty slots are reported; further out the roster isn't expected to be filled yet
+const COVERAGE_HORIZON_DAYS = 7;
+
+export type CoverageStatus = 'UNDERSTAFFED' | 'OVERSTAFFED' | 'OK';
+
+export interface CoverageSlot {
+  dutyTypeId: string;
+  startTime: string;
+  endTime: string;
+  scheduleIds: string[];
+  assigned: number;
+  minPersonnel: number;
+  maxPersonnel: number;
+  status: CoverageStatus;
+  missing: number;
+  excess: number;
+}
+
+export interface CoverageWindow {
+  start: Date;
+  end: Date;
+}
+
+// From the start of today to the end of the horizon
+export const getCoverageWindow = (now = new Date()): CoverageWindow => {
+  const start = new Date(now);
+  start.setHours(0, 0, 0, 0);
+  return { start, end: new Date(start.getTime() + COVERAGE_HORIZON_DAYS * DAY_MS) };
+};
+
+// A slot is one duty type over one exact time window; cancelled duties don't count. Within the
+// window, every slot the duty types call for (laid out as the auto-scheduler does) that no duty
+// of that type touches is reported too, with nobody assigned.
+export const analyzeCoverage = (schedules: Schedule[], dutyTypes: DutyType[], window?: CoverageWindow): CoverageSlot[] => {
+  const groups = new Map<string, Schedule[]>();
+  const active = schedules.filter(s => s.status !== 'CANCELLED');
+
+  active.forEach(s => {
+    const key = `${s.dutyTypeId}|${new Date(s.startTime).getTime()}|${new Date(s.endTime).getTime()}`;
+    groups.set(key, [...(groups.get(key) || []), s]);
+  });
+
+  const slots: CoverageSlot[] = [];
+
+  groups.forEach(slotSchedules => {
+    const [first] = slotSchedules;
+    const dutyType = dutyTypes.find(dt => dt.id === first.dutyTypeId);
+    if (!dutyType) return;
+
+    const assigned = new Set(slotSchedules.map(s => s.userId)).size;
+    const missing = Math.max(0, dutyType.minPersonnel - assigned);
+    const excess = Math.max(0, assigned - dutyType.maxPersonnel);
+
+    slots.push({
+      dutyTypeId: dutyType.id,
+      startTime: first.startTime,
+      endTime: first.endTime,
+      scheduleIds: slotSchedules.map(s => s.id),
+      assigned,
+      minPersonnel: dutyType.minPersonnel,
+      maxPersonnel: dutyType.maxPersonnel,
+      status: missing > 0 ? 'UNDERSTAFFED' : excess > 0 ? 'OVERSTAFFED' : 'OK',
+      missing,
+      excess,
+    });
+  });
+
+  if (window) {
+    autoScheduler.buildSlots({ startDate: window.start, endDate: window.end }, dutyTypes)
+      .filter(expected => expected.required > 0)
+      .filter(expected => !active.some(s =>
+        s.dutyTypeId === expected.dutyTypeId &&
+        new Date(s.startTime) < new Date(expected.endTime) &&
+        new Date(expected.startTime) < new Date(s.endTime)
+      ))
+      .forEach(expected => slots.push({
+        dutyTypeId: expected.dutyTypeId,
+        startTime: expected.startTime,
+        endTime: expected.endTime,
+        scheduleIds: [],
+        assigned: 0,
+        minPersonnel: expected.required,
+        maxPersonnel: expected.maxPersonnel,
+        status: 'UNDERSTAFFED',
+        missing: expected.required,
+        excess: 0,
+      }));
+  }
+
+  return slots.sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+};
+
+export const getCoverageConflicts = (schedules: Schedule[], dutyTypes: DutyType[], window?: CoverageWindow): Conflict[] => {
+  return analyzeCoverage(schedules, dutyTypes, window)
+    .filter(slot => slot.status !== 'OK')
+    .map(slot => {
+      const dutyType = dutyTypes.find(dt => dt.id === slot.dutyTypeId)!;
+      const when = new Date(slot.startTime).toLocaleString();
+
+      if (slot.status === 'UNDERSTAFFED') {
+        const isEmpty = slot.scheduleIds.length === 0;
+        return {
+          // An empty slot has no schedules to key on, so its duty type and start identify it
+          id: getConflictId('UNDERSTAFFED', slot.scheduleIds, isEmpty ? `${slot.dutyTypeId}@${slot.startTime}` : undefined),
+          type: 'UNDERSTAFFED' as const,
+          severity: dutyType.priority === 'HIGH' ? 'HIGH' as const : 'MEDIUM' as const,
+          description: isEmpty
+            ? `${dutyType.name} at ${when} has nobody assigned (${slot.minPersonnel} required)`
+            : `${dutyType.name} at ${when} is understaffed: ${slot.assigned} of ${slot.minPersonnel} required (${slot.missing} missing)`,
+          affectedSchedules: slot.scheduleIds,
+          slot: { dutyTypeId: slot.dutyTypeId, startTime: slot.startTime, endTime: slot.endTime, missing: slot.missing },
+          detectedAt: new Date().toISOString(),
+        };
+      }
+
+      return {
+        id: getConflictId('OVERSTAFFED', slot.scheduleIds),
+        type: 'OVERSTAFFED' as const,
+        severity: 'LOW' as const,
+        description: `${dutyType.name} at ${when} is overstaffed: ${slot.assigned} assigned, maximum ${slot.maxPersonnel} (${slot.excess} extra)`,
+        affectedSchedules: slot.scheduleIds,
+        detectedAt: new Date().toISOString(),
+      };
+    });
+};
@@ -0,0 +1,16 @@
+import { DataProvider } from '@/types';
+import { isFirebaseConfigured } from './firebase';
+import { apiService } from './api';
+import { firestoreApiService } from './firestore-api';
+import { constraintEngine } from './constraints';
+
+// Chosen once at startup: Firestore when the app is configured for it, local storage otherwise.
+// Everything outside the data layer reads and writes through this binding, never a backend directly.
+export let dataProvider: DataProvider = isFirebaseConfigured ? firestoreApiService : apiService;
+constraintEngine.bindStore(dataProvider);
+
+// Swap the backend, e.g. for a MemoryApiService in tests; call before anything loads data
+export const setDataProvider = (provider: DataProvider) => {
+  dataProvider = provider;
+  constraintEngine.bindStore(provider);
+};
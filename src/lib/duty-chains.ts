@@ -0,0 +1,104 @@
+import { DutyType, Schedule, Conflict } from '@/types';
+import { getConflictId } from './conflict-ids';
+import { localDb } from './local-db';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Duties separated by no more than this are treated as one continuous stint
+export const CHAIN_GAP_HOURS = 1;
+
+const DEFAULT_MAX_CONSECUTIVE_HOURS = 48;
+
+export interface DutyChain {
+  userId: string;
+  schedules: Schedule[];
+  startTime: string;
+  endTime: string;
+  onDutyHours: number;
+}
+
+// The Settings page keeps the unit-wide limit under idf_settings
+export const getConfiguredMaxConsecutiveHours = (): number => {
+  const value = localDb.getValue<Record<string, any>>('idf_settings')?.scheduling?.maxConsecutiveHours;
+  return typeof value === 'number' && value > 0 ? value : DEFAULT_MAX_CONSECUTIVE_HOURS;
+};
+
+export const findDutyChains = (schedules: Schedule[], gapHours = CHAIN_GAP_HOURS): DutyChain[] => {
+  const chains: DutyChain[] = [];
+  const byUser = new Map<string, Schedule[]>();
+
+  schedules
+    .filter(s => s.status !== 'CANCELLED')
+    .forEach(s => byUser.set(s.userId, [...(byUser.get(s.userId) || []), s]));
+
+  byUser.forEach((userSchedules, userId) => {
+    const sorted = [...userSchedules].sort(
+      (a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime()
+    );
+
+    let current: Schedule[] = [];
+    let chainStart = 0;
+    let chainEnd = 0;
+    let onDuty = 0;
+
+    const closeChain = () => {
+      if (current.length > 0) {
+        chains.push({
+          userId,
+          schedules: current,
+          startTime: new Date(chainStart).toISOString(),
+          endTime: new Date(chainEnd).toISOString(),
+          onDutyHours: onDuty / HOUR_MS,
+        });
+      }
+    };
+
+    for (const schedule of sorted) {
+      const start = new Date(schedule.startTime).getTime();
+      const end = new Date(schedule.endTime).getTime();
+
+      if (current.length > 0 && start - chainEnd <= gapHours * HOUR_MS) {
+        // Only count time not already covered by the chain, so overlaps aren't double counted
+        onDuty += Math.max(0, end - Math.max(start, chainEnd));
+        chainEnd = Math.max(chainEnd, end);
+        current.push(schedule);
+      } else {
+        closeChain();
+        current = [schedule];
+        chainStart = start;
+        chainEnd = end;
+        onDuty = end - start;
+      }
+    }
+
+    closeChain();
+  });
+
+  return chains;
+};
+
+export const getConsecutiveHoursConflicts = (
+  schedules: Schedule[],
+  dutyTypes: DutyType[],
+  maxConsecutiveHours = getConfiguredMaxConsecutiveHours()
+): Conflict[] => {
+  return findDutyChains(schedules)
+    .filter(chain => chain.schedules.length > 1)
+    .map(chain => {
+      // The strictest limit among the chained duty types wins
+      const limit = chain.schedules.reduce((min, s) => {
+        const dutyType = dutyTypes.find(dt => dt.id === s.dutyTypeId);
+        return dutyType?.maxConsecutiveHours ? Math.min(min, dutyType.maxConsecutiveHours) : min;
+      }, maxConsecutiveHours);
+      return { chain, limit };
+    })
+    .filter(({ chain, limit }) => chain.onDutyHours > limit)
+    .map(({ chain, limit }) => ({
+      id: getConflictId('CONSECUTIVE_HOURS', chain.schedules.map(s => s.id)),
+      type: 'CONSECUTIVE_HOURS' as const,
+      severity: 'HIGH' as const,
+      description: `${chain.schedules.length} back-to-back duties total ${Math.round(chain.onDutyHours)}h on duty (limit: ${limit}h)`,
+      affectedSchedules: chain.schedules.map(s => s.id),
+      detectedAt: new Date().toISOString(),
+    }));
+};
@@ -0,0 +1,158 @@
+import { DutyType, Schedule, User } from '@/types';
+import { getHolidayDateKeys, toDateKey } from './holidays';
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+export const DEFAULT_FAIRNESS_WINDOW_DAYS = 30;
+
+// Each duty hour counts 1 point, multiplied by every factor that applies to it
+export const FAIRNESS_WEIGHTS = {
+  priority: { HIGH: 1.5, MEDIUM: 1, LOW: 0.75 } as Record<DutyType['priority'], number>,
+  night: 1.5,
+  weekend: 1.5,
+};
+
+// Nights run 22:00-06:00; the Israeli weekend is Friday and Saturday
+const NIGHT_START_HOUR = 22;
+const NIGHT_END_HOUR = 6;
+const WEEKEND_DAYS = [5, 6];
+
+// Scores this many standard deviations from the mean are flagged
+const OUTLIER_Z_SCORE = 1.5;
+
+export interface FairnessRange {
+  from: Date;
+  to: Date;
+  // YYYY-MM-DD dates weighted like weekend days
+  holidayDates?: Set<string>;
+}
+
+export interface FairnessScore {
+  userId: string;
+  burden: number;
+  hours: number;
+  duties: number;
+  nightHours: number;
+  weekendHours: number;
+  holidayHours: number;
+  highPriorityDuties: number;
+  zScore: number;
+  outlier: 'OVERLOADED' | 'UNDERLOADED' | null;
+}
+
+class FairnessService {
+  getRollingWindow(days: number = DEFAULT_FAIRNESS_WINDOW_DAYS, until: Date = new Date()): FairnessRange {
+    const from = new Date(until.getTime() - days * DAY_MS);
+    return { from, to: until, holidayDates: getHolidayDateKeys(from, until) };
+  }
+
+  // Walk the duty hour by hour so a shift crossing midnight or into the weekend is weighted per hour
+  getDutyBurden(schedule: Schedule | Omit<Schedule, 'id'>, dutyType: DutyType | undefined, holidayDates?: Set<string>) {
+    const start = new Date(schedule.startTime).getTime();
+    const end = new Date(schedule.endTime).getTime();
+    const priorityWeight = FAIRNESS_WEIGHTS.priority[dutyType?.priority || 'MEDIUM'];
+    let burden = 0;
+    let nightHours = 0;
+    let weekendHours = 0;
+    let holidayHours = 0;
+
+    for (let cursor = start; cursor < end; cursor += HOUR_MS) {
+      const fraction = Math.min(HOUR_MS, end - cursor) / HOUR_MS;
+      const hour = new Date(cursor);
+      const isNight = hour.getHours() >= NIGHT_START_HOUR || hour.getHours() < NIGHT_END_HOUR;
+      const isHoliday = !!holidayDates?.has(toDateKey(hour));
+      const isWeekend = WEEKEND_DAYS.includes(hour.getDay());
+
+      let weight = priorityWeight;
+      if (isNight) {
+        weight *= FAIRNESS_WEIGHTS.night;
+        nightHours += fraction;
+      }
+      // A holiday that falls on the weekend is only weighted once
+      if (isWeekend || isHoliday) {
+        weight *= FAIRNESS_WEIGHTS.weekend;
+      }
+      if (isWeekend) weekendHours += fraction;
+      if (isHoliday) holidayHours += fraction;
+      burden += weight * fraction;
+    }
+
+    return { burden, hours: (end - start) / HOUR_MS, nightHours, weekendHours, holidayHours };
+  }
+
+  getBurdenByUser(
+    schedules: (Schedule | Omit<Schedule, 'id'>)[],
+    dutyTypes: DutyType[],
+    range: FairnessRange
+  ): Record<string, number> {
+    const burdenByUser: Record<string, number> = {};
+
+    this.inRange(schedules, range).forEach(s => {
+      const dutyType = dutyTypes.find(dt => dt.id === s.dutyTypeId);
+      burdenByUser[s.userId] = (burdenByUser[s.userId] || 0) + this.getDutyBurden(s, dutyType, range.holidayDates).burden;
+    });
+
+    return burdenByUser;
+  }
+
+  // Scores for everyone given, including people with no duties, so the spread reflects the whole group
+  getScores(users: User[], schedules: Schedule[], dutyTypes: DutyType[], range: FairnessRange): FairnessScore[] {
+    const inRange = this.inRange(schedules, range);
+
+    const scores = users.map(u => {
+      const score: FairnessScore = {
+        userId: u.id,
+        burden: 0,
+        hours: 0,
+        duties: 0,
+        nightHours: 0,
+        weekendHours: 0,
+        holidayHours: 0,
+        highPriorityDuties: 0,
+        zScore: 0,
+        outlier: null,
+      };
+
+      inRange.filter(s => s.userId === u.id).forEach(s => {
+        const dutyType = dutyTypes.find(dt => dt.id === s.dutyTypeId);
+        const duty = this.getDutyBurden(s, dutyType, range.holidayDates);
+        score.burden += duty.burden;
+        score.hours += duty.hours;
+        score.nightHours += duty.nightHours;
+        score.weekendHours += duty.weekendHours;
+        score.holidayHours += duty.holidayHours;
+        score.duties++;
+        if (dutyType?.priority === 'HIGH') score.highPriorityDuties++;
+      });
+
+      return score;
+    });
+
+    const mean = scores.reduce((total, s) => total + s.burden, 0) / (scores.length || 1);
+    const stdDev = Math.sqrt(scores.reduce((total, s) => total + (s.burden - mean) ** 2, 0) / (scores.length || 1));
+
+    return scores
+      .map(s => {
+        const zScore = stdDev > 0 ? (s.burden - mean) / stdDev : 0;
+        return {
+          ...s,
+          zScore,
+          outlier: zScore >= OUTLIER_Z_SCORE ? 'OVERLOADED' as const
+            : zScore <= -OUTLIER_Z_SCORE ? 'UNDERLOADED' as const
+            : null,
+        };
+      })
+      .sort((a, b) => b.burden - a.burden);
+  }
+
+  private inRange<T extends Schedule | Omit<Schedule, 'id'>>(schedules: T[], range: FairnessRange): T[] {
+    return schedules.filter(s =>
+      s.status !== 'CANCELLED' &&
+      new Date(s.startTime) < range.to &&
+      range.from < new Date(s.endTime)
+    );
+  }
+}
+
+export const fairnessService = new FairnessService();
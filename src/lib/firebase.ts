@@ -43,7 +43,7 @@ const firebaseConfig: FirebaseConfig | null = (() => {
         '🔥 Firebase configuration incomplete. Missing fields:',
         missingFields.join(', '),
         '\n📝 For Firebase integration (Path B), please configure your .env file with Firebase credentials.',
-        '\n🏠 For local development (Path A), you can ignore this warning - the app will use JSON files + localStorage.'
+        '\n🏠 For local development (Path A), you can ignore this warning - the app will use JSON files + IndexedDB.'
       );
     }
     return null;
@@ -5,6 +5,7 @@ import {
   getDoc, 
   addDoc, 
   updateDoc, 
+  setDoc,
   deleteDoc, 
   query, 
   where, 
@@ -15,6 +16,7 @@ import {
   disableNetwork,
   connectFirestoreEmulator,
   writeBatch,
+  runTransaction,
   serverTimestamp,
   Timestamp,
   DocumentData,
@@ -29,7 +31,16 @@ import {
   User as FirebaseUser
 } from 'firebase/auth';
 import { db, auth, isFirebaseAvailable } from './firebase';
-import { User, DutyType, Schedule, Availability, DashboardStats, Conflict } from '@/types';
+import { User, DutyType, Schedule, Availability, DashboardStats, Conflict, ConflictResolution, ShiftSwap, LeaveRequest, DutyChangeRequest, RequestStatus, AvailabilityPattern, DutyTemplate, OperationalData, AuditAction, AuditEntityType, AuditEntry, AuditSnapshots, Constraint, ConstraintOverride, DataProvider, OutboxOperation, OutboxOperationType, ScheduleChange, ScheduleQuery, UserChange } from '@/types';
+import { getScheduleFingerprint } from './conflict-ids';
+import { applyResolutionHistory, findScheduleConflicts } from './conflict-detection';
+import { shiftSwapService } from './shift-swaps';
+import { expandAvailabilityPatterns } from './availability';
+import { auditService, describeUserUpdate, MAX_LOCAL_AUDIT_ENTRIES } from './audit';
+import { localDb } from './local-db';
+import { outboxService, hasServerChanged, OutboxConflictError } from './outbox';
+import { assertScheduleVersion, stampScheduleChange } from './schedule-versions';
+import { getOverlapBounds, matchesScheduleQuery } from './schedule-queries';
 
 // Firestore collection names
 const COLLECTIONS = {
@@ -37,9 +48,27 @@ const COLLECTIONS = {
   DUTY_TYPES: 'dutyTypes',
   SCHEDULES: 'schedules',
   AVAILABILITY: 'availability',
-  CONFLICTS: 'conflicts'
+  CONFLICTS: 'conflicts',
+  SHIFT_SWAPS: 'shiftSwaps',
+  LEAVE_REQUESTS: 'leaveRequests',
+  DUTY_CHANGE_REQUESTS: 'dutyChangeRequests',
+  AVAILABILITY_PATTERNS: 'availabilityPatterns',
+  DUTY_TEMPLATES: 'dutyTemplates',
+  AUDIT_LOG: 'auditLog',
+  CONFLICT_RESOLUTIONS: 'conflictResolutions',
+  CONSTRAINTS: 'constraints',
+  CONSTRAINT_OVERRIDES: 'constraintOverrides'
 } as const;
 
+// Firestore caps a batch at 500 writes
+const BATCH_LIMIT = 500;
+
+// Collections whose writes can be queued offline, and the cache each one is read from
+const OUTBOX_CACHE_KEYS: Record<string, 'schedules' | 'availability'> = {
+  [COLLECTIONS.SCHEDULES]: 'schedules',
+  [COLLECTIONS.AVAILABILITY]: 'availability',
+};
+
 // Cache for offline support
 interface CacheData {
   users: User[];
@@ -47,9 +76,13 @@ interface CacheData {
   schedules: Schedule[];
   availability: Availability[];
   lastUpdated: number;
+  // Collections that so far hold only range query results, so a full fetch can't be served from them
+  partial?: CacheKey[];
 }
 
-class FirestoreApiService {
+type CacheKey = keyof Omit<CacheData, 'lastUpdated' | 'partial'>;
+
+class FirestoreApiService implements DataProvider {
   private cache: CacheData = {
     users: [],
     dutyTypes: [],
@@ -58,26 +91,37 @@ class FirestoreApiService {
     lastUpdated: 0
   };
   
-  private isOnline = true;
+  private isOnline = typeof navigator === 'undefined' || navigator.onLine;
   private cacheExpiry = 5 * 60 * 1000; // 5 minutes
   private listeners: (() => void)[] = [];
 
   constructor() {
     this.initializeOfflineSupport();
     this.setupNetworkListener();
+    this.initializeOutbox();
   }
 
   private initializeOfflineSupport() {
     if (!isFirebaseAvailable()) return;
 
-    // Load cache from localStorage
-    try {
-      const cachedData = localStorage.getItem('firestore_cache');
-      if (cachedData) {
-        this.cache = JSON.parse(cachedData);
-      }
-    } catch (error) {
-      console.warn('Failed to load cache from localStorage:', error);
+    // Load cache from the local database
+    const cachedData = localDb.getValue<CacheData>('firestore_cache');
+    if (cachedData) {
+      this.cache = cachedData;
+    }
+  }
+
+  // Schedule and availability writes made offline wait in the outbox and are replayed on reconnect
+  private initializeOutbox() {
+    if (!isFirebaseAvailable()) return;
+
+    outboxService.setApplier({
+      apply: operation => this.applyOutboxOperation(operation),
+      discard: operation => this.discardOutboxOperation(operation),
+    });
+
+    if (this.isOnline) {
+      this.replayOutbox();
     }
   }
 
@@ -86,7 +130,7 @@ class FirestoreApiService {
       window.addEventListener('online', () => {
         this.isOnline = true;
         if (isFirebaseAvailable()) {
-          enableNetwork(db!);
+          enableNetwork(db!).then(() => this.replayOutbox());
         }
       });
 
@@ -99,15 +143,13 @@ class FirestoreApiService {
     }
   }
 
-  private updateCache(type: keyof Omit<CacheData, 'lastUpdated'>, data: any[]) {
+  private updateCache(type: CacheKey, data: any[]) {
     this.cache[type] = data;
     this.cache.lastUpdated = Date.now();
     
-    try {
-      localStorage.setItem('firestore_cache', JSON.stringify(this.cache));
-    } catch (error) {
-      console.warn('Failed to save cache to localStorage:', error);
-    }
+    localDb.setValue('firestore_cache', this.cache).catch(error => {
+      console.warn('Failed to save cache to the local database:', error);
+    });
   }
 
   private isCacheValid(): boolean {
@@ -129,14 +171,15 @@ class FirestoreApiService {
 
   private async getCollectionData<T>(
     collectionName: string,
-    cacheKey: keyof Omit<CacheData, 'lastUpdated'>
+    cacheKey: CacheKey
   ): Promise<T[]> {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
 
     // Return cached data if offline or cache is valid
-    if (!this.isOnline || (this.isCacheValid() && this.cache[cacheKey].length > 0)) {
+    const isComplete = !this.cache.partial?.includes(cacheKey);
+    if (!this.isOnline || (this.isCacheValid() && isComplete && this.cache[cacheKey].length > 0)) {
       return this.cache[cacheKey] as T[];
     }
 
@@ -144,11 +187,13 @@ class FirestoreApiService {
       const collectionRef = collection(db!, collectionName);
       const snapshot = await getDocs(collectionRef);
       
-      const data = snapshot.docs.map(doc => ({
+      // Writes still waiting in the outbox stay visible over the server copy
+      const data = outboxService.overlay(collectionName, snapshot.docs.map(doc => ({
         id: doc.id,
         ...this.convertFirestoreTimestamp(doc.data())
-      })) as T[];
+      })) as (T & { id: string })[]);
 
+      this.cache.partial = this.cache.partial?.filter(key => key !== cacheKey);
       this.updateCache(cacheKey, data);
       return data;
     } catch (error) {
@@ -172,23 +217,146 @@ class FirestoreApiService {
     return this.getCollectionData<DutyType>(COLLECTIONS.DUTY_TYPES, 'dutyTypes');
   }
 
+  async saveDutyType(dutyType: Omit<DutyType, 'id'>): Promise<DutyType> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const docRef = await addDoc(collection(db!, COLLECTIONS.DUTY_TYPES), dutyType);
+      const newDutyType: DutyType = { ...dutyType, id: docRef.id };
+      this.updateCache('dutyTypes', [...this.cache.dutyTypes, newDutyType]);
+      await this.recordAudit('CREATE', 'DUTY_TYPE', newDutyType.id, `Created duty type "${newDutyType.name}"`, { after: newDutyType });
+      this.notifyListeners();
+      return newDutyType;
+    } catch (error) {
+      console.error('Error saving duty type:', error);
+      throw error;
+    }
+  }
+
+  async updateDutyType(dutyTypeId: string, updates: Partial<DutyType>): Promise<DutyType> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const before = await this.getDocData<DutyType>(COLLECTIONS.DUTY_TYPES, dutyTypeId);
+      if (!before) {
+        throw new Error('Duty type not found');
+      }
+
+      const { id, ...updateData } = updates;
+      await updateDoc(doc(db!, COLLECTIONS.DUTY_TYPES, dutyTypeId), updateData);
+      const updatedDutyType: DutyType = { ...before, ...updateData, id: dutyTypeId };
+
+      this.updateCache('dutyTypes', this.cache.dutyTypes.map(dt => dt.id === dutyTypeId ? updatedDutyType : dt));
+      await this.recordAudit('UPDATE', 'DUTY_TYPE', dutyTypeId, `Updated duty type "${before.name}"`, { before, after: updatedDutyType });
+      this.notifyListeners();
+      return updatedDutyType;
+    } catch (error) {
+      console.error('Error updating duty type:', error);
+      throw error;
+    }
+  }
+
+  async deleteDutyType(dutyTypeId: string): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const before = await this.getDocData<DutyType>(COLLECTIONS.DUTY_TYPES, dutyTypeId);
+      await deleteDoc(doc(db!, COLLECTIONS.DUTY_TYPES, dutyTypeId));
+
+      this.updateCache('dutyTypes', this.cache.dutyTypes.filter(dt => dt.id !== dutyTypeId));
+      await this.recordAudit('DELETE', 'DUTY_TYPE', dutyTypeId, `Deleted duty type${before ? ` "${before.name}"` : ''}`, { before });
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error deleting duty type:', error);
+      throw error;
+    }
+  }
+
   async fetchSchedules(): Promise<Schedule[]> {
     return this.getCollectionData<Schedule>(COLLECTIONS.SCHEDULES, 'schedules');
   }
 
+  // Range and user filters run on the server (composite indexes in firestore.indexes.json)
+  async querySchedules(scheduleQuery: ScheduleQuery): Promise<Schedule[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    const fromCache = () => this.cache.schedules.filter(s => matchesScheduleQuery(s, scheduleQuery));
+    if (!this.isOnline) {
+      return fromCache();
+    }
+
+    try {
+      const { endAfter, startBefore } = getOverlapBounds(scheduleQuery);
+      const snapshot = await getDocs(query(
+        collection(db!, COLLECTIONS.SCHEDULES),
+        ...(scheduleQuery.userId ? [where('userId', '==', scheduleQuery.userId)] : []),
+        ...(scheduleQuery.seriesId ? [where('seriesId', '==', scheduleQuery.seriesId)] : []),
+        ...(endAfter ? [where('endTime', '>=', endAfter)] : []),
+        ...(startBefore ? [where('startTime', '<', startBefore)] : []),
+      ));
+
+      const schedules = outboxService.overlay(COLLECTIONS.SCHEDULES, snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...this.convertFirestoreTimestamp(doc.data())
+      })) as Schedule[]).filter(s => matchesScheduleQuery(s, scheduleQuery));
+
+      this.mergeQueriedSchedules(scheduleQuery, schedules);
+      return schedules;
+    } catch (error) {
+      console.error('Error querying schedules:', error);
+
+      if (this.cache.schedules.length > 0) {
+        console.warn('Using cached schedules data due to error');
+        return fromCache();
+      }
+
+      throw error;
+    }
+  }
+
+  // Kept in the cache so the same range can be shown and edited offline. The results already carry
+  // the outbox overlay, and within the range they replace what was cached, dropping server deletes.
+  private mergeQueriedSchedules(scheduleQuery: ScheduleQuery, schedules: Schedule[]) {
+    const fetchedIds = new Set(schedules.map(s => s.id));
+    if (this.cache.schedules.length === 0 && !this.cache.partial?.includes('schedules')) {
+      this.cache.partial = [...(this.cache.partial || []), 'schedules'];
+    }
+
+    const kept = this.cache.schedules.filter(s => !fetchedIds.has(s.id) && !matchesScheduleQuery(s, scheduleQuery));
+    this.cache.schedules = [...kept, ...schedules];
+    localDb.setValue('firestore_cache', this.cache).catch(error => {
+      console.warn('Failed to save cache to the local database:', error);
+    });
+  }
+
   async fetchAvailability(): Promise<Availability[]> {
-    return this.getCollectionData<Availability>(COLLECTIONS.AVAILABILITY, 'availability');
+    const [records, patterns] = await Promise.all([
+      this.getCollectionData<Availability>(COLLECTIONS.AVAILABILITY, 'availability'),
+      this.fetchAvailabilityPatterns().catch(() => [] as AvailabilityPattern[]),
+    ]);
+    return [...records, ...expandAvailabilityPatterns(patterns)];
   }
 
   async getDashboardStats(): Promise<DashboardStats> {
     try {
-      const [users, schedules, availability] = await Promise.all([
+      // Every figure is about duties running now or still to come, so past ones aren't read
+      const now = new Date();
+      const [users, schedules] = await Promise.all([
         this.fetchUsers(),
-        this.fetchSchedules(),
-        this.fetchAvailability(),
+        this.querySchedules({ from: now.toISOString() }),
       ]);
 
-      const now = new Date();
       const activeSchedules = schedules.filter(s => 
         new Date(s.startTime) <= now && new Date(s.endTime) >= now
       );
@@ -226,188 +394,925 @@ class FirestoreApiService {
   }
 
   async detectConflicts(schedules: Schedule[]): Promise<Conflict[]> {
-    const conflicts: Conflict[] = [];
-    const users = await this.fetchUsers();
-    const dutyTypes = await this.fetchDutyTypes();
-
-    // Check for overlapping schedules for the same user
-    for (let i = 0; i < schedules.length; i++) {
-      for (let j = i + 1; j < schedules.length; j++) {
-        const schedule1 = schedules[i];
-        const schedule2 = schedules[j];
-
-        if (schedule1.userId === schedule2.userId) {
-          const start1 = new Date(schedule1.startTime);
-          const end1 = new Date(schedule1.endTime);
-          const start2 = new Date(schedule2.startTime);
-          const end2 = new Date(schedule2.endTime);
-
-          if (start1 < end2 && start2 < end1) {
-            conflicts.push({
-              id: `conflict-${Date.now()}-${i}-${j}`,
-              type: 'OVERLAP',
-              severity: 'HIGH',
-              description: `User has overlapping schedules`,
-              affectedSchedules: [schedule1.id, schedule2.id],
-              detectedAt: new Date().toISOString(),
-            });
-          }
+    const [users, dutyTypes, availability, previousConflicts, resolutions] = await Promise.all([
+      this.fetchUsers(),
+      this.fetchDutyTypes(),
+      this.fetchAvailability(),
+      this.fetchCollectionDocs(COLLECTIONS.CONFLICTS).catch(() => [] as DocumentData[]),
+      this.fetchConflictResolutions().catch(() => [] as ConflictResolution[]),
+    ]);
+
+    const conflicts = applyResolutionHistory(
+      findScheduleConflicts(schedules, users, dutyTypes, availability),
+      previousConflicts as Conflict[],
+      resolutions,
+      schedules
+    );
+
+    // Save conflicts to Firestore, even an empty set, so the ones that went away are removed
+    await this.saveConflicts(conflicts);
+
+    return conflicts;
+  }
+
+  async fetchConflictResolutions(): Promise<ConflictResolution[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const resolutionsRef = collection(db!, COLLECTIONS.CONFLICT_RESOLUTIONS);
+      const snapshot = await getDocs(query(resolutionsRef, orderBy('resolvedAt', 'desc')));
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ConflictResolution[];
+    } catch (error) {
+      console.error('Error fetching conflict resolutions:', error);
+      throw error;
+    }
+  }
+
+  async resolveConflict(
+    conflict: Conflict,
+    resolvedBy: string,
+    resolution: string,
+    schedules: Schedule[]
+  ): Promise<ConflictResolution> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    const record: Omit<ConflictResolution, 'id'> = {
+      conflictId: conflict.id,
+      conflict,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy,
+      resolution,
+      scheduleFingerprint: getScheduleFingerprint(conflict.affectedSchedules, schedules),
+    };
+
+    try {
+      const docRef = await addDoc(collection(db!, COLLECTIONS.CONFLICT_RESOLUTIONS), record);
+      const newResolution: ConflictResolution = { ...record, id: docRef.id };
+      await this.recordAudit('RESOLVE', 'CONFLICT', conflict.id, resolution, { before: conflict, after: newResolution });
+      return newResolution;
+    } catch (error) {
+      console.error('Error saving conflict resolution:', error);
+      throw error;
+    }
+  }
+
+  private async saveConflicts(conflicts: Conflict[]): Promise<void> {
+    if (!isFirebaseAvailable()) return;
+
+    try {
+      // Replaces the stored set, as the local backend does: conflicts that were resolved or no
+      // longer occur are deleted. Ids are deterministic, so re-detection overwrites instead of duplicating
+      await this.replaceCollection(COLLECTIONS.CONFLICTS, conflicts);
+    } catch (error) {
+      console.error('Error saving conflicts:', error);
+    }
+  }
+
+  // Makes the collection hold exactly these records, in batches under the write limit
+  private async replaceCollection(collectionName: string, records: { id: string }[]): Promise<void> {
+    const collectionRef = collection(db!, collectionName);
+    const existing = await getDocs(collectionRef);
+    const keptIds = new Set(records.map(r => r.id));
+    const writes = [
+      ...existing.docs.filter(d => !keptIds.has(d.id)).map(d => ({ ref: d.ref, record: null })),
+      ...records.map(record => ({ ref: doc(collectionRef, record.id), record })),
+    ];
+
+    for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+      const batch = writeBatch(db!);
+      writes.slice(i, i + BATCH_LIMIT).forEach(({ ref, record }) => {
+        if (record) {
+          batch.set(ref, record);
+        } else {
+          batch.delete(ref);
         }
+      });
+      await batch.commit();
+    }
+  }
+
+  async saveSchedule(schedule: Omit<Schedule, 'id'>): Promise<Schedule> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const schedulesRef = collection(db!, COLLECTIONS.SCHEDULES);
+      if (this.shouldQueueWrites()) {
+        return await this.queueWrite<Schedule>(COLLECTIONS.SCHEDULES, 'SCHEDULE', 'CREATE', doc(schedulesRef).id, schedule, 'Created schedule');
       }
+
+      const docRef = await addDoc(schedulesRef, {
+        ...schedule,
+        assignedAt: serverTimestamp(),
+      });
+
+      const newSchedule: Schedule = {
+        ...schedule,
+        id: docRef.id,
+      };
+
+      // Update cache in place; it may only hold the ranges queried so far
+      this.updateCache('schedules', [...this.cache.schedules, newSchedule]);
+
+      await this.recordAudit('CREATE', 'SCHEDULE', newSchedule.id, 'Created schedule', { after: newSchedule });
+
+      // Trigger real-time updates
+      this.notifyListeners();
+
+      return newSchedule;
+    } catch (error) {
+      console.error('Error saving schedule:', error);
+      throw error;
+    }
+  }
+
+  async saveSchedules(schedules: Omit<Schedule, 'id'>[]): Promise<Schedule[]> {
+    if (this.shouldQueueWrites()) {
+      const queued: Schedule[] = [];
+      for (const schedule of schedules) {
+        queued.push(await this.saveSchedule(schedule));
+      }
+      return queued;
     }
 
-    // Check for rest period violations
-    for (const user of users) {
-      const userSchedules = schedules
-        .filter(s => s.userId === user.id)
-        .sort((a, b) => new Date(a.startTime).getTime() - new Date(b.startTime).getTime());
+    const createdSchedules = await this.batchCreateSchedules(schedules);
 
-      for (let i = 0; i < userSchedules.length - 1; i++) {
-        const current = userSchedules[i];
-        const next = userSchedules[i + 1];
-        
-        const currentDutyType = dutyTypes.find(dt => dt.id === current.dutyTypeId);
-        if (!currentDutyType) continue;
-
-        const restTime = new Date(next.startTime).getTime() - new Date(current.endTime).getTime();
-        const requiredRest = currentDutyType.minRestAfter * 60 * 60 * 1000; // Convert hours to milliseconds
-
-        if (restTime < requiredRest) {
-          conflicts.push({
-            id: `conflict-rest-${Date.now()}-${i}`,
-            type: 'REST_VIOLATION',
-            severity: 'MEDIUM',
-            description: `Insufficient rest period between duties (${Math.round(restTime / (60 * 60 * 1000))}h required: ${currentDutyType.minRestAfter}h)`,
-            affectedSchedules: [current.id, next.id],
-            detectedAt: new Date().toISOString(),
+    // Trigger real-time updates
+    this.notifyListeners();
+
+    return createdSchedules;
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      if (this.shouldQueueWrites()) {
+        await this.queueWrite<Schedule>(COLLECTIONS.SCHEDULES, 'SCHEDULE', 'DELETE', scheduleId, undefined, 'Deleted schedule');
+        return;
+      }
+
+      const scheduleRef = doc(db!, COLLECTIONS.SCHEDULES, scheduleId);
+      const before = await this.getDocData<Schedule>(COLLECTIONS.SCHEDULES, scheduleId);
+      await deleteDoc(scheduleRef);
+      await this.recordAudit('DELETE', 'SCHEDULE', scheduleId, 'Deleted schedule', { before });
+
+      // Update cache in place; it may only hold the ranges queried so far
+      this.updateCache('schedules', this.cache.schedules.filter(s => s.id !== scheduleId));
+
+      // Trigger real-time updates
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error deleting schedule:', error);
+      throw error;
+    }
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<Schedule>, expectedVersion?: number): Promise<Schedule> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const scheduleRef = doc(db!, COLLECTIONS.SCHEDULES, scheduleId);
+      
+      // Remove id from updates to avoid Firestore error
+      const { id, ...updateData } = updates;
+      if (this.shouldQueueWrites()) {
+        // Checked against the cached copy; the outbox checks the server copy again on replay
+        const cached = this.cache.schedules.find(s => s.id === scheduleId);
+        if (cached) {
+          assertScheduleVersion(cached, expectedVersion);
+        }
+        return await this.queueWrite<Schedule>(COLLECTIONS.SCHEDULES, 'SCHEDULE', 'UPDATE', scheduleId, {
+          ...updateData,
+          ...(cached && stampScheduleChange(cached)),
+        }, 'Updated schedule');
+      }
+
+      // Read and write in one transaction so a concurrent edit can't land between the check and the update
+      const before = await runTransaction(db!, async transaction => {
+        const snapshot = await transaction.get(scheduleRef);
+        if (!snapshot.exists()) {
+          throw new Error('Schedule not found');
+        }
+
+        const current = { id: snapshot.id, ...this.convertFirestoreTimestamp(snapshot.data()) } as Schedule;
+        assertScheduleVersion(current, expectedVersion);
+        transaction.update(scheduleRef, {
+          ...updateData,
+          ...stampScheduleChange(current),
+          updatedAt: serverTimestamp(),
+        });
+        return current;
+      });
+
+      // Get updated document
+      const updatedDoc = await getDoc(scheduleRef);
+      if (!updatedDoc.exists()) {
+        throw new Error('Schedule not found after update');
+      }
+
+      const updatedSchedule: Schedule = {
+        id: updatedDoc.id,
+        ...this.convertFirestoreTimestamp(updatedDoc.data())
+      };
+
+      // Update cache in place; it may only hold the ranges queried so far
+      this.updateCache('schedules', this.cache.schedules.map(s => s.id === scheduleId ? updatedSchedule : s));
+
+      await this.recordAudit('UPDATE', 'SCHEDULE', scheduleId, 'Updated schedule', { before, after: updatedSchedule });
+
+      // Trigger real-time updates
+      this.notifyListeners();
+
+      return updatedSchedule;
+    } catch (error) {
+      console.error('Error updating schedule:', error);
+      throw error;
+    }
+  }
+
+  async updateSchedules(changes: ScheduleChange[]): Promise<Schedule[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      if (this.shouldQueueWrites()) {
+        const queued: Schedule[] = [];
+        for (const { scheduleId, updates, expectedVersion } of changes) {
+          queued.push(await this.updateSchedule(scheduleId, updates, expectedVersion));
+        }
+        return queued;
+      }
+
+      // All reads come before any write, as transactions require, so one stale schedule fails the whole batch
+      const updatedSchedules = await runTransaction(db!, async transaction => {
+        const snapshots = await Promise.all(changes.map(c => transaction.get(doc(db!, COLLECTIONS.SCHEDULES, c.scheduleId))));
+        const updated: { before: Schedule; after: Schedule }[] = [];
+
+        changes.forEach(({ updates, expectedVersion }, index) => {
+          const snapshot = snapshots[index];
+          if (!snapshot.exists()) {
+            throw new Error('Schedule not found');
+          }
+
+          const before = { id: snapshot.id, ...this.convertFirestoreTimestamp(snapshot.data()) } as Schedule;
+          assertScheduleVersion(before, expectedVersion);
+          const { id, ...updateData } = updates;
+          const stamp = stampScheduleChange(before);
+          transaction.update(snapshot.ref, {
+            ...updateData,
+            ...stamp,
+            updatedAt: serverTimestamp(),
           });
+          updated.push({ before, after: { ...before, ...updateData, ...stamp } });
+        });
+
+        return updated;
+      });
+
+      // Update cache
+      this.updateCache('schedules', this.cache.schedules.map(s =>
+        updatedSchedules.find(u => u.after.id === s.id)?.after || s
+      ));
+
+      await this.appendAuditEntries(updatedSchedules.map(({ before, after }) =>
+        auditService.createEntry('UPDATE', 'SCHEDULE', after.id, 'Updated schedule', { before, after })
+      ));
+
+      // Trigger real-time updates
+      this.notifyListeners();
+
+      return updatedSchedules.map(u => u.after);
+    } catch (error) {
+      console.error('Error updating schedules:', error);
+      throw error;
+    }
+  }
+
+  async deleteSchedules(scheduleIds: string[]): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      if (this.shouldQueueWrites()) {
+        for (const scheduleId of scheduleIds) {
+          await this.deleteSchedule(scheduleId);
         }
+        return;
       }
+
+      const before = await Promise.all(scheduleIds.map(id => this.getDocData<Schedule>(COLLECTIONS.SCHEDULES, id)));
+      const batch = writeBatch(db!);
+      scheduleIds.forEach(id => batch.delete(doc(db!, COLLECTIONS.SCHEDULES, id)));
+      await batch.commit();
+      await this.appendAuditEntries(scheduleIds.map((id, index) =>
+        auditService.createEntry('DELETE', 'SCHEDULE', id, 'Deleted schedule', { before: before[index] })
+      ));
+
+      // Update cache
+      this.updateCache('schedules', this.cache.schedules.filter(s => !scheduleIds.includes(s.id)));
+
+      // Trigger real-time updates
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error deleting schedules:', error);
+      throw error;
     }
+  }
 
-    // Save conflicts to Firestore
-    if (conflicts.length > 0) {
-      await this.saveConflicts(conflicts);
+  async fetchDutyTemplates(): Promise<DutyTemplate[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
     }
 
-    return conflicts;
+    try {
+      const snapshot = await getDocs(collection(db!, COLLECTIONS.DUTY_TEMPLATES));
+      return snapshot.docs.map(doc => this.fromTemplateDoc(doc.id, doc.data()));
+    } catch (error) {
+      console.error('Error fetching duty templates:', error);
+      throw error;
+    }
   }
 
-  private async saveConflicts(conflicts: Conflict[]): Promise<void> {
-    if (!isFirebaseAvailable()) return;
+  async saveDutyTemplate(template: Omit<DutyTemplate, 'id'>): Promise<DutyTemplate> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const docRef = await addDoc(collection(db!, COLLECTIONS.DUTY_TEMPLATES), this.toTemplateDoc(template));
+      const newTemplate = { ...template, id: docRef.id };
+      await this.recordAudit('CREATE', 'DUTY_TEMPLATE', newTemplate.id, `Created recurring series "${newTemplate.name}"`, { after: newTemplate });
+      return newTemplate;
+    } catch (error) {
+      console.error('Error saving duty template:', error);
+      throw error;
+    }
+  }
+
+  async updateDutyTemplate(templateId: string, updates: Partial<DutyTemplate>): Promise<DutyTemplate> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const templateRef = doc(db!, COLLECTIONS.DUTY_TEMPLATES, templateId);
+      const { id, ...updateData } = updates;
+      const beforeDoc = await getDoc(templateRef);
+      await updateDoc(templateRef, this.toTemplateDoc(updateData));
+
+      const updatedDoc = await getDoc(templateRef);
+      if (!updatedDoc.exists()) {
+        throw new Error('Duty template not found after update');
+      }
+
+      const updatedTemplate = this.fromTemplateDoc(updatedDoc.id, updatedDoc.data());
+      const before = beforeDoc.exists() ? this.fromTemplateDoc(beforeDoc.id, beforeDoc.data()) : undefined;
+      await this.recordAudit('UPDATE', 'DUTY_TEMPLATE', templateId, `Updated recurring series "${updatedTemplate.name}"`, {
+        before,
+        after: updatedTemplate,
+      });
+      return updatedTemplate;
+    } catch (error) {
+      console.error('Error updating duty template:', error);
+      throw error;
+    }
+  }
+
+  // Firestore rejects nested arrays, so crews are stored as a map of crew index to members
+  private toTemplateDoc(template: Partial<DutyTemplate>): DocumentData {
+    const { crews, ...rest } = template;
+    return crews ? { ...rest, crews: Object.fromEntries(crews.map((crew, i) => [String(i), crew])) } : rest;
+  }
+
+  private fromTemplateDoc(id: string, data: DocumentData): DutyTemplate {
+    const converted = this.convertFirestoreTimestamp(data);
+    const crews = Object.keys(converted.crews || {})
+      .sort((a, b) => Number(a) - Number(b))
+      .map(key => converted.crews[key] as string[]);
+    return { ...converted, id, crews };
+  }
+
+  async deleteDutyTemplate(templateId: string): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const templateRef = doc(db!, COLLECTIONS.DUTY_TEMPLATES, templateId);
+      const beforeDoc = await getDoc(templateRef);
+      const before = beforeDoc.exists() ? this.fromTemplateDoc(beforeDoc.id, beforeDoc.data()) : undefined;
+      await deleteDoc(templateRef);
+      await this.recordAudit('DELETE', 'DUTY_TEMPLATE', templateId, `Deleted recurring series${before ? ` "${before.name}"` : ''}`, { before });
+    } catch (error) {
+      console.error('Error deleting duty template:', error);
+      throw error;
+    }
+  }
+
+  async saveAvailability(availability: Omit<Availability, 'id'>): Promise<Availability> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
 
     try {
+      const availabilityRef = collection(db!, COLLECTIONS.AVAILABILITY);
+      if (this.shouldQueueWrites()) {
+        return await this.queueWrite<Availability>(
+          COLLECTIONS.AVAILABILITY,
+          'AVAILABILITY',
+          'CREATE',
+          doc(availabilityRef).id,
+          availability,
+          `Set ${availability.status.toLowerCase()} availability`
+        );
+      }
+
+      const docRef = await addDoc(availabilityRef, {
+        ...availability,
+        updatedAt: serverTimestamp(),
+      });
+
+      const newAvailability: Availability = {
+        ...availability,
+        id: docRef.id,
+      };
+
+      // Update cache
+      this.updateCache('availability', [...this.cache.availability, newAvailability]);
+
+      await this.recordAudit('CREATE', 'AVAILABILITY', newAvailability.id, `Set ${newAvailability.status.toLowerCase()} availability`, { after: newAvailability });
+
+      return newAvailability;
+    } catch (error) {
+      console.error('Error saving availability:', error);
+      throw error;
+    }
+  }
+
+  async updateAvailability(availabilityId: string, updates: Partial<Availability>): Promise<Availability> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const availabilityRef = doc(db!, COLLECTIONS.AVAILABILITY, availabilityId);
+      const { id, ...updateData } = updates;
+      if (this.shouldQueueWrites()) {
+        return await this.queueWrite<Availability>(COLLECTIONS.AVAILABILITY, 'AVAILABILITY', 'UPDATE', availabilityId, updateData, 'Updated availability');
+      }
+
+      const before = await this.getDocData<Availability>(COLLECTIONS.AVAILABILITY, availabilityId);
+      await updateDoc(availabilityRef, {
+        ...updateData,
+        updatedAt: serverTimestamp(),
+      });
+
+      const updatedDoc = await getDoc(availabilityRef);
+      if (!updatedDoc.exists()) {
+        throw new Error('Availability record not found after update');
+      }
+
+      const updatedAvailability: Availability = {
+        id: updatedDoc.id,
+        ...this.convertFirestoreTimestamp(updatedDoc.data())
+      };
+
+      // Update cache
+      this.updateCache('availability', this.cache.availability.map(a =>
+        a.id === availabilityId ? updatedAvailability : a
+      ));
+
+      await this.recordAudit('UPDATE', 'AVAILABILITY', availabilityId, 'Updated availability', { before, after: updatedAvailability });
+
+      return updatedAvailability;
+    } catch (error) {
+      console.error('Error updating availability:', error);
+      throw error;
+    }
+  }
+
+  async deleteAvailability(availabilityId: string): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      if (this.shouldQueueWrites()) {
+        await this.queueWrite<Availability>(COLLECTIONS.AVAILABILITY, 'AVAILABILITY', 'DELETE', availabilityId, undefined, 'Deleted availability');
+        return;
+      }
+
+      const before = await this.getDocData<Availability>(COLLECTIONS.AVAILABILITY, availabilityId);
+      await deleteDoc(doc(db!, COLLECTIONS.AVAILABILITY, availabilityId));
+      await this.recordAudit('DELETE', 'AVAILABILITY', availabilityId, 'Deleted availability', { before });
+
+      // Update cache
+      this.updateCache('availability', this.cache.availability.filter(a => a.id !== availabilityId));
+    } catch (error) {
+      console.error('Error deleting availability:', error);
+      throw error;
+    }
+  }
+
+  async replaceAvailabilityInRange(
+    userId: string,
+    rangeStart: string,
+    rangeEnd: string,
+    records: Omit<Availability, 'id'>[]
+  ): Promise<Availability[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const start = new Date(rangeStart).getTime();
+      const end = new Date(rangeEnd).getTime();
+      const existing = (await this.getCollectionData<Availability>(COLLECTIONS.AVAILABILITY, 'availability'))
+        .filter(a =>
+          a.userId === userId &&
+          new Date(a.startTime).getTime() >= start &&
+          new Date(a.endTime).getTime() <= end
+        );
+
       const batch = writeBatch(db!);
-      const conflictsRef = collection(db!, COLLECTIONS.CONFLICTS);
+      const availabilityRef = collection(db!, COLLECTIONS.AVAILABILITY);
+      existing.forEach(a => batch.delete(doc(availabilityRef, a.id)));
 
-      conflicts.forEach(conflict => {
-        const docRef = doc(conflictsRef);
-        batch.set(docRef, {
-          ...conflict,
-          detectedAt: serverTimestamp(),
-        });
+      const newRecords: Availability[] = records.map(record => {
+        const docRef = doc(availabilityRef);
+        batch.set(docRef, record);
+        return { ...record, id: docRef.id };
       });
 
-      await batch.commit();
+      await batch.commit();
+
+      // Update cache
+      const replacedIds = existing.map(a => a.id);
+      this.updateCache('availability', [
+        ...this.cache.availability.filter(a => !replacedIds.includes(a.id)),
+        ...newRecords,
+      ]);
+
+      await this.recordAudit('UPDATE', 'AVAILABILITY', userId, 'Replaced weekly availability', {
+        before: { records: existing },
+        after: { records: newRecords },
+      });
+
+      return newRecords;
+    } catch (error) {
+      console.error('Error replacing availability:', error);
+      throw error;
+    }
+  }
+
+  async fetchAvailabilityPatterns(): Promise<AvailabilityPattern[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const snapshot = await getDocs(collection(db!, COLLECTIONS.AVAILABILITY_PATTERNS));
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...this.convertFirestoreTimestamp(doc.data())
+      })) as AvailabilityPattern[];
+    } catch (error) {
+      console.error('Error fetching availability patterns:', error);
+      throw error;
+    }
+  }
+
+  async saveAvailabilityPattern(pattern: Omit<AvailabilityPattern, 'id'>): Promise<AvailabilityPattern> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const docRef = await addDoc(collection(db!, COLLECTIONS.AVAILABILITY_PATTERNS), pattern);
+      const newPattern = { ...pattern, id: docRef.id };
+      await this.recordAudit('CREATE', 'AVAILABILITY', newPattern.id, 'Created recurring availability pattern', { after: newPattern });
+      return newPattern;
+    } catch (error) {
+      console.error('Error saving availability pattern:', error);
+      throw error;
+    }
+  }
+
+  async deleteAvailabilityPattern(patternId: string): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const before = await this.getDocData<AvailabilityPattern>(COLLECTIONS.AVAILABILITY_PATTERNS, patternId);
+      await deleteDoc(doc(db!, COLLECTIONS.AVAILABILITY_PATTERNS, patternId));
+      await this.recordAudit('DELETE', 'AVAILABILITY', patternId, 'Deleted recurring availability pattern', { before });
+    } catch (error) {
+      console.error('Error deleting availability pattern:', error);
+      throw error;
+    }
+  }
+
+  async fetchLeaveRequests(): Promise<LeaveRequest[]> {
+    return this.fetchRequests<LeaveRequest>(COLLECTIONS.LEAVE_REQUESTS);
+  }
+
+  async createLeaveRequest(request: Omit<LeaveRequest, 'id'>): Promise<LeaveRequest> {
+    const newRequest = await this.createRequest<LeaveRequest>(COLLECTIONS.LEAVE_REQUESTS, request);
+    await this.recordAudit('CREATE', 'LEAVE_REQUEST', newRequest.id, 'Submitted leave request', { after: newRequest });
+    return newRequest;
+  }
+
+  async reviewLeaveRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<LeaveRequest> {
+    this.assertDirectWrite();
+    const before = await this.getDocData<LeaveRequest>(COLLECTIONS.LEAVE_REQUESTS, requestId);
+    const reviewed = await this.reviewRequest<LeaveRequest>(COLLECTIONS.LEAVE_REQUESTS, requestId, status, reviewedBy, reviewNotes);
+    await this.recordAudit(
+      status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+      'LEAVE_REQUEST',
+      requestId,
+      `${status === 'APPROVED' ? 'Approved' : 'Rejected'} leave request${reviewNotes ? `: ${reviewNotes}` : ''}`,
+      { before, after: reviewed }
+    );
+    return reviewed;
+  }
+
+  async fetchDutyChangeRequests(): Promise<DutyChangeRequest[]> {
+    return this.fetchRequests<DutyChangeRequest>(COLLECTIONS.DUTY_CHANGE_REQUESTS);
+  }
+
+  async createDutyChangeRequest(request: Omit<DutyChangeRequest, 'id'>): Promise<DutyChangeRequest> {
+    const newRequest = await this.createRequest<DutyChangeRequest>(COLLECTIONS.DUTY_CHANGE_REQUESTS, request);
+    await this.recordAudit('CREATE', 'DUTY_CHANGE_REQUEST', newRequest.id, 'Submitted duty change request', { after: newRequest });
+    return newRequest;
+  }
+
+  async reviewDutyChangeRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<DutyChangeRequest> {
+    this.assertDirectWrite();
+    const before = await this.getDocData<DutyChangeRequest>(COLLECTIONS.DUTY_CHANGE_REQUESTS, requestId);
+    const reviewed = await this.reviewRequest<DutyChangeRequest>(COLLECTIONS.DUTY_CHANGE_REQUESTS, requestId, status, reviewedBy, reviewNotes);
+    await this.recordAudit(
+      status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+      'DUTY_CHANGE_REQUEST',
+      requestId,
+      `${status === 'APPROVED' ? 'Approved' : 'Rejected'} duty change request${reviewNotes ? `: ${reviewNotes}` : ''}`,
+      { before, after: reviewed }
+    );
+    return reviewed;
+  }
+
+  private async fetchRequests<T>(collectionName: string): Promise<T[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const requestsRef = collection(db!, collectionName);
+      const snapshot = await getDocs(query(requestsRef, orderBy('requestedAt', 'desc')));
+
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...this.convertFirestoreTimestamp(doc.data())
+      })) as T[];
+    } catch (error) {
+      console.error(`Error fetching ${collectionName}:`, error);
+      throw error;
+    }
+  }
+
+  private async createRequest<T extends { id: string }>(collectionName: string, request: Omit<T, 'id'>): Promise<T> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const docRef = await addDoc(collection(db!, collectionName), request);
+      return { ...request, id: docRef.id } as T;
+    } catch (error) {
+      console.error(`Error creating ${collectionName} entry:`, error);
+      throw error;
+    }
+  }
+
+  private async reviewRequest<T>(
+    collectionName: string,
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<T> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const requestRef = doc(db!, collectionName, requestId);
+      await updateDoc(requestRef, {
+        status,
+        reviewedBy,
+        reviewedAt: new Date().toISOString(),
+        reviewNotes: reviewNotes || '',
+      });
+
+      const updatedDoc = await getDoc(requestRef);
+      if (!updatedDoc.exists()) {
+        throw new Error('Request not found after review');
+      }
+
+      return {
+        id: updatedDoc.id,
+        ...this.convertFirestoreTimestamp(updatedDoc.data())
+      } as T;
     } catch (error) {
-      console.error('Error saving conflicts:', error);
+      console.error(`Error reviewing ${collectionName} entry:`, error);
+      throw error;
     }
   }
 
-  async saveSchedule(schedule: Omit<Schedule, 'id'>): Promise<Schedule> {
+  async fetchShiftSwaps(): Promise<ShiftSwap[]> {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
 
     try {
-      const schedulesRef = collection(db!, COLLECTIONS.SCHEDULES);
-      const docRef = await addDoc(schedulesRef, {
-        ...schedule,
-        assignedAt: serverTimestamp(),
-      });
-
-      const newSchedule: Schedule = {
-        ...schedule,
-        id: docRef.id,
-      };
-
-      // Update cache
-      const currentSchedules = await this.fetchSchedules();
-      this.updateCache('schedules', [...currentSchedules, newSchedule]);
-
-      // Trigger real-time updates
-      this.notifyListeners();
+      const swapsRef = collection(db!, COLLECTIONS.SHIFT_SWAPS);
+      const snapshot = await getDocs(query(swapsRef, orderBy('offeredAt', 'desc')));
 
-      return newSchedule;
+      return snapshot.docs.map(doc => ({
+        id: doc.id,
+        ...this.convertFirestoreTimestamp(doc.data())
+      })) as ShiftSwap[];
     } catch (error) {
-      console.error('Error saving schedule:', error);
+      console.error('Error fetching shift swaps:', error);
       throw error;
     }
   }
 
-  async deleteSchedule(scheduleId: string): Promise<void> {
+  async createShiftSwap(swap: Omit<ShiftSwap, 'id'>): Promise<ShiftSwap> {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
-      const scheduleRef = doc(db!, COLLECTIONS.SCHEDULES, scheduleId);
-      await deleteDoc(scheduleRef);
-
-      // Update cache
-      const currentSchedules = await this.fetchSchedules();
-      const updatedSchedules = currentSchedules.filter(s => s.id !== scheduleId);
-      this.updateCache('schedules', updatedSchedules);
+      const swapsRef = collection(db!, COLLECTIONS.SHIFT_SWAPS);
+      const docRef = await addDoc(swapsRef, swap);
+      const newSwap = { ...swap, id: docRef.id };
+      await this.recordAudit('CREATE', 'SHIFT_SWAP', newSwap.id, 'Offered duty for swap', { after: newSwap });
 
-      // Trigger real-time updates
-      this.notifyListeners();
+      return newSwap;
     } catch (error) {
-      console.error('Error deleting schedule:', error);
+      console.error('Error creating shift swap:', error);
       throw error;
     }
   }
 
-  async updateSchedule(scheduleId: string, updates: Partial<Schedule>): Promise<Schedule> {
+  async updateShiftSwap(swapId: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap> {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
-      const scheduleRef = doc(db!, COLLECTIONS.SCHEDULES, scheduleId);
-      
-      // Remove id from updates to avoid Firestore error
+      const swapRef = doc(db!, COLLECTIONS.SHIFT_SWAPS, swapId);
       const { id, ...updateData } = updates;
-      
-      await updateDoc(scheduleRef, {
-        ...updateData,
-        updatedAt: serverTimestamp(),
-      });
+      const before = await this.getDocData<ShiftSwap>(COLLECTIONS.SHIFT_SWAPS, swapId);
+      await updateDoc(swapRef, updateData);
 
-      // Get updated document
-      const updatedDoc = await getDoc(scheduleRef);
+      const updatedDoc = await getDoc(swapRef);
       if (!updatedDoc.exists()) {
-        throw new Error('Schedule not found after update');
+        throw new Error('Shift swap not found after update');
       }
 
-      const updatedSchedule: Schedule = {
+      const updatedSwap = {
         id: updatedDoc.id,
         ...this.convertFirestoreTimestamp(updatedDoc.data())
-      };
+      } as ShiftSwap;
+      await this.recordAudit(
+        updatedSwap.status === 'REJECTED' && before?.status !== 'REJECTED' ? 'REJECT' : 'UPDATE',
+        'SHIFT_SWAP',
+        swapId,
+        `Shift swap ${updatedSwap.status.toLowerCase()}`,
+        { before, after: updatedSwap }
+      );
+
+      return updatedSwap;
+    } catch (error) {
+      console.error('Error updating shift swap:', error);
+      throw error;
+    }
+  }
+
+  async approveShiftSwap(swap: ShiftSwap, reviewedBy: string, reviewNotes?: string): Promise<ShiftSwap> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    if (!swap.claimedBy) {
+      throw new Error('Shift swap has not been claimed');
+    }
+
+    try {
+      // Read the swap and its duties in the transaction that reassigns them, so a stale swap is never
+      // applied, a second approval or a cancellation that landed first is refused, and an edit made
+      // after the check can't be overwritten
+      const scheduleIds = [swap.scheduleId, ...(swap.returnScheduleId ? [swap.returnScheduleId] : [])];
+      const { before, approvedSwap, reassigned } = await runTransaction(db!, async transaction => {
+        const swapDoc = await transaction.get(doc(db!, COLLECTIONS.SHIFT_SWAPS, swap.id));
+        const stored = swapDoc.exists()
+          ? { id: swapDoc.id, ...this.convertFirestoreTimestamp(swapDoc.data()) } as ShiftSwap
+          : undefined;
+        if (!shiftSwapService.isAwaitingApproval(stored, swap)) {
+          throw new Error('This shift swap is no longer awaiting approval');
+        }
+
+        const scheduleDocs = await Promise.all(
+          scheduleIds.map(id => transaction.get(doc(db!, COLLECTIONS.SCHEDULES, id)))
+        );
+        const currentSchedules = scheduleDocs
+          .filter(scheduleDoc => scheduleDoc.exists())
+          .map(scheduleDoc => ({
+            id: scheduleDoc.id,
+            ...this.convertFirestoreTimestamp(scheduleDoc.data()!)
+          })) as Schedule[];
+
+        if (shiftSwapService.isStale(stored, currentSchedules)) {
+          throw new Error('One of the swapped duties has changed since the swap was claimed');
+        }
+
+        const approved: ShiftSwap = {
+          ...stored,
+          status: 'APPROVED',
+          reviewedBy,
+          reviewedAt: new Date().toISOString(),
+          ...(reviewNotes ? { reviewNotes } : {}),
+        };
+
+        const reassign = (scheduleId: string, userId: string): Schedule => {
+          const current = currentSchedules.find(s => s.id === scheduleId)!;
+          const changes = { userId, ...stampScheduleChange(current) };
+          transaction.update(doc(db!, COLLECTIONS.SCHEDULES, scheduleId), {
+            ...changes,
+            updatedAt: serverTimestamp(),
+          });
+          return { ...current, ...changes };
+        };
+
+        const updated = [reassign(stored.scheduleId, stored.claimedBy!)];
+        if (stored.returnScheduleId) {
+          updated.push(reassign(stored.returnScheduleId, stored.offeredBy));
+        }
+        const { id, ...swapData } = approved;
+        transaction.set(doc(db!, COLLECTIONS.SHIFT_SWAPS, id), swapData);
+        return { before: stored, approvedSwap: approved, reassigned: updated };
+      });
 
       // Update cache
-      const currentSchedules = await this.fetchSchedules();
-      const scheduleIndex = currentSchedules.findIndex(s => s.id === scheduleId);
-      if (scheduleIndex !== -1) {
-        currentSchedules[scheduleIndex] = updatedSchedule;
-        this.updateCache('schedules', currentSchedules);
-      }
+      this.updateCache('schedules', this.cache.schedules.map(s => reassigned.find(r => r.id === s.id) || s));
+
+      await this.recordAudit('APPROVE', 'SHIFT_SWAP', swap.id, `Approved shift swap${reviewNotes ? `: ${reviewNotes}` : ''}`, {
+        before,
+        after: approvedSwap,
+      });
 
       // Trigger real-time updates
       this.notifyListeners();
 
-      return updatedSchedule;
+      return approvedSwap;
     } catch (error) {
-      console.error('Error updating schedule:', error);
+      console.error('Error approving shift swap:', error);
       throw error;
     }
   }
@@ -416,12 +1321,13 @@ class FirestoreApiService {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
       // Check if user already exists
       const existingUsers = await this.fetchUsers();
       const existingUser = existingUsers.find(user => 
-        user.email === userData.email || user.serviceNumber === userData.serviceNumber
+        user.email === userData.email || (userData.serviceNumber && user.serviceNumber === userData.serviceNumber)
       );
 
       if (existingUser) {
@@ -485,6 +1391,8 @@ class FirestoreApiService {
       const currentUsers = await this.fetchUsers();
       this.updateCache('users', [...currentUsers, newUser]);
 
+      await this.recordAudit('CREATE', 'USER', newUser.id, `Created user ${newUser.firstName} ${newUser.lastName}`, { after: newUser });
+
       // Trigger real-time updates
       this.notifyListeners();
 
@@ -495,6 +1403,76 @@ class FirestoreApiService {
     }
   }
 
+  async updateUser(userId: string, updates: Partial<User>): Promise<User> {
+    const [updatedUser] = await this.updateUsers([{ userId, updates }]);
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  async updateUsers(changes: UserChange[]): Promise<User[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const before = await Promise.all(changes.map(({ userId }) => this.getDocData<User>(COLLECTIONS.USERS, userId)));
+      const batch = writeBatch(db!);
+      const updated = changes.flatMap(({ userId, updates }, index) => {
+        if (!before[index]) return [];
+
+        // Passwords belong to Firebase Auth and are never stored on the user document
+        const { id, password, ...updateData } = updates;
+        batch.update(doc(db!, COLLECTIONS.USERS, userId), updateData);
+        return [{ before: before[index]!, after: { ...before[index]!, ...updateData, id: userId }, updates }];
+      });
+      await batch.commit();
+
+      await this.appendAuditEntries(updated.map(({ before, after, updates }) =>
+        auditService.createEntry('UPDATE', 'USER', after.id, describeUserUpdate(before, updates), { before, after })
+      ));
+
+      // Update cache
+      this.updateCache('users', this.cache.users.map(u => updated.find(({ after }) => after.id === u.id)?.after || u));
+
+      // Trigger real-time updates
+      this.notifyListeners();
+
+      return updated.map(({ after }) => after);
+    } catch (error) {
+      console.error('Error updating users:', error);
+      throw error;
+    }
+  }
+
+  async deleteUsers(userIds: string[]): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const before = await Promise.all(userIds.map(id => this.getDocData<User>(COLLECTIONS.USERS, id)));
+      const batch = writeBatch(db!);
+      userIds.forEach(id => batch.delete(doc(db!, COLLECTIONS.USERS, id)));
+      await batch.commit();
+      await this.appendAuditEntries(before.filter((user): user is User => !!user).map(user =>
+        auditService.createEntry('DELETE', 'USER', user.id, `Deleted user ${user.firstName} ${user.lastName}`, { before: user })
+      ));
+
+      // Update cache
+      this.updateCache('users', this.cache.users.filter(u => !userIds.includes(u.id)));
+
+      // Trigger real-time updates
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error deleting users:', error);
+      throw error;
+    }
+  }
+
   async authenticateUser(email: string, password: string): Promise<User | null> {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
@@ -554,10 +1532,10 @@ class FirestoreApiService {
     const q = query(schedulesRef, orderBy('startTime', 'asc'));
 
     const unsubscribe = onSnapshot(q, (snapshot) => {
-      const schedules = snapshot.docs.map(doc => ({
+      const schedules = outboxService.overlay(COLLECTIONS.SCHEDULES, snapshot.docs.map(doc => ({
         id: doc.id,
         ...this.convertFirestoreTimestamp(doc.data())
-      })) as Schedule[];
+      })) as Schedule[]);
 
       this.updateCache('schedules', schedules);
       callback(schedules);
@@ -617,6 +1595,7 @@ class FirestoreApiService {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
       const batch = writeBatch(db!);
@@ -649,6 +1628,10 @@ class FirestoreApiService {
       // Update cache
       this.updateCache('users', [...this.cache.users, ...createdUsers]);
 
+      await this.appendAuditEntries(createdUsers.map(user =>
+        auditService.createEntry('CREATE', 'USER', user.id, `Created user ${user.firstName} ${user.lastName}`, { after: user })
+      ));
+
       return createdUsers;
     } catch (error) {
       console.error('Error batch creating users:', error);
@@ -660,6 +1643,7 @@ class FirestoreApiService {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
       const batch = writeBatch(db!);
@@ -684,6 +1668,10 @@ class FirestoreApiService {
       // Update cache
       this.updateCache('schedules', [...this.cache.schedules, ...createdSchedules]);
 
+      await this.appendAuditEntries(createdSchedules.map(schedule =>
+        auditService.createEntry('CREATE', 'SCHEDULE', schedule.id, 'Created schedule', { after: schedule })
+      ));
+
       return createdSchedules;
     } catch (error) {
       console.error('Error batch creating schedules:', error);
@@ -695,6 +1683,7 @@ class FirestoreApiService {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
       const batch = writeBatch(db!);
@@ -716,6 +1705,10 @@ class FirestoreApiService {
       // Update cache
       this.updateCache('dutyTypes', [...this.cache.dutyTypes, ...createdDutyTypes]);
 
+      await this.appendAuditEntries(createdDutyTypes.map(dutyType =>
+        auditService.createEntry('CREATE', 'DUTY_TYPE', dutyType.id, `Created duty type "${dutyType.name}"`, { after: dutyType })
+      ));
+
       return createdDutyTypes;
     } catch (error) {
       console.error('Error batch creating duty types:', error);
@@ -727,6 +1720,7 @@ class FirestoreApiService {
     if (!isFirebaseAvailable()) {
       throw new Error('Firebase is not configured. Please use local development mode.');
     }
+    this.assertDirectWrite();
 
     try {
       const batch = writeBatch(db!);
@@ -751,12 +1745,351 @@ class FirestoreApiService {
       // Update cache
       this.updateCache('availability', [...this.cache.availability, ...createdAvailability]);
 
+      await this.appendAuditEntries(createdAvailability.map(availability =>
+        auditService.createEntry('CREATE', 'AVAILABILITY', availability.id, `Set ${availability.status.toLowerCase()} availability`, { after: availability })
+      ));
+
       return createdAvailability;
     } catch (error) {
       console.error('Error batch creating availability:', error);
       throw error;
     }
   }
+
+  async fetchConstraints(): Promise<Constraint[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      return await this.fetchCollectionDocs(COLLECTIONS.CONSTRAINTS) as Constraint[];
+    } catch (error) {
+      console.error('Error fetching constraints:', error);
+      throw error;
+    }
+  }
+
+  async saveConstraints(constraints: Constraint[]): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      // Firestore rejects undefined fields, such as a constraint that was never overridden
+      await this.replaceCollection(COLLECTIONS.CONSTRAINTS, JSON.parse(JSON.stringify(constraints)));
+    } catch (error) {
+      console.error('Error saving constraints:', error);
+      throw error;
+    }
+  }
+
+  // Newest first
+  async fetchConstraintOverrides(): Promise<ConstraintOverride[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const overridesRef = collection(db!, COLLECTIONS.CONSTRAINT_OVERRIDES);
+      const snapshot = await getDocs(query(overridesRef, orderBy('overriddenAt', 'desc')));
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as ConstraintOverride[];
+    } catch (error) {
+      console.error('Error fetching constraint overrides:', error);
+      throw error;
+    }
+  }
+
+  async addConstraintOverrides(overrides: ConstraintOverride[]): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const batch = writeBatch(db!);
+      overrides.forEach(({ id, ...override }) => {
+        batch.set(doc(db!, COLLECTIONS.CONSTRAINT_OVERRIDES, id), JSON.parse(JSON.stringify(override)));
+      });
+      await batch.commit();
+    } catch (error) {
+      console.error('Error saving constraint overrides:', error);
+      throw error;
+    }
+  }
+
+  async fetchAuditLog(): Promise<AuditEntry[]> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const auditRef = collection(db!, COLLECTIONS.AUDIT_LOG);
+      const snapshot = await getDocs(query(auditRef, orderBy('timestamp', 'desc'), limit(MAX_LOCAL_AUDIT_ENTRIES)));
+      return snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() })) as AuditEntry[];
+    } catch (error) {
+      console.error('Error fetching audit log:', error);
+      throw error;
+    }
+  }
+
+  // Never throws: a failed audit write must not undo the change it describes
+  async recordAudit(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    summary: string,
+    snapshots?: AuditSnapshots
+  ): Promise<void> {
+    await this.appendAuditEntries([auditService.createEntry(action, entityType, entityId, summary, snapshots)]);
+  }
+
+  private async appendAuditEntries(entries: (AuditEntry | null)[]): Promise<void> {
+    const recorded = entries.filter((e): e is AuditEntry => !!e);
+    if (recorded.length === 0 || !isFirebaseAvailable()) return;
+
+    try {
+      for (let i = 0; i < recorded.length; i += BATCH_LIMIT) {
+        const batch = writeBatch(db!);
+        recorded.slice(i, i + BATCH_LIMIT).forEach(({ id, ...entry }) => {
+          batch.set(doc(db!, COLLECTIONS.AUDIT_LOG, id), entry);
+        });
+        await batch.commit();
+      }
+    } catch (error) {
+      console.error('Error recording audit entries:', error);
+    }
+  }
+
+  // Writes made offline, or behind writes still waiting, queue up so the server sees them in order
+  private shouldQueueWrites(): boolean {
+    return !this.isOnline || outboxService.hasOperations();
+  }
+
+  // Only schedule and availability writes can wait in the outbox. Any other write is refused while
+  // they would be queued, rather than failing offline or reaching the server ahead of earlier edits.
+  private assertDirectWrite() {
+    if (this.shouldQueueWrites()) {
+      throw outboxService.refuseWrite(this.isOnline ? 'pending' : 'offline');
+    }
+  }
+
+  // Applies a write to the cache now and leaves the server write to the outbox
+  private async queueWrite<T extends { id: string }>(
+    collectionName: string,
+    entityType: AuditEntityType,
+    type: OutboxOperationType,
+    docId: string,
+    data: Record<string, any> | undefined,
+    summary: string
+  ): Promise<T> {
+    const cacheKey = OUTBOX_CACHE_KEYS[collectionName];
+    const base = (this.cache[cacheKey] as unknown as T[]).find(r => r.id === docId);
+    if (type !== 'CREATE' && !base) {
+      throw new Error('This record is not available offline');
+    }
+
+    const after = type === 'DELETE' ? undefined : { ...base, ...data, id: docId } as T;
+    await outboxService.enqueue({
+      type,
+      entityType,
+      collection: collectionName,
+      docId,
+      summary,
+      data,
+      base,
+      audit: auditService.createEntry(type, entityType, docId, summary, { before: base, after }),
+    });
+
+    const current = this.cache[cacheKey] as unknown as T[];
+    this.updateCache(cacheKey,
+      type === 'CREATE' ? [...current, after] :
+      type === 'DELETE' ? current.filter(r => r.id !== docId) :
+      current.map(r => r.id === docId ? after : r)
+    );
+
+    this.notifyListeners();
+    if (this.isOnline) {
+      this.replayOutbox();
+    }
+
+    return after ?? base!;
+  }
+
+  private replayOutbox() {
+    outboxService.replay().catch(error => {
+      console.error('Error replaying offline changes:', error);
+    });
+  }
+
+  private async applyOutboxOperation(operation: OutboxOperation): Promise<Record<string, any> | undefined> {
+    const docRef = doc(db!, operation.collection, operation.docId);
+    const serverCopy = await this.getDocData<Record<string, any>>(operation.collection, operation.docId);
+    const alreadyDeleted = operation.type === 'DELETE' && !serverCopy;
+
+    if (!operation.force && !alreadyDeleted && hasServerChanged(operation.base, serverCopy)) {
+      throw new OutboxConflictError(serverCopy ?? null);
+    }
+
+    if (operation.type === 'DELETE') {
+      if (serverCopy) await deleteDoc(docRef);
+    } else if (operation.type === 'CREATE' || !serverCopy) {
+      // A kept update to a record deleted on the server puts the record back
+      const { id, ...fields } = { ...operation.base, ...operation.data };
+      await setDoc(docRef, { ...fields, updatedAt: serverTimestamp() });
+    } else {
+      const { id, ...fields } = operation.data || {};
+      // A kept change still has to move the version past the server copy it overwrites
+      if (typeof fields.version === 'number') {
+        fields.version = Math.max(fields.version, (serverCopy.version ?? 0) + 1);
+      }
+      await updateDoc(docRef, { ...fields, updatedAt: serverTimestamp() });
+    }
+
+    await this.appendAuditEntries([operation.audit ?? null]);
+
+    const saved = operation.type === 'DELETE'
+      ? undefined
+      : await this.getDocData<Record<string, any>>(operation.collection, operation.docId);
+    this.replaceCachedRecord(operation.collection, operation.docId, saved);
+    this.notifyListeners();
+
+    return saved;
+  }
+
+  // Puts back the server copy, or the one the change was made against when that can't be read
+  private async discardOutboxOperation(operation: OutboxOperation): Promise<void> {
+    let restored = operation.type === 'CREATE' ? undefined : operation.base;
+    if (this.isOnline) {
+      restored = await this.getDocData<Record<string, any>>(operation.collection, operation.docId).catch(() => restored);
+    }
+
+    this.replaceCachedRecord(operation.collection, operation.docId, restored);
+    this.notifyListeners();
+  }
+
+  private replaceCachedRecord(collectionName: string, docId: string, record: Record<string, any> | undefined) {
+    const cacheKey = OUTBOX_CACHE_KEYS[collectionName];
+    const others = (this.cache[cacheKey] as { id: string }[]).filter(r => r.id !== docId);
+    this.updateCache(cacheKey, outboxService.overlay(collectionName, record ? [...others, record as { id: string }] : others));
+  }
+
+  // Current state of a document, for the before side of an audit entry
+  private async getDocData<T>(collectionName: string, id: string): Promise<T | undefined> {
+    const snapshot = await getDoc(doc(db!, collectionName, id));
+    return snapshot.exists()
+      ? { id: snapshot.id, ...this.convertFirestoreTimestamp(snapshot.data()) } as T
+      : undefined;
+  }
+
+  private async fetchCollectionDocs(collectionName: string): Promise<DocumentData[]> {
+    const snapshot = await getDocs(collection(db!, collectionName));
+    return snapshot.docs.map(doc => ({
+      id: doc.id,
+      ...this.convertFirestoreTimestamp(doc.data())
+    }));
+  }
+
+  async exportData(): Promise<OperationalData> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+
+    try {
+      const [users, dutyTypes, schedules, availability, availabilityPatterns, dutyTemplates, conflicts, conflictResolutions, leaveRequests, dutyChangeRequests, shiftSwaps] =
+        await Promise.all([
+          this.fetchCollectionDocs(COLLECTIONS.USERS),
+          this.fetchCollectionDocs(COLLECTIONS.DUTY_TYPES),
+          this.fetchCollectionDocs(COLLECTIONS.SCHEDULES),
+          this.fetchCollectionDocs(COLLECTIONS.AVAILABILITY),
+          this.fetchAvailabilityPatterns(),
+          this.fetchDutyTemplates(),
+          this.fetchCollectionDocs(COLLECTIONS.CONFLICTS),
+          this.fetchConflictResolutions(),
+          this.fetchLeaveRequests(),
+          this.fetchDutyChangeRequests(),
+          this.fetchShiftSwaps(),
+        ]);
+
+      return {
+        users: users as User[],
+        dutyTypes: dutyTypes as DutyType[],
+        schedules: schedules as Schedule[],
+        availability: availability as Availability[],
+        availabilityPatterns,
+        dutyTemplates,
+        conflicts: conflicts as Conflict[],
+        conflictResolutions,
+        leaveRequests,
+        dutyChangeRequests,
+        shiftSwaps,
+      };
+    } catch (error) {
+      console.error('Error exporting data:', error);
+      throw error;
+    }
+  }
+
+  // Replace every collection with a backup's records, keeping their ids
+  async restoreData(data: OperationalData): Promise<void> {
+    if (!isFirebaseAvailable()) {
+      throw new Error('Firebase is not configured. Please use local development mode.');
+    }
+    this.assertDirectWrite();
+
+    try {
+      const currentDutyTypes = await this.fetchCollectionDocs(COLLECTIONS.DUTY_TYPES);
+      const collections: [string, DocumentData[]][] = [
+        [COLLECTIONS.USERS, data.users.map(({ password, ...user }) => user)],
+        [COLLECTIONS.DUTY_TYPES, data.dutyTypes],
+        [COLLECTIONS.SCHEDULES, data.schedules],
+        [COLLECTIONS.AVAILABILITY, data.availability],
+        [COLLECTIONS.AVAILABILITY_PATTERNS, data.availabilityPatterns],
+        [COLLECTIONS.DUTY_TEMPLATES, data.dutyTemplates.map(t => ({ ...this.toTemplateDoc(t), id: t.id }))],
+        [COLLECTIONS.CONFLICTS, data.conflicts],
+        [COLLECTIONS.CONFLICT_RESOLUTIONS, data.conflictResolutions],
+        [COLLECTIONS.LEAVE_REQUESTS, data.leaveRequests],
+        [COLLECTIONS.DUTY_CHANGE_REQUESTS, data.dutyChangeRequests],
+        [COLLECTIONS.SHIFT_SWAPS, data.shiftSwaps],
+      ];
+
+      for (const [collectionName, records] of collections) {
+        const existing = await getDocs(collection(db!, collectionName));
+        const restoredIds = new Set(records.map(r => r.id));
+        const writes = [
+          ...existing.docs.filter(d => !restoredIds.has(d.id)).map(d => ({ ref: d.ref, record: null })),
+          ...records.map(({ id, ...record }) => ({ ref: doc(db!, collectionName, id), record })),
+        ];
+
+        for (let i = 0; i < writes.length; i += BATCH_LIMIT) {
+          const batch = writeBatch(db!);
+          writes.slice(i, i + BATCH_LIMIT).forEach(({ ref, record }) => {
+            if (record) {
+              batch.set(ref, record);
+            } else {
+              batch.delete(ref);
+            }
+          });
+          await batch.commit();
+        }
+      }
+
+      if (JSON.stringify(currentDutyTypes) !== JSON.stringify(data.dutyTypes)) {
+        await this.recordAudit('RESTORE', 'DUTY_TYPE', 'all', 'Duty types replaced from backup', {
+          before: { dutyTypes: currentDutyTypes },
+          after: { dutyTypes: data.dutyTypes },
+        });
+      }
+
+      // Drop the cache so the next fetch reads the restored data
+      this.cache = { users: [], dutyTypes: [], schedules: [], availability: [], lastUpdated: 0 };
+      await localDb.removeValue('firestore_cache');
+      this.notifyListeners();
+    } catch (error) {
+      console.error('Error restoring data:', error);
+      throw error;
+    }
+  }
 }
 
 // Export singleton instance
@@ -0,0 +1,189 @@
+// Shabbat and holiday calendar, computed locally from the Hebrew calendar built into Intl.
+// Dates follow Israeli observance: one-day festivals and the national days' postponement rules.
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type HolidayType =
+  | 'YOM_TOV'   // Festival day, observed like Shabbat
+  | 'NATIONAL'  // Yom HaAtzmaut, a day off
+  | 'MEMORIAL'  // Memorial days and fasts
+  | 'MINOR';    // Chol HaMoed, Chanukah, Purim and the like: working days
+
+export interface Holiday {
+  date: string; // YYYY-MM-DD
+  name: string;
+  nameHe: string;
+  type: HolidayType;
+}
+
+interface HebrewDate {
+  day: number;
+  month: string;
+  year: number;
+}
+
+interface HolidayDefinition {
+  month: string;
+  day: number;
+  name: string;
+  nameHe: string;
+  type: HolidayType;
+}
+
+// Month names as Intl formats them; Purim falls in Adar II during leap years
+const FIXED_HOLIDAYS: HolidayDefinition[] = [
+  { month: 'Tishri', day: 1, name: 'Rosh Hashana', nameHe: 'ראש השנה', type: 'YOM_TOV' },
+  { month: 'Tishri', day: 2, name: 'Rosh Hashana II', nameHe: 'ראש השנה ב׳', type: 'YOM_TOV' },
+  { month: 'Tishri', day: 10, name: 'Yom Kippur', nameHe: 'יום כיפור', type: 'YOM_TOV' },
+  { month: 'Tishri', day: 15, name: 'Sukkot', nameHe: 'סוכות', type: 'YOM_TOV' },
+  ...[16, 17, 18, 19, 20].map(day => ({
+    month: 'Tishri', day, name: 'Chol HaMoed Sukkot', nameHe: 'חול המועד סוכות', type: 'MINOR' as const,
+  })),
+  { month: 'Tishri', day: 21, name: 'Hoshana Raba', nameHe: 'הושענא רבה', type: 'MINOR' },
+  { month: 'Tishri', day: 22, name: 'Simchat Torah', nameHe: 'שמחת תורה', type: 'YOM_TOV' },
+  { month: 'Adar', day: 14, name: 'Purim', nameHe: 'פורים', type: 'MINOR' },
+  { month: 'Adar II', day: 14, name: 'Purim', nameHe: 'פורים', type: 'MINOR' },
+  { month: 'Nisan', day: 15, name: 'Pesach', nameHe: 'פסח', type: 'YOM_TOV' },
+  ...[16, 17, 18, 19, 20].map(day => ({
+    month: 'Nisan', day, name: 'Chol HaMoed Pesach', nameHe: 'חול המועד פסח', type: 'MINOR' as const,
+  })),
+  { month: 'Nisan', day: 21, name: 'Shvi\'i shel Pesach', nameHe: 'שביעי של פסח', type: 'YOM_TOV' },
+  { month: 'Iyar', day: 18, name: 'Lag BaOmer', nameHe: 'ל״ג בעומר', type: 'MINOR' },
+  { month: 'Iyar', day: 28, name: 'Yom Yerushalayim', nameHe: 'יום ירושלים', type: 'MINOR' },
+  { month: 'Sivan', day: 6, name: 'Shavuot', nameHe: 'שבועות', type: 'YOM_TOV' },
+];
+
+const hebrewFormatter = new Intl.DateTimeFormat('en-u-ca-hebrew', {
+  day: 'numeric',
+  month: 'long',
+  year: 'numeric',
+});
+
+const hebrewDateCache = new Map<string, HebrewDate>();
+const holidayCache = new Map<string, Holiday[]>();
+
+export const toDateKey = (date: Date): string =>
+  `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}-${String(date.getDate()).padStart(2, '0')}`;
+
+const addDays = (date: Date, days: number): Date => {
+  const result = new Date(date);
+  result.setDate(result.getDate() + days);
+  return result;
+};
+
+export const getHebrewDate = (date: Date): HebrewDate => {
+  const key = toDateKey(date);
+  const cached = hebrewDateCache.get(key);
+  if (cached) return cached;
+
+  // Noon keeps the lookup clear of DST and midnight edge cases
+  const noon = new Date(date.getFullYear(), date.getMonth(), date.getDate(), 12);
+  const parts = hebrewFormatter.formatToParts(noon);
+  const hebrewDate = {
+    day: Number(parts.find(p => p.type === 'day')?.value),
+    month: parts.find(p => p.type === 'month')?.value || '',
+    year: Number(parts.find(p => p.type === 'year')?.value),
+  };
+  hebrewDateCache.set(key, hebrewDate);
+  return hebrewDate;
+};
+
+const isHebrewDate = (date: Date, month: string, day: number): boolean => {
+  const hebrew = getHebrewDate(date);
+  return hebrew.month === month && hebrew.day === day;
+};
+
+// Yom HaZikaron and Yom HaAtzmaut move so neither touches Shabbat
+const getNationalDays = (date: Date): Omit<Holiday, 'date'>[] => {
+  const weekday = date.getDay();
+  const result: Omit<Holiday, 'date'>[] = [];
+
+  let atzmautDate: Date | null = null;
+  for (let offset = -3; offset <= 1; offset++) {
+    if (isHebrewDate(addDays(date, -offset), 'Iyar', 5)) {
+      const iyar5 = addDays(date, -offset);
+      const day = iyar5.getDay();
+      atzmautDate = day === 5 ? addDays(iyar5, -1)
+        : day === 6 ? addDays(iyar5, -2)
+        : day === 1 ? addDays(iyar5, 1)
+        : iyar5;
+      break;
+    }
+  }
+
+  if (atzmautDate && toDateKey(atzmautDate) === toDateKey(date)) {
+    result.push({ name: 'Yom HaAtzmaut', nameHe: 'יום העצמאות', type: 'NATIONAL' });
+  }
+  if (atzmautDate && toDateKey(addDays(atzmautDate, -1)) === toDateKey(date)) {
+    result.push({ name: 'Yom HaZikaron', nameHe: 'יום הזיכרון', type: 'MEMORIAL' });
+  }
+
+  // Yom HaShoah: 27 Nisan, pulled back from Friday and pushed on from Sunday
+  if (
+    (weekday !== 5 && weekday !== 0 && isHebrewDate(date, 'Nisan', 27)) ||
+    (weekday === 4 && isHebrewDate(addDays(date, 1), 'Nisan', 27)) ||
+    (weekday === 1 && isHebrewDate(addDays(date, -1), 'Nisan', 27))
+  ) {
+    result.push({ name: 'Yom HaShoah', nameHe: 'יום השואה', type: 'MEMORIAL' });
+  }
+
+  // Tisha B'Av is postponed to Sunday when 9 Av is Shabbat
+  if ((weekday !== 6 && isHebrewDate(date, 'Av', 9)) || (weekday === 0 && isHebrewDate(date, 'Av', 10))) {
+    result.push({ name: 'Tisha B\'Av', nameHe: 'תשעה באב', type: 'MEMORIAL' });
+  }
+
+  return result;
+};
+
+const isChanukah = (date: Date): boolean => {
+  for (let offset = 0; offset < 8; offset++) {
+    if (isHebrewDate(addDays(date, -offset), 'Kislev', 25)) return true;
+  }
+  return false;
+};
+
+export const getHolidays = (date: Date): Holiday[] => {
+  const key = toDateKey(date);
+  const cached = holidayCache.get(key);
+  if (cached) return cached;
+
+  const hebrew = getHebrewDate(date);
+  const holidays: Holiday[] = [
+    ...FIXED_HOLIDAYS
+      .filter(h => h.month === hebrew.month && h.day === hebrew.day)
+      .map(({ name, nameHe, type }) => ({ name, nameHe, type })),
+    ...getNationalDays(date),
+    ...(isChanukah(date) ? [{ name: 'Chanukah', nameHe: 'חנוכה', type: 'MINOR' as const }] : []),
+  ].map(h => ({ ...h, date: key }));
+
+  holidayCache.set(key, holidays);
+  return holidays;
+};
+
+export const isShabbat = (date: Date): boolean => date.getDay() === 6;
+
+// Days off for reservists: Shabbat, festival days and Yom HaAtzmaut
+export const isRestDay = (date: Date): boolean =>
+  isShabbat(date) || getHolidays(date).some(h => h.type === 'YOM_TOV' || h.type === 'NATIONAL');
+
+// Holidays that are days off, for counting and weighting duties that land on them
+export const getRestHolidays = (date: Date): Holiday[] =>
+  getHolidays(date).filter(h => h.type === 'YOM_TOV' || h.type === 'NATIONAL');
+
+export const getHolidaysInRange = (from: Date, to: Date): Holiday[] => {
+  const holidays: Holiday[] = [];
+  for (let day = new Date(from.getFullYear(), from.getMonth(), from.getDate()); day < to; day = addDays(day, 1)) {
+    holidays.push(...getHolidays(day));
+  }
+  return holidays;
+};
+
+// YYYY-MM-DD keys of the festival days and Yom HaAtzmaut in the range (Shabbat is handled as weekend)
+export const getHolidayDateKeys = (from: Date, to: Date): Set<string> => {
+  const keys = new Set<string>();
+  const last = to.getTime() + DAY_MS;
+  for (let day = new Date(from.getFullYear(), from.getMonth(), from.getDate()); day.getTime() < last; day = addDays(day, 1)) {
+    if (getRestHolidays(day).length > 0) keys.add(toDateKey(day));
+  }
+  return keys;
+};
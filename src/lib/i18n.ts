@@ -0,0 +1,58 @@
+import moment from 'moment';
+import 'moment/locale/he';
+import { DutyType } from '@/types';
+import { en, TranslationKey } from './locales/en';
+import { he } from './locales/he';
+import { localDb } from './local-db';
+
+export type { TranslationKey };
+
+export type Language = 'en' | 'he';
+
+// Importing a moment locale makes it the global one, so put English back until a language is chosen
+moment.locale('en');
+
+const catalogues: Record<Language, Record<TranslationKey, string>> = { en, he };
+
+const RTL_LANGUAGES: Language[] = ['he'];
+
+// The language the UI is shown in, for messages built outside React (e.g. errors shown to the user as-is)
+let activeLanguage: Language = 'en';
+
+export const getActiveLanguage = (): Language => activeLanguage;
+
+export const setActiveLanguage = (language: Language) => {
+  activeLanguage = language;
+};
+
+export const isRTL = (language: Language): boolean => RTL_LANGUAGES.includes(language);
+
+// Languages without a catalogue (e.g. Arabic in the settings list) fall back to English
+export const toLanguage = (value: string | undefined): Language => (value === 'he' ? 'he' : 'en');
+
+export const translate = (
+  language: Language,
+  key: TranslationKey,
+  params: Record<string, string | number> = {}
+): string => {
+  const template = catalogues[language][key] ?? en[key];
+  return template.replace(/\{(\w+)\}/g, (match, name) => (name in params ? String(params[name]) : match));
+};
+
+// Keys built from data (e.g. the id of a rule registered at runtime) may have no catalogue entry
+export const hasTranslation = (key: string): key is TranslationKey => key in en;
+
+export const getDutyTypeName = (dutyType: DutyType | undefined, language: Language): string | undefined => {
+  if (!dutyType) return undefined;
+  return language === 'he' && dutyType.nameHe ? dutyType.nameHe : dutyType.name;
+};
+
+// A user's own profile preference wins over the system-wide default from Settings
+export const resolveLanguage = (userId?: string): Language => {
+  if (userId) {
+    const profileLanguage = localDb.getValue<Record<string, any>>(`idf_profile_${userId}`)?.preferences?.language;
+    if (profileLanguage) return toLanguage(profileLanguage);
+  }
+
+  return toLanguage(localDb.getValue<Record<string, any>>('idf_settings')?.general?.language);
+};
@@ -0,0 +1,440 @@
+import { User, DutyType, Schedule, Availability, AvailabilityPattern, DutyTemplate, Conflict, ConflictResolution, LeaveRequest, DutyChangeRequest, ShiftSwap, AuditEntry, OutboxOperation } from '@/types';
+import type { Notification } from './notifications';
+import type { StoredBackup } from './backup';
+
+const DB_NAME = 'idf-duty-scheduler';
+
+// Records the app stores locally, one object store per type, keyed by id
+export interface LocalStores {
+  users: User;
+  dutyTypes: DutyType;
+  schedules: Schedule;
+  availability: Availability;
+  availabilityPatterns: AvailabilityPattern;
+  dutyTemplates: DutyTemplate;
+  conflicts: Conflict;
+  conflictResolutions: ConflictResolution;
+  leaveRequests: LeaveRequest;
+  dutyChangeRequests: DutyChangeRequest;
+  shiftSwaps: ShiftSwap;
+  auditLog: AuditEntry;
+  notifications: Notification;
+  outbox: OutboxOperation;
+  backups: StoredBackup;
+}
+
+export type LocalStoreName = keyof LocalStores;
+
+// One write against one store; a batch of them commits or fails together
+export interface LocalWrite<S extends LocalStoreName = LocalStoreName> {
+  store: S;
+  clear?: boolean;
+  put?: LocalStores[S][];
+  remove?: string[];
+}
+
+// Settings, session and other small values that are read synchronously
+const KEY_VALUE_STORE = 'keyValue';
+
+// Schema history: entry N upgrades a database at version N to N + 1.
+// Never edit a shipped entry; append a new one and the version follows.
+const MIGRATIONS: ((db: IDBDatabase, transaction: IDBTransaction) => void)[] = [
+  (db) => {
+    const stores: [LocalStoreName, string[]][] = [
+      ['users', []],
+      ['dutyTypes', []],
+      ['schedules', ['userId', 'startTime']],
+      ['availability', ['userId', 'startTime']],
+      ['availabilityPatterns', ['userId']],
+      ['dutyTemplates', []],
+      ['conflicts', []],
+      ['conflictResolutions', ['conflictId']],
+      ['leaveRequests', ['userId']],
+      ['dutyChangeRequests', ['userId']],
+      ['shiftSwaps', ['scheduleId']],
+      ['auditLog', ['timestamp']],
+      ['notifications', ['userId']],
+    ];
+
+    stores.forEach(([name, indexes]) => {
+      const store = db.createObjectStore(name, { keyPath: 'id' });
+      indexes.forEach(index => store.createIndex(index, index));
+    });
+    db.createObjectStore(KEY_VALUE_STORE);
+  },
+  (db) => {
+    db.createObjectStore('outbox', { keyPath: 'id' }).createIndex('sequence', 'sequence');
+  },
+  (_db, transaction) => {
+    transaction.objectStore('schedules').createIndex('seriesId', 'seriesId');
+  },
+  (db, transaction) => {
+    const backups = db.createObjectStore('backups', { keyPath: 'id' });
+    backups.createIndex('createdAt', 'createdAt');
+
+    // Automatic backups used to share a single key-value entry
+    const keyValueStore = transaction.objectStore(KEY_VALUE_STORE);
+    const legacy = keyValueStore.get('idf_auto_backups');
+    legacy.onsuccess = () => {
+      withIds<StoredBackup>(legacy.result).forEach(backup => backups.put(backup));
+      keyValueStore.delete('idf_auto_backups');
+    };
+  },
+  (_db, transaction) => {
+    transaction.objectStore('schedules').createIndex('endTime', 'endTime');
+  },
+];
+
+export const DB_VERSION = MIGRATIONS.length;
+
+// Before the database existed, records lived in these localStorage keys
+const LEGACY_RECORD_KEYS: Partial<Record<LocalStoreName, string>> = {
+  availabilityPatterns: 'idf_availability_patterns',
+  dutyTemplates: 'idf_duty_templates',
+  conflicts: 'idf_conflicts',
+  conflictResolutions: 'idf_conflict_resolutions',
+  leaveRequests: 'idf_leave_requests',
+  dutyChangeRequests: 'idf_duty_change_requests',
+  shiftSwaps: 'idf_shift_swaps',
+  auditLog: 'idf_audit_log',
+  notifications: 'idf_notifications',
+  backups: 'idf_auto_backups',
+};
+
+// Local edits to the bundled /data files, and the ids deleted from them
+type BundledStore = 'users' | 'schedules' | 'availability';
+const LEGACY_BUNDLED_KEYS: Record<BundledStore, { file: string; local: string; deleted: string }> = {
+  users: { file: 'users', local: 'idf_users', deleted: 'idf_deleted_users' },
+  schedules: { file: 'schedules', local: 'idf_schedules', deleted: 'idf_deleted_schedules' },
+  availability: { file: 'availability', local: 'idf_availability', deleted: 'idf_deleted_availability' },
+};
+
+const LEGACY_MIGRATED_KEY = 'legacyStorageMigrated';
+
+const requestResult = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionComplete = (transaction: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    transaction.oncomplete = () => resolve();
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+
+const hasId = (record: unknown): record is { id: string } =>
+  typeof (record as { id?: unknown } | null)?.id === 'string';
+
+const applyWrites = (transaction: IDBTransaction, writes: LocalWrite[]) => {
+  writes.forEach(({ store, clear, put, remove }) => {
+    const objectStore = transaction.objectStore(store);
+    if (clear) objectStore.clear();
+    remove?.forEach(id => objectStore.delete(id));
+    put?.forEach(record => objectStore.put(record));
+  });
+};
+
+// Records without an id cannot be stored and are dropped, as is anything that isn't a list
+const withIds = <T extends { id: string }>(records: unknown): T[] =>
+  Array.isArray(records) ? records.filter(hasId) as T[] : [];
+
+// A corrupt key is skipped rather than failing the whole migration
+const readLegacyKey = (key: string): unknown => {
+  try {
+    const stored = localStorage.getItem(key);
+    return stored ? JSON.parse(stored) : undefined;
+  } catch (error) {
+    console.error(`Skipping unreadable ${key}:`, error);
+    return undefined;
+  }
+};
+
+const fetchBundledData = async (file: string, field: string): Promise<unknown> => {
+  try {
+    const response = await fetch(`/data/${file}.json`);
+    const data = await response.json();
+    return data[field] || [];
+  } catch (error) {
+    console.error(`Error fetching bundled ${file}:`, error);
+    return [];
+  }
+};
+
+class LocalDatabase {
+  private db: Promise<IDBDatabase> | null = null;
+  private values = new Map<string, unknown>();
+
+  // Opens, upgrades and seeds the database once; every other method waits on it
+  open(): Promise<IDBDatabase> {
+    if (!this.db) {
+      this.db = this.openDatabase()
+        .then(async db => {
+          await this.loadValues(db);
+          if (!this.values.get(LEGACY_MIGRATED_KEY)) {
+            await this.migrateLegacyStorage(db);
+          }
+          return db;
+        })
+        .catch(error => {
+          this.db = null;
+          throw error;
+        });
+    }
+    return this.db;
+  }
+
+  async getAll<S extends LocalStoreName>(store: S): Promise<LocalStores[S][]> {
+    const db = await this.open();
+    return requestResult(db.transaction(store).objectStore(store).getAll());
+  }
+
+  async getAllByIndex<S extends LocalStoreName>(store: S, index: string, query: IDBValidKey | IDBKeyRange): Promise<LocalStores[S][]> {
+    const db = await this.open();
+    return requestResult(db.transaction(store).objectStore(store).index(index).getAll(query));
+  }
+
+  // Records whose index value falls in [lower, upper); either bound may be left open
+  async getAllBetween<S extends LocalStoreName>(store: S, index: string, lower?: string, upper?: string): Promise<LocalStores[S][]> {
+    const range = lower !== undefined && upper !== undefined ? IDBKeyRange.bound(lower, upper, false, true)
+      : lower !== undefined ? IDBKeyRange.lowerBound(lower)
+      : upper !== undefined ? IDBKeyRange.upperBound(upper, true)
+      : null;
+    const db = await this.open();
+    return requestResult(db.transaction(store).objectStore(store).index(index).getAll(range));
+  }
+
+  async get<S extends LocalStoreName>(store: S, id: string): Promise<LocalStores[S] | undefined> {
+    const db = await this.open();
+    return requestResult(db.transaction(store).objectStore(store).get(id));
+  }
+
+  async put<S extends LocalStoreName>(store: S, records: LocalStores[S][]): Promise<void> {
+    await this.write([{ store, put: records }]);
+  }
+
+  async remove<S extends LocalStoreName>(store: S, ids: string[]): Promise<void> {
+    await this.write([{ store, remove: ids }]);
+  }
+
+  async replaceAll<S extends LocalStoreName>(store: S, records: LocalStores[S][]): Promise<void> {
+    await this.write([{ store, clear: true, put: records }]);
+  }
+
+  // Applies every write in a single transaction, so either all of them land or none do
+  async write(writes: LocalWrite[]): Promise<void> {
+    await this.writeTo(await this.open(), writes);
+  }
+
+  // Reads through `get` and applies the writes `decide` returns in one transaction over `stores`,
+  // so nothing read can change before the writes land. Throwing from `decide` writes nothing;
+  // it must not await anything but `get`, or the transaction commits early.
+  async transact(
+    stores: LocalStoreName[],
+    decide: (get: <S extends LocalStoreName>(store: S, id: string) => Promise<LocalStores[S] | undefined>) => Promise<LocalWrite[]>
+  ): Promise<void> {
+    const transaction = (await this.open()).transaction(stores, 'readwrite');
+    const complete = transactionComplete(transaction);
+
+    try {
+      applyWrites(transaction, await decide((store, id) => requestResult(transaction.objectStore(store).get(id))));
+    } catch (error) {
+      transaction.abort();
+      complete.catch(() => undefined);
+      throw error;
+    }
+
+    await complete;
+  }
+
+  private async writeTo(db: IDBDatabase, writes: LocalWrite[]): Promise<void> {
+    if (writes.length === 0) return;
+
+    const transaction = db.transaction(Array.from(new Set(writes.map(w => w.store))), 'readwrite');
+
+    try {
+      applyWrites(transaction, writes);
+    } catch (error) {
+      // A record the store rejects outright (such as one without an id) must not leave a partial write
+      transaction.abort();
+      throw error;
+    }
+
+    await transactionComplete(transaction);
+  }
+
+  // The record with the highest value of the given index
+  async getLast<S extends LocalStoreName>(store: S, index: string): Promise<LocalStores[S] | undefined> {
+    const db = await this.open();
+    const cursor = await requestResult(db.transaction(store).objectStore(store).index(index).openCursor(null, 'prev'));
+    return cursor?.value;
+  }
+
+  async count<S extends LocalStoreName>(store: S): Promise<number> {
+    const db = await this.open();
+    return requestResult(db.transaction(store).objectStore(store).count());
+  }
+
+  // Drops every record whose index value is below the given one
+  async removeBefore<S extends LocalStoreName>(store: S, index: string, upper: string): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    const ids = await requestResult(objectStore.index(index).getAllKeys(IDBKeyRange.upperBound(upper, true)));
+    ids.forEach(id => objectStore.delete(id));
+    await transactionComplete(transaction);
+  }
+
+  // Drops the oldest records by the given index once the store holds more than maxRecords
+  async trim<S extends LocalStoreName>(store: S, index: string, maxRecords: number): Promise<void> {
+    const db = await this.open();
+    const transaction = db.transaction(store, 'readwrite');
+    const objectStore = transaction.objectStore(store);
+    const excess = (await requestResult(objectStore.count())) - maxRecords;
+
+    if (excess > 0) {
+      const oldestIds = await requestResult(objectStore.index(index).getAllKeys(null, excess));
+      oldestIds.forEach(id => objectStore.delete(id));
+    }
+
+    await transactionComplete(transaction);
+  }
+
+  // Key-value reads come from memory, loaded when the database opens
+  getValue<T>(key: string): T | undefined {
+    return this.values.get(key) as T | undefined;
+  }
+
+  // Memory changes at once; if the write fails it is rolled back and the promise rejects
+  async setValue(key: string, value: unknown): Promise<void> {
+    const previous = this.values.get(key);
+    this.values.set(key, value);
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+      transaction.objectStore(KEY_VALUE_STORE).put(value, key);
+      await transactionComplete(transaction);
+    } catch (error) {
+      this.restoreValue(key, previous);
+      throw error;
+    }
+  }
+
+  async removeValue(key: string): Promise<void> {
+    const previous = this.values.get(key);
+    this.values.delete(key);
+
+    try {
+      const db = await this.open();
+      const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+      transaction.objectStore(KEY_VALUE_STORE).delete(key);
+      await transactionComplete(transaction);
+    } catch (error) {
+      this.restoreValue(key, previous);
+      throw error;
+    }
+  }
+
+  private restoreValue(key: string, previous: unknown) {
+    if (previous === undefined) {
+      this.values.delete(key);
+    } else {
+      this.values.set(key, previous);
+    }
+  }
+
+  private openDatabase(): Promise<IDBDatabase> {
+    return new Promise((resolve, reject) => {
+      if (typeof indexedDB === 'undefined') {
+        reject(new Error('IndexedDB is not available in this browser'));
+        return;
+      }
+
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = (event) => {
+        for (let version = event.oldVersion; version < DB_VERSION; version++) {
+          MIGRATIONS[version](request.result, request.transaction!);
+        }
+      };
+      request.onsuccess = () => {
+        const db = request.result;
+        // Another tab upgraded the schema; close so its upgrade is not blocked
+        db.onversionchange = () => db.close();
+        resolve(db);
+      };
+      request.onerror = () => reject(request.error);
+      request.onblocked = () => console.warn('Database upgrade is waiting for other tabs to close');
+    });
+  }
+
+  private async loadValues(db: IDBDatabase) {
+    const store = db.transaction(KEY_VALUE_STORE).objectStore(KEY_VALUE_STORE);
+    const [keys, values] = await Promise.all([
+      requestResult(store.getAllKeys()),
+      requestResult(store.getAll()),
+    ]);
+    keys.forEach((key, index) => this.values.set(String(key), values[index]));
+  }
+
+  // One-time move of everything the app kept in localStorage, merged with the bundled
+  // /data files it used to combine on every read. The old keys go once the copy commits.
+  private async migrateLegacyStorage(db: IDBDatabase) {
+    const writes: LocalWrite[] = [];
+    const migratedKeys: string[] = [];
+
+    for (const [store, { file, local, deleted }] of Object.entries(LEGACY_BUNDLED_KEYS)) {
+      const localRecords = withIds<LocalStores[BundledStore]>(readLegacyKey(local));
+      const deletedIds = [readLegacyKey(deleted)].flat().filter((id): id is string => typeof id === 'string');
+      const bundled = withIds<LocalStores[BundledStore]>(await fetchBundledData(file, store));
+
+      writes.push({
+        store: store as BundledStore,
+        put: [
+          ...bundled.filter(b => !localRecords.some(l => l.id === b.id)),
+          ...localRecords,
+        ].filter(r => !deletedIds.includes(r.id)),
+      });
+      migratedKeys.push(local, deleted);
+    }
+
+    const restoredDutyTypes = withIds<DutyType>(readLegacyKey('idf_duty_types'));
+    const dutyTypes = restoredDutyTypes.length > 0 ? restoredDutyTypes : withIds<DutyType>(await fetchBundledData('duty-types', 'dutyTypes'));
+    writes.push({ store: 'dutyTypes', put: dutyTypes });
+    migratedKeys.push('idf_duty_types');
+
+    Object.entries(LEGACY_RECORD_KEYS).forEach(([store, key]) => {
+      writes.push({ store: store as LocalStoreName, put: withIds<LocalStores[LocalStoreName]>(readLegacyKey(key)) });
+      migratedKeys.push(key);
+    });
+
+    // Whatever else the app kept (settings, session, profiles, caches) becomes a key-value entry
+    const legacyValues = Object.keys(localStorage)
+      .filter(key => (key.startsWith('idf_') || key === 'firestore_cache') && !migratedKeys.includes(key))
+      .map(key => {
+        const raw = localStorage.getItem(key);
+        try {
+          return [key, raw === null ? undefined : JSON.parse(raw)] as const;
+        } catch {
+          // Plain strings such as timestamps were stored unquoted
+          return [key, raw] as const;
+        }
+      })
+      .filter(([, value]) => value !== undefined);
+
+    await this.writeTo(db, writes);
+
+    const transaction = db.transaction(KEY_VALUE_STORE, 'readwrite');
+    const keyValueStore = transaction.objectStore(KEY_VALUE_STORE);
+    legacyValues.forEach(([key, value]) => keyValueStore.put(value, key));
+    keyValueStore.put(true, LEGACY_MIGRATED_KEY);
+    await transactionComplete(transaction);
+
+    legacyValues.forEach(([key, value]) => this.values.set(key, value));
+    this.values.set(LEGACY_MIGRATED_KEY, true);
+    [...migratedKeys, ...legacyValues.map(([key]) => key)].forEach(key => localStorage.removeItem(key));
+  }
+}
+
+export const localDb = new LocalDatabase();
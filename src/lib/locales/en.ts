@@ -0,0 +1,1060 @@
+export const en = {
+  // Navigation
+  'nav.dashboard': 'Dashboard',
+  'nav.schedule': 'Schedule',
+  'nav.requests': 'Requests',
+  'nav.availability': 'Availability',
+  'nav.personnel': 'Personnel',
+  'nav.conflicts': 'Conflicts',
+  'nav.reports': 'Reports',
+  'nav.settings': 'Settings',
+  'nav.audit': 'Audit Log',
+  'nav.profile': 'Profile',
+
+  // Layout
+  'layout.appName': 'IDF Logistics',
+  'layout.appSubtitle': 'Reserve Management',
+  'layout.signOut': 'Sign Out',
+
+  // Common
+  'common.save': 'Save',
+  'common.cancel': 'Cancel',
+  'common.edit': 'Edit',
+  'common.delete': 'Delete',
+  'common.back': 'Back',
+  'common.hours': '{count} hours',
+  'common.unknownDuty': 'Unknown Duty',
+  'common.unknownPersonnel': 'Unknown Personnel',
+  'common.yes': 'Yes',
+  'common.no': 'No',
+
+  // Dashboard
+  'dashboard.welcome': 'Welcome back, {name}',
+  'dashboard.totalPersonnel': 'Total Personnel',
+  'dashboard.totalPersonnelDescription': 'Active reservists',
+  'dashboard.availableNow': 'Available Now',
+  'dashboard.availableNowDescription': 'Ready for assignment',
+  'dashboard.activeDuties': 'Active Duties',
+  'dashboard.activeDutiesDescription': 'Currently on duty',
+  'dashboard.pendingRequests': 'Pending Requests',
+  'dashboard.pendingRequestsDescription': 'Awaiting approval',
+  'dashboard.upcomingDuties': 'Upcoming Duties',
+  'dashboard.upcomingDutiesDescription': 'Next scheduled assignments',
+  'dashboard.noUpcomingDuties': 'No upcoming duties scheduled',
+  'dashboard.recentActivity': 'Recent Activity',
+  'dashboard.recentActivityDescription': 'Latest system updates',
+  'dashboard.dutyCoverage': 'Duty Coverage',
+  'dashboard.dutyCoverageDescription': 'Upcoming slots outside staffing limits',
+  'dashboard.coverageOk': 'All upcoming duties are within staffing limits',
+  'dashboard.quickActions': 'Quick Actions',
+  'dashboard.quickActionsDescription': 'Common tasks and shortcuts',
+  'dashboard.createSchedule': 'Create Schedule',
+  'dashboard.submitRequest': 'Submit Request',
+  'dashboard.viewReports': 'View Reports',
+  'dashboard.managePersonnel': 'Manage Personnel',
+  'dashboard.systemStatus': 'System Status',
+  'dashboard.systemStatusDescription': 'Current operational status',
+  'dashboard.viewFullSchedule': 'View Full Schedule',
+  'dashboard.systemHealth': 'System Health',
+  'dashboard.operational': 'Operational',
+  'dashboard.personnelCoverage': 'Personnel Coverage',
+  'dashboard.lastUpdated': 'Last updated: {time}',
+
+  // Schedule calendar
+  'calendar.title': 'Schedule Calendar',
+  'calendar.subtitle': 'Manage duty assignments and schedules',
+  'calendar.calendarView': 'Calendar',
+  'calendar.timelineView': 'Timeline',
+  'calendar.filters': 'Filters',
+  'calendar.filterUser': 'User',
+  'calendar.filterDutyType': 'Duty Type',
+  'calendar.filterStatus': 'Status',
+  'calendar.allUsers': 'All users',
+  'calendar.allDuties': 'All duties',
+  'calendar.allStatus': 'All status',
+  'calendar.importExport': 'Import/Export',
+  'calendar.autoSchedule': 'Auto-Schedule',
+  'calendar.recurring': 'Recurring',
+  'calendar.addSchedule': 'Add Schedule',
+  'calendar.createTitle': 'Create New Schedule',
+  'calendar.editTitle': 'Edit Schedule',
+  'calendar.createDescription': 'Assign a new duty to personnel',
+  'calendar.editDescription': 'Update the existing duty assignment',
+  'calendar.personnel': 'Personnel',
+  'calendar.selectPersonnel': 'Select personnel',
+  'calendar.burden': 'burden {score}',
+  'calendar.dutyType': 'Duty Type',
+  'calendar.selectDutyType': 'Select duty type',
+  'calendar.startTime': 'Start Time',
+  'calendar.endTime': 'End Time',
+  'calendar.duration': 'Duration',
+  'calendar.unit': 'Unit',
+  'calendar.notes': 'Notes',
+  'calendar.notesPlaceholder': 'Additional notes or instructions...',
+  'calendar.createSchedule': 'Create Schedule',
+  'calendar.updateSchedule': 'Update Schedule',
+  'calendar.assignedBy': 'Assigned by',
+  'calendar.needsReassignment': 'Needs reassignment',
+  'calendar.legend': 'Duty Types Legend',
+  'calendar.shabbat': 'Shabbat',
+  'calendar.restDay': 'Shabbat / holiday',
+  'calendar.toolbar.month': 'Month',
+  'calendar.toolbar.week': 'Week',
+  'calendar.toolbar.day': 'Day',
+  'calendar.toolbar.agenda': 'Agenda',
+  'calendar.toolbar.today': 'Today',
+  'calendar.toolbar.previous': 'Previous',
+  'calendar.toolbar.next': 'Next',
+  'calendar.toolbar.showMore': '+{count} more',
+  'calendar.merge.changedBy': 'This duty was changed by {name}',
+  'calendar.merge.changedByAt': 'This duty was changed by {name} at {time}',
+  'calendar.merge.anotherUser': 'another user',
+  'calendar.merge.description': 'Your edit was made on an older copy of this duty. Pick the value to keep for each field; anything not listed keeps the latest saved value.',
+  'calendar.merge.field': 'Field',
+  'calendar.merge.savedBy': 'Saved by {name}',
+  'calendar.merge.yourEdit': 'Your edit',
+  'calendar.merge.noDifferences': 'The saved duty already matches your edit.',
+  'calendar.merge.keepSaved': 'Keep Saved Version',
+  'calendar.merge.saveMerged': 'Save Merged',
+  'calendar.merge.seriesNotUpdated': 'Series not updated',
+  'calendar.merge.seriesReloaded': '{message}. The calendar has been reloaded; please apply the change again.',
+  'calendar.merge.fields.userId': 'Assigned to',
+  'calendar.merge.fields.dutyTypeId': 'Duty type',
+  'calendar.merge.fields.startTime': 'Start',
+  'calendar.merge.fields.endTime': 'End',
+  'calendar.merge.fields.status': 'Status',
+  'calendar.merge.fields.notes': 'Notes',
+  'calendar.merge.fields.isOverride': 'Constraint override',
+  'calendar.merge.fields.needsReassignment': 'Needs reassignment',
+  'calendar.merge.fields.reassignmentReason': 'Reassignment reason',
+  'calendar.merge.fields.isSeriesException': 'Detached from series',
+  'calendar.status.ASSIGNED': 'Assigned',
+  'calendar.status.REQUESTED': 'Requested',
+  'calendar.status.PENDING': 'Pending',
+  'calendar.status.CANCELLED': 'Cancelled',
+  'calendar.status.COMPLETED': 'Completed',
+  'calendar.editedOccurrence': 'edited occurrence',
+  'calendar.series.deleteTitle': 'Delete Recurring Duty',
+  'calendar.series.deleteDescription': 'This duty is part of a series. What should be deleted?',
+  'calendar.series.thisOccurrence': 'This occurrence',
+  'calendar.series.followingOccurrences': 'This and following occurrences',
+  'calendar.series.entireSeries': 'Entire series',
+  'calendar.series.applyChangesTo': 'Apply Changes To',
+  'calendar.series.futureOccurrences': 'This and future occurrences',
+  'calendar.move.title': 'Move Creates Conflicts',
+  'calendar.move.description': 'Moving this duty to {start} - {end} would cause:',
+  'calendar.move.moveAnyway': 'Move Anyway',
+  'calendar.constraints.title': 'Constraint Violations',
+  'calendar.constraints.breaksEnforced': 'This assignment breaks enforced scheduling rules.',
+  'calendar.constraints.breaksAdvisory': 'This assignment breaks advisory scheduling rules.',
+  'calendar.constraints.enforced': 'Enforced',
+  'calendar.constraints.advisory': 'Advisory',
+  'calendar.constraints.overrideReason': 'Override reason',
+  'calendar.constraints.overridePlaceholder': 'Why is this assignment necessary despite the violations?',
+  'calendar.constraints.noOverridePermission': 'You don\'t have permission to override scheduling constraints.',
+  'calendar.constraints.overrideAndSave': 'Override and Save',
+  'calendar.constraints.saveAnyway': 'Save Anyway',
+  'calendar.eventType': 'Event Type',
+  'calendar.selectEventType': 'Select event type',
+  'calendar.isEvent': 'This is an event (not a duty assignment)',
+  'calendar.allDay': 'All day event',
+  'calendar.date': 'Date',
+  'calendar.timeline.today': 'Today',
+  'calendar.timeline.ranges.1': 'Day',
+  'calendar.timeline.ranges.3': '3 Days',
+  'calendar.timeline.ranges.7': 'Week',
+  'calendar.timeline.busyNow': 'On duty, resting or unavailable now',
+  'calendar.timeline.freeNow': 'Free now',
+  'calendar.timeline.restUntil': 'Rest until {time}',
+  'calendar.timeline.duty': 'Duty',
+  'calendar.timeline.requiredRest': 'Required rest',
+  'calendar.timeline.limited': 'Limited',
+  'calendar.timeline.unavailable': 'Unavailable',
+
+  // Offline changes
+  'offline.title': 'Offline changes',
+  'offline.offline': 'Offline',
+  'offline.onlineHint': 'Changes are sent to the server in the order they were made.',
+  'offline.offlineHint': 'You are offline. Changes are saved on this device and sent when the connection returns.',
+  'offline.empty': 'No changes waiting to sync',
+  'offline.status.pending': 'Waiting',
+  'offline.status.syncing': 'Syncing',
+  'offline.status.failed': 'Failed',
+  'offline.status.conflict': 'Conflict',
+  'offline.retry': 'Retry',
+  'offline.discard': 'Discard',
+  'offline.resolve': 'Resolve',
+  'offline.error': 'Error',
+  'offline.retryFailed': 'Failed to retry the change',
+  'offline.discardFailed': 'Failed to discard the change',
+  'offline.resolveFailed': 'Failed to resolve the conflicting change',
+  'offline.notSaved': 'Change not saved',
+  'offline.refusedOffline': 'You are offline. This change can only be saved once the connection returns.',
+  'offline.refusedPending': 'Changes made offline are still waiting to sync. Try again once they have been sent.',
+  'offline.serverChanged': 'The server copy changed after this edit was made',
+  'offline.conflictTitle': 'Someone else changed this record',
+  'offline.conflictChanged': '"{summary}" was made offline, and the server copy has changed since. Choose which version to keep.',
+  'offline.conflictDeleted': '"{summary}" was made offline, and the record has since been deleted on the server.',
+  'offline.field': 'Field',
+  'offline.server': 'Server',
+  'offline.yourChange': 'Your change',
+  'offline.yourDelete': 'Your change (delete)',
+  'offline.decideLater': 'Decide later',
+  'offline.keepServer': 'Keep server version',
+  'offline.keepLocal': 'Keep my change',
+
+  // Notifications
+  'notifications.title': 'Notifications',
+  'notifications.markAllRead': 'Mark all read',
+  'notifications.justNow': 'Just now',
+  'notifications.minutesAgo': '{count}m ago',
+  'notifications.hoursAgo': '{count}h ago',
+  'notifications.daysAgo': '{count}d ago',
+  'notifications.highPriority': 'High Priority',
+  'notifications.empty': 'No notifications',
+  'notifications.viewAll': 'View all notifications',
+  'notifications.dutyAssigned.title': 'New Duty Assignment',
+  'notifications.dutyAssigned.message': 'You have been assigned to {duty} on {date}',
+  'notifications.dutyChanged.title': 'Duty Assignment Changed',
+  'notifications.dutyChanged.message': 'Your {duty} assignment has been modified: {changes}',
+  'notifications.dutyCancelled.title': 'Duty Assignment Cancelled',
+  'notifications.dutyCancelled.message': 'Your {duty} assignment has been cancelled',
+  'notifications.dutyCancelled.messageWithReason': 'Your {duty} assignment has been cancelled: {reason}',
+  'notifications.conflictDetected.title': 'Schedule Conflict Detected',
+  'notifications.needCover.title': 'Duties Need Cover',
+  'notifications.needCover.message': '{name} is on approved leave. Reassign: {duties}',
+  'notifications.needCover.duty': '{duty} on {time}',
+  'notifications.needCover.unknownDuty': 'Duty',
+  'notifications.reminder.title': 'Upcoming Duty Reminder',
+  'notifications.reminder.message': '{duty} starts in {count} hours',
+  'notifications.swapClaimed.title': 'Shift Swap Claimed',
+  'notifications.swapClaimed.message': '{name} claimed your {duty} on {date}. Awaiting commander approval.',
+  'notifications.swapApproved.title': 'Shift Swap Approved',
+  'notifications.swapApproved.message': 'The swap of {duty} on {date} was approved',
+  'notifications.swapApproved.messageWithNotes': 'The swap of {duty} on {date} was approved: {notes}',
+  'notifications.swapRejected.title': 'Shift Swap Rejected',
+  'notifications.swapRejected.message': 'The swap of {duty} on {date} was rejected',
+  'notifications.swapRejected.messageWithNotes': 'The swap of {duty} on {date} was rejected: {notes}',
+
+  // Roles
+  'roles.SUPER_ADMIN': 'Super Admin',
+  'roles.COMMANDER': 'Commander',
+  'roles.DUTY_OFFICER': 'Duty Officer',
+  'roles.NCO': 'NCO',
+  'roles.RESERVIST': 'Reservist',
+
+  // Sign in
+  'login.invalidCredentials': 'Invalid email or password',
+  'login.failed': 'Login failed. Please try again.',
+  'login.appSubtitle': 'Reserve Duty Management',
+  'login.secureSystem': 'Secure military-grade system',
+  'login.tagline': 'Advanced shift planning and logistics management for IDF reserve units.',
+  'login.demoAccounts': 'Demo Accounts',
+  'login.demoPassword': 'Password: any 3+ characters',
+  'login.title': 'Sign In',
+  'login.description': 'Access the IDF Reserve Duty Management System',
+  'login.email': 'Email',
+  'login.emailPlaceholder': 'Enter your email',
+  'login.password': 'Password',
+  'login.passwordPlaceholder': 'Enter your password',
+  'login.signingIn': 'Signing In...',
+  'login.or': 'Or',
+  'login.createAccount': 'Create New Account',
+  'login.secureAccess': 'Secure access to military systems',
+  'login.monitored': 'All activities are logged and monitored',
+
+  // Sign up
+  'signup.title': 'Reserve Management Sign Up',
+  'signup.description': 'Create a new account for reservists',
+  'signup.personalInfo': 'Personal Information',
+  'signup.firstName': 'First Name *',
+  'signup.firstNamePlaceholder': 'Enter first name',
+  'signup.lastName': 'Last Name *',
+  'signup.lastNamePlaceholder': 'Enter last name',
+  'signup.email': 'Email *',
+  'signup.password': 'Password *',
+  'signup.passwordPlaceholder': 'At least 6 characters',
+  'signup.confirmPassword': 'Confirm Password *',
+  'signup.confirmPasswordPlaceholder': 'Repeat the password',
+  'signup.phone': 'Phone',
+  'signup.dateOfBirth': 'Date of Birth',
+  'signup.militaryInfo': 'Military Information',
+  'signup.serviceNumber': 'Service Number *',
+  'signup.rank': 'Rank *',
+  'signup.selectRank': 'Select rank',
+  'signup.unit': 'Unit *',
+  'signup.selectUnit': 'Select unit',
+  'signup.specialization': 'Specialization',
+  'signup.selectSpecialization': 'Select specialization',
+  'signup.yearsOfService': 'Years of Service',
+  'signup.acceptTerms': 'I agree to the terms of use and system regulations *',
+  'signup.acceptPrivacy': 'I agree to the privacy and data protection policy *',
+  'signup.creating': 'Creating account...',
+  'signup.create': 'Create Account',
+  'signup.backToLogin': 'Back to sign in',
+  'signup.nameRequired': 'First and last name are required',
+  'signup.emailRequired': 'A valid email is required',
+  'signup.passwordTooShort': 'Password must be at least 6 characters',
+  'signup.passwordMismatch': 'Passwords do not match',
+  'signup.serviceNumberRequired': 'A valid service number is required (at least 7 digits)',
+  'signup.rankUnitRequired': 'Rank and unit are required',
+  'signup.termsRequired': 'You must accept the terms of use and the privacy policy',
+  'signup.failed': 'Error creating the user',
+
+  // Import / export
+  'importExport.title': 'Import/Export & Google Sheets Integration',
+  'importExport.exporting': 'Exporting schedules to {format}...',
+  'importExport.nothingToExport': 'There are no schedules to export',
+  'importExport.exported': 'Successfully exported {count} schedules to {format}',
+  'importExport.exportFailed': 'Export failed',
+  'importExport.templateDownloaded': 'Import template downloaded successfully',
+  'importExport.templateFailed': 'Failed to generate template',
+  'importExport.reading': 'Reading Excel file...',
+  'importExport.found': 'Found {count} valid schedules from {total} rows',
+  'importExport.noneFound': 'No valid schedules found in the file',
+  'importExport.importFailed': 'Import failed',
+  'importExport.importing': 'Importing schedules...',
+  'importExport.imported': 'Successfully imported {count} schedules',
+  'importExport.importSchedulesFailed': 'Failed to import schedules',
+  'importExport.syncing': 'Syncing with Google Sheets...',
+  'importExport.syncFailed': 'Sync failed',
+  'importExport.configSaved': 'Google Sheets configuration saved',
+  'importExport.autoSyncEnabled': 'Auto-sync enabled (every 30 minutes)',
+  'importExport.autoSyncDisabled': 'Auto-sync disabled',
+  'importExport.tabExport': 'Export',
+  'importExport.tabImport': 'Import',
+  'importExport.tabSheets': 'Google Sheets',
+  'importExport.tabSettings': 'Settings',
+  'importExport.exportTitle': 'Export Schedules',
+  'importExport.exportDescription': 'Export current schedules to Excel or CSV format for backup or external use.',
+  'importExport.exportExcel': 'Export to Excel (.xlsx)',
+  'importExport.exportCsv': 'Export to CSV',
+  'importExport.exportIncludes': 'Export includes:',
+  'importExport.includesPersonnel': 'Personnel details (name, rank, unit, email)',
+  'importExport.includesDuties': 'Duty assignments and types',
+  'importExport.includesTimes': 'Schedule dates and times',
+  'importExport.includesStatus': 'Status and notes',
+  'importExport.includesHistory': 'Assignment history',
+  'importExport.importTitle': 'Import Schedules',
+  'importExport.importDescription': 'Import schedules from Excel files. Download the template to see the required format.',
+  'importExport.downloadTemplate': 'Download Template',
+  'importExport.selectFile': 'Select Excel File (.xlsx, .xls)',
+  'importExport.summary': 'Import Summary',
+  'importExport.totalRows': 'Total Rows:',
+  'importExport.valid': 'Valid:',
+  'importExport.invalid': 'Invalid:',
+  'importExport.errors': 'Import Errors',
+  'importExport.importCount': 'Import {count} Schedules',
+  'importExport.sheetsTitle': 'Google Sheets Integration',
+  'importExport.sheetsDescription': 'Automatically sync schedules with Google Sheets for real-time collaboration.',
+  'importExport.enableAutoSync': 'Enable Auto-sync (every 30 minutes)',
+  'importExport.syncNow': 'Sync Now',
+  'importExport.openSheets': 'Open Google Sheets',
+  'importExport.syncFeatures': 'Sync Features:',
+  'importExport.featureUpdates': 'Real-time schedule updates',
+  'importExport.featureEditing': 'Collaborative editing',
+  'importExport.featureConflicts': 'Automatic conflict detection',
+  'importExport.featureHistory': 'Version history tracking',
+  'importExport.featureMobile': 'Mobile access via Google Sheets app',
+  'importExport.configTitle': 'Google Sheets Configuration',
+  'importExport.configDescription': 'Configure your Google Sheets integration settings.',
+  'importExport.sheetId': 'Google Sheet ID',
+  'importExport.sheetIdHint': 'Found in the URL: https://docs.google.com/spreadsheets/d/[SHEET_ID]/edit',
+  'importExport.apiKey': 'Google API Key',
+  'importExport.apiKeyHint': 'Get your API key from Google Cloud Console',
+  'importExport.accessToken': 'Access Token (Optional)',
+  'importExport.accessTokenHint': 'OAuth2 access token for write permissions',
+  'importExport.saveConfig': 'Save Configuration',
+  'importExport.setupTitle': 'Setup Instructions:',
+  'importExport.setupCreate': 'Create a Google Sheet for your schedules',
+  'importExport.setupCopyId': 'Copy the Sheet ID from the URL',
+  'importExport.setupApiKey': 'Get an API key from Google Cloud Console',
+  'importExport.setupEnableApi': 'Enable Google Sheets API for your project',
+  'importExport.setupAuth': 'Configure authentication for write access',
+  'importExport.close': 'Close',
+
+  // Conflicts
+  'conflicts.title': 'Conflict Management',
+  'conflicts.subtitle': 'Detect and resolve scheduling conflicts',
+  'conflicts.refresh': 'Refresh',
+  'conflicts.active': 'Active Conflicts',
+  'conflicts.activeDescription': 'Conflicts requiring immediate attention',
+  'conflicts.highPriority': 'High Priority',
+  'conflicts.resolvedToday': 'Resolved Today',
+  'conflicts.reopened': 'Reopened',
+  'conflicts.detectedAt': 'Detected: {time}',
+  'conflicts.reopenedAt': 'Reopened after schedule change: {time}',
+  'conflicts.affectedSchedules': 'Affected Schedules',
+  'conflicts.affectedSchedulesDetails': 'Affected Schedules Details',
+  'conflicts.resolve': 'Resolve',
+  'conflicts.autoResolve': 'Auto-Resolve',
+  'conflicts.noneActive': 'No Active Conflicts',
+  'conflicts.noneActiveDescription': 'All schedules are currently conflict-free.',
+  'conflicts.recentlyResolved': 'Recently Resolved',
+  'conflicts.recentlyResolvedDescription': 'Conflicts that have been resolved',
+  'conflicts.resolvedAt': 'Resolved: {time}',
+  'conflicts.resolution': 'Resolution:',
+  'conflicts.proposalTitle': 'Proposed Resolution',
+  'conflicts.proposalDescription': 'Review the schedule changes below before applying them.',
+  'conflicts.newAssignment': 'New assignment',
+  'conflicts.applyChanges': 'Apply Changes',
+  'conflicts.resolveTitle': 'Resolve Conflict',
+  'conflicts.type': 'Type',
+  'conflicts.severity': 'Severity',
+  'conflicts.detected': 'Detected',
+  'conflicts.resolutionNotes': 'Resolution Notes',
+  'conflicts.resolutionPlaceholder': 'Describe how this conflict was resolved...',
+  'conflicts.markResolved': 'Mark as Resolved',
+  'conflicts.resolvedToast': 'Conflict Resolved',
+  'conflicts.resolvedToastDescription': 'The scheduling conflict has been marked as resolved.',
+  'conflicts.error': 'Error',
+  'conflicts.resolveFailed': 'Failed to resolve conflict. Please try again.',
+  'conflicts.noAutomaticFix': 'No Automatic Fix',
+  'conflicts.noAutomaticFixDescription': 'No safe change was found for this conflict. Please resolve it manually.',
+  'conflicts.autoApplied': 'Auto-Resolution Applied',
+  'conflicts.autoAppliedDescription': '{count} schedule change(s) applied.',
+  'conflicts.autoFailed': 'Auto-Resolution Failed',
+  'conflicts.autoFailedStale': '{message}. Reload the conflicts and try again.',
+  'conflicts.autoFailedDescription': 'Could not apply the proposed changes.',
+  'conflicts.types.OVERLAP': 'Overlap',
+  'conflicts.types.REST_VIOLATION': 'Rest violation',
+  'conflicts.types.SKILL_MISMATCH': 'Skill mismatch',
+  'conflicts.types.AVAILABILITY': 'Availability',
+  'conflicts.types.UNDERSTAFFED': 'Understaffed',
+  'conflicts.types.OVERSTAFFED': 'Overstaffed',
+  'conflicts.types.CONSECUTIVE_HOURS': 'Consecutive hours',
+  'conflicts.severities.HIGH': 'High',
+  'conflicts.severities.MEDIUM': 'Medium',
+  'conflicts.severities.LOW': 'Low',
+
+  // Personnel
+  'personnel.title': 'Personnel Management',
+  'personnel.subtitle': 'Manage unit personnel and their information',
+  'personnel.add': 'Add Personnel',
+  'personnel.editTitle': 'Edit Personnel',
+  'personnel.createTitle': 'Add New Personnel',
+  'personnel.editDescription': 'Update personnel information',
+  'personnel.createDescription': 'Add a new person to the unit',
+  'personnel.firstName': 'First Name',
+  'personnel.firstNamePlaceholder': 'First name',
+  'personnel.lastName': 'Last Name',
+  'personnel.lastNamePlaceholder': 'Last name',
+  'personnel.email': 'Email',
+  'personnel.phone': 'Phone',
+  'personnel.role': 'Role',
+  'personnel.rank': 'Rank',
+  'personnel.rankPlaceholder': 'e.g., Corporal, Sergeant',
+  'personnel.unit': 'Unit',
+  'personnel.unitPlaceholder': 'e.g., Alpha Company',
+  'personnel.personalNumber': 'Personal Number',
+  'personnel.personalNumberPlaceholder': 'Military ID number',
+  'personnel.skills': 'Skills',
+  'personnel.update': 'Update',
+  'personnel.create': 'Create',
+  'personnel.searchPlaceholder': 'Search personnel...',
+  'personnel.allRoles': 'All roles',
+  'personnel.allUnits': 'All units',
+  'personnel.count': '{count} Personnel',
+  'personnel.selected': '{count} Selected',
+  'personnel.bulkActions': 'Bulk Actions:',
+  'personnel.toggleStatus': 'Toggle Status',
+  'personnel.changeUnit': 'Change Unit',
+  'personnel.directory': 'Personnel Directory',
+  'personnel.directoryDescription': 'Complete list of unit personnel',
+  'personnel.person': 'Person',
+  'personnel.roleAndRank': 'Role & Rank',
+  'personnel.contact': 'Contact',
+  'personnel.status': 'Status',
+  'personnel.actions': 'Actions',
+  'personnel.active': 'Active',
+  'personnel.inactive': 'Inactive',
+  'personnel.viewDetails': 'View Details',
+  'personnel.deactivate': 'Deactivate',
+  'personnel.activate': 'Activate',
+  'personnel.contactInfo': 'Contact Information',
+  'personnel.militaryDetails': 'Military Details',
+  'personnel.skillsAndQualifications': 'Skills & Qualifications',
+  'personnel.createdAt': 'Created: {date}',
+  'personnel.lastLogin': 'Last Login: {date}',
+  'personnel.error': 'Error',
+  'personnel.createFailed': 'Failed to create user',
+  'personnel.updateFailed': 'Failed to update user',
+  'personnel.deleteFailed': 'Failed to delete user',
+  'personnel.statusFailed': 'Failed to change user status',
+  'personnel.bulkStatusFailed': 'Failed to update personnel status',
+  'personnel.bulkUnitFailed': 'Failed to update personnel unit',
+  'personnel.bulkDeleteFailed': 'Failed to delete personnel',
+  'personnel.bulkComplete': 'Bulk Action Complete',
+  'personnel.bulkStatusDone': 'Updated status for {count} personnel.',
+  'personnel.bulkUnitDone': 'Updated unit for {count} personnel.',
+  'personnel.bulkDeleteDone': 'Deleted {count} personnel.',
+
+  // Requests
+  'requests.title': 'Leave & Duty Requests',
+  'requests.subtitle': 'Submit and manage leave requests and duty changes',
+  'requests.error': 'Error',
+  'requests.leaveSubmitFailed': 'Failed to submit leave request. Please try again.',
+  'requests.dutyChangeSubmitFailed': 'Failed to submit duty change request. Please try again.',
+  'requests.reviewFailed': 'Failed to save review. Please try again.',
+  'requests.approvalNotSavedOne': 'The leave was blocked out and {count} duty was flagged for reassignment, but the approval itself was not saved. Approve the request again to finish.',
+  'requests.approvalNotSavedOther': 'The leave was blocked out and {count} duties were flagged for reassignment, but the approval itself was not saved. Approve the request again to finish.',
+  'requests.leaveNotBlockedOne': '{count} duty was flagged for reassignment, but the leave could not be blocked out and the request is still pending. Approve it again to finish.',
+  'requests.leaveNotBlockedOther': '{count} duties were flagged for reassignment, but the leave could not be blocked out and the request is still pending. Approve it again to finish.',
+  'requests.leaveApproved': 'Leave Approved',
+  'requests.leaveApprovedFlaggedOne': '{count} overlapping duty was flagged for reassignment.',
+  'requests.leaveApprovedFlaggedOther': '{count} overlapping duties were flagged for reassignment.',
+  'requests.offerFailed': 'Failed to offer shift. Please try again.',
+  'requests.cannotClaim': 'Cannot Claim Shift',
+  'requests.cannotClaimDescription': 'You are no longer eligible for this shift.',
+  'requests.claimFailed': 'Failed to claim shift. Please try again.',
+  'requests.swapNotApplied': 'Swap Not Applied',
+  'requests.swapApproveFailed': 'Failed to approve shift swap.',
+  'requests.unknown': 'Unknown',
+  'requests.status.OPEN': 'Open',
+  'requests.status.CLAIMED': 'Awaiting Approval',
+  'requests.status.CANCELLED': 'Cancelled',
+  'requests.status.PENDING': 'Pending',
+  'requests.status.APPROVED': 'Approved',
+  'requests.status.REJECTED': 'Rejected',
+  'requests.requestLeave': 'Request Leave',
+  'requests.requestLeaveDescription': 'Submit a request to go home',
+  'requests.startDate': 'Start Date',
+  'requests.endDate': 'End Date',
+  'requests.reason': 'Reason',
+  'requests.leaveReasonPlaceholder': 'Please provide a reason for your leave request...',
+  'requests.submit': 'Submit Request',
+  'requests.requestDutyChange': 'Request Duty Change',
+  'requests.requestDutyChangeDescription': 'Request to change your assigned duty',
+  'requests.currentAssignment': 'Current Assignment',
+  'requests.noUpcomingDuties': 'No upcoming duties available',
+  'requests.selectCurrentAssignment': 'Select current assignment',
+  'requests.noAssignedDuties': 'No upcoming assigned duties found',
+  'requests.today': 'Today',
+  'requests.tomorrow': 'Tomorrow',
+  'requests.requestedDuty': 'Requested Duty',
+  'requests.selectPreferredDuty': 'Select preferred duty',
+  'requests.duration': 'Duration: {hours} hours',
+  'requests.dutyChangeReasonPlaceholder': 'Please provide a reason for your duty change request...',
+  'requests.offerShift': 'Offer Shift',
+  'requests.offerShiftTitle': 'Offer Shift for Swap',
+  'requests.offerShiftDescription': 'Let an eligible colleague take one of your duties',
+  'requests.dutyToOffer': 'Duty to Offer',
+  'requests.selectDuty': 'Select a duty',
+  'requests.noDutiesToOffer': 'No upcoming duties to offer',
+  'requests.reasonOptional': 'Reason (optional)',
+  'requests.offerReasonPlaceholder': 'Why are you offering this shift?',
+  'requests.claimShift': 'Claim Shift',
+  'requests.claimFrom': '{duty} from {name}',
+  'requests.giveInReturn': 'Give in Return',
+  'requests.nothingInReturn': 'Nothing - take the shift outright',
+  'requests.returnHint': 'Only duties {name} is eligible for are listed. The swap takes effect once a commander approves it.',
+  'requests.review.approveLeave': 'Approve Leave Request',
+  'requests.review.rejectLeave': 'Reject Leave Request',
+  'requests.review.approveDutyChange': 'Approve Duty Change',
+  'requests.review.rejectDutyChange': 'Reject Duty Change',
+  'requests.reviewDescription': 'Review notes are kept with the request and shown to the requester',
+  'requests.reviewNotesOptional': 'Review Notes (optional)',
+  'requests.reviewNotesPlaceholder': 'Add a note for the requester...',
+  'requests.approve': 'Approve',
+  'requests.reject': 'Reject',
+  'requests.tabMine': 'My Requests',
+  'requests.tabSwaps': 'Shift Swaps',
+  'requests.tabPending': 'Pending Approval',
+  'requests.myLeave': 'My Leave Requests',
+  'requests.myLeaveDescription': 'Your submitted leave requests',
+  'requests.noLeave': 'No leave requests',
+  'requests.requestedAt': 'Requested: {time}',
+  'requests.reviewNotes': 'Review Notes:',
+  'requests.myDutyChanges': 'My Duty Change Requests',
+  'requests.myDutyChangesDescription': 'Your submitted duty change requests',
+  'requests.noDutyChanges': 'No duty change requests',
+  'requests.availableShifts': 'Available Shifts',
+  'requests.availableShiftsDescription': 'Shifts offered by colleagues that you are eligible to take',
+  'requests.noAvailableShifts': 'No shifts available to you',
+  'requests.offeredBy': 'Offered by {name}',
+  'requests.claim': 'Claim',
+  'requests.mySwaps': 'My Swaps',
+  'requests.mySwapsDescription': 'Shifts you have offered or claimed',
+  'requests.noSwaps': 'No shift swaps',
+  'requests.claimedBy': 'Claimed by {name}',
+  'requests.waitingForClaim': 'Waiting for a colleague to claim',
+  'requests.inExchangeFor': 'In exchange for: {duty}',
+  'requests.offeredAt': 'Offered: {time}',
+  'requests.withdrawOffer': 'Withdraw Offer',
+  'requests.pendingLeave': 'Pending Leave Requests',
+  'requests.pendingLeaveDescription': 'Leave requests awaiting approval',
+  'requests.noPending': 'No pending requests',
+  'requests.pendingDutyChanges': 'Pending Duty Changes',
+  'requests.pendingDutyChangesDescription': 'Duty change requests awaiting approval',
+  'requests.pendingSwaps': 'Pending Shift Swaps',
+  'requests.pendingSwapsDescription': 'Claimed shifts awaiting approval',
+  'requests.noPendingSwaps': 'No pending swaps',
+
+  // Audit log
+  'audit.subtitle': 'Who changed what, and when',
+  'audit.refresh': 'Refresh',
+  'audit.error': 'Error',
+  'audit.loadFailed': 'Failed to load the audit log.',
+  'audit.accessRestricted': 'Access Restricted',
+  'audit.noPermission': 'You don\'t have permission to view the audit log.',
+  'audit.disabled': 'Audit logging is switched off in Settings, so new changes are not being recorded.',
+  'audit.search': 'Search',
+  'audit.searchPlaceholder': 'Summary, record ID or person...',
+  'audit.action': 'Action',
+  'audit.allActions': 'All actions',
+  'audit.recordType': 'Record Type',
+  'audit.allRecords': 'All records',
+  'audit.performedBy': 'Performed By',
+  'audit.everyone': 'Everyone',
+  'audit.from': 'From',
+  'audit.to': 'To',
+  'audit.clearFilters': 'Clear Filters',
+  'audit.activity': 'Activity',
+  'audit.entryCount': '{shown} of {total} entries',
+  'audit.noMatches': 'No audit entries match the current filters.',
+  'audit.time': 'Time',
+  'audit.record': 'Record',
+  'audit.summary': 'Summary',
+  'audit.details': 'Details',
+  'audit.showMore': 'Show More',
+  'audit.by': 'By',
+  'audit.entity': 'Entity',
+  'audit.id': 'ID',
+  'audit.noFieldChanges': 'No field-level changes were recorded.',
+  'audit.field': 'Field',
+  'audit.before': 'Before',
+  'audit.after': 'After',
+  'audit.actionOn': '{action}: {record}',
+  'audit.actions.CREATE': 'Create',
+  'audit.actions.UPDATE': 'Update',
+  'audit.actions.DELETE': 'Delete',
+  'audit.actions.APPROVE': 'Approve',
+  'audit.actions.REJECT': 'Reject',
+  'audit.actions.RESOLVE': 'Resolve',
+  'audit.actions.OVERRIDE': 'Override',
+  'audit.actions.RESTORE': 'Restore',
+  'audit.entities.SCHEDULE': 'Schedule',
+  'audit.entities.USER': 'User',
+  'audit.entities.DUTY_TYPE': 'Duty type',
+  'audit.entities.DUTY_TEMPLATE': 'Recurring series',
+  'audit.entities.AVAILABILITY': 'Availability',
+  'audit.entities.LEAVE_REQUEST': 'Leave request',
+  'audit.entities.DUTY_CHANGE_REQUEST': 'Duty change request',
+  'audit.entities.SHIFT_SWAP': 'Shift swap',
+  'audit.entities.CONFLICT': 'Conflict',
+  'audit.entities.CONSTRAINT': 'Constraint',
+  'audit.entities.SETTINGS': 'Settings',
+  'audit.entities.BACKUP': 'Backup',
+
+  // Settings
+  'settings.title': 'System Settings',
+  'settings.subtitle': 'Configure system parameters and preferences',
+  'settings.accessRestricted': 'Access Restricted',
+  'settings.noPermission': 'You don\'t have permission to access system settings.',
+  'settings.accessDenied': 'Access Denied',
+  'settings.noModifyPermission': 'You don\'t have permission to modify system settings.',
+  'settings.error': 'Error',
+  'settings.saved': 'Settings Saved',
+  'settings.savedDescription': 'System settings have been updated successfully.',
+  'settings.saveFailed': 'Failed to save settings. Please try again.',
+  'settings.resetFailed': 'Failed to reset settings. Please try again.',
+  'settings.imported': 'Settings Imported',
+  'settings.importedDescription': 'Settings have been imported successfully. Don\'t forget to save.',
+  'settings.importError': 'Import Error',
+  'settings.invalidFile': 'Invalid settings file format.',
+  'settings.import': 'Import',
+  'settings.export': 'Export',
+  'settings.saveChanges': 'Save Changes',
+  'settings.general': 'General Settings',
+  'settings.generalDescription': 'Basic system configuration and appearance',
+  'settings.siteName': 'Site Name',
+  'settings.timezone': 'Timezone',
+  'settings.theme': 'Theme',
+  'settings.themeLight': 'Light',
+  'settings.themeDark': 'Dark',
+  'settings.themeAuto': 'Auto',
+  'settings.dateFormat': 'Date Format',
+  'settings.timeFormat': 'Time Format',
+  'settings.time12h': '12 Hour (AM/PM)',
+  'settings.time24h': '24 Hour',
+  'settings.security': 'Security Settings',
+  'settings.securityDescription': 'Authentication and security configuration',
+  'settings.sessionTimeout': 'Session Timeout (minutes)',
+  'settings.passwordMinLength': 'Minimum Password Length',
+  'settings.maxLoginAttempts': 'Max Login Attempts',
+  'settings.lockoutDuration': 'Lockout Duration (minutes)',
+  'settings.twoFactor': 'Two-Factor Authentication',
+  'settings.twoFactorDescription': 'Require 2FA for all users',
+  'settings.auditLogging': 'Audit Logging',
+  'settings.auditLoggingDescription': 'Log all user activities',
+  'settings.scheduling': 'Scheduling Settings',
+  'settings.schedulingDescription': 'Default values and constraints for duty scheduling',
+  'settings.defaultDutyDuration': 'Default Duty Duration (hours)',
+  'settings.minRestPeriod': 'Minimum Rest Period (hours)',
+  'settings.maxConsecutiveHours': 'Max Consecutive Hours',
+  'settings.advancedSchedulingDays': 'Advanced Scheduling (days)',
+  'settings.dutyReminderHours': 'Duty Reminder (hours before)',
+  'settings.autoConflictDetection': 'Auto Conflict Detection',
+  'settings.autoConflictDetectionDescription': 'Automatically detect and alert on scheduling conflicts',
+  'settings.constraintRules': 'Constraint Rules',
+  'settings.constraintRulesDescription': 'Rules checked against every proposed schedule. Enforced rules block saving unless overridden.',
+  'settings.enforced': 'Enforced',
+  'settings.advisory': 'Advisory',
+  'settings.lastOverridden': 'Last overridden {time} by {user}: {reason}',
+  'settings.notifications': 'Notification Settings',
+  'settings.notificationsDescription': 'Configure notification preferences',
+  'settings.emailNotifications': 'Email Notifications',
+  'settings.emailNotificationsDescription': 'Send notifications via email',
+  'settings.pushNotifications': 'Push Notifications',
+  'settings.pushNotificationsDescription': 'Browser push notifications',
+  'settings.dutyAssignments': 'Duty Assignments',
+  'settings.dutyAssignmentsDescription': 'Notify when duties are assigned',
+  'settings.conflictAlerts': 'Conflict Alerts',
+  'settings.conflictAlertsDescription': 'Notify when conflicts are detected',
+  'settings.systemMaintenance': 'System Maintenance',
+  'settings.systemMaintenanceDescription': 'Notify about system maintenance',
+  'settings.weeklyReports': 'Weekly Reports',
+  'settings.weeklyReportsDescription': 'Send weekly summary reports',
+  'settings.backup': 'Backup & Maintenance',
+  'settings.backupDescription': 'System backup and maintenance settings',
+  'settings.backupFrequency': 'Backup Frequency',
+  'settings.daily': 'Daily',
+  'settings.weekly': 'Weekly',
+  'settings.monthly': 'Monthly',
+  'settings.retentionDays': 'Retention Period (days)',
+  'settings.autoBackup': 'Automatic Backup',
+  'settings.autoBackupDescription': 'Enable scheduled automatic backups',
+  'settings.lastBackup': 'Last Backup',
+  'settings.never': 'Never',
+  'settings.restore': 'Restore',
+  'settings.backupNow': 'Backup Now',
+  'settings.createBackupTitle': 'Create System Backup',
+  'settings.createBackupDescription': 'This will download a complete backup of personnel, duty types, schedules, availability, conflicts, requests, notifications and settings.',
+  'settings.createBackup': 'Create Backup',
+  'settings.backupComplete': 'Backup Complete',
+  'settings.backupCompleteDescription': 'System backup has been downloaded successfully.',
+  'settings.backupFailed': 'Backup Failed',
+  'settings.backupFailedDescription': 'Failed to create backup. Please try again.',
+  'settings.restoreError': 'Restore Error',
+  'settings.restoreCompareFailed': 'Failed to compare the backup with the current data.',
+  'settings.autoBackupFrom': 'Automatic backup from {time}',
+  'settings.backupRestored': 'Backup Restored',
+  'settings.backupRestoredDescription': 'All data has been restored. Reloading...',
+  'settings.restoreFailed': 'Restore Failed',
+  'settings.restoreFailedDescription': 'The backup could not be restored. Your previous data was saved as an automatic backup.',
+  'settings.unknownCreator': 'Unknown',
+  'settings.automaticBackups': 'Automatic Backups',
+  'settings.noAutoBackups': 'No automatic backups stored in this browser yet.',
+  'settings.backupContents': '{schedules} schedules, {personnel} personnel',
+  'settings.beforeRestore': 'Before restore',
+  'settings.scheduled': 'Scheduled',
+  'settings.download': 'Download',
+  'settings.restoreBackup': 'Restore Backup',
+  'settings.cannotRestore': 'This backup cannot be restored:',
+  'settings.backupCreated': 'Created {time} by {user} (format v{version})',
+  'settings.data': 'Data',
+  'settings.current': 'Current',
+  'settings.inBackup': 'In Backup',
+  'settings.new': 'New',
+  'settings.overwritten': 'Overwritten',
+  'settings.removed': 'Removed',
+  'settings.restoreReplaces': 'All current data is replaced by the backup.',
+  'settings.restoreReplacesWithSettings': 'All current data is replaced by the backup, including system settings.',
+  'settings.restoreKeepsCurrent': 'The current data is kept as an automatic backup first.',
+  'settings.restoring': 'Restoring...',
+  'settings.dangerZone': 'Danger Zone',
+  'settings.dangerZoneDescription': 'Irreversible and destructive actions',
+  'settings.dangerZoneWarning': 'These actions cannot be undone. Please proceed with caution.',
+  'settings.resetAll': 'Reset All Settings',
+  'settings.resetDescription': 'This will reset all system settings to their default values. This action cannot be undone.',
+  'settings.reset': 'Reset Settings',
+  'settings.collections.users': 'Personnel',
+  'settings.collections.dutyTypes': 'Duty types',
+  'settings.collections.schedules': 'Schedules',
+  'settings.collections.availability': 'Availability',
+  'settings.collections.availabilityPatterns': 'Availability patterns',
+  'settings.collections.dutyTemplates': 'Recurring series',
+  'settings.collections.conflicts': 'Conflicts',
+  'settings.collections.conflictResolutions': 'Conflict resolutions',
+  'settings.collections.leaveRequests': 'Leave requests',
+  'settings.collections.dutyChangeRequests': 'Duty change requests',
+  'settings.collections.shiftSwaps': 'Shift swaps',
+  'settings.collections.notifications': 'Notifications',
+  'settings.collections.constraints': 'Constraints',
+  'constraints.max-consecutive-hours.name': 'Max consecutive hours',
+  'constraints.max-consecutive-hours.description': 'Back-to-back duties may not exceed a combined on-duty limit',
+  'constraints.max-consecutive-hours.maxHours': 'Max hours',
+  'constraints.max-consecutive-hours.gapHours': 'Max gap joining duties (hours)',
+  'constraints.min-rest.name': 'Minimum rest',
+  'constraints.min-rest.description': 'Rest after each duty must meet the duty type minimum (and the global floor)',
+  'constraints.min-rest.minRestHours': 'Global rest floor (hours)',
+  'constraints.max-duties-per-week.name': 'Max duties per week',
+  'constraints.max-duties-per-week.description': 'Limits how many duties a person can start in one week (Sunday to Saturday)',
+  'constraints.max-duties-per-week.maxDuties': 'Max duties',
+  'constraints.no-weekend-doubles.name': 'No weekend doubles',
+  'constraints.no-weekend-doubles.description': 'A person should not hold more than one duty on the same weekend',
+  'constraints.no-weekend-doubles.maxPerWeekend': 'Max duties per weekend',
+  'constraints.max-holidays-per-year.name': 'Max holidays per year',
+  'constraints.max-holidays-per-year.description': 'Limits how many festival days (and Yom HaAtzmaut) a person spends on duty in one Hebrew year',
+  'constraints.max-holidays-per-year.maxHolidays': 'Max holidays',
+  'constraints.required-skill.name': 'Required skills',
+  'constraints.required-skill.description': 'Assigned personnel must hold every skill the duty type requires',
+
+  // Recurring duties
+  'recurrence.daily': 'Every day',
+  'recurrence.weekly': 'Weekly on {days}',
+  'recurrence.everyNDays': 'Every {interval} days',
+  'recurrence.title': 'Recurring Duties',
+  'recurrence.description': 'Define a duty that repeats, with one or more crews taking turns, and generate it ahead of time',
+  'recurrence.existingSeries': 'Existing Series',
+  'recurrence.at': 'at {time}',
+  'recurrence.rotatingCrews': '{count} rotating crews',
+  'recurrence.generatedThrough': 'Generated through {date}',
+  'recurrence.ends': 'ends {date}',
+  'recurrence.extend': 'Extend {count} weeks',
+  'recurrence.seriesName': 'Series Name',
+  'recurrence.seriesNamePlaceholder': 'e.g. Main gate guard',
+  'recurrence.firstDate': 'First Date',
+  'recurrence.durationHours': 'Duration (hours)',
+  'recurrence.generateThrough': 'Generate Through',
+  'recurrence.repeats': 'Repeats',
+  'recurrence.types.DAILY': 'Daily',
+  'recurrence.types.WEEKLY': 'Weekly on chosen days',
+  'recurrence.types.EVERY_N_DAYS': 'Every N days',
+  'recurrence.intervalDays': 'Interval (days)',
+  'recurrence.crews': 'Crews',
+  'recurrence.crewsTakeTurns': '(take turns each occurrence)',
+  'recurrence.removeCrew': 'Remove Crew',
+  'recurrence.addCrew': 'Add Crew',
+  'recurrence.crew': 'Crew {letter}',
+  'recurrence.summary': '{recurrence}: {count} occurrences through {date}',
+  'recurrence.generating': 'Generating...',
+  'recurrence.createSeries': 'Create Series',
+  'recurrence.generated': 'Recurring Duty Generated',
+  'recurrence.generatedDescription': '{count} assignments created for {name} through {date}.',
+  'recurrence.error': 'Error',
+  'recurrence.generateFailed': 'Failed to generate recurring duties. Please try again.',
+
+  // Availability
+  'availability.title': 'Availability Management',
+  'availability.subtitle': 'Manage personnel availability and time off',
+  'availability.selectPersonnel': 'Select personnel',
+  'availability.allPersonnel': 'All Personnel',
+  'availability.add': 'Add Availability',
+  'availability.edit': 'Edit Availability',
+  'availability.dialogDescription': 'Set availability status for a specific time period',
+  'availability.personnel': 'Personnel',
+  'availability.startDate': 'Start Date',
+  'availability.endDate': 'End Date',
+  'availability.startTimeOptional': 'Start Time (Optional)',
+  'availability.endTimeOptional': 'End Time (Optional)',
+  'availability.status': 'Status',
+  'availability.statusOptions.AVAILABLE': 'Available',
+  'availability.statusOptions.UNAVAILABLE': 'Unavailable',
+  'availability.statusOptions.LIMITED': 'Limited Availability',
+  'availability.statuses.AVAILABLE': 'Available',
+  'availability.statuses.UNAVAILABLE': 'Unavailable',
+  'availability.statuses.LIMITED': 'Limited',
+  'availability.notes': 'Notes',
+  'availability.notesPlaceholder': 'Additional notes or reasons...',
+  'availability.update': 'Update',
+  'availability.create': 'Create',
+  'availability.tabs.grid': 'Weekly Grid',
+  'availability.tabs.records': 'Records',
+  'availability.tabs.patterns': 'Recurring Patterns',
+  'availability.tabs.heatmap': 'Unit Heatmap',
+  'availability.newPattern': 'New Recurring Pattern',
+  'availability.newPatternDescription': 'Repeats every week, e.g. unavailable every Friday',
+  'availability.days': 'Days',
+  'availability.from': 'From',
+  'availability.until': 'Until',
+  'availability.endOfDay': 'End of day',
+  'availability.patternNotesPlaceholder': 'e.g. University classes',
+  'availability.addPattern': 'Add Pattern',
+  'availability.noPatterns': 'No recurring patterns',
+  'availability.patternAllDay': 'all day',
+  'availability.patternDescription': 'Every {days}, {hours}',
+  'availability.error': 'Error',
+  'availability.patternSaveFailed': 'Failed to save recurring pattern. Please try again.',
+  'availability.lastUpdated': 'Last updated: {time}',
+  'availability.noRecords': 'No Availability Records',
+  'availability.noRecordsForPerson': 'No availability records found for this person.',
+  'availability.noRecordsFound': 'No availability records found.',
+  'availability.grid.title': 'Weekly Availability',
+  'availability.grid.editDescription': 'Pick a status and drag across the hours to paint it. Striped hours come from recurring patterns or longer blocks.',
+  'availability.grid.viewDescription': 'Hourly availability for the selected week',
+  'availability.grid.clear': 'Clear',
+  'availability.grid.saving': 'Saving...',
+  'availability.grid.saveWeek': 'Save Week',
+  'availability.grid.noRecord': 'No record',
+  'availability.grid.saved': 'Availability Saved',
+  'availability.grid.savedDescription': 'Week of {date} updated.',
+  'availability.grid.saveFailed': 'Failed to save availability. Please try again.',
+  'availability.heatmap.title': 'Unit Availability Heatmap',
+  'availability.heatmap.description': 'Personnel fully available per day, by unit',
+  'availability.heatmap.allUnits': 'All Units',
+  'availability.heatmap.cellTitle': '{available} available, {limited} limited, {unavailable} unavailable',
+  'availability.heatmap.below': 'Below 25%',
+
+  // Auto-schedule
+  'autoSchedule.title': 'Auto-Schedule Roster',
+  'autoSchedule.description': 'Generate a draft roster from duty staffing rules, availability and rest periods',
+  'autoSchedule.from': 'From',
+  'autoSchedule.to': 'To',
+  'autoSchedule.shiftStartHour': 'Shift start hour',
+  'autoSchedule.dutyTypes': 'Duty types (none selected = all)',
+  'autoSchedule.generate': 'Generate Draft',
+  'autoSchedule.regenerate': 'Regenerate Draft',
+  'autoSchedule.unfilled': '{count} slot(s) could not be fully staffed:',
+  'autoSchedule.missing': 'missing {count}',
+  'autoSchedule.andMore': 'and {count} more',
+  'autoSchedule.allFilled': 'All slots meet minimum headcount.',
+  'autoSchedule.proposed': 'Proposed assignments ({count})',
+  'autoSchedule.hoursPerPerson': 'Hours in range per person',
+  'autoSchedule.hoursShort': '{count}h',
+  'autoSchedule.commit': 'Commit {count} Schedules',
+
+  // Reports
+  'reports.title': 'Reports & Analytics',
+  'reports.subtitle': 'Duty distribution and personnel workload analysis',
+  'reports.exportExcel': 'Export Excel',
+  'reports.exportPdf': 'Export PDF',
+  'reports.timePeriod': 'Time Period',
+  'reports.periods.week': 'This Week',
+  'reports.periods.month': 'This Month',
+  'reports.periods.quarter': 'This Quarter',
+  'reports.periods.year': 'This Year',
+  'reports.personnel': 'Personnel',
+  'reports.allPersonnel': 'All personnel',
+  'reports.unit': 'Unit',
+  'reports.allUnits': 'All units',
+  'reports.dutiesInPeriod': '{count} duties in selected period',
+  'reports.totalDuties': 'Total Duties',
+  'reports.totalHours': 'Total Hours',
+  'reports.activePersonnel': 'Active Personnel',
+  'reports.avgHoursPerPerson': 'Avg Hours/Person',
+  'reports.distribution': 'Duty Type Distribution',
+  'reports.distributionDescription': 'Breakdown by duty types and hours',
+  'reports.trend': 'Weekly Duty Trend',
+  'reports.trendDescription': 'Duties and hours over the past {count} weeks',
+  'reports.week': 'Week {number}',
+  'reports.duties': 'Duties',
+  'reports.hours': 'Hours',
+  'reports.hoursShort': '{count}h',
+  'reports.workload': 'Personnel Workload Analysis',
+  'reports.workloadDescription': 'Individual workload distribution and statistics',
+  'reports.avgHoursPerDuty': 'Avg Hours/Duty',
+  'reports.workloadDistribution': 'Workload Distribution',
+  'reports.fairness': 'Duty Fairness',
+  'reports.fairnessDescription': 'Weighted burden per person: high priority ×{priority}, nights ×{night}, weekends and holidays ×{weekend}',
+  'reports.lastDays': 'Last {count} days',
+  'reports.burdenScore': 'Burden Score',
+  'reports.nightHours': 'Night Hours',
+  'reports.weekendHours': 'Weekend Hours',
+  'reports.holidayHours': 'Holiday Hours',
+  'reports.highPriority': 'High Priority',
+  'reports.status': 'Status',
+  'reports.overloaded': 'Overloaded',
+  'reports.underloaded': 'Underloaded',
+  'reports.withinRange': 'Within range',
+  'reports.noPersonnel': 'No personnel match the current filters',
+  'reports.breakdown': 'Duty Types Breakdown',
+  'reports.breakdownDescription': 'Detailed statistics for each duty type',
+  'reports.totalCount': 'Total Count:',
+  'reports.totalHoursLabel': 'Total Hours:',
+  'reports.avgHours': 'Avg Hours:',
+  'reports.export.title': 'IDF Reserve Duty Report',
+  'reports.export.generated': 'Generated: {time}',
+  'reports.export.period': 'Period: {period}',
+  'reports.export.summary': 'Summary Statistics',
+  'reports.export.dutyType': 'Duty Type',
+  'reports.export.count': 'Count',
+  'reports.export.name': 'Name',
+  'reports.exported': 'Report Exported',
+  'reports.excelExported': 'Excel report has been downloaded successfully.',
+  'reports.pdfExported': 'PDF report (HTML format) has been downloaded successfully.',
+  'reports.exportFailed': 'Export Failed',
+  'reports.exportFailedDescription': 'Failed to export report. Please try again.',
+
+  // Profile
+  'profile.saved': 'Profile Updated',
+  'profile.savedDescription': 'Your profile has been saved successfully.',
+  'profile.error': 'Error',
+  'profile.saveFailed': 'Failed to save profile. Please try again.',
+  'profile.passwordMismatch': 'New passwords do not match.',
+  'profile.passwordTooShort': 'Password must be at least 8 characters long.',
+  'profile.passwordChanged': 'Password Changed',
+  'profile.passwordChangedDescription': 'Your password has been updated successfully.',
+  'profile.passwordChangeFailed': 'Failed to change password. Please try again.',
+  'profile.avatarUpload': 'Avatar Upload',
+  'profile.avatarUploadDescription': 'Avatar upload functionality would be implemented here.',
+  'profile.saveChanges': 'Save Changes',
+  'profile.editProfile': 'Edit Profile',
+  'profile.tabs.personal': 'Personal',
+  'profile.tabs.military': 'Military',
+  'profile.tabs.preferences': 'Preferences',
+  'profile.tabs.security': 'Security',
+  'profile.personalTitle': 'Personal Information',
+  'profile.personalDescription': 'Basic personal details and contact information',
+  'profile.firstName': 'First Name',
+  'profile.lastName': 'Last Name',
+  'profile.email': 'Email Address',
+  'profile.phone': 'Phone Number',
+  'profile.emergencyContact': 'Emergency Contact',
+  'profile.birthDate': 'Date of Birth',
+  'profile.address': 'Address',
+  'profile.addressPlaceholder': 'Street address, city, postal code',
+  'profile.militaryTitle': 'Military Information',
+  'profile.militaryDescription': 'Military service details and qualifications',
+  'profile.personalNumber': 'Personal Number',
+  'profile.rank': 'Rank',
+  'profile.unit': 'Unit',
+  'profile.enlistmentDate': 'Enlistment Date',
+  'profile.specialization': 'Specialization',
+  'profile.specializationPlaceholder': 'e.g., Infantry, Communications, Logistics',
+  'profile.clearanceLevel': 'Security Clearance',
+  'profile.clearance.STANDARD': 'Standard',
+  'profile.clearance.CONFIDENTIAL': 'Confidential',
+  'profile.clearance.SECRET': 'Secret',
+  'profile.clearance.TOP_SECRET': 'Top Secret',
+  'profile.skills': 'Skills & Qualifications',
+  'profile.preferencesTitle': 'Preferences',
+  'profile.preferencesDescription': 'Application preferences and privacy settings',
+  'profile.timezone': 'Timezone',
+  'profile.notificationPreferences': 'Notification Preferences',
+  'profile.emailNotifications': 'Email Notifications',
+  'profile.emailNotificationsDescription': 'Receive notifications via email',
+  'profile.smsNotifications': 'SMS Notifications',
+  'profile.smsNotificationsDescription': 'Receive notifications via SMS',
+  'profile.pushNotifications': 'Push Notifications',
+  'profile.pushNotificationsDescription': 'Browser push notifications',
+  'profile.privacySettings': 'Privacy Settings',
+  'profile.showProfile': 'Show Profile to Others',
+  'profile.showProfileDescription': 'Allow others to view your profile',
+  'profile.showSchedule': 'Show Schedule',
+  'profile.showScheduleDescription': 'Allow others to view your schedule',
+  'profile.showContact': 'Show Contact Information',
+  'profile.showContactDescription': 'Allow others to view your contact details',
+  'profile.securityTitle': 'Security Settings',
+  'profile.securityDescription': 'Account security and access management',
+  'profile.password': 'Password',
+  'profile.lastChanged': 'Last changed: {date}',
+  'profile.changePassword': 'Change Password',
+  'profile.changePasswordDescription': 'Enter your current password and choose a new one.',
+  'profile.currentPassword': 'Current Password',
+  'profile.newPassword': 'New Password',
+  'profile.confirmPassword': 'Confirm New Password',
+  'profile.twoFactor': 'Two-Factor Authentication',
+  'profile.enabled': 'Enabled',
+  'profile.disabled': 'Disabled',
+  'profile.enableTwoFactor': 'Enable 2FA',
+  'profile.disableTwoFactor': 'Disable 2FA',
+  'profile.sessionHistory': 'Session History',
+  'profile.sessionHistoryDescription': 'Recent login activity and sessions',
+  'profile.successfulLogin': 'Successful Login',
+
+  // Preferences
+  'preferences.language': 'Language',
+};
+
+export type TranslationKey = keyof typeof en;
@@ -0,0 +1,1060 @@
+import { TranslationKey } from './en';
+
+export const he: Record<TranslationKey, string> = {
+  // Navigation
+  'nav.dashboard': 'לוח בקרה',
+  'nav.schedule': 'לוח זמנים',
+  'nav.requests': 'בקשות',
+  'nav.availability': 'זמינות',
+  'nav.personnel': 'כוח אדם',
+  'nav.conflicts': 'קונפליקטים',
+  'nav.reports': 'דוחות',
+  'nav.settings': 'הגדרות',
+  'nav.audit': 'יומן ביקורת',
+  'nav.profile': 'פרופיל',
+
+  // Layout
+  'layout.appName': 'לוגיסטיקה צה"ל',
+  'layout.appSubtitle': 'ניהול מילואים',
+  'layout.signOut': 'התנתקות',
+
+  // Common
+  'common.save': 'שמירה',
+  'common.cancel': 'ביטול',
+  'common.edit': 'עריכה',
+  'common.delete': 'מחיקה',
+  'common.back': 'חזרה',
+  'common.hours': '{count} שעות',
+  'common.unknownDuty': 'תורנות לא ידועה',
+  'common.unknownPersonnel': 'איש צוות לא ידוע',
+  'common.yes': 'כן',
+  'common.no': 'לא',
+
+  // Dashboard
+  'dashboard.welcome': 'שלום, {name}',
+  'dashboard.totalPersonnel': 'סה"כ כוח אדם',
+  'dashboard.totalPersonnelDescription': 'אנשי מילואים פעילים',
+  'dashboard.availableNow': 'זמינים כעת',
+  'dashboard.availableNowDescription': 'מוכנים לשיבוץ',
+  'dashboard.activeDuties': 'תורנויות פעילות',
+  'dashboard.activeDutiesDescription': 'בתורנות כרגע',
+  'dashboard.pendingRequests': 'בקשות ממתינות',
+  'dashboard.pendingRequestsDescription': 'ממתינות לאישור',
+  'dashboard.upcomingDuties': 'תורנויות קרובות',
+  'dashboard.upcomingDutiesDescription': 'השיבוצים הבאים',
+  'dashboard.noUpcomingDuties': 'אין תורנויות מתוכננות',
+  'dashboard.recentActivity': 'פעילות אחרונה',
+  'dashboard.recentActivityDescription': 'עדכוני מערכת אחרונים',
+  'dashboard.dutyCoverage': 'כיסוי תורנויות',
+  'dashboard.dutyCoverageDescription': 'משבצות קרובות מחוץ לתקן האיוש',
+  'dashboard.coverageOk': 'כל התורנויות הקרובות בתקן האיוש',
+  'dashboard.quickActions': 'פעולות מהירות',
+  'dashboard.quickActionsDescription': 'משימות וקיצורי דרך נפוצים',
+  'dashboard.createSchedule': 'יצירת שיבוץ',
+  'dashboard.submitRequest': 'הגשת בקשה',
+  'dashboard.viewReports': 'צפייה בדוחות',
+  'dashboard.managePersonnel': 'ניהול כוח אדם',
+  'dashboard.systemStatus': 'מצב המערכת',
+  'dashboard.systemStatusDescription': 'מצב מבצעי נוכחי',
+  'dashboard.viewFullSchedule': 'צפייה בלוח המלא',
+  'dashboard.systemHealth': 'תקינות המערכת',
+  'dashboard.operational': 'פעילה',
+  'dashboard.personnelCoverage': 'כיסוי כוח אדם',
+  'dashboard.lastUpdated': 'עודכן לאחרונה: {time}',
+
+  // Schedule calendar
+  'calendar.title': 'לוח שיבוצים',
+  'calendar.subtitle': 'ניהול שיבוצי תורנויות ולוחות זמנים',
+  'calendar.calendarView': 'לוח שנה',
+  'calendar.timelineView': 'ציר זמן',
+  'calendar.filters': 'סינון',
+  'calendar.filterUser': 'משתמש',
+  'calendar.filterDutyType': 'סוג תורנות',
+  'calendar.filterStatus': 'סטטוס',
+  'calendar.allUsers': 'כל המשתמשים',
+  'calendar.allDuties': 'כל התורנויות',
+  'calendar.allStatus': 'כל הסטטוסים',
+  'calendar.importExport': 'ייבוא/ייצוא',
+  'calendar.autoSchedule': 'שיבוץ אוטומטי',
+  'calendar.recurring': 'תורנות חוזרת',
+  'calendar.addSchedule': 'הוספת שיבוץ',
+  'calendar.createTitle': 'יצירת שיבוץ חדש',
+  'calendar.editTitle': 'עריכת שיבוץ',
+  'calendar.createDescription': 'שיבוץ תורנות חדשה לאיש צוות',
+  'calendar.editDescription': 'עדכון שיבוץ קיים',
+  'calendar.personnel': 'איש צוות',
+  'calendar.selectPersonnel': 'בחירת איש צוות',
+  'calendar.burden': 'עומס {score}',
+  'calendar.dutyType': 'סוג תורנות',
+  'calendar.selectDutyType': 'בחירת סוג תורנות',
+  'calendar.startTime': 'שעת התחלה',
+  'calendar.endTime': 'שעת סיום',
+  'calendar.duration': 'משך',
+  'calendar.unit': 'יחידה',
+  'calendar.notes': 'הערות',
+  'calendar.notesPlaceholder': 'הערות או הנחיות נוספות...',
+  'calendar.createSchedule': 'יצירת שיבוץ',
+  'calendar.updateSchedule': 'עדכון שיבוץ',
+  'calendar.assignedBy': 'שובץ על ידי',
+  'calendar.needsReassignment': 'נדרש שיבוץ מחדש',
+  'calendar.legend': 'מקרא סוגי תורנויות',
+  'calendar.shabbat': 'שבת',
+  'calendar.restDay': 'שבת / חג',
+  'calendar.toolbar.month': 'חודש',
+  'calendar.toolbar.week': 'שבוע',
+  'calendar.toolbar.day': 'יום',
+  'calendar.toolbar.agenda': 'סדר יום',
+  'calendar.toolbar.today': 'היום',
+  'calendar.toolbar.previous': 'הקודם',
+  'calendar.toolbar.next': 'הבא',
+  'calendar.toolbar.showMore': '+{count} נוספים',
+  'calendar.merge.changedBy': 'תורנות זו שונתה על ידי {name}',
+  'calendar.merge.changedByAt': 'תורנות זו שונתה על ידי {name} בשעה {time}',
+  'calendar.merge.anotherUser': 'משתמש אחר',
+  'calendar.merge.description': 'העריכה שלך בוצעה על עותק ישן של תורנות זו. בחרו את הערך שיישמר בכל שדה; שדות שאינם מופיעים ישמרו את הערך האחרון שנשמר.',
+  'calendar.merge.field': 'שדה',
+  'calendar.merge.savedBy': 'נשמר על ידי {name}',
+  'calendar.merge.yourEdit': 'העריכה שלך',
+  'calendar.merge.noDifferences': 'התורנות השמורה כבר תואמת את העריכה שלך.',
+  'calendar.merge.keepSaved': 'שמירת הגרסה השמורה',
+  'calendar.merge.saveMerged': 'שמירת הגרסה הממוזגת',
+  'calendar.merge.seriesNotUpdated': 'הסדרה לא עודכנה',
+  'calendar.merge.seriesReloaded': '{message}. לוח השנה נטען מחדש; יש להחיל את השינוי שוב.',
+  'calendar.merge.fields.userId': 'משובץ',
+  'calendar.merge.fields.dutyTypeId': 'סוג תורנות',
+  'calendar.merge.fields.startTime': 'התחלה',
+  'calendar.merge.fields.endTime': 'סיום',
+  'calendar.merge.fields.status': 'סטטוס',
+  'calendar.merge.fields.notes': 'הערות',
+  'calendar.merge.fields.isOverride': 'עקיפת אילוץ',
+  'calendar.merge.fields.needsReassignment': 'דורש שיבוץ מחדש',
+  'calendar.merge.fields.reassignmentReason': 'סיבת שיבוץ מחדש',
+  'calendar.merge.fields.isSeriesException': 'מנותק מהסדרה',
+  'calendar.status.ASSIGNED': 'משובץ',
+  'calendar.status.REQUESTED': 'מבוקש',
+  'calendar.status.PENDING': 'ממתין',
+  'calendar.status.CANCELLED': 'בוטל',
+  'calendar.status.COMPLETED': 'הושלם',
+  'calendar.editedOccurrence': 'מופע שנערך',
+  'calendar.series.deleteTitle': 'מחיקת תורנות חוזרת',
+  'calendar.series.deleteDescription': 'תורנות זו היא חלק מסדרה. מה למחוק?',
+  'calendar.series.thisOccurrence': 'מופע זה',
+  'calendar.series.followingOccurrences': 'מופע זה והמופעים הבאים',
+  'calendar.series.entireSeries': 'כל הסדרה',
+  'calendar.series.applyChangesTo': 'החלת השינויים על',
+  'calendar.series.futureOccurrences': 'מופע זה והמופעים העתידיים',
+  'calendar.move.title': 'ההזזה יוצרת התנגשויות',
+  'calendar.move.description': 'הזזת התורנות ל-{start} - {end} תגרום ל:',
+  'calendar.move.moveAnyway': 'להזיז בכל זאת',
+  'calendar.constraints.title': 'הפרות אילוצים',
+  'calendar.constraints.breaksEnforced': 'שיבוץ זה מפר כללי שיבוץ נאכפים.',
+  'calendar.constraints.breaksAdvisory': 'שיבוץ זה מפר כללי שיבוץ מייעצים.',
+  'calendar.constraints.enforced': 'נאכף',
+  'calendar.constraints.advisory': 'מייעץ',
+  'calendar.constraints.overrideReason': 'סיבת העקיפה',
+  'calendar.constraints.overridePlaceholder': 'מדוע שיבוץ זה נחוץ למרות ההפרות?',
+  'calendar.constraints.noOverridePermission': 'אין לך הרשאה לעקוף אילוצי שיבוץ.',
+  'calendar.constraints.overrideAndSave': 'עקיפה ושמירה',
+  'calendar.constraints.saveAnyway': 'לשמור בכל זאת',
+  'calendar.eventType': 'סוג אירוע',
+  'calendar.selectEventType': 'בחירת סוג אירוע',
+  'calendar.isEvent': 'זהו אירוע (לא שיבוץ לתורנות)',
+  'calendar.allDay': 'אירוע של יום שלם',
+  'calendar.date': 'תאריך',
+  'calendar.timeline.today': 'היום',
+  'calendar.timeline.ranges.1': 'יום',
+  'calendar.timeline.ranges.3': '3 ימים',
+  'calendar.timeline.ranges.7': 'שבוע',
+  'calendar.timeline.busyNow': 'בתורנות, במנוחה או לא זמין כעת',
+  'calendar.timeline.freeNow': 'פנוי כעת',
+  'calendar.timeline.restUntil': 'מנוחה עד {time}',
+  'calendar.timeline.duty': 'תורנות',
+  'calendar.timeline.requiredRest': 'מנוחה נדרשת',
+  'calendar.timeline.limited': 'מוגבל',
+  'calendar.timeline.unavailable': 'לא זמין',
+
+  // Offline changes
+  'offline.title': 'שינויים במצב לא מקוון',
+  'offline.offline': 'לא מקוון',
+  'offline.onlineHint': 'השינויים נשלחים לשרת לפי הסדר שבו בוצעו.',
+  'offline.offlineHint': 'אין חיבור לרשת. השינויים נשמרים במכשיר זה ויישלחו כשהחיבור יחזור.',
+  'offline.empty': 'אין שינויים הממתינים לסנכרון',
+  'offline.status.pending': 'ממתין',
+  'offline.status.syncing': 'מסתנכרן',
+  'offline.status.failed': 'נכשל',
+  'offline.status.conflict': 'התנגשות',
+  'offline.retry': 'ניסיון חוזר',
+  'offline.discard': 'ביטול השינוי',
+  'offline.resolve': 'פתרון',
+  'offline.error': 'שגיאה',
+  'offline.retryFailed': 'הניסיון החוזר לשליחת השינוי נכשל',
+  'offline.discardFailed': 'ביטול השינוי נכשל',
+  'offline.resolveFailed': 'פתרון השינוי המתנגש נכשל',
+  'offline.notSaved': 'השינוי לא נשמר',
+  'offline.refusedOffline': 'אין חיבור לרשת. ניתן יהיה לשמור שינוי זה רק כשהחיבור יחזור.',
+  'offline.refusedPending': 'שינויים שבוצעו ללא חיבור עדיין ממתינים לסנכרון. נסו שוב לאחר שיישלחו.',
+  'offline.serverChanged': 'העותק בשרת השתנה לאחר שנעשתה עריכה זו',
+  'offline.conflictTitle': 'מישהו אחר שינה רשומה זו',
+  'offline.conflictChanged': '"{summary}" בוצע ללא חיבור, ומאז העותק בשרת השתנה. בחרו איזו גרסה לשמור.',
+  'offline.conflictDeleted': '"{summary}" בוצע ללא חיבור, ומאז הרשומה נמחקה בשרת.',
+  'offline.field': 'שדה',
+  'offline.server': 'שרת',
+  'offline.yourChange': 'השינוי שלך',
+  'offline.yourDelete': 'השינוי שלך (מחיקה)',
+  'offline.decideLater': 'החלטה מאוחר יותר',
+  'offline.keepServer': 'שמירת גרסת השרת',
+  'offline.keepLocal': 'שמירת השינוי שלי',
+
+  // Notifications
+  'notifications.title': 'התראות',
+  'notifications.markAllRead': 'סימון הכול כנקרא',
+  'notifications.justNow': 'כרגע',
+  'notifications.minutesAgo': 'לפני {count} דק׳',
+  'notifications.hoursAgo': 'לפני {count} שע׳',
+  'notifications.daysAgo': 'לפני {count} ימים',
+  'notifications.highPriority': 'עדיפות גבוהה',
+  'notifications.empty': 'אין התראות',
+  'notifications.viewAll': 'הצגת כל ההתראות',
+  'notifications.dutyAssigned.title': 'שיבוץ חדש לתורנות',
+  'notifications.dutyAssigned.message': 'שובצת ל{duty} בתאריך {date}',
+  'notifications.dutyChanged.title': 'שיבוץ התורנות השתנה',
+  'notifications.dutyChanged.message': 'השיבוץ שלך ל{duty} שונה: {changes}',
+  'notifications.dutyCancelled.title': 'שיבוץ התורנות בוטל',
+  'notifications.dutyCancelled.message': 'השיבוץ שלך ל{duty} בוטל',
+  'notifications.dutyCancelled.messageWithReason': 'השיבוץ שלך ל{duty} בוטל: {reason}',
+  'notifications.conflictDetected.title': 'זוהתה התנגשות בשיבוץ',
+  'notifications.needCover.title': 'תורנויות דורשות החלפה',
+  'notifications.needCover.message': '{name} בחופשה מאושרת. יש לשבץ מחדש: {duties}',
+  'notifications.needCover.duty': '{duty} ב-{time}',
+  'notifications.needCover.unknownDuty': 'תורנות',
+  'notifications.reminder.title': 'תזכורת לתורנות קרובה',
+  'notifications.reminder.message': '{duty} מתחילה בעוד {count} שעות',
+  'notifications.swapClaimed.title': 'בקשת החלפת משמרת נתפסה',
+  'notifications.swapClaimed.message': '{name} לקח את ה{duty} שלך בתאריך {date}. ממתין לאישור מפקד.',
+  'notifications.swapApproved.title': 'החלפת המשמרת אושרה',
+  'notifications.swapApproved.message': 'ההחלפה של {duty} בתאריך {date} אושרה',
+  'notifications.swapApproved.messageWithNotes': 'ההחלפה של {duty} בתאריך {date} אושרה: {notes}',
+  'notifications.swapRejected.title': 'החלפת המשמרת נדחתה',
+  'notifications.swapRejected.message': 'ההחלפה של {duty} בתאריך {date} נדחתה',
+  'notifications.swapRejected.messageWithNotes': 'ההחלפה של {duty} בתאריך {date} נדחתה: {notes}',
+
+  // Roles
+  'roles.SUPER_ADMIN': 'מנהל מערכת',
+  'roles.COMMANDER': 'מפקד',
+  'roles.DUTY_OFFICER': 'קצין תורן',
+  'roles.NCO': 'נגד',
+  'roles.RESERVIST': 'איש מילואים',
+
+  // Sign in
+  'login.invalidCredentials': 'אימייל או סיסמה שגויים',
+  'login.failed': 'ההתחברות נכשלה. נסו שוב.',
+  'login.appSubtitle': 'ניהול שירות מילואים',
+  'login.secureSystem': 'מערכת מאובטחת ברמה צבאית',
+  'login.tagline': 'תכנון משמרות וניהול לוגיסטי מתקדם ליחידות המילואים של צה"ל.',
+  'login.demoAccounts': 'חשבונות הדגמה',
+  'login.demoPassword': 'סיסמה: כל 3 תווים ומעלה',
+  'login.title': 'התחברות',
+  'login.description': 'כניסה למערכת ניהול שירות המילואים של צה"ל',
+  'login.email': 'אימייל',
+  'login.emailPlaceholder': 'הזינו את כתובת האימייל',
+  'login.password': 'סיסמה',
+  'login.passwordPlaceholder': 'הזינו את הסיסמה',
+  'login.signingIn': 'מתחבר...',
+  'login.or': 'או',
+  'login.createAccount': 'יצירת חשבון חדש',
+  'login.secureAccess': 'גישה מאובטחת למערכות צבאיות',
+  'login.monitored': 'כל הפעולות מתועדות ומנוטרות',
+
+  // Sign up
+  'signup.title': 'הרשמה למערכת ניהול מילואים',
+  'signup.description': 'יצירת חשבון חדש למילואימניקים',
+  'signup.personalInfo': 'מידע אישי',
+  'signup.firstName': 'שם פרטי *',
+  'signup.firstNamePlaceholder': 'הכנס שם פרטי',
+  'signup.lastName': 'שם משפחה *',
+  'signup.lastNamePlaceholder': 'הכנס שם משפחה',
+  'signup.email': 'אימייל *',
+  'signup.password': 'סיסמה *',
+  'signup.passwordPlaceholder': 'לפחות 6 תווים',
+  'signup.confirmPassword': 'אישור סיסמה *',
+  'signup.confirmPasswordPlaceholder': 'חזור על הסיסמה',
+  'signup.phone': 'טלפון',
+  'signup.dateOfBirth': 'תאריך לידה',
+  'signup.militaryInfo': 'מידע צבאי',
+  'signup.serviceNumber': 'מספר אישי *',
+  'signup.rank': 'דרגה *',
+  'signup.selectRank': 'בחר דרגה',
+  'signup.unit': 'יחידה *',
+  'signup.selectUnit': 'בחר יחידה',
+  'signup.specialization': 'התמחות',
+  'signup.selectSpecialization': 'בחר התמחות',
+  'signup.yearsOfService': 'שנות שירות',
+  'signup.acceptTerms': 'אני מסכים לתנאי השימוש ולתקנון המערכת *',
+  'signup.acceptPrivacy': 'אני מסכים למדיניות הפרטיות ולהגנת המידע *',
+  'signup.creating': 'יוצר חשבון...',
+  'signup.create': 'יצירת חשבון',
+  'signup.backToLogin': 'חזרה להתחברות',
+  'signup.nameRequired': 'שם פרטי ושם משפחה נדרשים',
+  'signup.emailRequired': 'אימייל תקין נדרש',
+  'signup.passwordTooShort': 'סיסמה חייבת להכיל לפחות 6 תווים',
+  'signup.passwordMismatch': 'סיסמאות אינן תואמות',
+  'signup.serviceNumberRequired': 'מספר אישי תקין נדרש (7 ספרות לפחות)',
+  'signup.rankUnitRequired': 'דרגה ויחידה נדרשים',
+  'signup.termsRequired': 'יש לאשר את תנאי השימוש ומדיניות הפרטיות',
+  'signup.failed': 'שגיאה ביצירת המשתמש',
+
+  // Import / export
+  'importExport.title': 'ייבוא/ייצוא ושילוב Google Sheets',
+  'importExport.exporting': 'מייצא לוחות זמנים ל-{format}...',
+  'importExport.nothingToExport': 'אין לוחות זמנים לייצוא',
+  'importExport.exported': '{count} לוחות זמנים יוצאו בהצלחה ל-{format}',
+  'importExport.exportFailed': 'הייצוא נכשל',
+  'importExport.templateDownloaded': 'תבנית הייבוא הורדה בהצלחה',
+  'importExport.templateFailed': 'יצירת התבנית נכשלה',
+  'importExport.reading': 'קורא קובץ Excel...',
+  'importExport.found': 'נמצאו {count} לוחות זמנים תקינים מתוך {total} שורות',
+  'importExport.noneFound': 'לא נמצאו לוחות זמנים תקינים בקובץ',
+  'importExport.importFailed': 'הייבוא נכשל',
+  'importExport.importing': 'מייבא לוחות זמנים...',
+  'importExport.imported': '{count} לוחות זמנים יובאו בהצלחה',
+  'importExport.importSchedulesFailed': 'ייבוא לוחות הזמנים נכשל',
+  'importExport.syncing': 'מסנכרן עם Google Sheets...',
+  'importExport.syncFailed': 'הסנכרון נכשל',
+  'importExport.configSaved': 'הגדרות Google Sheets נשמרו',
+  'importExport.autoSyncEnabled': 'סנכרון אוטומטי הופעל (כל 30 דקות)',
+  'importExport.autoSyncDisabled': 'סנכרון אוטומטי כובה',
+  'importExport.tabExport': 'ייצוא',
+  'importExport.tabImport': 'ייבוא',
+  'importExport.tabSheets': 'Google Sheets',
+  'importExport.tabSettings': 'הגדרות',
+  'importExport.exportTitle': 'ייצוא לוחות זמנים',
+  'importExport.exportDescription': 'ייצוא לוחות הזמנים הנוכחיים לקובץ Excel או CSV לגיבוי או לשימוש חיצוני.',
+  'importExport.exportExcel': 'ייצוא ל-Excel (.xlsx)',
+  'importExport.exportCsv': 'ייצוא ל-CSV',
+  'importExport.exportIncludes': 'הייצוא כולל:',
+  'importExport.includesPersonnel': 'פרטי כוח אדם (שם, דרגה, יחידה, אימייל)',
+  'importExport.includesDuties': 'שיבוצי תורנויות וסוגיהן',
+  'importExport.includesTimes': 'תאריכים ושעות',
+  'importExport.includesStatus': 'סטטוס והערות',
+  'importExport.includesHistory': 'היסטוריית שיבוצים',
+  'importExport.importTitle': 'ייבוא לוחות זמנים',
+  'importExport.importDescription': 'ייבוא לוחות זמנים מקובצי Excel. הורידו את התבנית כדי לראות את המבנה הנדרש.',
+  'importExport.downloadTemplate': 'הורדת תבנית',
+  'importExport.selectFile': 'בחירת קובץ Excel (.xlsx, .xls)',
+  'importExport.summary': 'סיכום ייבוא',
+  'importExport.totalRows': 'סה"כ שורות:',
+  'importExport.valid': 'תקינות:',
+  'importExport.invalid': 'לא תקינות:',
+  'importExport.errors': 'שגיאות ייבוא',
+  'importExport.importCount': 'ייבוא {count} לוחות זמנים',
+  'importExport.sheetsTitle': 'שילוב Google Sheets',
+  'importExport.sheetsDescription': 'סנכרון אוטומטי של לוחות הזמנים עם Google Sheets לעבודה משותפת בזמן אמת.',
+  'importExport.enableAutoSync': 'הפעלת סנכרון אוטומטי (כל 30 דקות)',
+  'importExport.syncNow': 'סנכרון עכשיו',
+  'importExport.openSheets': 'פתיחת Google Sheets',
+  'importExport.syncFeatures': 'יכולות סנכרון:',
+  'importExport.featureUpdates': 'עדכוני לוח זמנים בזמן אמת',
+  'importExport.featureEditing': 'עריכה משותפת',
+  'importExport.featureConflicts': 'זיהוי קונפליקטים אוטומטי',
+  'importExport.featureHistory': 'מעקב היסטוריית גרסאות',
+  'importExport.featureMobile': 'גישה מהנייד דרך אפליקציית Google Sheets',
+  'importExport.configTitle': 'הגדרות Google Sheets',
+  'importExport.configDescription': 'הגדרת השילוב עם Google Sheets.',
+  'importExport.sheetId': 'מזהה הגיליון (Sheet ID)',
+  'importExport.sheetIdHint': 'מופיע בכתובת: https://docs.google.com/spreadsheets/d/[SHEET_ID]/edit',
+  'importExport.apiKey': 'מפתח Google API',
+  'importExport.apiKeyHint': 'ניתן לקבל מפתח API ב-Google Cloud Console',
+  'importExport.accessToken': 'אסימון גישה (אופציונלי)',
+  'importExport.accessTokenHint': 'אסימון גישה OAuth2 להרשאות כתיבה',
+  'importExport.saveConfig': 'שמירת הגדרות',
+  'importExport.setupTitle': 'הוראות הגדרה:',
+  'importExport.setupCreate': 'צרו גיליון Google עבור לוחות הזמנים',
+  'importExport.setupCopyId': 'העתיקו את מזהה הגיליון מהכתובת',
+  'importExport.setupApiKey': 'קבלו מפתח API ב-Google Cloud Console',
+  'importExport.setupEnableApi': 'הפעילו את Google Sheets API בפרויקט',
+  'importExport.setupAuth': 'הגדירו אימות לגישת כתיבה',
+  'importExport.close': 'סגירה',
+
+  // Conflicts
+  'conflicts.title': 'ניהול קונפליקטים',
+  'conflicts.subtitle': 'זיהוי ופתרון קונפליקטים בשיבוץ',
+  'conflicts.refresh': 'רענון',
+  'conflicts.active': 'קונפליקטים פעילים',
+  'conflicts.activeDescription': 'קונפליקטים הדורשים טיפול מיידי',
+  'conflicts.highPriority': 'עדיפות גבוהה',
+  'conflicts.resolvedToday': 'נפתרו היום',
+  'conflicts.reopened': 'נפתח מחדש',
+  'conflicts.detectedAt': 'זוהה: {time}',
+  'conflicts.reopenedAt': 'נפתח מחדש לאחר שינוי בשיבוץ: {time}',
+  'conflicts.affectedSchedules': 'שיבוצים מושפעים',
+  'conflicts.affectedSchedulesDetails': 'פרטי השיבוצים המושפעים',
+  'conflicts.resolve': 'פתרון',
+  'conflicts.autoResolve': 'פתרון אוטומטי',
+  'conflicts.noneActive': 'אין קונפליקטים פעילים',
+  'conflicts.noneActiveDescription': 'כל השיבוצים נקיים מקונפליקטים כרגע.',
+  'conflicts.recentlyResolved': 'נפתרו לאחרונה',
+  'conflicts.recentlyResolvedDescription': 'קונפליקטים שנפתרו',
+  'conflicts.resolvedAt': 'נפתר: {time}',
+  'conflicts.resolution': 'פתרון:',
+  'conflicts.proposalTitle': 'פתרון מוצע',
+  'conflicts.proposalDescription': 'בדקו את השינויים בשיבוץ לפני החלתם.',
+  'conflicts.newAssignment': 'שיבוץ חדש',
+  'conflicts.applyChanges': 'החלת השינויים',
+  'conflicts.resolveTitle': 'פתרון קונפליקט',
+  'conflicts.type': 'סוג',
+  'conflicts.severity': 'חומרה',
+  'conflicts.detected': 'זוהה',
+  'conflicts.resolutionNotes': 'הערות פתרון',
+  'conflicts.resolutionPlaceholder': 'תארו כיצד נפתר הקונפליקט...',
+  'conflicts.markResolved': 'סימון כנפתר',
+  'conflicts.resolvedToast': 'הקונפליקט נפתר',
+  'conflicts.resolvedToastDescription': 'הקונפליקט בשיבוץ סומן כנפתר.',
+  'conflicts.error': 'שגיאה',
+  'conflicts.resolveFailed': 'פתרון הקונפליקט נכשל. נסו שוב.',
+  'conflicts.noAutomaticFix': 'אין פתרון אוטומטי',
+  'conflicts.noAutomaticFixDescription': 'לא נמצא שינוי בטוח לקונפליקט זה. יש לפתור אותו ידנית.',
+  'conflicts.autoApplied': 'הפתרון האוטומטי הוחל',
+  'conflicts.autoAppliedDescription': 'הוחלו {count} שינויים בשיבוץ.',
+  'conflicts.autoFailed': 'הפתרון האוטומטי נכשל',
+  'conflicts.autoFailedStale': '{message}. טענו מחדש את הקונפליקטים ונסו שוב.',
+  'conflicts.autoFailedDescription': 'לא ניתן היה להחיל את השינויים המוצעים.',
+  'conflicts.types.OVERLAP': 'חפיפה',
+  'conflicts.types.REST_VIOLATION': 'הפרת מנוחה',
+  'conflicts.types.SKILL_MISMATCH': 'אי התאמת כישורים',
+  'conflicts.types.AVAILABILITY': 'זמינות',
+  'conflicts.types.UNDERSTAFFED': 'חוסר באיוש',
+  'conflicts.types.OVERSTAFFED': 'עודף באיוש',
+  'conflicts.types.CONSECUTIVE_HOURS': 'שעות רצופות',
+  'conflicts.severities.HIGH': 'גבוהה',
+  'conflicts.severities.MEDIUM': 'בינונית',
+  'conflicts.severities.LOW': 'נמוכה',
+
+  // Personnel
+  'personnel.title': 'ניהול כוח אדם',
+  'personnel.subtitle': 'ניהול אנשי היחידה ופרטיהם',
+  'personnel.add': 'הוספת איש צוות',
+  'personnel.editTitle': 'עריכת איש צוות',
+  'personnel.createTitle': 'הוספת איש צוות חדש',
+  'personnel.editDescription': 'עדכון פרטי איש הצוות',
+  'personnel.createDescription': 'הוספת אדם חדש ליחידה',
+  'personnel.firstName': 'שם פרטי',
+  'personnel.firstNamePlaceholder': 'שם פרטי',
+  'personnel.lastName': 'שם משפחה',
+  'personnel.lastNamePlaceholder': 'שם משפחה',
+  'personnel.email': 'אימייל',
+  'personnel.phone': 'טלפון',
+  'personnel.role': 'תפקיד',
+  'personnel.rank': 'דרגה',
+  'personnel.rankPlaceholder': 'לדוגמה: רב טוראי, סמל',
+  'personnel.unit': 'יחידה',
+  'personnel.unitPlaceholder': 'לדוגמה: פלוגה א׳',
+  'personnel.personalNumber': 'מספר אישי',
+  'personnel.personalNumberPlaceholder': 'מספר אישי צבאי',
+  'personnel.skills': 'כישורים',
+  'personnel.update': 'עדכון',
+  'personnel.create': 'יצירה',
+  'personnel.searchPlaceholder': 'חיפוש אנשי צוות...',
+  'personnel.allRoles': 'כל התפקידים',
+  'personnel.allUnits': 'כל היחידות',
+  'personnel.count': '{count} אנשי צוות',
+  'personnel.selected': '{count} נבחרו',
+  'personnel.bulkActions': 'פעולות מרובות:',
+  'personnel.toggleStatus': 'החלפת סטטוס',
+  'personnel.changeUnit': 'שינוי יחידה',
+  'personnel.directory': 'מדריך כוח אדם',
+  'personnel.directoryDescription': 'רשימה מלאה של אנשי היחידה',
+  'personnel.person': 'איש צוות',
+  'personnel.roleAndRank': 'תפקיד ודרגה',
+  'personnel.contact': 'יצירת קשר',
+  'personnel.status': 'סטטוס',
+  'personnel.actions': 'פעולות',
+  'personnel.active': 'פעיל',
+  'personnel.inactive': 'לא פעיל',
+  'personnel.viewDetails': 'הצגת פרטים',
+  'personnel.deactivate': 'השבתה',
+  'personnel.activate': 'הפעלה',
+  'personnel.contactInfo': 'פרטי התקשרות',
+  'personnel.militaryDetails': 'פרטים צבאיים',
+  'personnel.skillsAndQualifications': 'כישורים והכשרות',
+  'personnel.createdAt': 'נוצר: {date}',
+  'personnel.lastLogin': 'התחברות אחרונה: {date}',
+  'personnel.error': 'שגיאה',
+  'personnel.createFailed': 'יצירת המשתמש נכשלה',
+  'personnel.updateFailed': 'עדכון המשתמש נכשל',
+  'personnel.deleteFailed': 'מחיקת המשתמש נכשלה',
+  'personnel.statusFailed': 'שינוי סטטוס המשתמש נכשל',
+  'personnel.bulkStatusFailed': 'עדכון סטטוס אנשי הצוות נכשל',
+  'personnel.bulkUnitFailed': 'עדכון יחידת אנשי הצוות נכשל',
+  'personnel.bulkDeleteFailed': 'מחיקת אנשי הצוות נכשלה',
+  'personnel.bulkComplete': 'הפעולה המרובה הושלמה',
+  'personnel.bulkStatusDone': 'הסטטוס עודכן עבור {count} אנשי צוות.',
+  'personnel.bulkUnitDone': 'היחידה עודכנה עבור {count} אנשי צוות.',
+  'personnel.bulkDeleteDone': 'נמחקו {count} אנשי צוות.',
+
+  // Requests
+  'requests.title': 'בקשות יציאה ושינוי תורנות',
+  'requests.subtitle': 'הגשה וניהול של בקשות יציאה ושינויי תורנות',
+  'requests.error': 'שגיאה',
+  'requests.leaveSubmitFailed': 'הגשת בקשת היציאה נכשלה. נסו שוב.',
+  'requests.dutyChangeSubmitFailed': 'הגשת בקשת שינוי התורנות נכשלה. נסו שוב.',
+  'requests.reviewFailed': 'שמירת הבדיקה נכשלה. נסו שוב.',
+  'requests.approvalNotSavedOne': 'היציאה נחסמה ו-{count} תורנות סומנה לשיבוץ מחדש, אך האישור עצמו לא נשמר. אשרו את הבקשה שוב כדי לסיים.',
+  'requests.approvalNotSavedOther': 'היציאה נחסמה ו-{count} תורנויות סומנו לשיבוץ מחדש, אך האישור עצמו לא נשמר. אשרו את הבקשה שוב כדי לסיים.',
+  'requests.leaveNotBlockedOne': '{count} תורנות סומנה לשיבוץ מחדש, אך לא ניתן היה לחסום את היציאה והבקשה עדיין ממתינה. אשרו אותה שוב כדי לסיים.',
+  'requests.leaveNotBlockedOther': '{count} תורנויות סומנו לשיבוץ מחדש, אך לא ניתן היה לחסום את היציאה והבקשה עדיין ממתינה. אשרו אותה שוב כדי לסיים.',
+  'requests.leaveApproved': 'היציאה אושרה',
+  'requests.leaveApprovedFlaggedOne': '{count} תורנות חופפת סומנה לשיבוץ מחדש.',
+  'requests.leaveApprovedFlaggedOther': '{count} תורנויות חופפות סומנו לשיבוץ מחדש.',
+  'requests.offerFailed': 'הצעת המשמרת נכשלה. נסו שוב.',
+  'requests.cannotClaim': 'לא ניתן לקחת את המשמרת',
+  'requests.cannotClaimDescription': 'אינך זכאי עוד למשמרת זו.',
+  'requests.claimFailed': 'לקיחת המשמרת נכשלה. נסו שוב.',
+  'requests.swapNotApplied': 'ההחלפה לא בוצעה',
+  'requests.swapApproveFailed': 'אישור החלפת המשמרת נכשל.',
+  'requests.unknown': 'לא ידוע',
+  'requests.status.OPEN': 'פתוחה',
+  'requests.status.CLAIMED': 'ממתינה לאישור',
+  'requests.status.CANCELLED': 'בוטלה',
+  'requests.status.PENDING': 'ממתינה',
+  'requests.status.APPROVED': 'אושרה',
+  'requests.status.REJECTED': 'נדחתה',
+  'requests.requestLeave': 'בקשת יציאה',
+  'requests.requestLeaveDescription': 'הגשת בקשה לצאת הביתה',
+  'requests.startDate': 'תאריך התחלה',
+  'requests.endDate': 'תאריך סיום',
+  'requests.reason': 'סיבה',
+  'requests.leaveReasonPlaceholder': 'נא לציין את סיבת בקשת היציאה...',
+  'requests.submit': 'הגשת בקשה',
+  'requests.requestDutyChange': 'בקשת שינוי תורנות',
+  'requests.requestDutyChangeDescription': 'בקשה לשנות את התורנות שלך',
+  'requests.currentAssignment': 'שיבוץ נוכחי',
+  'requests.noUpcomingDuties': 'אין תורנויות קרובות',
+  'requests.selectCurrentAssignment': 'בחירת השיבוץ הנוכחי',
+  'requests.noAssignedDuties': 'לא נמצאו תורנויות משובצות קרובות',
+  'requests.today': 'היום',
+  'requests.tomorrow': 'מחר',
+  'requests.requestedDuty': 'תורנות מבוקשת',
+  'requests.selectPreferredDuty': 'בחירת תורנות מועדפת',
+  'requests.duration': 'משך: {hours} שעות',
+  'requests.dutyChangeReasonPlaceholder': 'נא לציין את סיבת בקשת שינוי התורנות...',
+  'requests.offerShift': 'הצעת משמרת',
+  'requests.offerShiftTitle': 'הצעת משמרת להחלפה',
+  'requests.offerShiftDescription': 'אפשרו לעמית זכאי לקחת אחת מהתורנויות שלך',
+  'requests.dutyToOffer': 'תורנות להצעה',
+  'requests.selectDuty': 'בחירת תורנות',
+  'requests.noDutiesToOffer': 'אין תורנויות קרובות להצעה',
+  'requests.reasonOptional': 'סיבה (אופציונלי)',
+  'requests.offerReasonPlaceholder': 'מדוע את/ה מציע/ה משמרת זו?',
+  'requests.claimShift': 'לקיחת משמרת',
+  'requests.claimFrom': '{duty} מאת {name}',
+  'requests.giveInReturn': 'תמורה',
+  'requests.nothingInReturn': 'ללא - לקיחת המשמרת ללא תמורה',
+  'requests.returnHint': 'מוצגות רק תורנויות ש-{name} זכאי/ת להן. ההחלפה תיכנס לתוקף לאחר אישור מפקד.',
+  'requests.review.approveLeave': 'אישור בקשת יציאה',
+  'requests.review.rejectLeave': 'דחיית בקשת יציאה',
+  'requests.review.approveDutyChange': 'אישור שינוי תורנות',
+  'requests.review.rejectDutyChange': 'דחיית שינוי תורנות',
+  'requests.reviewDescription': 'הערות הבדיקה נשמרות עם הבקשה ומוצגות למגיש/ה',
+  'requests.reviewNotesOptional': 'הערות בדיקה (אופציונלי)',
+  'requests.reviewNotesPlaceholder': 'הוספת הערה למגיש/ה...',
+  'requests.approve': 'אישור',
+  'requests.reject': 'דחייה',
+  'requests.tabMine': 'הבקשות שלי',
+  'requests.tabSwaps': 'החלפות משמרות',
+  'requests.tabPending': 'ממתינות לאישור',
+  'requests.myLeave': 'בקשות היציאה שלי',
+  'requests.myLeaveDescription': 'בקשות היציאה שהגשת',
+  'requests.noLeave': 'אין בקשות יציאה',
+  'requests.requestedAt': 'הוגשה: {time}',
+  'requests.reviewNotes': 'הערות בדיקה:',
+  'requests.myDutyChanges': 'בקשות שינוי התורנות שלי',
+  'requests.myDutyChangesDescription': 'בקשות שינוי התורנות שהגשת',
+  'requests.noDutyChanges': 'אין בקשות שינוי תורנות',
+  'requests.availableShifts': 'משמרות זמינות',
+  'requests.availableShiftsDescription': 'משמרות שהוצעו על ידי עמיתים ושאת/ה זכאי/ת לקחת',
+  'requests.noAvailableShifts': 'אין משמרות זמינות עבורך',
+  'requests.offeredBy': 'הוצעה על ידי {name}',
+  'requests.claim': 'לקיחה',
+  'requests.mySwaps': 'ההחלפות שלי',
+  'requests.mySwapsDescription': 'משמרות שהצעת או לקחת',
+  'requests.noSwaps': 'אין החלפות משמרות',
+  'requests.claimedBy': 'נלקחה על ידי {name}',
+  'requests.waitingForClaim': 'ממתינה שעמית ייקח אותה',
+  'requests.inExchangeFor': 'בתמורה ל: {duty}',
+  'requests.offeredAt': 'הוצעה: {time}',
+  'requests.withdrawOffer': 'ביטול ההצעה',
+  'requests.pendingLeave': 'בקשות יציאה ממתינות',
+  'requests.pendingLeaveDescription': 'בקשות יציאה הממתינות לאישור',
+  'requests.noPending': 'אין בקשות ממתינות',
+  'requests.pendingDutyChanges': 'שינויי תורנות ממתינים',
+  'requests.pendingDutyChangesDescription': 'בקשות שינוי תורנות הממתינות לאישור',
+  'requests.pendingSwaps': 'החלפות משמרות ממתינות',
+  'requests.pendingSwapsDescription': 'משמרות שנלקחו וממתינות לאישור',
+  'requests.noPendingSwaps': 'אין החלפות ממתינות',
+
+  // Audit log
+  'audit.subtitle': 'מי שינה מה, ומתי',
+  'audit.refresh': 'רענון',
+  'audit.error': 'שגיאה',
+  'audit.loadFailed': 'טעינת יומן הביקורת נכשלה.',
+  'audit.accessRestricted': 'הגישה מוגבלת',
+  'audit.noPermission': 'אין לך הרשאה לצפות ביומן הביקורת.',
+  'audit.disabled': 'רישום הביקורת כבוי בהגדרות, ולכן שינויים חדשים אינם נרשמים.',
+  'audit.search': 'חיפוש',
+  'audit.searchPlaceholder': 'תקציר, מזהה רשומה או אדם...',
+  'audit.action': 'פעולה',
+  'audit.allActions': 'כל הפעולות',
+  'audit.recordType': 'סוג רשומה',
+  'audit.allRecords': 'כל הרשומות',
+  'audit.performedBy': 'בוצע על ידי',
+  'audit.everyone': 'כולם',
+  'audit.from': 'מתאריך',
+  'audit.to': 'עד תאריך',
+  'audit.clearFilters': 'ניקוי מסננים',
+  'audit.activity': 'פעילות',
+  'audit.entryCount': '{shown} מתוך {total} רשומות',
+  'audit.noMatches': 'אין רשומות ביקורת התואמות את המסננים.',
+  'audit.time': 'זמן',
+  'audit.record': 'רשומה',
+  'audit.summary': 'תקציר',
+  'audit.details': 'פרטים',
+  'audit.showMore': 'הצג עוד',
+  'audit.by': 'על ידי',
+  'audit.entity': 'ישות',
+  'audit.id': 'מזהה',
+  'audit.noFieldChanges': 'לא נרשמו שינויים ברמת השדה.',
+  'audit.field': 'שדה',
+  'audit.before': 'לפני',
+  'audit.after': 'אחרי',
+  'audit.actionOn': '{action}: {record}',
+  'audit.actions.CREATE': 'יצירה',
+  'audit.actions.UPDATE': 'עדכון',
+  'audit.actions.DELETE': 'מחיקה',
+  'audit.actions.APPROVE': 'אישור',
+  'audit.actions.REJECT': 'דחייה',
+  'audit.actions.RESOLVE': 'פתרון',
+  'audit.actions.OVERRIDE': 'עקיפה',
+  'audit.actions.RESTORE': 'שחזור',
+  'audit.entities.SCHEDULE': 'שיבוץ',
+  'audit.entities.USER': 'משתמש',
+  'audit.entities.DUTY_TYPE': 'סוג תורנות',
+  'audit.entities.DUTY_TEMPLATE': 'סדרה חוזרת',
+  'audit.entities.AVAILABILITY': 'זמינות',
+  'audit.entities.LEAVE_REQUEST': 'בקשת חופשה',
+  'audit.entities.DUTY_CHANGE_REQUEST': 'בקשת שינוי תורנות',
+  'audit.entities.SHIFT_SWAP': 'החלפת משמרת',
+  'audit.entities.CONFLICT': 'התנגשות',
+  'audit.entities.CONSTRAINT': 'אילוץ',
+  'audit.entities.SETTINGS': 'הגדרות',
+  'audit.entities.BACKUP': 'גיבוי',
+
+  // Settings
+  'settings.title': 'הגדרות מערכת',
+  'settings.subtitle': 'הגדרת פרמטרים והעדפות של המערכת',
+  'settings.accessRestricted': 'הגישה מוגבלת',
+  'settings.noPermission': 'אין לך הרשאה לגשת להגדרות המערכת.',
+  'settings.accessDenied': 'הגישה נדחתה',
+  'settings.noModifyPermission': 'אין לך הרשאה לשנות את הגדרות המערכת.',
+  'settings.error': 'שגיאה',
+  'settings.saved': 'ההגדרות נשמרו',
+  'settings.savedDescription': 'הגדרות המערכת עודכנו בהצלחה.',
+  'settings.saveFailed': 'שמירת ההגדרות נכשלה. נסה שוב.',
+  'settings.resetFailed': 'איפוס ההגדרות נכשל. נסה שוב.',
+  'settings.imported': 'ההגדרות יובאו',
+  'settings.importedDescription': 'ההגדרות יובאו בהצלחה. אל תשכח לשמור.',
+  'settings.importError': 'שגיאת ייבוא',
+  'settings.invalidFile': 'פורמט קובץ ההגדרות אינו תקין.',
+  'settings.import': 'ייבוא',
+  'settings.export': 'ייצוא',
+  'settings.saveChanges': 'שמירת שינויים',
+  'settings.general': 'הגדרות כלליות',
+  'settings.generalDescription': 'תצורה בסיסית ומראה המערכת',
+  'settings.siteName': 'שם האתר',
+  'settings.timezone': 'אזור זמן',
+  'settings.theme': 'ערכת נושא',
+  'settings.themeLight': 'בהירה',
+  'settings.themeDark': 'כהה',
+  'settings.themeAuto': 'אוטומטית',
+  'settings.dateFormat': 'תבנית תאריך',
+  'settings.timeFormat': 'תבנית שעה',
+  'settings.time12h': '12 שעות (AM/PM)',
+  'settings.time24h': '24 שעות',
+  'settings.security': 'הגדרות אבטחה',
+  'settings.securityDescription': 'תצורת אימות ואבטחה',
+  'settings.sessionTimeout': 'זמן תפוגת התחברות (דקות)',
+  'settings.passwordMinLength': 'אורך סיסמה מינימלי',
+  'settings.maxLoginAttempts': 'מספר ניסיונות התחברות מרבי',
+  'settings.lockoutDuration': 'משך נעילה (דקות)',
+  'settings.twoFactor': 'אימות דו-שלבי',
+  'settings.twoFactorDescription': 'חיוב אימות דו-שלבי לכל המשתמשים',
+  'settings.auditLogging': 'יומן ביקורת',
+  'settings.auditLoggingDescription': 'תיעוד כל פעולות המשתמשים',
+  'settings.scheduling': 'הגדרות שיבוץ',
+  'settings.schedulingDescription': 'ערכי ברירת מחדל ומגבלות לשיבוץ תורנויות',
+  'settings.defaultDutyDuration': 'משך תורנות ברירת מחדל (שעות)',
+  'settings.minRestPeriod': 'זמן מנוחה מינימלי (שעות)',
+  'settings.maxConsecutiveHours': 'מספר שעות רצופות מרבי',
+  'settings.advancedSchedulingDays': 'שיבוץ מראש (ימים)',
+  'settings.dutyReminderHours': 'תזכורת לתורנות (שעות לפני)',
+  'settings.autoConflictDetection': 'זיהוי התנגשויות אוטומטי',
+  'settings.autoConflictDetectionDescription': 'זיהוי והתרעה אוטומטיים על התנגשויות בשיבוץ',
+  'settings.constraintRules': 'כללי אילוצים',
+  'settings.constraintRulesDescription': 'כללים הנבדקים מול כל שיבוץ מוצע. כללים נאכפים חוסמים שמירה אלא אם נעקפו.',
+  'settings.enforced': 'נאכף',
+  'settings.advisory': 'מייעץ',
+  'settings.lastOverridden': 'נעקף לאחרונה ב-{time} על ידי {user}: {reason}',
+  'settings.notifications': 'הגדרות התראות',
+  'settings.notificationsDescription': 'הגדרת העדפות התראות',
+  'settings.emailNotifications': 'התראות בדוא"ל',
+  'settings.emailNotificationsDescription': 'שליחת התראות בדוא"ל',
+  'settings.pushNotifications': 'התראות דחיפה',
+  'settings.pushNotificationsDescription': 'התראות דחיפה בדפדפן',
+  'settings.dutyAssignments': 'שיבוצי תורנויות',
+  'settings.dutyAssignmentsDescription': 'התראה כאשר משובצות תורנויות',
+  'settings.conflictAlerts': 'התרעות התנגשות',
+  'settings.conflictAlertsDescription': 'התראה כאשר מזוהות התנגשויות',
+  'settings.systemMaintenance': 'תחזוקת מערכת',
+  'settings.systemMaintenanceDescription': 'התראה על תחזוקת מערכת',
+  'settings.weeklyReports': 'דוחות שבועיים',
+  'settings.weeklyReportsDescription': 'שליחת דוחות סיכום שבועיים',
+  'settings.backup': 'גיבוי ותחזוקה',
+  'settings.backupDescription': 'הגדרות גיבוי ותחזוקה של המערכת',
+  'settings.backupFrequency': 'תדירות גיבוי',
+  'settings.daily': 'יומי',
+  'settings.weekly': 'שבועי',
+  'settings.monthly': 'חודשי',
+  'settings.retentionDays': 'תקופת שמירה (ימים)',
+  'settings.autoBackup': 'גיבוי אוטומטי',
+  'settings.autoBackupDescription': 'הפעלת גיבויים אוטומטיים מתוזמנים',
+  'settings.lastBackup': 'גיבוי אחרון',
+  'settings.never': 'אף פעם',
+  'settings.restore': 'שחזור',
+  'settings.backupNow': 'גיבוי עכשיו',
+  'settings.createBackupTitle': 'יצירת גיבוי מערכת',
+  'settings.createBackupDescription': 'פעולה זו תוריד גיבוי מלא של כוח האדם, סוגי התורנויות, השיבוצים, הזמינות, ההתנגשויות, הבקשות, ההתראות וההגדרות.',
+  'settings.createBackup': 'יצירת גיבוי',
+  'settings.backupComplete': 'הגיבוי הושלם',
+  'settings.backupCompleteDescription': 'גיבוי המערכת הורד בהצלחה.',
+  'settings.backupFailed': 'הגיבוי נכשל',
+  'settings.backupFailedDescription': 'יצירת הגיבוי נכשלה. נסה שוב.',
+  'settings.restoreError': 'שגיאת שחזור',
+  'settings.restoreCompareFailed': 'השוואת הגיבוי לנתונים הנוכחיים נכשלה.',
+  'settings.autoBackupFrom': 'גיבוי אוטומטי מ-{time}',
+  'settings.backupRestored': 'הגיבוי שוחזר',
+  'settings.backupRestoredDescription': 'כל הנתונים שוחזרו. טוען מחדש...',
+  'settings.restoreFailed': 'השחזור נכשל',
+  'settings.restoreFailedDescription': 'לא ניתן היה לשחזר את הגיבוי. הנתונים הקודמים נשמרו כגיבוי אוטומטי.',
+  'settings.unknownCreator': 'לא ידוע',
+  'settings.automaticBackups': 'גיבויים אוטומטיים',
+  'settings.noAutoBackups': 'עדיין לא נשמרו גיבויים אוטומטיים בדפדפן זה.',
+  'settings.backupContents': '{schedules} שיבוצים, {personnel} אנשי כוח אדם',
+  'settings.beforeRestore': 'לפני שחזור',
+  'settings.scheduled': 'מתוזמן',
+  'settings.download': 'הורדה',
+  'settings.restoreBackup': 'שחזור גיבוי',
+  'settings.cannotRestore': 'לא ניתן לשחזר גיבוי זה:',
+  'settings.backupCreated': 'נוצר ב-{time} על ידי {user} (גרסת פורמט {version})',
+  'settings.data': 'נתונים',
+  'settings.current': 'נוכחי',
+  'settings.inBackup': 'בגיבוי',
+  'settings.new': 'חדש',
+  'settings.overwritten': 'נדרס',
+  'settings.removed': 'הוסר',
+  'settings.restoreReplaces': 'כל הנתונים הנוכחיים יוחלפו בגיבוי.',
+  'settings.restoreReplacesWithSettings': 'כל הנתונים הנוכחיים יוחלפו בגיבוי, כולל הגדרות המערכת.',
+  'settings.restoreKeepsCurrent': 'הנתונים הנוכחיים נשמרים תחילה כגיבוי אוטומטי.',
+  'settings.restoring': 'משחזר...',
+  'settings.dangerZone': 'אזור מסוכן',
+  'settings.dangerZoneDescription': 'פעולות הרסניות שאינן הפיכות',
+  'settings.dangerZoneWarning': 'לא ניתן לבטל פעולות אלה. יש להמשיך בזהירות.',
+  'settings.resetAll': 'איפוס כל ההגדרות',
+  'settings.resetDescription': 'פעולה זו תאפס את כל הגדרות המערכת לערכי ברירת המחדל. לא ניתן לבטל פעולה זו.',
+  'settings.reset': 'איפוס הגדרות',
+  'settings.collections.users': 'כוח אדם',
+  'settings.collections.dutyTypes': 'סוגי תורנויות',
+  'settings.collections.schedules': 'שיבוצים',
+  'settings.collections.availability': 'זמינות',
+  'settings.collections.availabilityPatterns': 'תבניות זמינות',
+  'settings.collections.dutyTemplates': 'סדרות חוזרות',
+  'settings.collections.conflicts': 'התנגשויות',
+  'settings.collections.conflictResolutions': 'פתרונות התנגשויות',
+  'settings.collections.leaveRequests': 'בקשות חופשה',
+  'settings.collections.dutyChangeRequests': 'בקשות שינוי תורנות',
+  'settings.collections.shiftSwaps': 'החלפות משמרות',
+  'settings.collections.notifications': 'התראות',
+  'settings.collections.constraints': 'אילוצים',
+  'constraints.max-consecutive-hours.name': 'מקסימום שעות רצופות',
+  'constraints.max-consecutive-hours.description': 'תורנויות צמודות לא יחרגו ממגבלת שעות משותפת',
+  'constraints.max-consecutive-hours.maxHours': 'מקסימום שעות',
+  'constraints.max-consecutive-hours.gapHours': 'פער מרבי המחבר תורנויות (שעות)',
+  'constraints.min-rest.name': 'מנוחה מינימלית',
+  'constraints.min-rest.description': 'המנוחה אחרי כל תורנות חייבת לעמוד במינימום של סוג התורנות (ובסף הכללי)',
+  'constraints.min-rest.minRestHours': 'סף מנוחה כללי (שעות)',
+  'constraints.max-duties-per-week.name': 'מקסימום תורנויות בשבוע',
+  'constraints.max-duties-per-week.description': 'מגביל כמה תורנויות אדם יכול להתחיל בשבוע אחד (ראשון עד שבת)',
+  'constraints.max-duties-per-week.maxDuties': 'מקסימום תורנויות',
+  'constraints.no-weekend-doubles.name': 'ללא כפילויות בסוף שבוע',
+  'constraints.no-weekend-doubles.description': 'אדם לא אמור לבצע יותר מתורנות אחת באותו סוף שבוע',
+  'constraints.no-weekend-doubles.maxPerWeekend': 'מקסימום תורנויות בסוף שבוע',
+  'constraints.max-holidays-per-year.name': 'מקסימום חגים בשנה',
+  'constraints.max-holidays-per-year.description': 'מגביל כמה ימי חג (ויום העצמאות) אדם מבלה בתורנות בשנה עברית אחת',
+  'constraints.max-holidays-per-year.maxHolidays': 'מקסימום חגים',
+  'constraints.required-skill.name': 'כישורים נדרשים',
+  'constraints.required-skill.description': 'המשובצים חייבים להחזיק בכל כישור שסוג התורנות דורש',
+
+  // Recurring duties
+  'recurrence.daily': 'כל יום',
+  'recurrence.weekly': 'כל שבוע בימים {days}',
+  'recurrence.everyNDays': 'כל {interval} ימים',
+  'recurrence.title': 'תורנויות חוזרות',
+  'recurrence.description': 'הגדרת תורנות חוזרת, עם צוות אחד או יותר המתחלפים ביניהם, ויצירתה מראש',
+  'recurrence.existingSeries': 'סדרות קיימות',
+  'recurrence.at': 'בשעה {time}',
+  'recurrence.rotatingCrews': '{count} צוותים מתחלפים',
+  'recurrence.generatedThrough': 'נוצר עד {date}',
+  'recurrence.ends': 'מסתיים ב-{date}',
+  'recurrence.extend': 'הארכה ב-{count} שבועות',
+  'recurrence.seriesName': 'שם הסדרה',
+  'recurrence.seriesNamePlaceholder': 'לדוגמה: שמירה בשער הראשי',
+  'recurrence.firstDate': 'תאריך ראשון',
+  'recurrence.durationHours': 'משך (שעות)',
+  'recurrence.generateThrough': 'יצירה עד',
+  'recurrence.repeats': 'חזרה',
+  'recurrence.types.DAILY': 'יומי',
+  'recurrence.types.WEEKLY': 'שבועי בימים נבחרים',
+  'recurrence.types.EVERY_N_DAYS': 'כל N ימים',
+  'recurrence.intervalDays': 'מרווח (ימים)',
+  'recurrence.crews': 'צוותים',
+  'recurrence.crewsTakeTurns': '(מתחלפים בכל מופע)',
+  'recurrence.removeCrew': 'הסרת צוות',
+  'recurrence.addCrew': 'הוספת צוות',
+  'recurrence.crew': 'צוות {letter}',
+  'recurrence.summary': '{recurrence}: {count} מופעים עד {date}',
+  'recurrence.generating': 'יוצר...',
+  'recurrence.createSeries': 'יצירת סדרה',
+  'recurrence.generated': 'התורנות החוזרת נוצרה',
+  'recurrence.generatedDescription': 'נוצרו {count} שיבוצים עבור {name} עד {date}.',
+  'recurrence.error': 'שגיאה',
+  'recurrence.generateFailed': 'יצירת התורנויות החוזרות נכשלה. נסה שוב.',
+
+  // Availability
+  'availability.title': 'ניהול זמינות',
+  'availability.subtitle': 'ניהול זמינות כוח האדם וחופשות',
+  'availability.selectPersonnel': 'בחירת איש כוח אדם',
+  'availability.allPersonnel': 'כל כוח האדם',
+  'availability.add': 'הוספת זמינות',
+  'availability.edit': 'עריכת זמינות',
+  'availability.dialogDescription': 'הגדרת מצב זמינות לפרק זמן מסוים',
+  'availability.personnel': 'כוח אדם',
+  'availability.startDate': 'תאריך התחלה',
+  'availability.endDate': 'תאריך סיום',
+  'availability.startTimeOptional': 'שעת התחלה (לא חובה)',
+  'availability.endTimeOptional': 'שעת סיום (לא חובה)',
+  'availability.status': 'מצב',
+  'availability.statusOptions.AVAILABLE': 'זמין',
+  'availability.statusOptions.UNAVAILABLE': 'לא זמין',
+  'availability.statusOptions.LIMITED': 'זמינות מוגבלת',
+  'availability.statuses.AVAILABLE': 'זמין',
+  'availability.statuses.UNAVAILABLE': 'לא זמין',
+  'availability.statuses.LIMITED': 'מוגבל',
+  'availability.notes': 'הערות',
+  'availability.notesPlaceholder': 'הערות או סיבות נוספות...',
+  'availability.update': 'עדכון',
+  'availability.create': 'יצירה',
+  'availability.tabs.grid': 'טבלה שבועית',
+  'availability.tabs.records': 'רשומות',
+  'availability.tabs.patterns': 'תבניות חוזרות',
+  'availability.tabs.heatmap': 'מפת חום יחידתית',
+  'availability.newPattern': 'תבנית חוזרת חדשה',
+  'availability.newPatternDescription': 'חוזרת כל שבוע, למשל לא זמין בכל יום שישי',
+  'availability.days': 'ימים',
+  'availability.from': 'מ-',
+  'availability.until': 'עד',
+  'availability.endOfDay': 'סוף היום',
+  'availability.patternNotesPlaceholder': 'לדוגמה: לימודים באוניברסיטה',
+  'availability.addPattern': 'הוספת תבנית',
+  'availability.noPatterns': 'אין תבניות חוזרות',
+  'availability.patternAllDay': 'כל היום',
+  'availability.patternDescription': 'בכל {days}, {hours}',
+  'availability.error': 'שגיאה',
+  'availability.patternSaveFailed': 'שמירת התבנית החוזרת נכשלה. נסה שוב.',
+  'availability.lastUpdated': 'עודכן לאחרונה: {time}',
+  'availability.noRecords': 'אין רשומות זמינות',
+  'availability.noRecordsForPerson': 'לא נמצאו רשומות זמינות עבור אדם זה.',
+  'availability.noRecordsFound': 'לא נמצאו רשומות זמינות.',
+  'availability.grid.title': 'זמינות שבועית',
+  'availability.grid.editDescription': 'בחר מצב וגרור על פני השעות כדי לצבוע אותן. שעות מפוספסות מגיעות מתבניות חוזרות או מחסימות ארוכות יותר.',
+  'availability.grid.viewDescription': 'זמינות לפי שעה בשבוע הנבחר',
+  'availability.grid.clear': 'ניקוי',
+  'availability.grid.saving': 'שומר...',
+  'availability.grid.saveWeek': 'שמירת השבוע',
+  'availability.grid.noRecord': 'אין רשומה',
+  'availability.grid.saved': 'הזמינות נשמרה',
+  'availability.grid.savedDescription': 'השבוע של {date} עודכן.',
+  'availability.grid.saveFailed': 'שמירת הזמינות נכשלה. נסה שוב.',
+  'availability.heatmap.title': 'מפת חום של זמינות היחידה',
+  'availability.heatmap.description': 'כוח אדם זמין במלואו בכל יום, לפי יחידה',
+  'availability.heatmap.allUnits': 'כל היחידות',
+  'availability.heatmap.cellTitle': '{available} זמינים, {limited} מוגבלים, {unavailable} לא זמינים',
+  'availability.heatmap.below': 'מתחת ל-25%',
+
+  // Auto-schedule
+  'autoSchedule.title': 'שיבוץ אוטומטי',
+  'autoSchedule.description': 'יצירת טיוטת שיבוץ לפי כללי האיוש, הזמינות וזמני המנוחה',
+  'autoSchedule.from': 'מ-',
+  'autoSchedule.to': 'עד',
+  'autoSchedule.shiftStartHour': 'שעת תחילת משמרת',
+  'autoSchedule.dutyTypes': 'סוגי תורנויות (ללא בחירה = הכול)',
+  'autoSchedule.generate': 'יצירת טיוטה',
+  'autoSchedule.regenerate': 'יצירת טיוטה מחדש',
+  'autoSchedule.unfilled': 'לא ניתן היה לאייש במלואן {count} משבצות:',
+  'autoSchedule.missing': 'חסרים {count}',
+  'autoSchedule.andMore': 'ועוד {count}',
+  'autoSchedule.allFilled': 'כל המשבצות עומדות במספר המינימלי.',
+  'autoSchedule.proposed': 'שיבוצים מוצעים ({count})',
+  'autoSchedule.hoursPerPerson': 'שעות בטווח לכל אדם',
+  'autoSchedule.hoursShort': '{count} ש׳',
+  'autoSchedule.commit': 'אישור {count} שיבוצים',
+
+  // Reports
+  'reports.title': 'דוחות וניתוחים',
+  'reports.subtitle': 'ניתוח חלוקת תורנויות ועומס כוח אדם',
+  'reports.exportExcel': 'ייצוא ל-Excel',
+  'reports.exportPdf': 'ייצוא ל-PDF',
+  'reports.timePeriod': 'תקופת זמן',
+  'reports.periods.week': 'השבוע',
+  'reports.periods.month': 'החודש',
+  'reports.periods.quarter': 'הרבעון',
+  'reports.periods.year': 'השנה',
+  'reports.personnel': 'כוח אדם',
+  'reports.allPersonnel': 'כל כוח האדם',
+  'reports.unit': 'יחידה',
+  'reports.allUnits': 'כל היחידות',
+  'reports.dutiesInPeriod': '{count} תורנויות בתקופה הנבחרת',
+  'reports.totalDuties': 'סך התורנויות',
+  'reports.totalHours': 'סך השעות',
+  'reports.activePersonnel': 'כוח אדם פעיל',
+  'reports.avgHoursPerPerson': 'ממוצע שעות לאדם',
+  'reports.distribution': 'חלוקה לפי סוג תורנות',
+  'reports.distributionDescription': 'פירוט לפי סוגי תורנויות ושעות',
+  'reports.trend': 'מגמת תורנויות שבועית',
+  'reports.trendDescription': 'תורנויות ושעות ב-{count} השבועות האחרונים',
+  'reports.week': 'שבוע {number}',
+  'reports.duties': 'תורנויות',
+  'reports.hours': 'שעות',
+  'reports.hoursShort': '{count} ש׳',
+  'reports.workload': 'ניתוח עומס כוח אדם',
+  'reports.workloadDescription': 'חלוקת עומס אישית וסטטיסטיקות',
+  'reports.avgHoursPerDuty': 'ממוצע שעות לתורנות',
+  'reports.workloadDistribution': 'חלוקת עומס',
+  'reports.fairness': 'הוגנות בתורנויות',
+  'reports.fairnessDescription': 'עומס משוקלל לאדם: עדיפות גבוהה ×{priority}, לילות ×{night}, סופי שבוע וחגים ×{weekend}',
+  'reports.lastDays': '{count} הימים האחרונים',
+  'reports.burdenScore': 'ציון עומס',
+  'reports.nightHours': 'שעות לילה',
+  'reports.weekendHours': 'שעות סוף שבוע',
+  'reports.holidayHours': 'שעות חג',
+  'reports.highPriority': 'עדיפות גבוהה',
+  'reports.status': 'מצב',
+  'reports.overloaded': 'עומס יתר',
+  'reports.underloaded': 'עומס חסר',
+  'reports.withinRange': 'בטווח',
+  'reports.noPersonnel': 'אין כוח אדם התואם את המסננים הנוכחיים',
+  'reports.breakdown': 'פירוט סוגי תורנויות',
+  'reports.breakdownDescription': 'סטטיסטיקות מפורטות לכל סוג תורנות',
+  'reports.totalCount': 'כמות כוללת:',
+  'reports.totalHoursLabel': 'סך השעות:',
+  'reports.avgHours': 'ממוצע שעות:',
+  'reports.export.title': 'דוח תורנויות מילואים - צה״ל',
+  'reports.export.generated': 'הופק: {time}',
+  'reports.export.period': 'תקופה: {period}',
+  'reports.export.summary': 'סטטיסטיקה מסכמת',
+  'reports.export.dutyType': 'סוג תורנות',
+  'reports.export.count': 'כמות',
+  'reports.export.name': 'שם',
+  'reports.exported': 'הדוח יוצא',
+  'reports.excelExported': 'דוח ה-Excel הורד בהצלחה.',
+  'reports.pdfExported': 'דוח ה-PDF (בפורמט HTML) הורד בהצלחה.',
+  'reports.exportFailed': 'הייצוא נכשל',
+  'reports.exportFailedDescription': 'ייצוא הדוח נכשל. נסה שוב.',
+
+  // Profile
+  'profile.saved': 'הפרופיל עודכן',
+  'profile.savedDescription': 'הפרופיל שלך נשמר בהצלחה.',
+  'profile.error': 'שגיאה',
+  'profile.saveFailed': 'שמירת הפרופיל נכשלה. נסה שוב.',
+  'profile.passwordMismatch': 'הסיסמאות החדשות אינן תואמות.',
+  'profile.passwordTooShort': 'הסיסמה חייבת להכיל לפחות 8 תווים.',
+  'profile.passwordChanged': 'הסיסמה שונתה',
+  'profile.passwordChangedDescription': 'הסיסמה שלך עודכנה בהצלחה.',
+  'profile.passwordChangeFailed': 'שינוי הסיסמה נכשל. נסה שוב.',
+  'profile.avatarUpload': 'העלאת תמונת פרופיל',
+  'profile.avatarUploadDescription': 'העלאת תמונת פרופיל תתאפשר כאן בהמשך.',
+  'profile.saveChanges': 'שמור שינויים',
+  'profile.editProfile': 'ערוך פרופיל',
+  'profile.tabs.personal': 'אישי',
+  'profile.tabs.military': 'צבאי',
+  'profile.tabs.preferences': 'העדפות',
+  'profile.tabs.security': 'אבטחה',
+  'profile.personalTitle': 'פרטים אישיים',
+  'profile.personalDescription': 'פרטים אישיים בסיסיים ופרטי קשר',
+  'profile.firstName': 'שם פרטי',
+  'profile.lastName': 'שם משפחה',
+  'profile.email': 'כתובת דוא"ל',
+  'profile.phone': 'מספר טלפון',
+  'profile.emergencyContact': 'איש קשר לחירום',
+  'profile.birthDate': 'תאריך לידה',
+  'profile.address': 'כתובת',
+  'profile.addressPlaceholder': 'רחוב, עיר, מיקוד',
+  'profile.militaryTitle': 'פרטים צבאיים',
+  'profile.militaryDescription': 'פרטי שירות צבאי והכשרות',
+  'profile.personalNumber': 'מספר אישי',
+  'profile.rank': 'דרגה',
+  'profile.unit': 'יחידה',
+  'profile.enlistmentDate': 'תאריך גיוס',
+  'profile.specialization': 'התמחות',
+  'profile.specializationPlaceholder': 'לדוגמה: חי"ר, תקשוב, לוגיסטיקה',
+  'profile.clearanceLevel': 'סיווג ביטחוני',
+  'profile.clearance.STANDARD': 'רגיל',
+  'profile.clearance.CONFIDENTIAL': 'שמור',
+  'profile.clearance.SECRET': 'סודי',
+  'profile.clearance.TOP_SECRET': 'סודי ביותר',
+  'profile.skills': 'כישורים והכשרות',
+  'profile.preferencesTitle': 'העדפות',
+  'profile.preferencesDescription': 'העדפות יישום והגדרות פרטיות',
+  'profile.timezone': 'אזור זמן',
+  'profile.notificationPreferences': 'העדפות התראות',
+  'profile.emailNotifications': 'התראות בדוא"ל',
+  'profile.emailNotificationsDescription': 'קבלת התראות בדוא"ל',
+  'profile.smsNotifications': 'התראות SMS',
+  'profile.smsNotificationsDescription': 'קבלת התראות במסרון',
+  'profile.pushNotifications': 'התראות דחיפה',
+  'profile.pushNotificationsDescription': 'התראות דחיפה בדפדפן',
+  'profile.privacySettings': 'הגדרות פרטיות',
+  'profile.showProfile': 'הצג את הפרופיל לאחרים',
+  'profile.showProfileDescription': 'אפשר לאחרים לצפות בפרופיל שלך',
+  'profile.showSchedule': 'הצג לוח זמנים',
+  'profile.showScheduleDescription': 'אפשר לאחרים לצפות בלוח הזמנים שלך',
+  'profile.showContact': 'הצג פרטי קשר',
+  'profile.showContactDescription': 'אפשר לאחרים לצפות בפרטי הקשר שלך',
+  'profile.securityTitle': 'הגדרות אבטחה',
+  'profile.securityDescription': 'אבטחת החשבון וניהול גישה',
+  'profile.password': 'סיסמה',
+  'profile.lastChanged': 'שונתה לאחרונה: {date}',
+  'profile.changePassword': 'שנה סיסמה',
+  'profile.changePasswordDescription': 'הזן את הסיסמה הנוכחית ובחר סיסמה חדשה.',
+  'profile.currentPassword': 'סיסמה נוכחית',
+  'profile.newPassword': 'סיסמה חדשה',
+  'profile.confirmPassword': 'אימות סיסמה חדשה',
+  'profile.twoFactor': 'אימות דו-שלבי',
+  'profile.enabled': 'מופעל',
+  'profile.disabled': 'כבוי',
+  'profile.enableTwoFactor': 'הפעל אימות דו-שלבי',
+  'profile.disableTwoFactor': 'כבה אימות דו-שלבי',
+  'profile.sessionHistory': 'היסטוריית התחברויות',
+  'profile.sessionHistoryDescription': 'פעילות התחברות אחרונה',
+  'profile.successfulLogin': 'התחברות מוצלחת',
+
+  // Preferences
+  'preferences.language': 'שפה',
+};
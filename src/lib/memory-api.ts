@@ -0,0 +1,542 @@
+import { User, DutyType, Schedule, Availability, DashboardStats, Conflict, ConflictResolution, ShiftSwap, LeaveRequest, DutyChangeRequest, RequestStatus, AvailabilityPattern, DutyTemplate, OperationalData, AuditAction, AuditEntityType, AuditEntry, AuditSnapshots, Constraint, ConstraintOverride, DataProvider, ScheduleChange, ScheduleQuery, UserChange } from '@/types';
+import { getScheduleFingerprint } from './conflict-ids';
+import { applyResolutionHistory, findScheduleConflicts } from './conflict-detection';
+import { shiftSwapService } from './shift-swaps';
+import { expandAvailabilityPatterns } from './availability';
+import { auditService, describeUserUpdate, MAX_LOCAL_AUDIT_ENTRIES } from './audit';
+import { assertScheduleVersion, stampScheduleChange } from './schedule-versions';
+import { matchesScheduleQuery } from './schedule-queries';
+
+const EMPTY_DATA: OperationalData = {
+  users: [],
+  dutyTypes: [],
+  schedules: [],
+  availability: [],
+  availabilityPatterns: [],
+  dutyTemplates: [],
+  conflicts: [],
+  conflictResolutions: [],
+  leaveRequests: [],
+  dutyChangeRequests: [],
+  shiftSwaps: [],
+};
+
+// Keeps every record in memory and persists nothing; for tests and demos that must not touch
+// browser storage or the network. Seed it with whatever records the scenario needs.
+class MemoryApiService implements DataProvider {
+  private data: OperationalData;
+  private auditLog: AuditEntry[] = [];
+  private constraints: Constraint[] = [];
+  private constraintOverrides: ConstraintOverride[] = [];
+  private sequence = 0;
+
+  constructor(seed: Partial<OperationalData> = {}) {
+    this.data = this.copy({ ...EMPTY_DATA, ...seed });
+  }
+
+  // Callers get copies, so mutating a returned record never changes the store behind their back
+  private copy<T>(value: T): T {
+    return JSON.parse(JSON.stringify(value));
+  }
+
+  private nextId(prefix: string): string {
+    this.sequence += 1;
+    return `${prefix}-${this.sequence}`;
+  }
+
+  private updateRecord<T extends { id: string }>(records: T[], id: string, updates: Partial<T>, notFound: string) {
+    const index = records.findIndex(r => r.id === id);
+    if (index === -1) {
+      throw new Error(notFound);
+    }
+
+    const before = records[index];
+    records[index] = { ...before, ...updates, id };
+    return { before, after: records[index] };
+  }
+
+  private updateScheduleRecord({ scheduleId, updates, expectedVersion }: ScheduleChange) {
+    const current = this.data.schedules.find(s => s.id === scheduleId);
+    if (current) {
+      assertScheduleVersion(current, expectedVersion);
+    }
+    return this.updateRecord(this.data.schedules, scheduleId, { ...updates, ...(current && stampScheduleChange(current)) }, 'Schedule not found');
+  }
+
+  async fetchUsers(): Promise<User[]> {
+    return this.copy(this.data.users);
+  }
+
+  async createUser(userData: Omit<User, 'id'>): Promise<User> {
+    const existingUser = this.data.users.find(user =>
+      user.email === userData.email || (userData.serviceNumber && user.serviceNumber === userData.serviceNumber)
+    );
+    if (existingUser) {
+      throw new Error(existingUser.email === userData.email
+        ? 'משתמש עם אימייל זה כבר קיים במערכת'
+        : 'משתמש עם מספר אישי זה כבר קיים במערכת');
+    }
+
+    const newUser: User = { ...userData, id: this.nextId('user') };
+    this.data.users.push(newUser);
+    await this.recordAudit('CREATE', 'USER', newUser.id, `Created user ${newUser.firstName} ${newUser.lastName}`, { after: newUser });
+    return this.copy(newUser);
+  }
+
+  async updateUser(userId: string, updates: Partial<User>): Promise<User> {
+    const [updatedUser] = await this.updateUsers([{ userId, updates }]);
+    if (!updatedUser) {
+      throw new Error('User not found');
+    }
+    return updatedUser;
+  }
+
+  async updateUsers(changes: UserChange[]): Promise<User[]> {
+    const updated: User[] = [];
+    const auditEntries: (AuditEntry | null)[] = [];
+
+    changes
+      .filter(({ userId }) => this.data.users.some(u => u.id === userId))
+      .forEach(({ userId, updates }) => {
+        const { before, after } = this.updateRecord(this.data.users, userId, updates, 'User not found');
+        updated.push(after);
+        auditEntries.push(auditService.createEntry('UPDATE', 'USER', userId, describeUserUpdate(before, updates), { before, after }));
+      });
+
+    this.appendAuditEntries(auditEntries);
+    return this.copy(updated);
+  }
+
+  async deleteUsers(userIds: string[]): Promise<void> {
+    const deleted = this.data.users.filter(u => userIds.includes(u.id));
+    this.data.users = this.data.users.filter(u => !userIds.includes(u.id));
+    this.appendAuditEntries(deleted.map(user =>
+      auditService.createEntry('DELETE', 'USER', user.id, `Deleted user ${user.firstName} ${user.lastName}`, { before: user })
+    ));
+  }
+
+  async authenticateUser(email: string, password: string): Promise<User | null> {
+    const user = this.data.users.find(u => u.email === email && u.password === password);
+    return user ? this.copy(user) : null;
+  }
+
+  async fetchDutyTypes(): Promise<DutyType[]> {
+    return this.copy(this.data.dutyTypes);
+  }
+
+  async saveDutyType(dutyType: Omit<DutyType, 'id'>): Promise<DutyType> {
+    const newDutyType: DutyType = { ...dutyType, id: this.nextId('duty-type') };
+    this.data.dutyTypes.push(newDutyType);
+    await this.recordAudit('CREATE', 'DUTY_TYPE', newDutyType.id, `Created duty type "${newDutyType.name}"`, { after: newDutyType });
+    return this.copy(newDutyType);
+  }
+
+  async updateDutyType(dutyTypeId: string, updates: Partial<DutyType>): Promise<DutyType> {
+    const { before, after } = this.updateRecord(this.data.dutyTypes, dutyTypeId, updates, 'Duty type not found');
+    await this.recordAudit('UPDATE', 'DUTY_TYPE', dutyTypeId, `Updated duty type "${before.name}"`, { before, after });
+    return this.copy(after);
+  }
+
+  async deleteDutyType(dutyTypeId: string): Promise<void> {
+    const before = this.data.dutyTypes.find(dt => dt.id === dutyTypeId);
+    this.data.dutyTypes = this.data.dutyTypes.filter(dt => dt.id !== dutyTypeId);
+    await this.recordAudit('DELETE', 'DUTY_TYPE', dutyTypeId, `Deleted duty type${before ? ` "${before.name}"` : ''}`, { before });
+  }
+
+  async fetchSchedules(): Promise<Schedule[]> {
+    return this.copy(this.data.schedules);
+  }
+
+  async querySchedules(query: ScheduleQuery): Promise<Schedule[]> {
+    return this.copy(this.data.schedules.filter(s => matchesScheduleQuery(s, query)));
+  }
+
+  async saveSchedule(schedule: Omit<Schedule, 'id'>): Promise<Schedule> {
+    const [newSchedule] = await this.saveSchedules([schedule]);
+    return newSchedule;
+  }
+
+  async saveSchedules(schedules: Omit<Schedule, 'id'>[]): Promise<Schedule[]> {
+    const newSchedules: Schedule[] = schedules.map(schedule => ({ ...schedule, id: this.nextId('sch') }));
+    this.data.schedules.push(...newSchedules);
+    this.appendAuditEntries(newSchedules.map(schedule =>
+      auditService.createEntry('CREATE', 'SCHEDULE', schedule.id, 'Created schedule', { after: schedule })
+    ));
+    return this.copy(newSchedules);
+  }
+
+  async updateSchedule(scheduleId: string, updates: Partial<Schedule>, expectedVersion?: number): Promise<Schedule> {
+    const { before, after } = this.updateScheduleRecord({ scheduleId, updates, expectedVersion });
+    await this.recordAudit('UPDATE', 'SCHEDULE', scheduleId, 'Updated schedule', { before, after });
+    return this.copy(after);
+  }
+
+  async updateSchedules(changes: ScheduleChange[]): Promise<Schedule[]> {
+    const updated: Schedule[] = [];
+    const auditEntries: (AuditEntry | null)[] = [];
+
+    // Every precondition is checked before anything changes, so a stale batch leaves no partial edit
+    changes.forEach(({ scheduleId, expectedVersion }) => {
+      const current = this.data.schedules.find(s => s.id === scheduleId);
+      if (!current) {
+        throw new Error('Schedule not found');
+      }
+      assertScheduleVersion(current, expectedVersion);
+    });
+
+    for (const change of changes) {
+      const { before, after } = this.updateScheduleRecord(change);
+      updated.push(after);
+      auditEntries.push(auditService.createEntry('UPDATE', 'SCHEDULE', change.scheduleId, 'Updated schedule', { before, after }));
+    }
+
+    this.appendAuditEntries(auditEntries);
+    return this.copy(updated);
+  }
+
+  async deleteSchedule(scheduleId: string): Promise<void> {
+    await this.deleteSchedules([scheduleId]);
+  }
+
+  async deleteSchedules(scheduleIds: string[]): Promise<void> {
+    const deleted = this.data.schedules.filter(s => scheduleIds.includes(s.id));
+    this.data.schedules = this.data.schedules.filter(s => !scheduleIds.includes(s.id));
+    this.appendAuditEntries(deleted.map(schedule =>
+      auditService.createEntry('DELETE', 'SCHEDULE', schedule.id, 'Deleted schedule', { before: schedule })
+    ));
+  }
+
+  async fetchDutyTemplates(): Promise<DutyTemplate[]> {
+    return this.copy(this.data.dutyTemplates);
+  }
+
+  async saveDutyTemplate(template: Omit<DutyTemplate, 'id'>): Promise<DutyTemplate> {
+    const newTemplate: DutyTemplate = { ...template, id: this.nextId('series') };
+    this.data.dutyTemplates.push(newTemplate);
+    await this.recordAudit('CREATE', 'DUTY_TEMPLATE', newTemplate.id, `Created recurring series "${newTemplate.name}"`, { after: newTemplate });
+    return this.copy(newTemplate);
+  }
+
+  async updateDutyTemplate(templateId: string, updates: Partial<DutyTemplate>): Promise<DutyTemplate> {
+    const { before, after } = this.updateRecord(this.data.dutyTemplates, templateId, updates, 'Duty template not found');
+    await this.recordAudit('UPDATE', 'DUTY_TEMPLATE', templateId, `Updated recurring series "${before.name}"`, { before, after });
+    return this.copy(after);
+  }
+
+  async deleteDutyTemplate(templateId: string): Promise<void> {
+    const before = this.data.dutyTemplates.find(t => t.id === templateId);
+    this.data.dutyTemplates = this.data.dutyTemplates.filter(t => t.id !== templateId);
+    await this.recordAudit('DELETE', 'DUTY_TEMPLATE', templateId, `Deleted recurring series${before ? ` "${before.name}"` : ''}`, { before });
+  }
+
+  async fetchAvailability(): Promise<Availability[]> {
+    return this.copy([...this.data.availability, ...expandAvailabilityPatterns(this.data.availabilityPatterns)]);
+  }
+
+  async saveAvailability(availability: Omit<Availability, 'id'>): Promise<Availability> {
+    const newAvailability: Availability = { ...availability, id: this.nextId('avail') };
+    this.data.availability.push(newAvailability);
+    await this.recordAudit('CREATE', 'AVAILABILITY', newAvailability.id, `Set ${newAvailability.status.toLowerCase()} availability`, { after: newAvailability });
+    return this.copy(newAvailability);
+  }
+
+  async updateAvailability(availabilityId: string, updates: Partial<Availability>): Promise<Availability> {
+    const { before, after } = this.updateRecord(
+      this.data.availability,
+      availabilityId,
+      { ...updates, updatedAt: new Date().toISOString() },
+      'Availability not found'
+    );
+    await this.recordAudit('UPDATE', 'AVAILABILITY', availabilityId, 'Updated availability', { before, after });
+    return this.copy(after);
+  }
+
+  async deleteAvailability(availabilityId: string): Promise<void> {
+    const before = this.data.availability.find(a => a.id === availabilityId);
+    this.data.availability = this.data.availability.filter(a => a.id !== availabilityId);
+    await this.recordAudit('DELETE', 'AVAILABILITY', availabilityId, 'Deleted availability', { before });
+  }
+
+  // Swap out a person's records that sit entirely inside the range, as saved from the weekly grid
+  async replaceAvailabilityInRange(
+    userId: string,
+    rangeStart: string,
+    rangeEnd: string,
+    records: Omit<Availability, 'id'>[]
+  ): Promise<Availability[]> {
+    const start = new Date(rangeStart).getTime();
+    const end = new Date(rangeEnd).getTime();
+    const isReplaced = (a: Availability) =>
+      a.userId === userId &&
+      !a.patternId &&
+      new Date(a.startTime).getTime() >= start &&
+      new Date(a.endTime).getTime() <= end;
+
+    const removed = this.data.availability.filter(isReplaced);
+    const added: Availability[] = records.map(record => ({ ...record, id: this.nextId('avail') }));
+    this.data.availability = [...this.data.availability.filter(a => !isReplaced(a)), ...added];
+
+    await this.recordAudit('UPDATE', 'AVAILABILITY', userId, 'Replaced weekly availability', {
+      before: { records: removed },
+      after: { records: added },
+    });
+    return this.copy(added);
+  }
+
+  async fetchAvailabilityPatterns(): Promise<AvailabilityPattern[]> {
+    return this.copy(this.data.availabilityPatterns);
+  }
+
+  async saveAvailabilityPattern(pattern: Omit<AvailabilityPattern, 'id'>): Promise<AvailabilityPattern> {
+    const newPattern: AvailabilityPattern = { ...pattern, id: this.nextId('pattern') };
+    this.data.availabilityPatterns.push(newPattern);
+    await this.recordAudit('CREATE', 'AVAILABILITY', newPattern.id, 'Created recurring availability pattern', { after: newPattern });
+    return this.copy(newPattern);
+  }
+
+  async deleteAvailabilityPattern(patternId: string): Promise<void> {
+    const before = this.data.availabilityPatterns.find(p => p.id === patternId);
+    this.data.availabilityPatterns = this.data.availabilityPatterns.filter(p => p.id !== patternId);
+    await this.recordAudit('DELETE', 'AVAILABILITY', patternId, 'Deleted recurring availability pattern', { before });
+  }
+
+  async getDashboardStats(): Promise<DashboardStats> {
+    const now = new Date();
+    const { users } = this.data;
+    // Every figure is about duties running now or still to come, so past ones aren't read
+    const schedules = await this.querySchedules({ from: now.toISOString() });
+    const activeSchedules = schedules.filter(s =>
+      new Date(s.startTime) <= now && new Date(s.endTime) >= now
+    );
+
+    return {
+      totalPersonnel: users.filter(u => u.isActive).length,
+      availablePersonnel: users.filter(u => u.isActive && !activeSchedules.some(s => s.userId === u.id)).length,
+      activeSchedules: activeSchedules.length,
+      pendingRequests: schedules.filter(s => s.status === 'REQUESTED').length,
+      conflicts: 0, // Will be calculated by conflict detection
+      upcomingDuties: schedules.filter(s =>
+        new Date(s.startTime) > now &&
+        new Date(s.startTime) <= new Date(now.getTime() + 24 * 60 * 60 * 1000)
+      ).length,
+    };
+  }
+
+  async detectConflicts(schedules: Schedule[]): Promise<Conflict[]> {
+    const conflicts = applyResolutionHistory(
+      findScheduleConflicts(schedules, this.data.users, this.data.dutyTypes, await this.fetchAvailability()),
+      this.data.conflicts,
+      this.data.conflictResolutions,
+      schedules
+    );
+    this.data.conflicts = conflicts;
+    return this.copy(conflicts);
+  }
+
+  async fetchConflictResolutions(): Promise<ConflictResolution[]> {
+    return this.copy(this.data.conflictResolutions);
+  }
+
+  async resolveConflict(
+    conflict: Conflict,
+    resolvedBy: string,
+    resolution: string,
+    schedules: Schedule[]
+  ): Promise<ConflictResolution> {
+    const record: ConflictResolution = {
+      id: this.nextId('resolution'),
+      conflictId: conflict.id,
+      conflict,
+      resolvedAt: new Date().toISOString(),
+      resolvedBy,
+      resolution,
+      scheduleFingerprint: getScheduleFingerprint(conflict.affectedSchedules, schedules),
+    };
+
+    this.data.conflictResolutions.unshift(record);
+    await this.recordAudit('RESOLVE', 'CONFLICT', conflict.id, resolution, { before: conflict, after: record });
+    return this.copy(record);
+  }
+
+  async fetchLeaveRequests(): Promise<LeaveRequest[]> {
+    return this.copy(this.data.leaveRequests);
+  }
+
+  async createLeaveRequest(request: Omit<LeaveRequest, 'id'>): Promise<LeaveRequest> {
+    const newRequest: LeaveRequest = { ...request, id: this.nextId('leave') };
+    this.data.leaveRequests.push(newRequest);
+    await this.recordAudit('CREATE', 'LEAVE_REQUEST', newRequest.id, 'Submitted leave request', { after: newRequest });
+    return this.copy(newRequest);
+  }
+
+  async reviewLeaveRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<LeaveRequest> {
+    const { before, after } = this.updateRecord(
+      this.data.leaveRequests,
+      requestId,
+      { status, reviewedBy, reviewedAt: new Date().toISOString(), reviewNotes },
+      'Leave request not found'
+    );
+    await this.recordAudit(
+      status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+      'LEAVE_REQUEST',
+      requestId,
+      `${status === 'APPROVED' ? 'Approved' : 'Rejected'} leave request${reviewNotes ? `: ${reviewNotes}` : ''}`,
+      { before, after }
+    );
+    return this.copy(after);
+  }
+
+  async fetchDutyChangeRequests(): Promise<DutyChangeRequest[]> {
+    return this.copy(this.data.dutyChangeRequests);
+  }
+
+  async createDutyChangeRequest(request: Omit<DutyChangeRequest, 'id'>): Promise<DutyChangeRequest> {
+    const newRequest: DutyChangeRequest = { ...request, id: this.nextId('duty-change') };
+    this.data.dutyChangeRequests.push(newRequest);
+    await this.recordAudit('CREATE', 'DUTY_CHANGE_REQUEST', newRequest.id, 'Submitted duty change request', { after: newRequest });
+    return this.copy(newRequest);
+  }
+
+  async reviewDutyChangeRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<DutyChangeRequest> {
+    const { before, after } = this.updateRecord(
+      this.data.dutyChangeRequests,
+      requestId,
+      { status, reviewedBy, reviewedAt: new Date().toISOString(), reviewNotes },
+      'Duty change request not found'
+    );
+    await this.recordAudit(
+      status === 'APPROVED' ? 'APPROVE' : 'REJECT',
+      'DUTY_CHANGE_REQUEST',
+      requestId,
+      `${status === 'APPROVED' ? 'Approved' : 'Rejected'} duty change request${reviewNotes ? `: ${reviewNotes}` : ''}`,
+      { before, after }
+    );
+    return this.copy(after);
+  }
+
+  async fetchShiftSwaps(): Promise<ShiftSwap[]> {
+    return this.copy(this.data.shiftSwaps);
+  }
+
+  async createShiftSwap(swap: Omit<ShiftSwap, 'id'>): Promise<ShiftSwap> {
+    const newSwap: ShiftSwap = { ...swap, id: this.nextId('swap') };
+    this.data.shiftSwaps.unshift(newSwap);
+    await this.recordAudit('CREATE', 'SHIFT_SWAP', newSwap.id, 'Offered duty for swap', { after: newSwap });
+    return this.copy(newSwap);
+  }
+
+  async updateShiftSwap(swapId: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap> {
+    const { before, after } = this.updateRecord(this.data.shiftSwaps, swapId, updates, 'Shift swap not found');
+    await this.recordAudit(
+      after.status === 'REJECTED' && before.status !== 'REJECTED' ? 'REJECT' : 'UPDATE',
+      'SHIFT_SWAP',
+      swapId,
+      `Shift swap ${after.status.toLowerCase()}`,
+      { before, after }
+    );
+    return this.copy(after);
+  }
+
+  async approveShiftSwap(swap: ShiftSwap, reviewedBy: string, reviewNotes?: string): Promise<ShiftSwap> {
+    if (!swap.claimedBy) {
+      throw new Error('Shift swap has not been claimed');
+    }
+    const stored = this.data.shiftSwaps.find(s => s.id === swap.id);
+    if (!shiftSwapService.isAwaitingApproval(stored, swap)) {
+      throw new Error('This shift swap is no longer awaiting approval');
+    }
+    if (shiftSwapService.isStale(stored, this.data.schedules)) {
+      throw new Error('One of the swapped duties has changed since the swap was claimed');
+    }
+
+    const reassignments = [
+      { scheduleId: swap.scheduleId, userId: swap.claimedBy },
+      ...(swap.returnScheduleId ? [{ scheduleId: swap.returnScheduleId, userId: swap.offeredBy }] : []),
+    ];
+    if (reassignments.some(({ scheduleId }) => !this.data.schedules.some(s => s.id === scheduleId))) {
+      throw new Error('Schedule not found');
+    }
+
+    reassignments.forEach(({ scheduleId, userId }) => {
+      this.updateScheduleRecord({ scheduleId, updates: { userId } });
+    });
+
+    const approvedSwap: ShiftSwap = {
+      ...stored,
+      status: 'APPROVED',
+      reviewedBy,
+      reviewedAt: new Date().toISOString(),
+      reviewNotes,
+    };
+    this.data.shiftSwaps = this.data.shiftSwaps.map(s => s.id === swap.id ? approvedSwap : s);
+
+    await this.recordAudit('APPROVE', 'SHIFT_SWAP', swap.id, `Approved shift swap${reviewNotes ? `: ${reviewNotes}` : ''}`, {
+      before: stored,
+      after: approvedSwap,
+    });
+    return this.copy(approvedSwap);
+  }
+
+  async fetchConstraints(): Promise<Constraint[]> {
+    return this.copy(this.constraints);
+  }
+
+  async saveConstraints(constraints: Constraint[]): Promise<void> {
+    this.constraints = this.copy(constraints);
+  }
+
+  async fetchConstraintOverrides(): Promise<ConstraintOverride[]> {
+    return this.copy(this.constraintOverrides);
+  }
+
+  async addConstraintOverrides(overrides: ConstraintOverride[]): Promise<void> {
+    this.constraintOverrides = [...this.copy(overrides), ...this.constraintOverrides];
+  }
+
+  async fetchAuditLog(): Promise<AuditEntry[]> {
+    return this.copy(this.auditLog);
+  }
+
+  async recordAudit(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    summary: string,
+    snapshots?: AuditSnapshots
+  ): Promise<void> {
+    this.appendAuditEntries([auditService.createEntry(action, entityType, entityId, summary, snapshots)]);
+  }
+
+  private appendAuditEntries(entries: (AuditEntry | null)[]) {
+    const recorded = entries.filter((e): e is AuditEntry => !!e);
+    this.auditLog = [...recorded.reverse(), ...this.auditLog].slice(0, MAX_LOCAL_AUDIT_ENTRIES);
+  }
+
+  async exportData(): Promise<OperationalData> {
+    return this.copy(this.data);
+  }
+
+  async restoreData(data: OperationalData): Promise<void> {
+    const currentDutyTypes = this.data.dutyTypes;
+    this.data = this.copy({ ...EMPTY_DATA, ...data });
+
+    if (JSON.stringify(currentDutyTypes) !== JSON.stringify(data.dutyTypes)) {
+      await this.recordAudit('RESTORE', 'DUTY_TYPE', 'all', 'Duty types replaced from backup', {
+        before: { dutyTypes: currentDutyTypes },
+        after: { dutyTypes: data.dutyTypes },
+      });
+    }
+  }
+}
+
+export { MemoryApiService };
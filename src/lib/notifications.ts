@@ -1,9 +1,11 @@
 import React from 'react';
 import { User, Schedule, DutyType } from '@/types';
+import { localDb } from './local-db';
+import { getDutyTypeName, resolveLanguage, translate } from './i18n';
 
 export interface Notification {
   id: string;
-  type: 'duty_assigned' | 'duty_changed' | 'duty_cancelled' | 'conflict_detected' | 'reminder' | 'system';
+  type: 'duty_assigned' | 'duty_changed' | 'duty_cancelled' | 'conflict_detected' | 'reminder' | 'system' | 'shift_swap';
   title: string;
   message: string;
   userId: string;
@@ -21,24 +23,21 @@ class NotificationService {
     this.loadNotifications();
   }
 
-  private loadNotifications() {
+  private async loadNotifications() {
     try {
-      const stored = localStorage.getItem('idf_notifications');
-      if (stored) {
-        this.notifications = JSON.parse(stored);
-      }
+      const stored = await localDb.getAll('notifications');
+      this.notifications = stored.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+      this.notifySubscribers();
     } catch (error) {
       console.error('Error loading notifications:', error);
     }
   }
 
   private saveNotifications() {
-    try {
-      localStorage.setItem('idf_notifications', JSON.stringify(this.notifications));
-      this.notifySubscribers();
-    } catch (error) {
+    this.notifySubscribers();
+    localDb.replaceAll('notifications', this.notifications).catch(error => {
       console.error('Error saving notifications:', error);
-    }
+    });
   }
 
   private notifySubscribers() {
@@ -131,18 +130,31 @@ class NotificationService {
     return this.notifications.filter(n => n.userId === userId || n.userId === 'all');
   }
 
+  getAllNotifications(): Notification[] {
+    return [...this.notifications];
+  }
+
+  replaceAllNotifications(notifications: Notification[]) {
+    this.notifications = [...notifications];
+    this.saveNotifications();
+  }
+
   getUnreadCount(userId: string): number {
     return this.notifications.filter(n => 
       (n.userId === userId || n.userId === 'all') && !n.read
     ).length;
   }
 
-  // Utility methods for creating specific notification types
+  // Utility methods for creating specific notification types, written in the recipient's language
   notifyDutyAssigned(user: User, schedule: Schedule, dutyType: DutyType, assignedBy: string) {
+    const language = resolveLanguage(user.id);
     return this.createNotification(
       'duty_assigned',
-      'New Duty Assignment',
-      `You have been assigned to ${dutyType.name} on ${new Date(schedule.startTime).toLocaleDateString()}`,
+      translate(language, 'notifications.dutyAssigned.title'),
+      translate(language, 'notifications.dutyAssigned.message', {
+        duty: getDutyTypeName(dutyType, language),
+        date: new Date(schedule.startTime).toLocaleDateString(),
+      }),
       user.id,
       'medium',
       { schedule, dutyType, assignedBy }
@@ -150,10 +162,14 @@ class NotificationService {
   }
 
   notifyDutyChanged(user: User, schedule: Schedule, dutyType: DutyType, changes: string[]) {
+    const language = resolveLanguage(user.id);
     return this.createNotification(
       'duty_changed',
-      'Duty Assignment Changed',
-      `Your ${dutyType.name} assignment has been modified: ${changes.join(', ')}`,
+      translate(language, 'notifications.dutyChanged.title'),
+      translate(language, 'notifications.dutyChanged.message', {
+        duty: getDutyTypeName(dutyType, language),
+        changes: changes.join(', '),
+      }),
       user.id,
       'medium',
       { schedule, dutyType, changes }
@@ -161,10 +177,14 @@ class NotificationService {
   }
 
   notifyDutyCancelled(user: User, schedule: Schedule, dutyType: DutyType, reason?: string) {
+    const language = resolveLanguage(user.id);
+    const duty = getDutyTypeName(dutyType, language);
     return this.createNotification(
       'duty_cancelled',
-      'Duty Assignment Cancelled',
-      `Your ${dutyType.name} assignment has been cancelled${reason ? `: ${reason}` : ''}`,
+      translate(language, 'notifications.dutyCancelled.title'),
+      reason
+        ? translate(language, 'notifications.dutyCancelled.messageWithReason', { duty, reason })
+        : translate(language, 'notifications.dutyCancelled.message', { duty }),
       user.id,
       'high',
       { schedule, dutyType, reason }
@@ -175,7 +195,7 @@ class NotificationService {
     users.forEach(user => {
       this.createNotification(
         'conflict_detected',
-        'Schedule Conflict Detected',
+        translate(resolveLanguage(user.id), 'notifications.conflictDetected.title'),
         description,
         user.id,
         'high',
@@ -184,17 +204,78 @@ class NotificationService {
     });
   }
 
+  notifyDutiesNeedCover(scheduler: User, absentUser: User, schedules: Schedule[], dutyTypes: DutyType[]) {
+    const language = resolveLanguage(scheduler.id);
+    const duties = schedules.map(schedule => {
+      const dutyType = dutyTypes.find(dt => dt.id === schedule.dutyTypeId);
+      return translate(language, 'notifications.needCover.duty', {
+        duty: getDutyTypeName(dutyType, language) || translate(language, 'notifications.needCover.unknownDuty'),
+        time: new Date(schedule.startTime).toLocaleString(),
+      });
+    });
+
+    return this.createNotification(
+      'conflict_detected',
+      translate(language, 'notifications.needCover.title'),
+      translate(language, 'notifications.needCover.message', {
+        name: `${absentUser.rank} ${absentUser.firstName} ${absentUser.lastName}`,
+        duties: duties.join('; '),
+      }),
+      scheduler.id,
+      'high',
+      { schedules, absentUserId: absentUser.id }
+    );
+  }
+
   notifyDutyReminder(user: User, schedule: Schedule, dutyType: DutyType, hoursUntil: number) {
+    const language = resolveLanguage(user.id);
     return this.createNotification(
       'reminder',
-      'Upcoming Duty Reminder',
-      `${dutyType.name} starts in ${hoursUntil} hours`,
+      translate(language, 'notifications.reminder.title'),
+      translate(language, 'notifications.reminder.message', {
+        duty: getDutyTypeName(dutyType, language),
+        count: hoursUntil,
+      }),
       user.id,
       hoursUntil <= 2 ? 'high' : 'medium',
       { schedule, dutyType, hoursUntil }
     );
   }
 
+  notifyShiftSwapClaimed(offerer: User, claimant: User, schedule: Schedule, dutyType: DutyType) {
+    const language = resolveLanguage(offerer.id);
+    return this.createNotification(
+      'shift_swap',
+      translate(language, 'notifications.swapClaimed.title'),
+      translate(language, 'notifications.swapClaimed.message', {
+        name: `${claimant.rank} ${claimant.firstName} ${claimant.lastName}`,
+        duty: getDutyTypeName(dutyType, language),
+        date: new Date(schedule.startTime).toLocaleDateString(),
+      }),
+      offerer.id,
+      'medium',
+      { schedule, dutyType, claimantId: claimant.id }
+    );
+  }
+
+  notifyShiftSwapReviewed(user: User, schedule: Schedule, dutyType: DutyType, approved: boolean, reviewNotes?: string) {
+    const language = resolveLanguage(user.id);
+    const outcome = approved ? 'swapApproved' : 'swapRejected';
+    const params = {
+      duty: getDutyTypeName(dutyType, language),
+      date: new Date(schedule.startTime).toLocaleDateString(),
+      notes: reviewNotes || '',
+    };
+    return this.createNotification(
+      'shift_swap',
+      translate(language, `notifications.${outcome}.title`),
+      translate(language, reviewNotes ? `notifications.${outcome}.messageWithNotes` : `notifications.${outcome}.message`, params),
+      user.id,
+      approved ? 'high' : 'medium',
+      { schedule, dutyType, approved }
+    );
+  }
+
   notifySystemMaintenance(title: string, message: string, affectedUsers: string[] = ['all']) {
     affectedUsers.forEach(userId => {
       this.createNotification(
@@ -0,0 +1,250 @@
+import React from 'react';
+import { OutboxOperation } from '@/types';
+import { localDb } from './local-db';
+import { getActiveLanguage, translate } from './i18n';
+
+// Written by the server itself, so a cached copy can lag behind without anyone having edited it
+const SERVER_MANAGED_FIELDS = ['id', 'updatedAt', 'assignedAt'];
+
+// Carries what the server held when a queued write found it changed
+export class OutboxConflictError extends Error {
+  constructor(public serverCopy: Record<string, any> | null) {
+    super(translate(getActiveLanguage(), 'offline.serverChanged'));
+    this.name = 'OutboxConflictError';
+  }
+}
+
+// A write that can't wait in the outbox, refused while offline or while queued writes are still unsent
+export class OfflineWriteError extends Error {
+  constructor(public reason: 'offline' | 'pending') {
+    super(translate(getActiveLanguage(), reason === 'offline' ? 'offline.refusedOffline' : 'offline.refusedPending'));
+    this.name = 'OfflineWriteError';
+  }
+}
+
+// Sends a queued write to the backend and returns the server copy it left behind (none after a delete)
+export interface OutboxApplier {
+  apply(operation: OutboxOperation): Promise<Record<string, any> | undefined>;
+  // Undoes the local effect of an operation the user threw away
+  discard(operation: OutboxOperation): Promise<void>;
+}
+
+export type NewOutboxOperation = Omit<OutboxOperation, 'id' | 'sequence' | 'status' | 'createdAt'>;
+
+const comparable = (record: Record<string, any> | null | undefined) =>
+  record
+    ? JSON.stringify(
+        Object.keys(record)
+          .filter(key => !SERVER_MANAGED_FIELDS.includes(key) && record[key] !== undefined)
+          .sort()
+          .map(key => [key, record[key]])
+      )
+    : null;
+
+// True when someone else changed or deleted the record since the queued edit was made
+export const hasServerChanged = (base: Record<string, any> | undefined, serverCopy: Record<string, any> | undefined) =>
+  !!base && comparable(base) !== comparable(serverCopy);
+
+const isNetworkError = (error: any) =>
+  ['unavailable', 'deadline-exceeded'].includes(error?.code) ||
+  (typeof navigator !== 'undefined' && !navigator.onLine);
+
+class OutboxService {
+  private operations: OutboxOperation[] = [];
+  private subscribers: Array<(operations: OutboxOperation[]) => void> = [];
+  private refusalSubscribers: Array<(error: OfflineWriteError) => void> = [];
+  private applier: OutboxApplier | null = null;
+  private replaying: Promise<void> | null = null;
+  private loaded: Promise<void>;
+
+  constructor() {
+    this.loaded = this.loadOperations();
+  }
+
+  private async loadOperations() {
+    try {
+      const stored = await localDb.getAll('outbox');
+      // An operation caught mid-replay when the app closed has to be sent again
+      this.operations = stored
+        .map(op => op.status === 'SYNCING' ? { ...op, status: 'PENDING' as const } : op)
+        .sort((a, b) => a.sequence - b.sequence);
+      this.notifySubscribers();
+    } catch (error) {
+      console.error('Error loading offline changes:', error);
+    }
+  }
+
+  private notifySubscribers() {
+    this.subscribers.forEach(callback => callback([...this.operations]));
+  }
+
+  private async saveOperation(operation: OutboxOperation) {
+    this.operations = this.operations.map(op => op.id === operation.id ? operation : op);
+    this.notifySubscribers();
+    await localDb.put('outbox', [operation]);
+  }
+
+  private async removeOperation(operationId: string) {
+    this.operations = this.operations.filter(op => op.id !== operationId);
+    this.notifySubscribers();
+    await localDb.remove('outbox', [operationId]);
+  }
+
+  subscribe(callback: (operations: OutboxOperation[]) => void) {
+    this.subscribers.push(callback);
+    callback([...this.operations]);
+
+    return () => {
+      this.subscribers = this.subscribers.filter(sub => sub !== callback);
+    };
+  }
+
+  // Told about every refused write, so the user hears why whichever screen made it
+  onRefusedWrite(callback: (error: OfflineWriteError) => void) {
+    this.refusalSubscribers.push(callback);
+
+    return () => {
+      this.refusalSubscribers = this.refusalSubscribers.filter(sub => sub !== callback);
+    };
+  }
+
+  refuseWrite(reason: OfflineWriteError['reason']): OfflineWriteError {
+    const error = new OfflineWriteError(reason);
+    // Told after the caller's own error handling has run, so its generic failure toast doesn't replace this one
+    setTimeout(() => this.refusalSubscribers.forEach(callback => callback(error)), 0);
+    return error;
+  }
+
+  setApplier(applier: OutboxApplier) {
+    this.applier = applier;
+  }
+
+  hasOperations(): boolean {
+    return this.operations.length > 0;
+  }
+
+  async enqueue(operation: NewOutboxOperation): Promise<OutboxOperation> {
+    await this.loaded;
+
+    const queued: OutboxOperation = {
+      ...operation,
+      id: `outbox-${Date.now()}-${Math.random().toString(36).substr(2, 9)}`,
+      sequence: Math.max(0, ...this.operations.map(op => op.sequence)) + 1,
+      status: 'PENDING',
+      createdAt: new Date().toISOString(),
+    };
+
+    // Stored before the caller sees success, so a closed tab cannot lose the write
+    await localDb.put('outbox', [queued]);
+    this.operations = [...this.operations, queued];
+    this.notifySubscribers();
+    return queued;
+  }
+
+  // Layers the writes still waiting in the queue over records freshly read from the server
+  overlay<T extends { id: string }>(collectionName: string, records: T[]): T[] {
+    return this.operations
+      .filter(op => op.collection === collectionName)
+      .reduce((result, op) => {
+        const existing = result.find(r => r.id === op.docId);
+        if (op.type === 'DELETE') return result.filter(r => r.id !== op.docId);
+        if (existing) return result.map(r => r.id === op.docId ? { ...r, ...op.data } : r);
+        return op.type === 'CREATE' ? [...result, { ...op.data, id: op.docId } as T] : result;
+      }, records);
+  }
+
+  // Sends queued writes oldest first, stopping at the first one that needs the user
+  replay(): Promise<void> {
+    if (!this.replaying) {
+      this.replaying = this.replayQueue().finally(() => {
+        this.replaying = null;
+      });
+    }
+    return this.replaying;
+  }
+
+  private async replayQueue() {
+    await this.loaded;
+    if (!this.applier) return;
+
+    let next = this.operations[0];
+    while (next && next.status === 'PENDING') {
+      const operation = next;
+      await this.saveOperation({ ...operation, status: 'SYNCING', error: undefined });
+
+      try {
+        const serverCopy = await this.applier.apply(operation);
+        await this.removeOperation(operation.id);
+        await this.rebase(operation.docId, serverCopy);
+      } catch (error) {
+        if (error instanceof OutboxConflictError) {
+          await this.saveOperation({ ...operation, status: 'CONFLICT', serverCopy: error.serverCopy });
+        } else if (isNetworkError(error)) {
+          await this.saveOperation({ ...operation, status: 'PENDING' });
+        } else {
+          console.error('Error replaying offline change:', error);
+          await this.saveOperation({
+            ...operation,
+            status: 'FAILED',
+            error: error instanceof Error ? error.message : String(error),
+          });
+        }
+        return;
+      }
+
+      next = this.operations[0];
+    }
+  }
+
+  // Later edits to the same record were made on top of the one just sent, so they are now
+  // checked against what the server holds after it
+  private async rebase(docId: string, serverCopy: Record<string, any> | undefined) {
+    const later = this.operations.filter(op => op.docId === docId && op.type !== 'CREATE');
+    for (const operation of later) {
+      await this.saveOperation({ ...operation, base: serverCopy });
+    }
+  }
+
+  async retry(operationId: string) {
+    const operation = this.operations.find(op => op.id === operationId);
+    if (!operation) return;
+
+    await this.saveOperation({ ...operation, status: 'PENDING', error: undefined });
+    await this.replay();
+  }
+
+  // Conflict resolution: send the local change anyway, overwriting the server copy
+  async keepLocal(operationId: string) {
+    const operation = this.operations.find(op => op.id === operationId);
+    if (!operation) return;
+
+    await this.saveOperation({ ...operation, status: 'PENDING', force: true, serverCopy: undefined });
+    await this.replay();
+  }
+
+  // Drops the local change, keeping whatever the server holds, and carries on with the rest
+  async discard(operationId: string) {
+    const operation = this.operations.find(op => op.id === operationId);
+    if (!operation) return;
+
+    await this.removeOperation(operationId);
+    await this.applier?.discard(operation);
+    await this.replay();
+  }
+}
+
+export const outboxService = new OutboxService();
+
+// React hook for the queue
+export const useOutbox = () => {
+  const [operations, setOperations] = React.useState<OutboxOperation[]>([]);
+
+  React.useEffect(() => outboxService.subscribe(setOperations), []);
+
+  return {
+    operations,
+    retry: (id: string) => outboxService.retry(id),
+    keepLocal: (id: string) => outboxService.keepLocal(id),
+    discard: (id: string) => outboxService.discard(id),
+  };
+};
@@ -0,0 +1,92 @@
+import moment from 'moment';
+import { DutyTemplate, RecurrenceRule, Schedule } from '@/types';
+import { Language, translate } from './i18n';
+
+const DATE_FORMAT = 'YYYY-MM-DD';
+
+export const describeRecurrence = (rule: RecurrenceRule, language: Language): string => {
+  switch (rule.type) {
+    case 'DAILY':
+      return translate(language, 'recurrence.daily');
+    case 'WEEKLY':
+      return translate(language, 'recurrence.weekly', {
+        days: (rule.daysOfWeek || []).map(d => moment().day(d).format('ddd')).join(', '),
+      });
+    case 'EVERY_N_DAYS':
+      return translate(language, 'recurrence.everyNDays', { interval: rule.interval ?? 1 });
+  }
+};
+
+const matchesRule = (template: DutyTemplate, date: moment.Moment): boolean => {
+  const { recurrence } = template;
+  switch (recurrence.type) {
+    case 'DAILY':
+      return true;
+    case 'WEEKLY':
+      return (recurrence.daysOfWeek || []).includes(date.day());
+    case 'EVERY_N_DAYS':
+      return date.diff(moment(template.startDate, DATE_FORMAT), 'days') % Math.max(1, recurrence.interval || 1) === 0;
+  }
+};
+
+// Dates (YYYY-MM-DD) the template fires on within [from, until], clipped to the template's own range
+export const getOccurrenceDates = (template: DutyTemplate, from: string, until: string): string[] => {
+  const dates: string[] = [];
+  const cursor = moment.max(moment(from, DATE_FORMAT), moment(template.startDate, DATE_FORMAT));
+  const last = template.endDate
+    ? moment.min(moment(until, DATE_FORMAT), moment(template.endDate, DATE_FORMAT))
+    : moment(until, DATE_FORMAT);
+
+  while (cursor.isSameOrBefore(last, 'day')) {
+    if (matchesRule(template, cursor)) {
+      dates.push(cursor.format(DATE_FORMAT));
+    }
+    cursor.add(1, 'day');
+  }
+
+  return dates;
+};
+
+// Position of the date in the series, used to pick whose turn it is
+const getOccurrenceIndex = (template: DutyTemplate, date: string): number => {
+  return getOccurrenceDates(template, template.startDate, date).length - 1;
+};
+
+export const getOccurrenceTimes = (template: DutyTemplate, date: string): { startTime: string; endTime: string } => {
+  const start = moment(`${date} ${template.startTime}`, `${DATE_FORMAT} HH:mm`);
+  return {
+    startTime: start.toISOString(),
+    endTime: start.clone().add(template.durationHours, 'hours').toISOString(),
+  };
+};
+
+export const getCrewForDate = (template: DutyTemplate, date: string): string[] => {
+  if (template.crews.length === 0) return [];
+  return template.crews[getOccurrenceIndex(template, date) % template.crews.length];
+};
+
+// Materialise the series from the day after it was last generated up to the horizon
+export const expandTemplate = (
+  template: DutyTemplate,
+  until: string,
+  assignedBy: string
+): Omit<Schedule, 'id'>[] => {
+  const from = moment(template.generatedUntil, DATE_FORMAT).add(1, 'day').format(DATE_FORMAT);
+
+  return getOccurrenceDates(template, from, until).flatMap(date => {
+    const { startTime, endTime } = getOccurrenceTimes(template, date);
+    return getCrewForDate(template, date).map(userId => ({
+      userId,
+      dutyTypeId: template.dutyTypeId,
+      startTime,
+      endTime,
+      status: 'ASSIGNED' as const,
+      assignedBy,
+      assignedAt: new Date().toISOString(),
+      notes: template.notes,
+      isOverride: false,
+      seriesId: template.id,
+      seriesDate: date,
+    }));
+  });
+};
@@ -0,0 +1,22 @@
+import { Schedule, ScheduleQuery } from '@/types';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+// Older records hold local times without a zone, so text comparisons can be off by up to a day
+const ZONE_MARGIN_HOURS = 24;
+
+const shiftHours = (time: string, hours: number) =>
+  new Date(new Date(time).getTime() + hours * HOUR_MS).toISOString();
+
+// Index bounds for a range read: a duty overlaps the range when it ends after `from` and starts
+// before `to`, however long it runs. The exact overlap is left to matchesScheduleQuery.
+export const getOverlapBounds = ({ from, to }: ScheduleQuery): { endAfter?: string; startBefore?: string } => ({
+  endAfter: from ? shiftHours(from, -ZONE_MARGIN_HOURS) : undefined,
+  startBefore: to ? shiftHours(to, ZONE_MARGIN_HOURS) : undefined,
+});
+
+export const matchesScheduleQuery = (schedule: Schedule, { from, to, userId, seriesId }: ScheduleQuery): boolean =>
+  (!userId || schedule.userId === userId) &&
+  (!seriesId || schedule.seriesId === seriesId) &&
+  (!from || new Date(schedule.endTime) > new Date(from)) &&
+  (!to || new Date(schedule.startTime) < new Date(to));
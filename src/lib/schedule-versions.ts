@@ -0,0 +1,33 @@
+import moment from 'moment';
+import { Schedule } from '@/types';
+import { auditService } from './audit';
+
+// Thrown when an update was made against an older copy of a schedule than the one stored
+export class StaleScheduleError extends Error {
+  constructor(public current: Schedule) {
+    super(
+      `This duty was changed by ${current.updatedByName || 'another user'}` +
+      (current.updatedAt ? ` at ${moment(current.updatedAt).format('HH:mm')}` : '')
+    );
+    this.name = 'StaleScheduleError';
+  }
+}
+
+export const getScheduleVersion = (schedule: Schedule): number => schedule.version ?? 0;
+
+export const assertScheduleVersion = (current: Schedule, expectedVersion?: number) => {
+  if (expectedVersion !== undefined && getScheduleVersion(current) !== expectedVersion) {
+    throw new StaleScheduleError(current);
+  }
+};
+
+// Set on every schedule write, so the next editor can tell they hold an older copy
+export const stampScheduleChange = (current: Schedule): Pick<Schedule, 'version' | 'updatedAt' | 'updatedBy' | 'updatedByName'> => {
+  const actor = auditService.getActor();
+  return {
+    version: getScheduleVersion(current) + 1,
+    updatedAt: new Date().toISOString(),
+    updatedBy: actor.id,
+    updatedByName: actor.name,
+  };
+};
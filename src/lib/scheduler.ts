@@ -0,0 +1,323 @@
+import { User, DutyType, Schedule, Availability } from '@/types';
+import { constraintEngine, ConstraintContext } from './constraints';
+import { fairnessService } from './fairness';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const PRIORITY_ORDER: Record<DutyType['priority'], number> = {
+  HIGH: 0,
+  MEDIUM: 1,
+  LOW: 2,
+};
+
+export interface RosterOptions {
+  startDate: Date;
+  endDate: Date;
+  dutyTypeIds?: string[];
+  shiftStartHour?: number;
+  assignedBy: string;
+}
+
+export interface RosterData {
+  users: User[];
+  dutyTypes: DutyType[];
+  schedules: Schedule[];
+  availability: Availability[];
+}
+
+export interface RosterSlot {
+  key: string;
+  dutyTypeId: string;
+  startTime: string;
+  endTime: string;
+  required: number;
+  maxPersonnel: number;
+}
+
+export interface RosterAssignment {
+  slotKey: string;
+  schedule: Omit<Schedule, 'id'>;
+}
+
+export interface UnfilledSlot {
+  slot: RosterSlot;
+  missing: number;
+}
+
+export interface RosterDraft {
+  slots: RosterSlot[];
+  assignments: RosterAssignment[];
+  unfilled: UnfilledSlot[];
+  hoursByUser: Record<string, number>;
+}
+
+interface TimedEntry {
+  userId: string;
+  dutyTypeId: string;
+  start: number;
+  end: number;
+}
+
+class AutoSchedulerService {
+  // Only field personnel are rostered, matching the calendar's assignment form
+  isRosterable(user: User): boolean {
+    return user.isActive !== false && (user.role === 'RESERVIST' || user.role === 'NCO');
+  }
+
+  hasRequiredSkills(user: User, dutyType: DutyType): boolean {
+    const skills = user.skills || [];
+    return dutyType.requiredSkills.every(skill => skills.includes(skill));
+  }
+
+  // Build the duty slots for the range, aligned to the shift start hour
+  buildSlots(options: Pick<RosterOptions, 'startDate' | 'endDate' | 'dutyTypeIds' | 'shiftStartHour'>, dutyTypes: DutyType[]): RosterSlot[] {
+    const slots: RosterSlot[] = [];
+    const rangeEnd = options.endDate.getTime();
+
+    const selectedDutyTypes = dutyTypes
+      .filter(dt => !options.dutyTypeIds || options.dutyTypeIds.includes(dt.id))
+      .filter(dt => dt.duration > 0)
+      .sort((a, b) => PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority]);
+
+    for (const dutyType of selectedDutyTypes) {
+      const cursor = new Date(options.startDate);
+      cursor.setHours(options.shiftStartHour ?? 6, 0, 0, 0);
+
+      while (cursor.getTime() + dutyType.duration * HOUR_MS <= rangeEnd) {
+        const start = cursor.getTime();
+        const end = start + dutyType.duration * HOUR_MS;
+        const startTime = new Date(start).toISOString();
+
+        slots.push({
+          key: `${dutyType.id}_${startTime}`,
+          dutyTypeId: dutyType.id,
+          startTime,
+          endTime: new Date(end).toISOString(),
+          required: dutyType.minPersonnel,
+          maxPersonnel: dutyType.maxPersonnel,
+        });
+
+        cursor.setTime(end);
+      }
+    }
+
+    return slots;
+  }
+
+  // Users who could take the slot given everything already booked
+  findCandidates(
+    slot: RosterSlot,
+    data: RosterData,
+    assignments: RosterAssignment[],
+    hoursByUser: Record<string, number>
+  ): User[] {
+    const dutyType = data.dutyTypes.find(dt => dt.id === slot.dutyTypeId);
+    if (!dutyType) return [];
+
+    const start = new Date(slot.startTime).getTime();
+    const end = new Date(slot.endTime).getTime();
+    const booked = this.getBookedEntries(data.schedules, assignments);
+    const takenInSlot = assignments
+      .filter(a => a.slotKey === slot.key)
+      .map(a => a.schedule.userId);
+    const constraintContext: ConstraintContext = {
+      users: data.users,
+      dutyTypes: data.dutyTypes,
+      schedules: [
+        ...data.schedules,
+        ...assignments.map((a, index) => ({ ...a.schedule, id: `draft-${index}` })),
+      ],
+    };
+    const burdenByUser = fairnessService.getBurdenByUser(
+      constraintContext.schedules,
+      data.dutyTypes,
+      fairnessService.getRollingWindow(undefined, new Date(end))
+    );
+
+    return data.users
+      .filter(u => this.isRosterable(u))
+      .filter(u => !takenInSlot.includes(u.id))
+      .filter(u => this.hasRequiredSkills(u, dutyType))
+      .filter(u => this.getAvailabilityStatus(u.id, start, end, data.availability) !== 'UNAVAILABLE')
+      .filter(u => this.isRested(u.id, dutyType, start, end, booked, data.dutyTypes))
+      .filter(u => this.passesConstraints(u.id, slot, constraintContext))
+      .sort((a, b) => {
+        const limitedA = this.getAvailabilityStatus(a.id, start, end, data.availability) === 'LIMITED' ? 1 : 0;
+        const limitedB = this.getAvailabilityStatus(b.id, start, end, data.availability) === 'LIMITED' ? 1 : 0;
+        if (limitedA !== limitedB) return limitedA - limitedB;
+        const burdenDiff = (burdenByUser[a.id] || 0) - (burdenByUser[b.id] || 0);
+        if (burdenDiff !== 0) return burdenDiff;
+        return (hoursByUser[a.id] || 0) - (hoursByUser[b.id] || 0);
+      });
+  }
+
+  // Greedy fill: highest priority duties first, lowest fairness burden first
+  generateRoster(options: RosterOptions, data: RosterData): RosterDraft {
+    const slots = this.buildSlots(options, data.dutyTypes);
+    const assignments: RosterAssignment[] = [];
+    const unfilled: UnfilledSlot[] = [];
+    const hoursByUser = this.getExistingHours(options, data.schedules);
+
+    const orderedSlots = [...slots].sort((a, b) => {
+      const timeDiff = new Date(a.startTime).getTime() - new Date(b.startTime).getTime();
+      if (timeDiff !== 0) return timeDiff;
+      const dutyA = data.dutyTypes.find(dt => dt.id === a.dutyTypeId);
+      const dutyB = data.dutyTypes.find(dt => dt.id === b.dutyTypeId);
+      return PRIORITY_ORDER[dutyA!.priority] - PRIORITY_ORDER[dutyB!.priority];
+    });
+
+    for (const slot of orderedSlots) {
+      let filled = this.getExistingHeadcount(slot, data.schedules);
+
+      while (filled < slot.required) {
+        const [candidate] = this.findCandidates(slot, data, assignments, hoursByUser);
+        if (!candidate) break;
+
+        assignments.push({
+          slotKey: slot.key,
+          schedule: {
+            userId: candidate.id,
+            dutyTypeId: slot.dutyTypeId,
+            startTime: slot.startTime,
+            endTime: slot.endTime,
+            status: 'ASSIGNED',
+            assignedBy: options.assignedBy,
+            assignedAt: new Date().toISOString(),
+            notes: 'Auto-generated roster',
+            isOverride: false,
+          },
+        });
+
+        const hours = (new Date(slot.endTime).getTime() - new Date(slot.startTime).getTime()) / HOUR_MS;
+        hoursByUser[candidate.id] = (hoursByUser[candidate.id] || 0) + hours;
+        filled++;
+      }
+
+      if (filled < slot.required) {
+        unfilled.push({ slot, missing: slot.required - filled });
+      }
+    }
+
+    return { slots, assignments, unfilled, hoursByUser };
+  }
+
+  // Recompute unfilled slots and hours after the draft has been edited by hand
+  recalculateDraft(draft: RosterDraft, options: RosterOptions, data: RosterData): RosterDraft {
+    const hoursByUser = this.getExistingHours(options, data.schedules);
+    draft.assignments.forEach(a => {
+      const hours = (new Date(a.schedule.endTime).getTime() - new Date(a.schedule.startTime).getTime()) / HOUR_MS;
+      hoursByUser[a.schedule.userId] = (hoursByUser[a.schedule.userId] || 0) + hours;
+    });
+
+    const unfilled = draft.slots
+      .map(slot => {
+        const filled = this.getExistingHeadcount(slot, data.schedules) +
+          draft.assignments.filter(a => a.slotKey === slot.key).length;
+        return { slot, missing: slot.required - filled };
+      })
+      .filter(u => u.missing > 0);
+
+    return { ...draft, unfilled, hoursByUser };
+  }
+
+  private getBookedEntries(schedules: Schedule[], assignments: RosterAssignment[]): TimedEntry[] {
+    return [
+      ...schedules.filter(s => s.status !== 'CANCELLED'),
+      ...assignments.map(a => a.schedule),
+    ].map(s => ({
+      userId: s.userId,
+      dutyTypeId: s.dutyTypeId,
+      start: new Date(s.startTime).getTime(),
+      end: new Date(s.endTime).getTime(),
+    }));
+  }
+
+  // No overlap, enough rest after the previous duty, and enough rest before the next one
+  private isRested(
+    userId: string,
+    dutyType: DutyType,
+    start: number,
+    end: number,
+    booked: TimedEntry[],
+    dutyTypes: DutyType[]
+  ): boolean {
+    return booked
+      .filter(entry => entry.userId === userId)
+      .every(entry => {
+        if (entry.start < end && start < entry.end) return false;
+
+        if (entry.end <= start) {
+          const previousDuty = dutyTypes.find(dt => dt.id === entry.dutyTypeId);
+          const requiredRest = (previousDuty?.minRestAfter || 0) * HOUR_MS;
+          return start - entry.end >= requiredRest;
+        }
+
+        return entry.start - end >= dutyType.minRestAfter * HOUR_MS;
+      });
+  }
+
+  // Blocking (AUTOMATED) constraints rule a candidate out; advisory ones do not
+  private passesConstraints(
+    userId: string,
+    slot: RosterSlot,
+    context: ConstraintContext
+  ): boolean {
+    const violations = constraintEngine.evaluate([{
+      userId,
+      dutyTypeId: slot.dutyTypeId,
+      startTime: slot.startTime,
+      endTime: slot.endTime,
+      status: 'ASSIGNED',
+      assignedBy: '',
+      assignedAt: '',
+      isOverride: false,
+    }], context);
+    return !violations.some(v => v.blocking);
+  }
+
+  private getAvailabilityStatus(
+    userId: string,
+    start: number,
+    end: number,
+    availability: Availability[]
+  ): Availability['status'] {
+    const overlapping = availability.filter(a =>
+      a.userId === userId &&
+      new Date(a.startTime).getTime() < end &&
+      start < new Date(a.endTime).getTime()
+    );
+
+    if (overlapping.some(a => a.status === 'UNAVAILABLE')) return 'UNAVAILABLE';
+    if (overlapping.some(a => a.status === 'LIMITED')) return 'LIMITED';
+    return 'AVAILABLE';
+  }
+
+  private getExistingHeadcount(slot: RosterSlot, schedules: Schedule[]): number {
+    return schedules.filter(s =>
+      s.status !== 'CANCELLED' &&
+      s.dutyTypeId === slot.dutyTypeId &&
+      new Date(s.startTime).getTime() === new Date(slot.startTime).getTime()
+    ).length;
+  }
+
+  // Hours already on the books inside the range count towards fairness
+  private getExistingHours(options: RosterOptions, schedules: Schedule[]): Record<string, number> {
+    const hoursByUser: Record<string, number> = {};
+    const rangeStart = options.startDate.getTime();
+    const rangeEnd = options.endDate.getTime();
+
+    schedules
+      .filter(s => s.status !== 'CANCELLED')
+      .forEach(s => {
+        const start = Math.max(new Date(s.startTime).getTime(), rangeStart);
+        const end = Math.min(new Date(s.endTime).getTime(), rangeEnd);
+        if (end > start) {
+          hoursByUser[s.userId] = (hoursByUser[s.userId] || 0) + (end - start) / HOUR_MS;
+        }
+      });
+
+    return hoursByUser;
+  }
+}
+
+export const autoScheduler = new AutoSchedulerService();
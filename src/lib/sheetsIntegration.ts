@@ -1,7 +1,8 @@
 import * as XLSX from 'xlsx';
 import { saveAs } from 'file-saver';
 import { Schedule, User, DutyType } from '@/types';
-import { apiService } from './api';
+import { dataProvider } from './data-provider';
+import { localDb } from './local-db';
 
 export interface GoogleSheetsConfig {
   sheetId?: string;
@@ -44,12 +45,13 @@ class SheetsIntegrationService {
   // Configure Google Sheets integration
   setConfig(config: GoogleSheetsConfig) {
     this.config = config;
-    localStorage.setItem('idf_sheets_config', JSON.stringify(config));
+    localDb.setValue('idf_sheets_config', config).catch(error => {
+      console.error('Error saving Sheets configuration:', error);
+    });
   }
 
   getConfig(): GoogleSheetsConfig {
-    const stored = localStorage.getItem('idf_sheets_config');
-    return stored ? JSON.parse(stored) : {};
+    return localDb.getValue<GoogleSheetsConfig>('idf_sheets_config') || {};
   }
 
   // Export schedules to Excel/CSV
@@ -137,8 +139,8 @@ class SheetsIntegrationService {
           const jsonData = XLSX.utils.sheet_to_json(worksheet) as any[];
 
           const [users, dutyTypes] = await Promise.all([
-            apiService.fetchUsers(),
-            apiService.fetchDutyTypes(),
+            dataProvider.fetchUsers(),
+            dataProvider.fetchDutyTypes(),
           ]);
 
           const schedules: Omit<Schedule, 'id'>[] = [];
@@ -456,7 +458,7 @@ class SheetsIntegrationService {
       
       // Update last synced timestamp
       this.lastSyncedAt = new Date().toISOString();
-      localStorage.setItem('idf_last_synced_at', this.lastSyncedAt);
+      await localDb.setValue('idf_last_synced_at', this.lastSyncedAt);
 
       return {
         success: result.success,
@@ -527,7 +529,7 @@ class SheetsIntegrationService {
       
       // Update last synced timestamp
       this.lastSyncedAt = result.lastSyncedAt || new Date().toISOString();
-      localStorage.setItem('idf_last_synced_at', this.lastSyncedAt);
+      await localDb.setValue('idf_last_synced_at', this.lastSyncedAt);
 
       // Process schedules and detect conflicts
       const processedSchedules = result.schedules.map((schedule: any) => ({
@@ -656,7 +658,7 @@ class SheetsIntegrationService {
     }
 
     // Store configuration
-    localStorage.setItem('idf_auto_sync_interval', intervalMinutes.toString());
+    await localDb.setValue('idf_auto_sync_interval', intervalMinutes);
     
     // Set up polling interval
     this.autoSyncInterval = setInterval(async () => {
@@ -670,8 +672,8 @@ class SheetsIntegrationService {
         
         // Get current data (this would typically come from the app state)
         const [users, dutyTypes] = await Promise.all([
-          apiService.fetchUsers(),
-          apiService.fetchDutyTypes(),
+          dataProvider.fetchUsers(),
+          dataProvider.fetchDutyTypes(),
         ]);
 
         // Pull latest data from Google Sheets
@@ -722,7 +724,7 @@ class SheetsIntegrationService {
     }
 
     // Remove configuration
-    localStorage.removeItem('idf_auto_sync_interval');
+    await localDb.removeValue('idf_auto_sync_interval');
 
     // Remove event listener
     if ((this as any)._visibilityChangeHandler) {
@@ -739,13 +741,12 @@ class SheetsIntegrationService {
     intervalMinutes?: number;
     lastSyncedAt?: string;
   } {
-    const intervalStr = localStorage.getItem('idf_auto_sync_interval');
-    const lastSynced = localStorage.getItem('idf_last_synced_at');
-    
+    const intervalMinutes = localDb.getValue<number>('idf_auto_sync_interval');
+
     return {
-      enabled: intervalStr !== null && this.autoSyncInterval !== null,
-      intervalMinutes: intervalStr ? parseInt(intervalStr) : undefined,
-      lastSyncedAt: lastSynced || undefined,
+      enabled: intervalMinutes !== undefined && this.autoSyncInterval !== null,
+      intervalMinutes,
+      lastSyncedAt: localDb.getValue<string>('idf_last_synced_at'),
     };
   }
 
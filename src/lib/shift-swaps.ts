@@ -0,0 +1,71 @@
+import { Schedule, ShiftSwap, User } from '@/types';
+import { autoScheduler, RosterData, RosterSlot } from './scheduler';
+
+class ShiftSwapService {
+  // Colleagues who could take the offered duty; a returned duty leaves both rosters first
+  getEligibleClaimants(offered: Schedule, data: RosterData, returnSchedule?: Schedule): User[] {
+    const otherSchedules = this.withoutSwapped(data.schedules, offered, returnSchedule);
+    return autoScheduler
+      .findCandidates(this.toSlot(offered), { ...data, schedules: otherSchedules }, [], {})
+      .filter(u => u.id !== offered.userId);
+  }
+
+  canClaim(offered: Schedule, claimantId: string, data: RosterData, returnSchedule?: Schedule): boolean {
+    if (returnSchedule && returnSchedule.userId !== claimantId) return false;
+
+    const claimantEligible = this.getEligibleClaimants(offered, data, returnSchedule)
+      .some(u => u.id === claimantId);
+    if (!claimantEligible || !returnSchedule) return claimantEligible;
+
+    // In an exchange the offerer has to be able to take the claimant's duty too
+    const otherSchedules = this.withoutSwapped(data.schedules, offered, returnSchedule);
+    return autoScheduler
+      .findCandidates(this.toSlot(returnSchedule), { ...data, schedules: otherSchedules }, [], {})
+      .some(u => u.id === offered.userId);
+  }
+
+  // The claimant's upcoming duties they could hand back to the offerer in exchange
+  getReturnOptions(offered: Schedule, claimantId: string, data: RosterData): Schedule[] {
+    return data.schedules
+      .filter(s => s.userId === claimantId && s.status === 'ASSIGNED')
+      .filter(s => new Date(s.startTime) > new Date())
+      .filter(s => this.canClaim(offered, claimantId, data, s));
+  }
+
+  // A swap can only go through while both duties still belong to the people who traded them
+  isStale(swap: ShiftSwap, schedules: Schedule[]): boolean {
+    const offered = schedules.find(s => s.id === swap.scheduleId);
+    if (!offered || offered.userId !== swap.offeredBy || offered.status !== 'ASSIGNED') return true;
+    if (!swap.returnScheduleId) return false;
+
+    const returned = schedules.find(s => s.id === swap.returnScheduleId);
+    return !returned || returned.userId !== swap.claimedBy || returned.status !== 'ASSIGNED';
+  }
+
+  // Approval only applies to the claim the commander reviewed: the stored swap must still await
+  // approval with the same claimant and exchange, not cancelled or decided by someone else meanwhile
+  isAwaitingApproval(stored: ShiftSwap | undefined, reviewed: ShiftSwap): boolean {
+    return !!stored
+      && stored.status === 'CLAIMED'
+      && !!stored.claimedBy
+      && stored.claimedBy === reviewed.claimedBy
+      && stored.returnScheduleId === reviewed.returnScheduleId;
+  }
+
+  private withoutSwapped(schedules: Schedule[], offered: Schedule, returnSchedule?: Schedule): Schedule[] {
+    return schedules.filter(s => s.id !== offered.id && s.id !== returnSchedule?.id);
+  }
+
+  private toSlot(schedule: Schedule): RosterSlot {
+    return {
+      key: schedule.id,
+      dutyTypeId: schedule.dutyTypeId,
+      startTime: schedule.startTime,
+      endTime: schedule.endTime,
+      required: 1,
+      maxPersonnel: 1,
+    };
+  }
+}
+
+export const shiftSwapService = new ShiftSwapService();
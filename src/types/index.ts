@@ -54,6 +54,59 @@ export interface Schedule {
   lastSyncedAt?: string;
   syncConflict?: boolean;
   syncSource?: 'local' | 'sheets';
+  needsReassignment?: boolean;
+  reassignmentReason?: string;
+  seriesId?: string;
+  seriesDate?: string;
+  isSeriesException?: boolean;
+  // Bumped on every write; records saved before versioning count as version 0
+  version?: number;
+  updatedAt?: string;
+  updatedBy?: string;
+  updatedByName?: string;
+}
+
+// Schedules overlapping [from, to), optionally for one person or one recurring series; an omitted bound is left open
+export interface ScheduleQuery {
+  from?: string;
+  to?: string;
+  userId?: string;
+  seriesId?: string;
+}
+
+// One person's changes in a batch edit
+export interface UserChange {
+  userId: string;
+  updates: Partial<User>;
+}
+
+// An update checked against the version the caller read, when expectedVersion is given
+export interface ScheduleChange {
+  scheduleId: string;
+  updates: Partial<Schedule>;
+  expectedVersion?: number;
+}
+
+export interface RecurrenceRule {
+  type: 'DAILY' | 'WEEKLY' | 'EVERY_N_DAYS';
+  daysOfWeek?: number[];
+  interval?: number;
+}
+
+export interface DutyTemplate {
+  id: string;
+  name: string;
+  dutyTypeId: string;
+  startTime: string;
+  durationHours: number;
+  recurrence: RecurrenceRule;
+  crews: string[][];
+  startDate: string;
+  endDate?: string;
+  generatedUntil: string;
+  notes?: string;
+  createdBy: string;
+  createdAt: string;
 }
 
 export interface Availability {
@@ -64,6 +117,18 @@ export interface Availability {
   status: 'AVAILABLE' | 'UNAVAILABLE' | 'LIMITED';
   notes?: string;
   updatedAt: string;
+  patternId?: string;
+}
+
+export interface AvailabilityPattern {
+  id: string;
+  userId: string;
+  daysOfWeek: number[];
+  startHour: number;
+  endHour: number;
+  status: Availability['status'];
+  notes?: string;
+  createdAt: string;
 }
 
 export interface Constraint {
@@ -78,16 +143,248 @@ export interface Constraint {
   overrideReason?: string;
 }
 
+export interface ConstraintOverride {
+  id: string;
+  constraintId: string;
+  scheduleId?: string;
+  message: string;
+  overriddenBy: string;
+  overriddenAt: string;
+  reason: string;
+}
+
 export interface Conflict {
   id: string;
-  type: 'OVERLAP' | 'REST_VIOLATION' | 'SKILL_MISMATCH' | 'AVAILABILITY';
+  type: 'OVERLAP' | 'REST_VIOLATION' | 'SKILL_MISMATCH' | 'AVAILABILITY' | 'UNDERSTAFFED' | 'OVERSTAFFED' | 'CONSECUTIVE_HOURS';
   severity: 'HIGH' | 'MEDIUM' | 'LOW';
   description: string;
   affectedSchedules: string[];
+  // For understaffing: the slot and how many people it still needs, which may be nobody assigned yet
+  slot?: { dutyTypeId: string; startTime: string; endTime: string; missing: number };
   detectedAt: string;
   resolvedAt?: string;
   resolvedBy?: string;
   resolution?: string;
+  reopenedAt?: string;
+}
+
+export interface ConflictResolution {
+  id: string;
+  conflictId: string;
+  conflict: Conflict;
+  resolvedAt: string;
+  resolvedBy: string;
+  resolution: string;
+  scheduleFingerprint: string;
+}
+
+export type RequestStatus = 'PENDING' | 'APPROVED' | 'REJECTED';
+
+export interface LeaveRequest {
+  id: string;
+  userId: string;
+  startDate: string;
+  endDate: string;
+  reason: string;
+  status: RequestStatus;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+}
+
+export interface DutyChangeRequest {
+  id: string;
+  userId: string;
+  currentScheduleId: string;
+  requestedDutyTypeId: string;
+  reason: string;
+  status: RequestStatus;
+  requestedAt: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+}
+
+export interface ShiftSwap {
+  id: string;
+  scheduleId: string;
+  offeredBy: string;
+  offeredAt: string;
+  reason?: string;
+  status: 'OPEN' | 'CLAIMED' | 'APPROVED' | 'REJECTED' | 'CANCELLED';
+  claimedBy?: string;
+  claimedAt?: string;
+  returnScheduleId?: string;
+  reviewedBy?: string;
+  reviewedAt?: string;
+  reviewNotes?: string;
+}
+
+export type AuditAction = 'CREATE' | 'UPDATE' | 'DELETE' | 'APPROVE' | 'REJECT' | 'RESOLVE' | 'OVERRIDE' | 'RESTORE';
+
+export type AuditEntityType =
+  | 'SCHEDULE'
+  | 'USER'
+  | 'DUTY_TYPE'
+  | 'DUTY_TEMPLATE'
+  | 'AVAILABILITY'
+  | 'LEAVE_REQUEST'
+  | 'DUTY_CHANGE_REQUEST'
+  | 'SHIFT_SWAP'
+  | 'CONFLICT'
+  | 'CONSTRAINT'
+  | 'SETTINGS'
+  | 'BACKUP';
+
+export interface AuditEntry {
+  id: string;
+  timestamp: string;
+  actorId: string;
+  actorName: string;
+  action: AuditAction;
+  entityType: AuditEntityType;
+  entityId: string;
+  summary: string;
+  before?: Record<string, any>;
+  after?: Record<string, any>;
+}
+
+export interface AuditSnapshots {
+  before?: unknown;
+  after?: unknown;
+}
+
+export type OutboxOperationType = 'CREATE' | 'UPDATE' | 'DELETE';
+
+export type OutboxStatus = 'PENDING' | 'SYNCING' | 'FAILED' | 'CONFLICT';
+
+// A write made while offline, held until it can be replayed against the server
+export interface OutboxOperation {
+  id: string;
+  sequence: number;
+  type: OutboxOperationType;
+  entityType: AuditEntityType;
+  collection: string;
+  docId: string;
+  summary: string;
+  // The full record for a create, the changed fields for an update
+  data?: Record<string, any>;
+  // The copy the change was made against, checked against the server before replay
+  base?: Record<string, any>;
+  // What the server held instead, once a conflict is found
+  serverCopy?: Record<string, any> | null;
+  audit?: AuditEntry | null;
+  status: OutboxStatus;
+  // Set when the user chose to overwrite the server copy
+  force?: boolean;
+  error?: string;
+  createdAt: string;
+}
+
+// Every record the data layer holds, as written to and read back from a backup
+export interface OperationalData {
+  users: User[];
+  dutyTypes: DutyType[];
+  schedules: Schedule[];
+  availability: Availability[];
+  availabilityPatterns: AvailabilityPattern[];
+  dutyTemplates: DutyTemplate[];
+  conflicts: Conflict[];
+  conflictResolutions: ConflictResolution[];
+  leaveRequests: LeaveRequest[];
+  dutyChangeRequests: DutyChangeRequest[];
+  shiftSwaps: ShiftSwap[];
+}
+
+// The backend the UI reads and writes through: local storage, Firestore or in-memory
+export interface DataProvider {
+  fetchUsers(): Promise<User[]>;
+  createUser(userData: Omit<User, 'id'>): Promise<User>;
+  updateUser(userId: string, updates: Partial<User>): Promise<User>;
+  updateUsers(changes: UserChange[]): Promise<User[]>;
+  deleteUsers(userIds: string[]): Promise<void>;
+  authenticateUser(email: string, password: string): Promise<User | null>;
+
+  fetchDutyTypes(): Promise<DutyType[]>;
+  saveDutyType(dutyType: Omit<DutyType, 'id'>): Promise<DutyType>;
+  updateDutyType(dutyTypeId: string, updates: Partial<DutyType>): Promise<DutyType>;
+  deleteDutyType(dutyTypeId: string): Promise<void>;
+
+  fetchSchedules(): Promise<Schedule[]>;
+  querySchedules(query: ScheduleQuery): Promise<Schedule[]>;
+  saveSchedule(schedule: Omit<Schedule, 'id'>): Promise<Schedule>;
+  saveSchedules(schedules: Omit<Schedule, 'id'>[]): Promise<Schedule[]>;
+  // Rejects with StaleScheduleError when expectedVersion no longer matches the stored schedule
+  updateSchedule(scheduleId: string, updates: Partial<Schedule>, expectedVersion?: number): Promise<Schedule>;
+  // As updateSchedule for every change; one stale or missing schedule rejects the whole batch
+  updateSchedules(changes: ScheduleChange[]): Promise<Schedule[]>;
+  deleteSchedule(scheduleId: string): Promise<void>;
+  deleteSchedules(scheduleIds: string[]): Promise<void>;
+
+  fetchDutyTemplates(): Promise<DutyTemplate[]>;
+  saveDutyTemplate(template: Omit<DutyTemplate, 'id'>): Promise<DutyTemplate>;
+  updateDutyTemplate(templateId: string, updates: Partial<DutyTemplate>): Promise<DutyTemplate>;
+  deleteDutyTemplate(templateId: string): Promise<void>;
+
+  fetchAvailability(): Promise<Availability[]>;
+  saveAvailability(availability: Omit<Availability, 'id'>): Promise<Availability>;
+  updateAvailability(availabilityId: string, updates: Partial<Availability>): Promise<Availability>;
+  deleteAvailability(availabilityId: string): Promise<void>;
+  replaceAvailabilityInRange(
+    userId: string,
+    rangeStart: string,
+    rangeEnd: string,
+    records: Omit<Availability, 'id'>[]
+  ): Promise<Availability[]>;
+  fetchAvailabilityPatterns(): Promise<AvailabilityPattern[]>;
+  saveAvailabilityPattern(pattern: Omit<AvailabilityPattern, 'id'>): Promise<AvailabilityPattern>;
+  deleteAvailabilityPattern(patternId: string): Promise<void>;
+
+  getDashboardStats(): Promise<DashboardStats>;
+  detectConflicts(schedules: Schedule[]): Promise<Conflict[]>;
+  fetchConflictResolutions(): Promise<ConflictResolution[]>;
+  resolveConflict(conflict: Conflict, resolvedBy: string, resolution: string, schedules: Schedule[]): Promise<ConflictResolution>;
+
+  fetchLeaveRequests(): Promise<LeaveRequest[]>;
+  createLeaveRequest(request: Omit<LeaveRequest, 'id'>): Promise<LeaveRequest>;
+  reviewLeaveRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<LeaveRequest>;
+  fetchDutyChangeRequests(): Promise<DutyChangeRequest[]>;
+  createDutyChangeRequest(request: Omit<DutyChangeRequest, 'id'>): Promise<DutyChangeRequest>;
+  reviewDutyChangeRequest(
+    requestId: string,
+    status: Exclude<RequestStatus, 'PENDING'>,
+    reviewedBy: string,
+    reviewNotes?: string
+  ): Promise<DutyChangeRequest>;
+
+  fetchShiftSwaps(): Promise<ShiftSwap[]>;
+  createShiftSwap(swap: Omit<ShiftSwap, 'id'>): Promise<ShiftSwap>;
+  updateShiftSwap(swapId: string, updates: Partial<ShiftSwap>): Promise<ShiftSwap>;
+  approveShiftSwap(swap: ShiftSwap, reviewedBy: string, reviewNotes?: string): Promise<ShiftSwap>;
+
+  // Rule settings and the overrides recorded against them, shared by everyone using the backend
+  fetchConstraints(): Promise<Constraint[]>;
+  saveConstraints(constraints: Constraint[]): Promise<void>;
+  fetchConstraintOverrides(): Promise<ConstraintOverride[]>;
+  addConstraintOverrides(overrides: ConstraintOverride[]): Promise<void>;
+
+  fetchAuditLog(): Promise<AuditEntry[]>;
+  recordAudit(
+    action: AuditAction,
+    entityType: AuditEntityType,
+    entityId: string,
+    summary: string,
+    snapshots?: AuditSnapshots
+  ): Promise<void>;
+
+  exportData(): Promise<OperationalData>;
+  restoreData(data: OperationalData): Promise<void>;
 }
 
 export interface AuthContextType {